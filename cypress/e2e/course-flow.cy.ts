@@ -0,0 +1,29 @@
+// Runs against a server started with AI_PROVIDER=mock (see .github/workflows/ci.yml)
+describe("Upload → course → lesson → quiz", () => {
+  beforeEach(() => {
+    cy.clearLocalStorage();
+  });
+
+  it("builds a course from an uploaded file and answers a quiz question", () => {
+    cy.visit("/");
+    cy.contains("form", /upload and parse/i).within(() => {
+      cy.get('input[type="file"]').selectFile(
+        "cypress/fixtures/photosynthesis.txt"
+      );
+      cy.findByRole("button", { name: /upload and parse/i }).click();
+    });
+
+    cy.findByRole("button", {
+      name: /start learning/i,
+      timeout: 30000,
+    }).click();
+    cy.location("pathname").should("eq", "/lesson");
+
+    cy.findAllByRole("button", { name: /start quiz/i })
+      .first()
+      .click();
+    cy.get('input[type="radio"]').first().check();
+    cy.findByRole("button", { name: /check answer/i }).click();
+    cy.contains(/the correct answer is/i).should("exist");
+  });
+});
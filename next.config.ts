@@ -6,6 +6,10 @@ const nextConfig: NextConfig = {
   // typescript: { ignoreBuildErrors: true },
   eslint: { ignoreDuringBuilds: true },
   poweredByHeader: false,
+  experimental: {
+    // Long documents (up to ~1M chars) are sent to the course generation actions
+    serverActions: { bodySizeLimit: "4mb" },
+  },
   compress: true,
   productionBrowserSourceMaps: false,
   images: {
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { sweepSavedCourses } from "@/lib/link-health";
+
+// Runtime config for Node.js environment
+export const config = {
+  runtime: "nodejs",
+  maxDuration: 300,
+};
+
+// Courses checked per run unless `max` says otherwise; later runs continue
+const DEFAULT_MAX_COURSES = 25;
+
+/*
+  GET or POST /api/link-sweep?dryRun=1&max=25
+  Headers: { "x-admin-token": "SECRET" } or, from Vercel Cron,
+           { "authorization": "Bearer CRON_SECRET" }
+
+  Checks the resources of saved courses not checked in the last day,
+  replaces dead videos and stores a report per course (see
+  src/lib/link-health.ts). Always returns HTTP 200 with a SweepSummary:
+  { ok: true, checked, skipped, repaired, broken } or { ok: false, reason, note? }
+*/
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(200).json({ ok: false, reason: "method_not_allowed" });
+  }
+  const token = (req.headers["x-admin-token"] as string) || "";
+  const cronSecret = process.env.CRON_SECRET;
+  const isAdmin = !!token && token === process.env.ADMIN_API_TOKEN;
+  const isCron =
+    !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+  if (!isAdmin && !isCron) {
+    return res.status(200).json({ ok: false, reason: "unauthorized" });
+  }
+
+  const max = Number(req.query.max);
+  const result = await sweepSavedCourses({
+    dryRun: req.query.dryRun === "1" || req.query.dryRun === "true",
+    maxCourses: max > 0 ? max : DEFAULT_MAX_COURSES,
+  });
+  return res.status(200).json(result);
+}
@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { bearerToken, getServerSession } from "@/lib/server-session";
+import { reviewVideoReplacement } from "@/lib/video-replacement-review";
+
+/*
+  POST /api/video-replacements-choose
+  Headers: { "x-admin-token": "SECRET", "authorization": "Bearer <access token>" }
+  Body: { id: string; alternativeId: string }
+
+  Approves one of the row's `metadata.alternatives` instead of the logged
+  suggestion. Always returns HTTP 200 with a ReviewResult:
+  { ok: true, status: "approved", replacementId, coursesUpdated }
+  or { ok: false, reason, note? }
+*/
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(200).json({ ok: false, reason: "method_not_allowed" });
+  }
+  const token = (req.headers["x-admin-token"] as string) || "";
+  if (!token || token !== process.env.ADMIN_API_TOKEN) {
+    return res.status(200).json({ ok: false, reason: "unauthorized" });
+  }
+  // The reviewer recorded in the audit trail is the signed-in user
+  const session = await getServerSession(
+    bearerToken(req.headers.authorization)
+  );
+  if (!session) {
+    return res.status(200).json({
+      ok: false,
+      reason: "unauthorized",
+      note: "Sign in to review replacements",
+    });
+  }
+  const reviewer = session.email || session.userId;
+
+  const { id, alternativeId } = (req.body || {}) as {
+    id?: string;
+    alternativeId?: string;
+  };
+  if (!id || !alternativeId) {
+    return res.status(200).json({
+      ok: false,
+      reason: "invalid_body",
+      note: "Body must include id and alternativeId",
+    });
+  }
+
+  const result = await reviewVideoReplacement(id, {
+    action: "approve",
+    reviewer,
+    alternativeId,
+  });
+  return res.status(200).json(result);
+}
@@ -1,8 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import {
-  validateYouTubeUrl,
-  extractYouTubeId,
-} from "@/lib/youtube";
+import { extractYouTubeId } from "@/lib/youtube";
+import { processBatch, repairYouTubeItem } from "@/lib/youtube-repair";
 
 // Runtime config for Node.js environment
 export const config = {
@@ -12,25 +10,6 @@ export const config = {
 
 export const dynamic = "force-dynamic";
 
-function isYouTubeUrl(url: string): boolean {
-  try {
-    const u = new URL(url);
-    const h = u.hostname.replace(/^www\./, "").replace(/^m\./, "");
-    return h.endsWith("youtube.com") || h === "youtu.be";
-  } catch {
-    return false;
-  }
-}
-
-function isPlaylistUrl(url: string): boolean {
-  try {
-    const u = new URL(url);
-    return !!u.searchParams.get("list") || u.pathname.includes("/playlist");
-  } catch {
-    return false;
-  }
-}
-
 // Simple in-memory rate limiter per IP: 10 req/min
 const ipHits: Map<string, number[]> = new Map();
 function getClientIp(req: NextApiRequest): string {
@@ -52,39 +31,6 @@ function rateLimit(req: NextApiRequest, limit = 10, windowMs = 60_000): boolean
   return true;
 }
 
-// Process items with concurrency limit
-async function processBatch<T, R>(
-  items: T[],
-  processor: (item: T) => Promise<R>,
-  concurrency = 3
-): Promise<R[]> {
-  const results: R[] = [];
-  for (let i = 0; i < items.length; i += concurrency) {
-    const batch = items.slice(i, i + concurrency);
-    const batchResults = await Promise.all(batch.map(processor));
-    results.push(...batchResults);
-  }
-  return results;
-}
-
-// Retry wrapper for external API calls
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries = 3,
-  delayMs = 1000
-): Promise<T | null> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch {
-      if (attempt < maxRetries - 1) {
-        await new Promise(r => setTimeout(r, delayMs * (attempt + 1)));
-      }
-    }
-  }
-  return null;
-}
-
 /*
   POST /api/youtube-repair-batch
   Body: { items: Array<{ url: string; title?: string }> }
@@ -195,63 +141,7 @@ export default async function handler(
     console.log(`[${new Date().toISOString()}] youtube-repair-batch attempt`, { count: items.length });
 
     // Process items with concurrency control
-    const out = await processBatch(items, async (item) => {
-      const url = String(item?.url || "");
-      const title = item?.title || "";
-
-      if (!isYouTubeUrl(url) || isPlaylistUrl(url)) {
-        return {
-          originalUrl: url,
-          title,
-          ok: true,
-          reason: isPlaylistUrl(url) ? "playlist" : "invalid_url",
-          embedUrl: null,
-          openUrl: url,
-        };
-      }
-
-      // Validate with retry logic
-      const validated = await withRetry(() => validateYouTubeUrl(url));
-      
-      if (!validated) {
-        const id = extractYouTubeId(url);
-        return {
-          originalUrl: url,
-          title,
-          ok: true,
-          reason: "validation_failed",
-          embedUrl: null,
-          openUrl: id ? `https://www.youtube.com/watch?v=${id}` : url,
-          note: "Could not validate video, external link provided",
-        };
-      }
-
-      if (validated.embeddable) {
-        return {
-          originalUrl: url,
-          title,
-          ok: true,
-          reason: "ok",
-          embedUrl: validated.embedUrl,
-          openUrl: validated.watchUrl,
-          author: validated.author,
-          thumbnail: validated.thumbnail,
-        };
-      }
-
-      // Not embeddable
-      return {
-        originalUrl: url,
-        title,
-        ok: true,
-        reason: validated.reason || "unembeddable",
-        embedUrl: null,
-        openUrl: validated.watchUrl || url,
-        author: validated.author,
-        thumbnail: validated.thumbnail,
-        note: "Video cannot be embedded, external link provided",
-      };
-    }, 3); // Process 3 items concurrently
+    const out = await processBatch(items, (item) => repairYouTubeItem(item), 3); // Process 3 items concurrently
 
     res.setHeader(
       "Cache-Control",
@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import {
   validateYouTubeUrl,
   extractYouTubeId,
+  isYouTubeUrl,
 } from "@/lib/youtube";
 
 // Runtime config for Node.js environment
@@ -12,16 +13,6 @@ export const config = {
 
 export const dynamic = "force-dynamic";
 
-function isYouTubeUrl(url: string): boolean {
-  try {
-    const u = new URL(url);
-    const h = u.hostname.replace(/^www\./, "").replace(/^m\./, "");
-    return h.endsWith("youtube.com") || h === "youtu.be";
-  } catch {
-    return false;
-  }
-}
-
 function isPlaylistUrl(url: string): boolean {
   try {
     const u = new URL(url);
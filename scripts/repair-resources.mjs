@@ -3,7 +3,7 @@
 /*
   CLI: Batch-verify and auto-repair YouTube resources using oEmbed + YouTube Data API.
   Usage:
-    node scripts/repair-resources.mjs input.json [output.json]
+    npx tsx scripts/repair-resources.mjs input.json [output.json]
 
   Input format:
     - Array of resources: [{ type: "video"|"article"|"docs", title: string, url: string, ... }]
@@ -14,40 +14,14 @@
 
 import fs from "node:fs";
 import path from "node:path";
+// Run with tsx, which loads the TypeScript module
+import {
+  extractYouTubeId,
+  YT_EMBED_URL,
+  YT_VIDEO_URL,
+} from "../src/lib/youtube.ts";
 
 const YT_OEMBED = "https://www.youtube.com/oembed";
-const YT_VIDEO_URL = (id) => `https://www.youtube.com/watch?v=${id}`;
-const YT_EMBED_URL = (id) => `https://www.youtube-nocookie.com/embed/${id}`;
-
-function extractYouTubeId(rawUrl) {
-  if (!rawUrl || typeof rawUrl !== "string") return null;
-  try {
-    const url = new URL(rawUrl);
-    const host = url.hostname.replace(/^www\./, "");
-    if (host === "youtu.be") {
-      const id = url.pathname.split("/").filter(Boolean)[0];
-      return id && id.length === 11 ? id : null;
-    }
-    if (host.endsWith("youtube.com")) {
-      const p = url.pathname;
-      if (p === "/watch") {
-        const v = url.searchParams.get("v");
-        return v && v.length === 11 ? v : null;
-      }
-      const parts = p.split("/").filter(Boolean);
-      if ((parts[0] === "embed" || parts[0] === "v") && parts[1]) {
-        return parts[1].length === 11 ? parts[1] : null;
-      }
-      if (parts[0] === "shorts" && parts[1])
-        return parts[1].length === 11 ? parts[1] : null;
-      if (parts[0] === "live" && parts[1])
-        return parts[1].length === 11 ? parts[1] : null;
-    }
-  } catch {}
-  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-  const match = rawUrl.match(regExp);
-  return match && match[2].length === 11 ? match[2] : null;
-}
 
 async function fetchOEmbed(url) {
   try {
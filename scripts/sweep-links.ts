@@ -0,0 +1,53 @@
+/*
+  CLI: Check the resources of every saved course, replace dead videos and
+  store a link health report per course (see src/lib/link-health.ts).
+  Usage:
+    npm run sweep:links -- [--dry-run] [--max N] [--fresh-hours N]
+
+  --dry-run       report only; courses and reports are not written
+  --max N         stop after N courses
+  --fresh-hours N skip courses checked in the last N hours (default 24, 0 = none)
+*/
+
+import { sweepSavedCourses } from "@/lib/link-health";
+
+function numberArg(args: string[], name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index < 0) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} needs a number`);
+  }
+  return value;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const summary = await sweepSavedCourses({
+    dryRun,
+    maxCourses: numberArg(args, "--max"),
+    freshHours: numberArg(args, "--fresh-hours"),
+    onCourse: (courseId, health) => {
+      const { ok, repaired, degraded, broken, unreachable } = health.counts;
+      console.log(
+        `${courseId}: ${ok} ok, ${repaired} repaired, ${degraded} degraded, ${broken} broken, ${unreachable} unreachable`
+      );
+      for (const issue of health.issues) {
+        const replacement = issue.replacementUrl
+          ? ` → ${issue.replacementUrl}`
+          : "";
+        console.log(
+          `  [${issue.status}] ${issue.lessonTitle}: ${issue.url} (${issue.reason})${replacement}`
+        );
+      }
+    },
+  });
+  console.log(dryRun ? "Dry run:" : "Sweep:", summary);
+  if (!summary.ok) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -11,7 +11,7 @@
   5. Optional: attempt auto-fix by finding embeddable alternatives and write a mapping file
   
   Usage:
-    node scripts/validate-all-youtube.mjs [--autofix] [--out replacements.json]
+    npx tsx scripts/validate-all-youtube.mjs [--autofix] [--out replacements.json]
     
   Requirements:
     - YOUTUBE_API_KEY environment variable must be set
@@ -20,42 +20,13 @@
 import fs from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+// Shared with the app; `npm run validate:youtube` runs this through tsx
+import { extractYouTubeId } from "../src/lib/youtube.ts";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const YT_OEMBED = "https://www.youtube.com/oembed";
 
-// Extract YouTube ID from URL
-function extractYouTubeId(rawUrl) {
-  if (!rawUrl || typeof rawUrl !== "string") return null;
-  try {
-    const url = new URL(rawUrl);
-    const host = url.hostname.replace(/^www\./, "");
-    if (host === "youtu.be") {
-      const id = url.pathname.split("/").filter(Boolean)[0];
-      return id && id.length === 11 ? id : null;
-    }
-    if (host.endsWith("youtube.com")) {
-      const p = url.pathname;
-      if (p === "/watch") {
-        const v = url.searchParams.get("v");
-        return v && v.length === 11 ? v : null;
-      }
-      const parts = p.split("/").filter(Boolean);
-      if ((parts[0] === "embed" || parts[0] === "v") && parts[1]) {
-        return parts[1].length === 11 ? parts[1] : null;
-      }
-      if (parts[0] === "shorts" && parts[1])
-        return parts[1].length === 11 ? parts[1] : null;
-      if (parts[0] === "live" && parts[1])
-        return parts[1].length === 11 ? parts[1] : null;
-    }
-  } catch {}
-  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-  const match = rawUrl.match(regExp);
-  return match && match[2].length === 11 ? match[2] : null;
-}
-
 // Validate using oEmbed (fast check)
 async function validateWithOEmbed(url) {
   try {
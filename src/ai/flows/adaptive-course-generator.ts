@@ -0,0 +1,626 @@
+/**
+ * @fileOverview Adaptive Course Generation
+ *
+ * This module implements Stage 3 of the adaptive learning pipeline:
+ * Module Planning → Lesson Generation → Assessment Assembly → Study Schedule
+ */
+
+"use server";
+
+import { generateStructured } from "@/lib/structured-output";
+import {
+  GeneratedAdaptiveModuleSchema,
+  type GeneratedAdaptiveModule,
+} from "./schemas";
+import type {
+  AdaptiveCourse,
+  AdaptiveLesson,
+  AdaptiveModule,
+  AssessmentStrategy,
+  ContentChunk,
+  DifficultyLevel,
+  LearnerProfile,
+  LearningPlan,
+  LessonSection,
+  LessonSectionType,
+  PDFStructure,
+  PriorityLevel,
+  QuizQuestion,
+  StudySession,
+} from "@/lib/adaptive-types";
+
+export type AdaptiveCourseSource = {
+  filename: string;
+  pdfHash: string;
+  pageCount: number;
+};
+
+type GeneratedLesson = GeneratedAdaptiveModule["lessons"][number];
+
+type ModuleOutline = {
+  id: string;
+  title: string;
+  chunks: ContentChunk[];
+};
+
+const MAX_MODULES = 6;
+const MAX_CHUNKS_PER_MODULE = 4;
+const SCHEMA_VERSION = "1.0.0";
+
+/**
+ * Main entry point: Generate a personalised course from the PDF structure and learning plan
+ */
+export async function generateAdaptiveCourse(
+  pdfStructure: PDFStructure,
+  learningPlan: LearningPlan,
+  profile: LearnerProfile,
+  source: AdaptiveCourseSource
+): Promise<AdaptiveCourse> {
+  console.log("🏗️ Stage 3: Adaptive Course Generation Started");
+
+  // Step 1: Plan module structure from the relevant chunks
+  const outlines = planModuleStructure(
+    pdfStructure,
+    learningPlan.relevantChunkIds
+  );
+  console.log(`  Planned ${outlines.length} modules`);
+
+  // Step 2: Generate modules sequentially to keep provider load predictable
+  const modules: AdaptiveModule[] = [];
+  for (const outline of outlines) {
+    modules.push(await generateAdaptiveModule(outline, profile, learningPlan));
+  }
+
+  // Step 3: Wire lesson unlocking in reading order
+  linkLessonUnlocks(modules);
+
+  // Step 4: Assemble assessments from generated quizzes
+  const assessmentStrategy = buildAssessmentStrategy(modules, profile);
+
+  // Step 5: Create a study schedule from the pacing plan
+  const schedule = createStudySchedule(
+    modules,
+    learningPlan.pacing.minutesPerSession
+  );
+
+  const allLessons = modules.flatMap((m) => m.lessons);
+  const totalMinutes = allLessons.reduce(
+    (sum, l) => sum + l.estimatedMinutes,
+    0
+  );
+  const customizationCount = Object.values(
+    learningPlan.customizationStrategy
+  ).filter(Boolean).length;
+
+  console.log(
+    `✅ Adaptive Course Generated: ${modules.length} modules, ${allLessons.length} lessons`
+  );
+
+  return {
+    metadata: {
+      courseId: `adaptive-${source.pdfHash.slice(0, 12)}`,
+      generatedAt: new Date().toISOString(),
+      sourceDocument: source,
+      learnerProfile: profile,
+      customizationLevel: Math.round((customizationCount / 7) * 100),
+      version: SCHEMA_VERSION,
+    },
+    courseOverview: {
+      title: pdfStructure.metadata.title || source.filename,
+      description: buildCourseDescription(pdfStructure, profile),
+      learningObjectives: modules
+        .flatMap((m) => m.learningObjectives)
+        .slice(0, 8),
+      totalEstimatedHours: Math.round((totalMinutes / 60) * 10) / 10,
+      prerequisiteCheck: learningPlan.prerequisiteCheck,
+      roadmap: {
+        phases: [
+          {
+            phaseName: "Core Path",
+            description: `Personalised path for: ${profile.goal}`,
+            moduleIds: modules.map((m) => m.id),
+            gatekeeper: false,
+            estimatedWeeks: learningPlan.pacing.totalWeeks,
+          },
+        ],
+        criticalPath: modules
+          .filter((m) => m.priorityLevel === "critical")
+          .flatMap((m) => m.lessons.map((l) => l.id)),
+        optionalPath: modules
+          .filter(
+            (m) =>
+              m.priorityLevel === "supplementary" ||
+              m.priorityLevel === "optional"
+          )
+          .flatMap((m) => m.lessons.map((l) => l.id)),
+      },
+      keyTopics: pdfStructure.globalContext.mainTopics,
+      targetAudience: profile.backgroundLevel.replace(/_/g, " "),
+    },
+    modules,
+    assessmentStrategy,
+    adaptiveElements: {
+      difficultyScaling:
+        profile.quizDifficulty === "adaptive" ? "enabled" : "disabled",
+      contentPersonalization: {
+        examplesMatchProfile:
+          learningPlan.customizationStrategy.addMoreExamples,
+        languageSimplified: learningPlan.customizationStrategy.simplifyLanguage,
+        focusAreasHighlighted: (profile.focusAreas?.length || 0) > 0,
+        avoidedTopicsExcluded: (profile.avoid?.length || 0) > 0,
+        extraResourcesIncluded: (profile.includeExtras?.length || 0) > 0,
+      },
+      pacing: {
+        recommendedSchedule: schedule,
+        flexibilityAllowed: profile.pacePreference === "self_paced",
+      },
+    },
+  };
+}
+
+/**
+ * Group relevant chunks into module outlines
+ */
+function planModuleStructure(
+  pdfStructure: PDFStructure,
+  relevantChunkIds: string[]
+): ModuleOutline[] {
+  const relevant = new Set(relevantChunkIds);
+  let chunks = pdfStructure.contentChunks.filter((c) => relevant.has(c.id));
+
+  // If filtering removed everything, fall back to the whole document
+  if (chunks.length === 0) chunks = pdfStructure.contentChunks;
+
+  const groups: ContentChunk[][] = [];
+  let current: ContentChunk[] = [];
+
+  for (const chunk of chunks) {
+    // Start a new module at chapter-level headings or when the module is full
+    const startsChapter =
+      chunk.structure.level === 1 && !!chunk.structure.heading;
+    if (
+      current.length > 0 &&
+      (startsChapter || current.length >= MAX_CHUNKS_PER_MODULE)
+    ) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(chunk);
+  }
+  if (current.length > 0) groups.push(current);
+
+  // Too many chapters: rebalance into MAX_MODULES evenly sized modules
+  if (groups.length > MAX_MODULES) {
+    const perModule = Math.ceil(chunks.length / MAX_MODULES);
+    groups.length = 0;
+    for (let i = 0; i < chunks.length; i += perModule) {
+      groups.push(chunks.slice(i, i + perModule));
+    }
+  }
+
+  return groups.map((group, idx) => ({
+    id: `module-${idx}`,
+    title:
+      group[0].structure.heading ||
+      group[0].semantics.mainConcepts[0] ||
+      `Module ${idx + 1}`,
+    chunks: group,
+  }));
+}
+
+/**
+ * Generate a single module (one lesson per source chunk)
+ */
+async function generateAdaptiveModule(
+  outline: ModuleOutline,
+  profile: LearnerProfile,
+  learningPlan: LearningPlan
+): Promise<AdaptiveModule> {
+  const strategy = learningPlan.customizationStrategy;
+  const questionsPerLesson = questionsForFrequency(profile.quizFrequency);
+  // Adaptive quizzes need every level to choose from
+  const difficultyField =
+    profile.quizDifficulty === "adaptive"
+      ? `difficulty: "easy" | "medium" | "hard" (mix the levels within each lesson)`
+      : `difficulty: "${profile.quizDifficulty}"`;
+
+  const chunkContext = outline.chunks
+    .map((chunk, idx) => {
+      const excerpt =
+        chunk.rawText.length > 1500
+          ? chunk.rawText.substring(0, 1500) + "..."
+          : chunk.rawText;
+      return `--- CHUNK ${idx + 1} (${chunk.structure.heading || "untitled"}) ---
+Concepts: ${chunk.semantics.mainConcepts.join(", ") || "n/a"}
+Summary: ${chunk.semantics.summary}
+${excerpt}`;
+    })
+    .join("\n\n");
+
+  const adaptations = [
+    strategy.simplifyLanguage && "Use simple, jargon-free language.",
+    strategy.addMoreExamples && "Add concrete worked examples.",
+    strategy.emphasizePractice && "Emphasise practice over theory.",
+    strategy.reduceTheory && "Keep theoretical explanations short.",
+    strategy.focusOnExamFormat && "Frame quiz questions in exam style.",
+    strategy.includeRealWorldProjects && "Suggest a real-world application.",
+  ]
+    .filter(Boolean)
+    .join("\n- ");
+
+  const prompt = `Create one module of a personalised course from the document chunks below.
+
+LEARNER:
+- Goal: ${profile.goal}
+- Level: ${profile.backgroundLevel}
+- Style: ${profile.preferredStyle}
+${adaptations ? `\nADAPTATIONS:\n- ${adaptations}\n` : ""}
+CHUNKS:
+${chunkContext}
+
+TASK: Output JSON with:
+- moduleTitle: string
+- learningObjectives: string[] (2-4)
+- whyItMatters: string
+- realWorldApplications: string[] (1-3)
+- lessons: exactly ${outline.chunks.length} lessons, one per chunk in order, each with:
+  - lessonTitle: string
+  - objectives: string[] (2-3)
+  - difficulty: "easy" | "medium" | "hard"
+  - sections: Array<{type: "introduction"|"explanation"|"example"|"practice"|"summary", title: string, content: string, conceptsTaught: string[]}> (2-4)
+  - quiz: ${questionsPerLesson} questions, each {question: string, type: "MCQ", options: string[4], answer: string (exact match of one option), explanation: string, ${difficultyField}, conceptsTested: string[]}
+
+Output ONLY valid JSON, no explanation.`;
+
+  try {
+    const result = await generateStructured(
+      prompt,
+      GeneratedAdaptiveModuleSchema,
+      {
+        system: "You are an expert instructional designer. Output only JSON.",
+        timeout: 120000,
+        expect: "object",
+        flow: "generateAdaptiveModule",
+        label: `module ${outline.id}`,
+      }
+    );
+    if (!result.ok) throw result.error;
+    const parsed = result.data;
+    const lessons = outline.chunks.map((chunk, idx) =>
+      buildLesson(outline.id, idx, chunk, parsed.lessons?.[idx], profile)
+    );
+
+    return buildModule(outline, lessons, learningPlan, {
+      moduleTitle: parsed.moduleTitle,
+      learningObjectives: parsed.learningObjectives,
+      whyItMatters: parsed.whyItMatters,
+      realWorldApplications: parsed.realWorldApplications,
+    });
+  } catch (err) {
+    console.error(`❌ Module generation failed for ${outline.id}:`, err);
+    // Build the module from chunk semantics alone
+    const lessons = outline.chunks.map((chunk, idx) =>
+      buildLesson(outline.id, idx, chunk, undefined, profile)
+    );
+    return buildModule(outline, lessons, learningPlan, {});
+  }
+}
+
+/**
+ * Build an AdaptiveLesson from AI output, falling back to chunk semantics
+ */
+function buildLesson(
+  moduleId: string,
+  index: number,
+  chunk: ContentChunk,
+  generated: GeneratedLesson | undefined,
+  profile: LearnerProfile
+): AdaptiveLesson {
+  const id = `${moduleId}-lesson-${index}`;
+  const semantics = chunk.semantics;
+
+  const sections: LessonSection[] = Array.isArray(generated?.sections)
+    ? generated.sections
+        .filter((s) => s && typeof s.content === "string")
+        .map((s, sIdx) => ({
+          id: `${id}-section-${sIdx}`,
+          type: normalizeSectionType(s.type),
+          title: s.title || "",
+          content: s.content as string,
+          conceptsTaught: Array.isArray(s.conceptsTaught)
+            ? s.conceptsTaught
+            : [],
+          conceptsRevisited: [],
+          complexity: chunk.learningMetadata.cognitiveLoad,
+          estimatedMinutes: 0,
+        }))
+    : [];
+
+  if (sections.length === 0) {
+    sections.push({
+      id: `${id}-section-0`,
+      type: "explanation",
+      title: chunk.structure.heading || "Overview",
+      content: semantics.summary,
+      conceptsTaught: semantics.mainConcepts,
+      conceptsRevisited: [],
+      complexity: chunk.learningMetadata.cognitiveLoad,
+      estimatedMinutes: 0,
+    });
+    if (semantics.keyTakeaways.length > 0) {
+      sections.push({
+        id: `${id}-section-1`,
+        type: "summary",
+        title: "Key Takeaways",
+        content: semantics.keyTakeaways.join("\n"),
+        conceptsTaught: [],
+        conceptsRevisited: semantics.mainConcepts,
+        complexity: "low",
+        estimatedMinutes: 0,
+      });
+    }
+  }
+
+  // Spread the reading estimate across sections
+  const estimatedMinutes = Math.max(
+    5,
+    chunk.learningMetadata.estimatedReadingMinutes + 5
+  );
+  const perSection = Math.max(
+    1,
+    Math.round(estimatedMinutes / sections.length)
+  );
+  sections.forEach((s) => (s.estimatedMinutes = perSection));
+
+  const questions: QuizQuestion[] = Array.isArray(generated?.quiz)
+    ? generated.quiz
+        .filter((q) => q && q.question && q.answer)
+        .map((q, qIdx) => ({
+          id: `${id}-q${qIdx}`,
+          question: q.question as string,
+          type: "MCQ" as const,
+          options: Array.isArray(q.options) ? q.options : undefined,
+          answer: q.answer as string,
+          explanation: q.explanation,
+          difficulty:
+            profile.quizDifficulty === "adaptive"
+              ? q.difficulty || "medium"
+              : profile.quizDifficulty,
+          conceptsTested: Array.isArray(q.conceptsTested)
+            ? q.conceptsTested
+            : [],
+        }))
+    : [];
+
+  const standard = sections.map((s) => s.content).join("\n\n");
+
+  return {
+    id,
+    lessonTitle:
+      generated?.lessonTitle ||
+      chunk.structure.heading ||
+      `Lesson ${index + 1}`,
+    sections,
+    objectives: Array.isArray(generated?.objectives)
+      ? generated.objectives
+      : semantics.keyTakeaways.slice(0, 3),
+    estimatedMinutes,
+    difficulty: normalizeLessonDifficulty(
+      generated?.difficulty,
+      semantics.difficulty
+    ),
+    contentVariants: { standard },
+    resources: {
+      codeExamples: semantics.codeExamples.map((ex) => ({
+        language: ex.language || "text",
+        code: ex.code,
+        explanation: ex.explanation || "",
+        complexity: "simple" as const,
+      })),
+    },
+    checkpoints: [],
+    practiceProblems: [],
+    quiz: questions.length > 0 ? { questions, passingScore: 70 } : undefined,
+    relevanceToGoal: 100,
+    prerequisiteConcepts: semantics.prerequisites,
+    enablesUnlocking: [],
+    sourceChunkIds: [chunk.id],
+  };
+}
+
+/**
+ * Assemble an AdaptiveModule around generated lessons
+ */
+function buildModule(
+  outline: ModuleOutline,
+  lessons: AdaptiveLesson[],
+  learningPlan: LearningPlan,
+  generated: Omit<Partial<GeneratedAdaptiveModule>, "lessons">
+): AdaptiveModule {
+  const difficulties = outline.chunks.map((c) => c.semantics.difficulty);
+  const difficultyLevel: DifficultyLevel = difficulties.includes("advanced")
+    ? "advanced"
+    : difficulties.includes("moderate")
+      ? "moderate"
+      : "intro";
+
+  const alignedTopics = learningPlan.goalAlignment.alignedTopics.map((t) =>
+    t.toLowerCase()
+  );
+  const concepts = outline.chunks.flatMap((c) =>
+    c.semantics.mainConcepts.map((m) => m.toLowerCase())
+  );
+  const overlap = concepts.filter((c) =>
+    alignedTopics.some((t) => c.includes(t) || t.includes(c))
+  ).length;
+  const relevanceScore =
+    concepts.length > 0
+      ? Math.round((overlap / concepts.length) * 100)
+      : learningPlan.goalAlignment.relevanceScore;
+
+  const learningObjectives =
+    generated.learningObjectives && generated.learningObjectives.length > 0
+      ? generated.learningObjectives
+      : lessons.flatMap((l) => l.objectives).slice(0, 4);
+
+  const totalMinutes = lessons.reduce((sum, l) => sum + l.estimatedMinutes, 0);
+  const quizQuestions = lessons.flatMap((l) => l.quiz?.questions || []);
+
+  return {
+    id: outline.id,
+    moduleTitle: generated.moduleTitle || outline.title,
+    learningObjectives,
+    difficultyLevel,
+    estimatedHours: Math.round((totalMinutes / 60) * 10) / 10,
+    prerequisites: Array.from(
+      new Set(outline.chunks.flatMap((c) => c.semantics.prerequisites))
+    ),
+    lessons,
+    priorityLevel: priorityForRelevance(relevanceScore),
+    relevanceScore,
+    moduleIntro: {
+      whatYoullLearn: learningObjectives,
+      whyItMatters: generated.whyItMatters || "",
+      realWorldApplications: generated.realWorldApplications || [],
+      timeCommitment: `${totalMinutes} minutes`,
+    },
+    moduleQuiz:
+      quizQuestions.length > 0
+        ? { questions: quizQuestions.slice(0, 10), passingScore: 70 }
+        : undefined,
+  };
+}
+
+/**
+ * Each lesson unlocks the next one in reading order
+ */
+function linkLessonUnlocks(modules: AdaptiveModule[]): void {
+  const lessons = modules.flatMap((m) => m.lessons);
+  lessons.forEach((lesson, idx) => {
+    const next = lessons[idx + 1];
+    lesson.enablesUnlocking = next ? [next.id] : [];
+  });
+}
+
+/**
+ * Collect lesson and module quizzes into an assessment strategy
+ */
+function buildAssessmentStrategy(
+  modules: AdaptiveModule[],
+  profile: LearnerProfile
+): AssessmentStrategy {
+  const formativeQuizzes = modules.flatMap((m) =>
+    m.lessons
+      .filter((l) => l.quiz && l.quiz.questions.length > 0)
+      .map((l) => ({
+        id: `${l.id}-quiz`,
+        title: `${l.lessonTitle} Quiz`,
+        questions: l.quiz!.questions,
+        passingScore: l.quiz!.passingScore ?? 70,
+      }))
+  );
+
+  const allQuestions = formativeQuizzes.flatMap((q) => q.questions);
+  const summativeQuiz =
+    profile.quizFrequency !== "minimal" && allQuestions.length > 0
+      ? {
+          id: "summative-quiz",
+          title: "Final Assessment",
+          // Take one question per lesson for breadth
+          questions: formativeQuizzes.map((q) => q.questions[0]),
+          passingScore: 70,
+        }
+      : undefined;
+
+  return { formativeQuizzes, summativeQuiz };
+}
+
+/**
+ * Pack lessons into study sessions of roughly `minutesPerSession`
+ */
+function createStudySchedule(
+  modules: AdaptiveModule[],
+  minutesPerSession: number
+): StudySession[] {
+  const target = minutesPerSession > 0 ? minutesPerSession : 45;
+  const sessions: StudySession[] = [];
+  let current: StudySession | null = null;
+
+  for (const lesson of modules.flatMap((m) => m.lessons)) {
+    if (
+      !current ||
+      (current.lessonIds.length > 0 &&
+        current.estimatedMinutes + lesson.estimatedMinutes > target)
+    ) {
+      current = {
+        sessionNumber: sessions.length + 1,
+        lessonIds: [],
+        estimatedMinutes: 0,
+        objectives: [],
+      };
+      sessions.push(current);
+    }
+    current.lessonIds.push(lesson.id);
+    current.estimatedMinutes += lesson.estimatedMinutes;
+    current.objectives.push(...lesson.objectives.slice(0, 1));
+  }
+
+  return sessions;
+}
+
+function buildCourseDescription(
+  pdfStructure: PDFStructure,
+  profile: LearnerProfile
+): string {
+  const topics = pdfStructure.globalContext.mainTopics.slice(0, 3).join(", ");
+  return `A personalised course${topics ? ` on ${topics}` : ""}, tailored to your goal: "${profile.goal}".`;
+}
+
+function questionsForFrequency(
+  frequency: LearnerProfile["quizFrequency"]
+): number {
+  switch (frequency) {
+    case "minimal":
+      return 1;
+    case "comprehensive":
+      return 5;
+    case "every_lesson":
+      return 3;
+    default:
+      return 2;
+  }
+}
+
+function priorityForRelevance(score: number): PriorityLevel {
+  if (score >= 75) return "critical";
+  if (score >= 50) return "important";
+  if (score >= 25) return "supplementary";
+  return "optional";
+}
+
+function normalizeSectionType(type: unknown): LessonSectionType {
+  const allowed: LessonSectionType[] = [
+    "introduction",
+    "explanation",
+    "example",
+    "practice",
+    "summary",
+    "checkpoint",
+    "deep_dive",
+  ];
+  return allowed.includes(type as LessonSectionType)
+    ? (type as LessonSectionType)
+    : "explanation";
+}
+
+function normalizeLessonDifficulty(
+  generated: unknown,
+  chunkDifficulty: DifficultyLevel
+): AdaptiveLesson["difficulty"] {
+  if (generated === "easy" || generated === "medium" || generated === "hard") {
+    return generated;
+  }
+  if (chunkDifficulty === "advanced") return "hard";
+  if (chunkDifficulty === "moderate") return "medium";
+  return "easy";
+}
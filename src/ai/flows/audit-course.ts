@@ -11,29 +11,37 @@
  * @fileExport AuditCourseOutput - The return type for the auditCourse function.
  */
 
-import { aiGenerateStream } from "@/lib/ai-provider";
+import { generateStructured } from "@/lib/structured-output";
+import { AuditCourseOutputSchema, type AuditCourseOutput } from "./schemas";
 
 export type AuditCourseInput = {
   courseContent: string;
+  signal?: AbortSignal;
 };
 
-export type AuditCourseOutput = {
-  summary: any;
-  recommendations: string[];
-};
+export type { AuditCourseOutput };
 
 export async function auditCourse(
   input: AuditCourseInput
 ): Promise<AuditCourseOutput> {
   const system =
     "You are an expert AI instructional designer, course evaluator, and AI content auditor.";
-  const prompt = `Analyze the following course content and return a detailed JSON report highlighting what is working (✅), what is missing (❌), and suggestions for improvement.\n\nCourse Content:\n${input.courseContent}`;
-  let out = "";
-  for await (const chunk of aiGenerateStream(prompt, { system })) {
-    out += chunk;
-  }
-  // Try to extract the first JSON object from the response
-  const match = out.match(/\{[\s\S]*\}/);
-  if (!match) throw new Error("DeepSeek did not return a valid JSON object.");
-  return JSON.parse(match[0]);
+  const prompt = `Analyze the following course content and return a detailed JSON report highlighting what is working (✅), what is missing (❌), and suggestions for improvement.
+
+Output ONLY a JSON object with this structure:
+{
+  "summary": { "working": ["..."], "missing": ["..."] },
+  "recommendations": ["..."]
+}
+
+Course Content:
+${input.courseContent}`;
+  const result = await generateStructured(prompt, AuditCourseOutputSchema, {
+    system,
+    signal: input.signal,
+    expect: "object",
+    flow: "auditCourse",
+  });
+  if (!result.ok) throw result.error;
+  return result.data;
 }
@@ -0,0 +1,422 @@
+/**
+ * @fileOverview Standard course generation pipeline
+ *
+ * Analysis (single pass or map-reduce) → Course Transform → Quiz Validation
+ * → Video Enrichment
+ *
+ * Shared by the `generateCourseFromText` server action and the streaming
+ * /api/generate route. Server-only, but not a "use server" module: its
+ * exports take callbacks and mutate courses in place, so they must not be
+ * callable from the browser as server actions. Progress is reported through `onEvent`, and `signal`
+ * cancels whichever AI request is in flight. Finished courses are kept in the
+ * generation cache (src/lib/generation-cache.ts); `regenerate` skips it.
+ */
+
+import { analyzeDocument } from "./restructure-messy-pdf";
+import { analyzeLongDocument } from "./map-reduce-course";
+import { regenerateQuizQuestion } from "./regenerate-quiz-question";
+import type { AnalyzeDocumentOutput } from "./schemas";
+import type {
+  Course,
+  CourseAnalysis,
+  GenerationEvent,
+  Lesson,
+} from "@/lib/types";
+import { transformAnalysisToCourse } from "@/lib/course-transform";
+import { primaryRoute } from "@/lib/ai-provider";
+import {
+  QUIZ_ISSUE_LABELS,
+  summarizeQuizQuality,
+  validateCourseQuizzes,
+  type QuizQualityReport,
+} from "@/lib/quiz-quality";
+import {
+  generationCacheKey,
+  GENERATION_PROMPT_VERSION,
+  readCachedGeneration,
+  writeCachedGeneration,
+} from "@/lib/generation-cache";
+import {
+  matchVideosToLessons,
+  searchYouTubeForTopic,
+  validateAndSelectBestVideo,
+  type LessonWithQuery,
+  type VideoMatch,
+} from "@/lib/youtube-search";
+import { ollamaEmbed } from "@/lib/ollama";
+
+export type PdfVideo = {
+  id: string;
+  title: string;
+  watchUrl: string;
+  embedUrl?: string;
+};
+
+type PipelineOptions = {
+  duration?: string;
+  pdfVideos?: PdfVideo[];
+  signal?: AbortSignal;
+  onEvent?: (event: GenerationEvent) => void;
+  regenerate?: boolean; // ignore a cached course (the new one replaces it)
+};
+
+export type GeneratedCourse = {
+  course: Course;
+  analysis: AnalyzeDocumentOutput;
+  cacheKey: string;
+  cachedAt?: string; // set when served from the cache
+  audit?: string[]; // cached audit recommendations, if any
+};
+
+// Inputs up to this size are generated in a single pass
+const SINGLE_PASS_MAX_CHARS = 12000;
+
+/**
+ * Generate a course from extracted text, or return the cached course for
+ * identical input. Throws when generation fails, times out (5 minutes, 20
+ * for map-reduce) or is cancelled.
+ */
+export async function generateCourse(
+  text: string,
+  opts: PipelineOptions = {}
+): Promise<GeneratedCourse> {
+  const emit = opts.onEvent || (() => {});
+  // Longer inputs are drafted section by section and merged (map-reduce)
+  const useMapReduce = text.length > SINGLE_PASS_MAX_CHARS;
+  const route = primaryRoute("analyzeDocument");
+  const cacheKey = await generationCacheKey({
+    text,
+    duration: opts.duration,
+    provider: route.provider,
+    model: route.model,
+    pdfVideoIds: (opts.pdfVideos || []).map((v) => v.id),
+  });
+  const timeoutMinutes = useMapReduce ? 20 : 5;
+  const timeout = AbortSignal.timeout(timeoutMinutes * 60_000);
+  const signal = opts.signal
+    ? AbortSignal.any([opts.signal, timeout])
+    : timeout;
+
+  emit({ type: "extracted", chars: text.length, mapReduce: useMapReduce });
+
+  let moduleIndex = 0;
+  const emitModules = (modules: AnalyzeDocumentOutput["modules"] = []) => {
+    for (const mod of modules) {
+      const lessons = mod.lessons || [];
+      emit({ type: "module", index: moduleIndex, module: mod });
+      emit({
+        type: "quizzes",
+        index: moduleIndex,
+        lessons: lessons.length,
+        questions: lessons.reduce(
+          (sum: number, l: (typeof lessons)[number]) =>
+            sum + (l.quiz?.length || 0),
+          0
+        ),
+      });
+      moduleIndex++;
+    }
+  };
+
+  if (!opts.regenerate) {
+    const cached = await readCachedGeneration(cacheKey);
+    if (cached) {
+      console.log(`♻️ [Pipeline] Reusing course generated ${cached.createdAt}`);
+      emit({ type: "cached", generatedAt: cached.createdAt });
+      emitModules(cached.analysis.modules);
+      return {
+        course: cached.course,
+        analysis: cached.analysis,
+        cacheKey,
+        cachedAt: cached.createdAt,
+        audit: cached.audit,
+      };
+    }
+  }
+
+  // Cancelled while the cache was checked
+  signal.throwIfAborted();
+
+  try {
+    let analysis: AnalyzeDocumentOutput;
+    if (useMapReduce) {
+      analysis = await analyzeLongDocument({
+        textContent: text,
+        duration: opts.duration,
+        signal,
+        onProgress: (p) => {
+          emit({
+            type: "section",
+            section: p.section,
+            total: p.total,
+            title: p.title,
+            status: p.status,
+          });
+          if (p.draft) emitModules(p.draft.modules);
+        },
+        onWarning: (message) => emit({ type: "warning", message }),
+      });
+    } else {
+      analysis = await analyzeDocument({
+        textContent: text,
+        duration: opts.duration,
+        pdfVideos: opts.pdfVideos || [],
+        maxContentLength: SINGLE_PASS_MAX_CHARS,
+        signal,
+      });
+      emitModules(analysis?.modules);
+    }
+
+    if (!analysis || !analysis.modules || analysis.modules.length === 0) {
+      throw new Error(
+        "The AI could not generate a valid course structure. This can happen if:\n" +
+          "• The content is too short or unclear\n" +
+          "• The AI service is overloaded\n" +
+          "• The text doesn't contain structured educational content\n\n" +
+          "Try providing more detailed, structured content (e.g., lesson outlines, chapter headings)."
+      );
+    }
+
+    const course = transformAnalysisToCourse(analysis);
+    await checkGeneratedQuizzes(course, signal);
+    await enrichCourseWithVideos(course, opts.pdfVideos || [], {
+      signal,
+      onEvent: emit,
+    });
+    await writeCachedGeneration(cacheKey, {
+      course,
+      analysis,
+      createdAt: new Date().toISOString(),
+      promptVersion: GENERATION_PROMPT_VERSION,
+      provider: route.provider,
+      model: route.model,
+    });
+    return { course, analysis, cacheKey };
+  } catch (e) {
+    if (timeout.aborted) {
+      throw new Error(
+        `Course generation timed out after ${timeoutMinutes} minutes`
+      );
+    }
+    throw e;
+  }
+}
+
+/**
+ * Validate and repair the course's quiz questions in place (see
+ * src/lib/quiz-quality.ts), asking the model to rewrite rejected ones.
+ */
+export async function checkGeneratedQuizzes(
+  course: Course,
+  signal?: AbortSignal
+): Promise<QuizQualityReport> {
+  const report = await validateCourseQuizzes(course, {
+    regenerate: async (lesson, question, issues) => {
+      signal?.throwIfAborted();
+      const rewritten = await regenerateQuizQuestion(
+        {
+          lessonTitle: lesson.lesson_title,
+          keyPoints: lesson.key_points || [],
+          question: question.question,
+          options: question.options,
+          answer: question.answer,
+          problems: issues.map((issue) => QUIZ_ISSUE_LABELS[issue]),
+        },
+        signal
+      );
+      return {
+        ...question,
+        ...rewritten,
+        explanation: rewritten.explanation,
+        type: "MCQ",
+      };
+    },
+  });
+  console.log(`🧪 [Pipeline] Quiz quality: ${summarizeQuizQuality(report)}`);
+  return report;
+}
+
+/**
+ * Enhanced video enrichment pipeline:
+ * 1. Match PDF videos to lessons semantically
+ * 2. Search YouTube for lessons with videoSearchQuery
+ * 3. Skip videos gracefully if none found
+ */
+export async function enrichCourseWithVideos(
+  course: Course,
+  pdfVideos: PdfVideo[],
+  opts: Pick<PipelineOptions, "signal" | "onEvent"> = {}
+): Promise<void> {
+  console.log(`🎥 Starting video enrichment pipeline...`);
+  console.log(`   PDF videos: ${pdfVideos.length}`);
+  console.log(
+    `   Total lessons: ${course.sessions.flatMap((s) => s.lessons).length}`
+  );
+
+  // Step 1: Build lesson query map
+  const lessonsWithQueries: LessonWithQuery[] = [];
+  const lessonMap = new Map<string, Lesson>();
+
+  course.sessions.forEach((session) => {
+    session.lessons.forEach((lesson) => {
+      lessonMap.set(lesson.id, lesson);
+
+      // Extract videoSearchQuery from analysis_report if available
+      const videoSearchQuery = extractVideoSearchQuery(
+        course.analysis_report,
+        lesson.lesson_title
+      );
+
+      lessonsWithQueries.push({
+        lessonId: lesson.id,
+        lessonTitle: lesson.lesson_title,
+        keyPoints: lesson.key_points,
+        videoSearchQuery,
+      });
+    });
+  });
+
+  // Step 2: Match PDF videos to lessons semantically
+  let videoMatches = new Map<string, VideoMatch>();
+
+  if (pdfVideos.length > 0) {
+    console.log(`🔍 Matching ${pdfVideos.length} PDF videos to lessons...`);
+    videoMatches = await matchVideosToLessons(pdfVideos, lessonsWithQueries, {
+      embed: videoMatchEmbedder(),
+    });
+    console.log(`✅ Matched ${videoMatches.size} PDF videos to lessons`);
+  }
+
+  // Reports the video (if any) a lesson ended up with
+  const reportLesson = (lesson: Lesson) =>
+    opts.onEvent?.({
+      type: "video",
+      lessonId: lesson.id,
+      lessonTitle: lesson.lesson_title,
+      videoTitle: lesson.resources?.find((r) => r.type === "video")?.title,
+    });
+
+  // Step 3: For lessons without matched videos, search YouTube if query exists
+  for (const lessonQuery of lessonsWithQueries) {
+    opts.signal?.throwIfAborted();
+    const lesson = lessonMap.get(lessonQuery.lessonId);
+    if (!lesson) continue;
+
+    // Initialize resources array if missing
+    if (!lesson.resources) {
+      lesson.resources = [];
+    }
+
+    // Check if lesson already has a matched PDF video
+    const matchedVideo = videoMatches.get(lessonQuery.lessonId);
+    if (matchedVideo) {
+      console.log(
+        `✅ Adding matched PDF video to lesson "${lesson.lesson_title}"`
+      );
+      lesson.resources.push({
+        title: matchedVideo.title,
+        url: matchedVideo.watchUrl,
+        type: "video" as const,
+        matchConfidence: matchedVideo.confidence,
+      });
+      reportLesson(lesson);
+      continue;
+    }
+
+    // If no PDF match and videoSearchQuery exists, search YouTube
+    if (lessonQuery.videoSearchQuery) {
+      console.log(
+        `🔍 Searching YouTube for: "${lessonQuery.videoSearchQuery}"`
+      );
+
+      try {
+        const searchResults = await searchYouTubeForTopic(
+          lessonQuery.videoSearchQuery,
+          {
+            maxResults: 3,
+            minDuration: 120, // 2 minutes minimum
+          }
+        );
+
+        if (searchResults.length > 0) {
+          const validVideo = await validateAndSelectBestVideo(searchResults);
+
+          if (validVideo) {
+            console.log(
+              `✅ Found video for "${lesson.lesson_title}": ${validVideo.title}`
+            );
+            lesson.resources.push({
+              title: validVideo.title,
+              url: validVideo.watchUrl,
+              type: "video" as const,
+            });
+          } else {
+            console.log(
+              `⚠️ No embeddable video found for "${lesson.lesson_title}" (all search results blocked embedding)`
+            );
+          }
+        } else {
+          const apiKeyConfigured =
+            process.env.YOUTUBE_API_KEY ||
+            process.env.NEXT_PUBLIC_YOUTUBE_API_KEY;
+          if (!apiKeyConfigured) {
+            console.log(
+              `ℹ️ Skipping YouTube search for "${lesson.lesson_title}" (API key not configured)`
+            );
+          } else {
+            console.log(
+              `ℹ️ No YouTube videos found for query: "${lessonQuery.videoSearchQuery}"`
+            );
+          }
+        }
+      } catch (error: unknown) {
+        console.error(
+          `❌ YouTube search failed for "${lesson.lesson_title}":`,
+          (error as Error)?.message
+        );
+      }
+    } else {
+      console.log(
+        `ℹ️ No videoSearchQuery provided for lesson "${lesson.lesson_title}" - skipping video enrichment`
+      );
+    }
+    reportLesson(lesson);
+  }
+
+  const videosAdded = course.sessions
+    .flatMap((s) => s.lessons)
+    .filter((l) => l.resources?.some((r) => r.type === "video")).length;
+
+  console.log(
+    `🎥 Video enrichment complete: ${videosAdded} lessons have videos`
+  );
+}
+
+/**
+ * Extract videoSearchQuery from AI analysis output
+ */
+function extractVideoSearchQuery(
+  analysisReport: CourseAnalysis | undefined,
+  lessonTitle: string
+): string | undefined {
+  if (!analysisReport?.modules) return undefined;
+
+  for (const mod of analysisReport.modules) {
+    // videoSearchQuery is asked of the model but not part of the schema
+    const lesson = mod.lessons?.find((l) => l.lesson_title === lessonTitle) as
+      | { videoSearchQuery?: string }
+      | undefined;
+    if (lesson?.videoSearchQuery) {
+      return lesson.videoSearchQuery;
+    }
+  }
+
+  return undefined;
+}
+
+// Embeddings for video matching, from the same EMBEDDINGS_PROVIDER setting as
+// "Ask the Document"; without one, matching uses TF-IDF
+function videoMatchEmbedder() {
+  const provider = (process.env.EMBEDDINGS_PROVIDER || "none").toLowerCase();
+  return provider === "ollama" ? ollamaEmbed : undefined;
+}
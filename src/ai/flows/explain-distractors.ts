@@ -0,0 +1,52 @@
+"use server";
+
+/**
+ * @fileOverview A flow that explains why each wrong option of a
+ * multiple-choice question is wrong, grounded on the lesson
+ * (see src/lib/distractor-explanations.ts). Rationales are shared across
+ * learners through src/lib/rationale-cache.ts.
+ *
+ * @fileExport explainDistractors - Rationales keyed by wrong option.
+ */
+
+import {
+  buildDistractorPrompt,
+  matchRationales,
+  wrongOptions,
+  type DistractorLesson,
+  type DistractorQuestion,
+} from "@/lib/distractor-explanations";
+import {
+  rationaleCacheKey,
+  readCachedRationales,
+  writeCachedRationales,
+} from "@/lib/rationale-cache";
+import { generateStructured } from "@/lib/structured-output";
+import { DistractorRationalesSchema } from "./schemas";
+
+export async function explainDistractors(
+  question: DistractorQuestion,
+  lesson: DistractorLesson
+): Promise<Record<string, string>> {
+  const options = wrongOptions(question);
+  if (options.length === 0) return {};
+
+  const { system, prompt } = buildDistractorPrompt(question, lesson);
+  const key = await rationaleCacheKey({ system, prompt });
+  const cached = await readCachedRationales(key);
+  if (cached) return cached;
+
+  const result = await generateStructured(prompt, DistractorRationalesSchema, {
+    system,
+    timeout: 60_000,
+    expect: "object",
+    flow: "explainDistractors",
+  });
+  if (!result.ok) throw result.error;
+  const rationales = matchRationales(options, result.data.rationales);
+  // Partial answers aren't cached, so asking again can fill the gaps
+  if (Object.keys(rationales).length === options.length) {
+    await writeCachedRationales(key, rationales);
+  }
+  return rationales;
+}
@@ -10,7 +10,7 @@
  * @file generateQuizQuestions - a function that handles the quiz questions generation process.
  */
 
-import { aiGenerateStream } from "@/lib/ai-provider";
+import { generateStructured } from "@/lib/structured-output";
 import { z } from "zod";
 
 const GenerateQuizQuestionsInputSchema = z.object({
@@ -74,16 +74,11 @@ export async function generateQuizQuestions(
 ): Promise<GenerateQuizQuestionsOutput> {
   // Fill in the prompt
   const prompt = QUIZ_PROMPT.replace("{{{textContent}}}", input.textContent);
-  let fullResponse = "";
-  for await (const chunk of aiGenerateStream(prompt)) {
-    fullResponse += chunk;
-  }
-  // Extract the first JSON array from the response
-  const match = fullResponse.match(/\[[\s\S]*?\]/);
-  if (!match)
-    throw new Error(
-      "AI provider did not return a valid JSON array of questions."
-    );
-  const questions = JSON.parse(match[0]);
-  return { questions };
+  const result = await generateStructured(
+    prompt,
+    GenerateQuizQuestionsOutputSchema.shape.questions,
+    { expect: "array", flow: "generateQuizQuestions" }
+  );
+  if (!result.ok) throw result.error;
+  return { questions: result.data };
 }
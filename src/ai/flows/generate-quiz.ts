@@ -1,6 +1,8 @@
 "use server";
 
-import { aiGenerateStream } from "@/lib/ai-provider";
+import { generateStructured } from "@/lib/structured-output";
+import { QuizChunkOutputSchema, type AnalyzeDocumentOutput } from "./schemas";
+import type { z } from "zod";
 import {
   quizPromptTemplate,
   quizChunkPrompt,
@@ -10,7 +12,9 @@ export type GenerateQuizInput = {
   textContent: string;
 };
 
-export type GenerateQuizOutput = any;
+export type GenerateQuizOutput = AnalyzeDocumentOutput;
+
+type ChunkQuestion = z.infer<typeof QuizChunkOutputSchema>["questions"][number];
 
 const CHUNK_SIZE = 20000; // Process ~20k characters per chunk to stay within output limits
 
@@ -18,7 +22,7 @@ async function processChunk(
   text: string,
   chunkIndex: number,
   totalChunks: number
-): Promise<any[]> {
+): Promise<ChunkQuestion[]> {
   console.log(
     `📚 Processing chunk ${chunkIndex + 1}/${totalChunks} (${text.length} chars)...`
   );
@@ -32,40 +36,23 @@ async function processChunk(
     text
   );
 
-  let out = "";
   try {
-    for await (const chunk of aiGenerateStream(prompt, {
+    const result = await generateStructured(prompt, QuizChunkOutputSchema, {
       system,
       timeout: 300_000,
-    })) {
-      out += chunk;
-    }
-
-    console.log(
-      `🔍 Raw AI output for chunk ${chunkIndex + 1}: ${out.slice(0, 300)}...`
-    );
-
-    // Extract JSON
-    let jsonStr = out.trim();
-    if (jsonStr.includes("```json")) {
-      const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
-      jsonStr = match ? match[1] : jsonStr;
-    } else if (jsonStr.includes("```")) {
-      const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
-      jsonStr = match ? match[1] : jsonStr;
-    }
-
-    // Find the JSON object
-    const match = jsonStr.match(/\{[\s\S]*\}/);
-    if (!match) {
-      console.warn(`⚠️ Chunk ${chunkIndex + 1} returned no valid JSON object.`);
-      console.warn(`Raw output: ${out}`);
+      expect: "object",
+      flow: "generateQuiz",
+      label: `quiz chunk ${chunkIndex + 1}`,
+    });
+    if (!result.ok) {
+      console.warn(
+        `⚠️ Chunk ${chunkIndex + 1} returned no usable questions:`,
+        result.error.issues
+      );
       return [];
     }
 
-    const parsed = JSON.parse(match[0]);
-    // Extract questions from the simplified schema
-    const questions = parsed?.questions || [];
+    const questions = result.data.questions;
     console.log(
       `✅ Chunk ${chunkIndex + 1} extracted ${questions.length} questions.`
     );
@@ -75,7 +62,6 @@ async function processChunk(
     return questions;
   } catch (e) {
     console.error(`❌ Error processing chunk ${chunkIndex + 1}:`, e);
-    console.error(`Output was: ${out.slice(0, 500)}`);
     return [];
   }
 }
@@ -120,7 +106,7 @@ export async function generateQuiz(
   }
 
   // 4. Group questions by session
-  const sessionMap = new Map<string, any[]>();
+  const sessionMap = new Map<string, ChunkQuestion[]>();
 
   allQuestions.forEach((q) => {
     const sessionName = q.session || "General Questions";
@@ -150,6 +136,8 @@ export async function generateQuiz(
             options: q.options,
             answer: q.answer,
             explanation: q.explanation,
+            difficulty: q.difficulty,
+            conceptsTested: q.conceptsTested,
           })),
         },
       ],
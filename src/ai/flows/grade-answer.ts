@@ -0,0 +1,48 @@
+"use server";
+
+/**
+ * @fileOverview A flow that grades a free-text quiz answer the local fuzzy
+ * matcher could not decide (see src/lib/answer-grading.ts).
+ *
+ * @fileExport gradeAnswer - Grades a short-answer or code-completion response.
+ * @fileExport GradeAnswerInput - The input type for the gradeAnswer function.
+ * @fileExport GradeAnswerOutput - The return type for the gradeAnswer function.
+ */
+
+import { generateStructured } from "@/lib/structured-output";
+import { GradeAnswerOutputSchema, type GradeAnswerOutput } from "./schemas";
+
+export type GradeAnswerInput = {
+  question: string;
+  expectedAnswer: string;
+  response: string;
+  type: "Short" | "Code";
+  language?: string;
+};
+
+export type { GradeAnswerOutput };
+
+export async function gradeAnswer(
+  input: GradeAnswerInput
+): Promise<GradeAnswerOutput> {
+  const system =
+    "You are a fair, concise teaching assistant grading quiz answers. Output ONLY valid JSON.";
+  const kind =
+    input.type === "Code"
+      ? `code completion${input.language ? ` (${input.language})` : ""}. Accept any code that behaves the same as the reference solution, whatever its formatting or naming`
+      : "short answer. Accept answers that mean the same as the reference answer, allowing for spelling mistakes and different wording";
+  const prompt = `Grade a learner's ${kind}. Reject answers that are incomplete, contradict the reference, or hedge between alternatives.
+
+Output ONLY a JSON object: { "correct": true | false, "feedback": "one or two sentences for the learner" }
+
+Question: ${input.question}
+Reference answer: ${input.expectedAnswer}
+Learner answer: ${input.response}`;
+  const result = await generateStructured(prompt, GradeAnswerOutputSchema, {
+    system,
+    expect: "object",
+    flow: "gradeAnswer",
+  });
+  if (!result.ok) throw result.error;
+  return result.data;
+}
@@ -7,7 +7,8 @@
 
 "use server";
 
-import { aiGenerateStream } from "@/lib/ai-provider";
+import { generateStructured } from "@/lib/structured-output";
+import { GoalAlignmentSchema, PrerequisiteCheckSchema } from "./schemas";
 import type {
   LearnerProfile,
   PDFStructure,
@@ -133,23 +134,15 @@ Example:
 
 Output ONLY valid JSON, no explanation.`;
 
-  let response = "";
   try {
-    for await (const chunk of aiGenerateStream(prompt, {
+    const result = await generateStructured(prompt, GoalAlignmentSchema, {
       system: "You are an educational planning expert. Output only JSON.",
       timeout: 45000,
-    })) {
-      response += chunk;
-    }
-
-    const parsed = JSON.parse(extractJSON(response));
-    return {
-      relevanceScore: parsed.relevanceScore || 50,
-      alignedTopics: parsed.alignedTopics || [],
-      missingFromPDF: parsed.missingFromPDF || [],
-      excessInPDF: parsed.excessInPDF || [],
-      recommendations: parsed.recommendations || [],
-    };
+      expect: "object",
+      flow: "analyzeGoalAlignment",
+    });
+    if (!result.ok) throw result.error;
+    return result.data;
   } catch (err) {
     console.error("❌ Goal alignment analysis failed:", err);
     return {
@@ -196,23 +189,15 @@ TASK: Output JSON with:
 
 Output ONLY valid JSON, no explanation.`;
 
-  let response = "";
   try {
-    for await (const chunk of aiGenerateStream(prompt, {
+    const result = await generateStructured(prompt, PrerequisiteCheckSchema, {
       system: "You are an educational assessment expert. Output only JSON.",
       timeout: 45000,
-    })) {
-      response += chunk;
-    }
-
-    const parsed = JSON.parse(extractJSON(response));
-    return {
-      required: parsed.required || [],
-      recommended: parsed.recommended || [],
-      learnersLevel: parsed.learnersLevel || "ready",
-      isReadyToStart: parsed.isReadyToStart !== false,
-      gapsToBridge: parsed.gapsToBridge || [],
-    };
+      expect: "object",
+      flow: "assessPrerequisites",
+    });
+    if (!result.ok) throw result.error;
+    return result.data;
   } catch (err) {
     console.error("❌ Prerequisite assessment failed:", err);
     // Default to optimistic assessment
@@ -410,26 +395,6 @@ function calculateCompletionDate(
   return completionDate.toISOString().split("T")[0]; // YYYY-MM-DD
 }
 
-/**
- * Helper: Extract JSON from AI response
- */
-function extractJSON(response: string): string {
-  let jsonStr = response.trim();
-
-  // Remove markdown code blocks
-  if (jsonStr.includes("```json")) {
-    const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
-    jsonStr = match ? match[1] : jsonStr;
-  } else if (jsonStr.includes("```")) {
-    const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
-    jsonStr = match ? match[1] : jsonStr;
-  }
-
-  // Find first complete JSON object
-  const objMatch = jsonStr.match(/\{[\s\S]*\}/);
-  return objMatch?.[0] || jsonStr;
-}
-
 /**
  * Create a default learner profile for users who don't provide one
  */
@@ -0,0 +1,244 @@
+/**
+ * @fileOverview Map-reduce course generation for long documents
+ *
+ * Section Planning → Chunk Summaries (map) → Per-Section Module Drafts (map)
+ * → Merge & Dedupe (reduce)
+ *
+ * Single-pass generation only sees the first few thousand characters of a
+ * document; this flow covers the whole text by drafting each section
+ * separately and merging the drafts into one AnalyzeDocumentOutput. Sections
+ * longer than a draft prompt are summarized chunk by chunk first (and the
+ * summaries again, if needed), so no part of the text is cut off.
+ */
+
+"use server";
+
+import { aiGenerateStream } from "@/lib/ai-provider";
+import { mergeCourseDrafts, type SectionDraft } from "@/lib/course-merge";
+import { planSections, splitText } from "@/lib/pdf-segmentation";
+import {
+  analyzeDocument,
+  type AnalyzeDocumentInput,
+} from "./restructure-messy-pdf";
+import type { AnalyzeDocumentOutput } from "./schemas";
+
+export type SectionProgress = {
+  section: number; // 1-based
+  total: number;
+  title?: string;
+  status: "started" | "drafted" | "failed";
+  lessons?: number;
+  draft?: AnalyzeDocumentOutput; // set once the section is drafted
+};
+
+const MAX_SECTIONS = Number(process.env.MAP_REDUCE_MAX_SECTIONS) || 12;
+const SECTION_CHARS = 12000;
+// Summaries shorter than this lose too much; condensing stops there
+const MIN_SUMMARY_CHARS = 800;
+const MAX_SUMMARY_ROUNDS = 3;
+
+/**
+ * Main entry point: generate a course from a document of any length
+ */
+export async function analyzeLongDocument(
+  input: AnalyzeDocumentInput & {
+    onProgress?: (progress: SectionProgress) => void;
+    onWarning?: (message: string) => void; // text left out of the course
+  }
+): Promise<AnalyzeDocumentOutput> {
+  console.log("🗺️ Map-reduce generation started");
+
+  // Step 1: Plan sections across the full text
+  const sections = planSections(input.textContent, {
+    maxSections: MAX_SECTIONS,
+    sectionChars: SECTION_CHARS,
+  });
+  console.log(
+    `  Planned ${sections.length} sections from ${input.textContent.length} chars`
+  );
+
+  // Step 2 (map): draft modules per section, sequentially to keep provider
+  // load predictable
+  const drafts: SectionDraft[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    const section = sections[i];
+    const progress = {
+      section: i + 1,
+      total: sections.length,
+      title: section.title,
+    };
+    input.onProgress?.({ ...progress, status: "started" });
+
+    try {
+      const textContent = await condenseSection(
+        section.fullText,
+        input.signal,
+        (dropped) =>
+          input.onWarning?.(
+            `Section ${i + 1} (${section.title || "untitled"}): ${dropped.toLocaleString("en-US")} characters could not be summarized and were left out.`
+          )
+      );
+      const draft = await analyzeDocument({
+        textContent,
+        duration: input.duration,
+        maxContentLength: SECTION_CHARS,
+        signal: input.signal,
+      });
+      drafts.push({ sectionTitle: section.title, draft });
+      const lessons = (draft.modules || []).reduce(
+        (sum: number, m: AnalyzeDocumentOutput["modules"][number]) =>
+          sum + (m.lessons?.length || 0),
+        0
+      );
+      console.log(
+        `  ✅ Section ${i + 1}/${sections.length}: ${lessons} lessons`
+      );
+      input.onProgress?.({ ...progress, status: "drafted", lessons, draft });
+    } catch (e) {
+      // Cancellation ends the whole run rather than skipping the section
+      if (input.signal?.aborted) throw e;
+      console.warn(
+        `  ⚠️ Section ${i + 1}/${sections.length} failed:`,
+        (e as Error)?.message
+      );
+      input.onProgress?.({ ...progress, status: "failed" });
+      input.onWarning?.(
+        `Section ${i + 1} (${section.title || "untitled"}) could not be drafted; its ${section.sourceChars.toLocaleString("en-US")} characters are not covered by the course.`
+      );
+    }
+  }
+
+  if (drafts.length === 0) {
+    throw new Error(
+      "Course generation failed for every section of the document."
+    );
+  }
+
+  // Step 3 (reduce): merge drafts into one course with deduplicated lessons
+  const merged = mergeCourseDrafts(drafts);
+  merged.course_title = await generateCourseTitle(merged, drafts, input.signal);
+
+  console.log(
+    `✅ Map-reduce complete: ${merged.modules.length} modules from ${drafts.length} sections`
+  );
+  return merged;
+}
+
+/**
+ * Fit a section into one draft prompt without cutting it off: summarize it
+ * chunk by chunk, then the joined summaries again while they are still too
+ * long. Calls `onDropped` with the number of characters that only survive
+ * truncated (a summary failed, or the rounds ran out).
+ */
+async function condenseSection(
+  text: string,
+  signal: AbortSignal | undefined,
+  onDropped: (chars: number) => void
+): Promise<string> {
+  let dropped = 0;
+  for (
+    let round = 0;
+    round < MAX_SUMMARY_ROUNDS && text.length > SECTION_CHARS;
+    round++
+  ) {
+    const chunks = splitText(text, SECTION_CHARS);
+    const share = Math.max(
+      MIN_SUMMARY_CHARS,
+      Math.floor(SECTION_CHARS / chunks.length)
+    );
+    const summaries: string[] = [];
+    for (const chunk of chunks) {
+      try {
+        summaries.push(await summarizeChunk(chunk, share, signal));
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn("  ⚠️ Chunk summary failed:", (e as Error)?.message);
+        summaries.push(chunk.slice(0, share));
+        dropped += Math.max(0, chunk.length - share);
+      }
+    }
+    text = summaries.join("\n\n");
+  }
+  if (text.length > SECTION_CHARS) {
+    dropped += text.length - SECTION_CHARS;
+    text = text.slice(0, SECTION_CHARS);
+  }
+  if (dropped > 0) onDropped(dropped);
+  return text;
+}
+
+async function summarizeChunk(
+  chunk: string,
+  maxChars: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const prompt = `Summarize this part of a study document for a course author in at most ${maxChars} characters.
+Keep every heading, definition, key fact, formula and example; drop filler.
+Output only the summary.
+
+${chunk}`;
+
+  let out = "";
+  for await (const piece of aiGenerateStream(prompt, {
+    system:
+      "You are an expert instructional designer. Output only the summary.",
+    timeout: 60000,
+    signal,
+    flow: "summarizeSection",
+  })) {
+    out += piece;
+  }
+  const summary = out.trim();
+  if (!summary) throw new Error("Empty summary");
+  // Models overshoot length limits a little; allow some slack
+  return summary.slice(0, Math.ceil(maxChars * 1.2));
+}
+
+/**
+ * Name the merged course from its module outline; falls back to the first
+ * section draft's title.
+ */
+async function generateCourseTitle(
+  course: AnalyzeDocumentOutput,
+  drafts: SectionDraft[],
+  signal?: AbortSignal
+): Promise<string> {
+  const fallback = course.course_title;
+  const outline = course.modules
+    .map((m, i) => `${i + 1}. ${m.module_title}`)
+    .join("\n");
+  const draftTitles = drafts
+    .map((d) => d.draft.course_title)
+    .filter(Boolean)
+    .join("; ");
+
+  const prompt = `These modules were generated from consecutive sections of one document:
+${outline}
+
+Section-level titles suggested so far: ${draftTitles}
+
+Write ONE concise course title (max 10 words) covering the whole document.
+Output only the title, no quotes or explanation.`;
+
+  try {
+    let out = "";
+    for await (const chunk of aiGenerateStream(prompt, {
+      system:
+        "You are an expert instructional designer. Output only the title.",
+      timeout: 30000,
+      signal,
+      flow: "generateCourseTitle",
+    })) {
+      out += chunk;
+    }
+    const title = out
+      .trim()
+      .split("\n")[0]
+      .replace(/^["'#\s]+|["'\s]+$/g, "");
+    return title && title.length <= 120 ? title : fallback;
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn("⚠️ Course title generation failed:", (e as Error)?.message);
+    return fallback;
+  }
+}
@@ -7,7 +7,17 @@
 
 "use server";
 
-import { aiGenerateStream } from "@/lib/ai-provider";
+import { generateStructured } from "@/lib/structured-output";
+import {
+  ChunkSemanticsSchema,
+  DocumentMetadataSchema,
+  TableOfContentsSchema,
+} from "./schemas";
+import {
+  detectHeadingsAsTOC,
+  segmentByTOC,
+  segmentBySemanticBoundaries,
+} from "@/lib/pdf-segmentation";
 import type {
   PDFStructure,
   PDFMetadata,
@@ -95,16 +105,15 @@ TASK: Output a JSON object with:
 
 Output ONLY valid JSON, no explanation.`;
 
-  let response = "";
-  for await (const chunk of aiGenerateStream(prompt, {
-    system: "You are a document analysis expert. Output only JSON.",
-    timeout: 30000,
-  })) {
-    response += chunk;
-  }
-
   try {
-    const parsed = JSON.parse(extractJSON(response));
+    const result = await generateStructured(prompt, DocumentMetadataSchema, {
+      system: "You are a document analysis expert. Output only JSON.",
+      timeout: 30000,
+      expect: "object",
+      flow: "detectMetadata",
+    });
+    if (!result.ok) throw result.error;
+    const parsed = result.data;
     return {
       title: parsed.title || fileMetadata.filename,
       author: parsed.author,
@@ -161,56 +170,21 @@ TASK: Output a JSON array of entries with:
 
 Output ONLY valid JSON array, no explanation.`;
 
-  let response = "";
-  for await (const chunk of aiGenerateStream(prompt, {
-    system: "You are a document structure expert. Output only JSON.",
-    timeout: 30000,
-  })) {
-    response += chunk;
-  }
-
   try {
-    const parsed = JSON.parse(extractJSON(response));
-    return Array.isArray(parsed) ? parsed : [];
+    const result = await generateStructured(prompt, TableOfContentsSchema, {
+      system: "You are a document structure expert. Output only JSON.",
+      timeout: 30000,
+      expect: "array",
+      flow: "extractTableOfContents",
+    });
+    if (!result.ok) throw result.error;
+    return result.data;
   } catch (err) {
     console.warn("⚠️ TOC extraction failed, using heading detection");
     return detectHeadingsAsTOC(text);
   }
 }
 
-/**
- * Detect headings in text and create a synthetic TOC
- */
-function detectHeadingsAsTOC(text: string): TableOfContentsEntry[] {
-  const lines = text.split("\n");
-  const toc: TableOfContentsEntry[] = [];
-
-  // Simple heuristic: short lines (< 80 chars) in title case
-  lines.forEach((line, idx) => {
-    const trimmed = line.trim();
-    if (
-      trimmed.length > 5 &&
-      trimmed.length < 80 &&
-      /^[A-Z]/.test(trimmed) && // Starts with capital
-      !/[.;,]$/.test(trimmed) && // Doesn't end with punctuation
-      /[A-Z].*[a-z]/.test(trimmed) // Has mixed case
-    ) {
-      // Estimate level by indentation or numbering
-      let level = 1;
-      if (/^\d+\.\d+/.test(trimmed)) level = 2;
-      if (/^\d+\.\d+\.\d+/.test(trimmed)) level = 3;
-
-      toc.push({
-        level,
-        title: trimmed,
-        pageNumber: Math.floor(idx / 40), // Rough estimate: 40 lines/page
-      });
-    }
-  });
-
-  return toc.slice(0, 50); // Limit to 50 entries
-}
-
 /**
  * Segment document into meaningful chunks based on TOC and structure
  */
@@ -227,147 +201,6 @@ async function segmentContent(
   return segmentBySemanticBoundaries(text);
 }
 
-/**
- * Segment text using TOC as guide
- */
-function segmentByTOC(
-  text: string,
-  toc: TableOfContentsEntry[]
-): Array<Omit<ContentChunk, "semantics" | "learningMetadata">> {
-  const chunks: Array<Omit<ContentChunk, "semantics" | "learningMetadata">> =
-    [];
-  const lines = text.split("\n");
-
-  for (let i = 0; i < toc.length; i++) {
-    const entry = toc[i];
-    const nextEntry = toc[i + 1];
-
-    // Find text between this heading and next
-    const startIdx = lines.findIndex((line) =>
-      line.includes(entry.title.substring(0, 20))
-    );
-    const endIdx = nextEntry
-      ? lines.findIndex((line) =>
-          line.includes(nextEntry.title.substring(0, 20))
-        )
-      : lines.length;
-
-    if (startIdx >= 0 && endIdx > startIdx) {
-      const chunkText = lines.slice(startIdx, endIdx).join("\n");
-
-      // Skip very small chunks (< 100 chars)
-      if (chunkText.length < 100) continue;
-
-      chunks.push({
-        id: `chunk-${i}`,
-        sourcePages: [entry.pageNumber],
-        rawText: chunkText,
-        structure: {
-          heading: entry.title,
-          level: entry.level,
-          chunkType: inferChunkType(entry.title, chunkText),
-        },
-      });
-    }
-  }
-
-  return chunks;
-}
-
-/**
- * Segment text by semantic boundaries (paragraphs, sections)
- */
-function segmentBySemanticBoundaries(
-  text: string
-): Array<Omit<ContentChunk, "semantics" | "learningMetadata">> {
-  const chunks: Array<Omit<ContentChunk, "semantics" | "learningMetadata">> =
-    [];
-  const paragraphs = text.split(/\n\s*\n/); // Split by double newlines
-
-  const targetChunkSize = 2000; // ~2000 chars per chunk
-  let currentChunk = "";
-  let chunkIndex = 0;
-
-  for (const para of paragraphs) {
-    if (
-      currentChunk.length + para.length > targetChunkSize &&
-      currentChunk.length > 500
-    ) {
-      // Save current chunk
-      chunks.push({
-        id: `chunk-${chunkIndex++}`,
-        sourcePages: [Math.floor(chunkIndex / 2)], // Rough estimate
-        rawText: currentChunk,
-        structure: {
-          level: 2,
-          chunkType: inferChunkType("", currentChunk),
-        },
-      });
-      currentChunk = para;
-    } else {
-      currentChunk += "\n\n" + para;
-    }
-  }
-
-  // Add final chunk
-  if (currentChunk.length > 100) {
-    chunks.push({
-      id: `chunk-${chunkIndex}`,
-      sourcePages: [Math.floor(chunkIndex / 2)],
-      rawText: currentChunk,
-      structure: {
-        level: 2,
-        chunkType: inferChunkType("", currentChunk),
-      },
-    });
-  }
-
-  return chunks;
-}
-
-/**
- * Infer chunk type from title and content
- */
-function inferChunkType(
-  title: string,
-  content: string
-): ContentChunk["structure"]["chunkType"] {
-  const lower = (title + " " + content.substring(0, 200)).toLowerCase();
-
-  if (
-    lower.includes("introduction") ||
-    lower.includes("overview") ||
-    lower.includes("getting started")
-  ) {
-    return "introduction";
-  }
-  if (
-    lower.includes("example") ||
-    lower.includes("case study") ||
-    lower.includes("demo")
-  ) {
-    return "example";
-  }
-  if (
-    lower.includes("exercise") ||
-    lower.includes("practice") ||
-    lower.includes("problem")
-  ) {
-    return "exercise";
-  }
-  if (lower.includes("definition") || lower.includes("terminology")) {
-    return "definition";
-  }
-  if (lower.includes("summary") || lower.includes("conclusion")) {
-    return "summary";
-  }
-  if (lower.includes("reference") || lower.includes("appendix")) {
-    return "reference";
-  }
-
-  return "theory"; // Default
-}
-
 /**
  * Analyze chunks in parallel for performance
  */
@@ -423,16 +256,16 @@ TASK: Output JSON with:
 
 Output ONLY valid JSON, no markdown.`;
 
-  let response = "";
   try {
-    for await (const chunk of aiGenerateStream(prompt, {
+    const result = await generateStructured(prompt, ChunkSemanticsSchema, {
       system: "You are an educational content analyzer. Output only JSON.",
       timeout: 45000,
-    })) {
-      response += chunk;
-    }
-
-    const semantics = JSON.parse(extractJSON(response));
+      expect: "object",
+      flow: "analyzeChunkSemantics",
+      label: `chunk ${chunk.id}`,
+    });
+    if (!result.ok) throw result.error;
+    const semantics = result.data;
 
     // Calculate learning metadata
     const wordCount = chunk.rawText.split(/\s+/).length;
@@ -596,25 +429,3 @@ function detectDocumentType(
 
   return "unknown";
 }
-
-/**
- * Helper: Extract JSON from AI response (handles markdown code blocks)
- */
-function extractJSON(response: string): string {
-  let jsonStr = response.trim();
-
-  // Remove markdown code blocks
-  if (jsonStr.includes("```json")) {
-    const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
-    jsonStr = match ? match[1] : jsonStr;
-  } else if (jsonStr.includes("```")) {
-    const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
-    jsonStr = match ? match[1] : jsonStr;
-  }
-
-  // Find first complete JSON object or array
-  const objMatch = jsonStr.match(/\{[\s\S]*\}/);
-  const arrMatch = jsonStr.match(/\[[\s\S]*\]/);
-
-  return objMatch?.[0] || arrMatch?.[0] || jsonStr;
-}
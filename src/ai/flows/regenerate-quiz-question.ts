@@ -0,0 +1,62 @@
+"use server";
+
+/**
+ * @fileOverview A flow that rewrites a generated multiple-choice question the
+ * quiz validator rejected (see src/lib/quiz-quality.ts).
+ *
+ * @fileExport regenerateQuizQuestion - Rewrites one broken question for a lesson.
+ * @fileExport RegenerateQuizQuestionInput - The input type for the regenerateQuizQuestion function.
+ */
+
+import { generateStructured } from "@/lib/structured-output";
+import {
+  RegeneratedQuizQuestionSchema,
+  type RegeneratedQuizQuestion,
+} from "./schemas";
+
+export type RegenerateQuizQuestionInput = {
+  lessonTitle: string;
+  keyPoints: string[];
+  question: string;
+  options?: string[];
+  answer: string;
+  problems: string[]; // why the original was rejected
+};
+
+export async function regenerateQuizQuestion(
+  input: RegenerateQuizQuestionInput,
+  signal?: AbortSignal
+): Promise<RegeneratedQuizQuestion> {
+  const system =
+    "You are an expert educator fixing broken quiz questions. Output ONLY valid JSON.";
+  const prompt = `Rewrite this multiple-choice question for the lesson "${input.lessonTitle}" so it can be answered.
+
+Rules:
+- Exactly 4 distinct options, one of them correct
+- No "all of the above" or "none of the above" options
+- "answer" must be copied exactly from "options"
+- The explanation must agree with the answer
+
+Output ONLY a JSON object: { "question": "...", "options": ["...", "...", "...", "..."], "answer": "...", "explanation": "..." }
+
+Problems with the original: ${input.problems.join("; ")}
+
+Original question: ${input.question}
+Original options: ${(input.options || []).join(" | ") || "(none)"}
+Original answer: ${input.answer}
+
+Lesson notes:
+${input.keyPoints.join("\n")}`;
+  const result = await generateStructured(
+    prompt,
+    RegeneratedQuizQuestionSchema,
+    {
+      system,
+      expect: "object",
+      signal,
+      flow: "regenerateQuizQuestion",
+    }
+  );
+  if (!result.ok) throw result.error;
+  return result.data;
+}
@@ -8,15 +8,18 @@
  * - AnalyzeDocumentOutput - The return type for the analyzeDocument function.
  */
 
-import { aiGenerateStream } from "@/lib/ai-provider";
+import { generateStructured } from "@/lib/structured-output";
+import { GeneratedCourseSchema, type AnalyzeDocumentOutput } from "./schemas";
 
 export type AnalyzeDocumentInput = {
   textContent: string;
   duration?: string;
   pdfVideos?: Array<{ id: string; title: string; watchUrl: string; embedUrl?: string }>;
+  maxContentLength?: number; // defaults to 8000 chars
+  signal?: AbortSignal; // cancels the AI request
 };
 
-export type AnalyzeDocumentOutput = any;
+export type { AnalyzeDocumentOutput };
 
 export async function analyzeDocument(
   input: AnalyzeDocumentInput
@@ -26,7 +29,7 @@ export async function analyzeDocument(
     "You are an expert AI instructional designer. Output ONLY valid JSON, no markdown or explanation.";
 
   // Truncate very long content to avoid timeouts
-  const maxContentLength = 8000;
+  const maxContentLength = input.maxContentLength || 8000;
   const truncatedContent =
     input.textContent.length > maxContentLength
       ? input.textContent.substring(0, maxContentLength) +
@@ -63,16 +66,24 @@ STRUCTURE REQUIREMENTS:
   • summary (string, 2-3 sentences describing what this lesson covers)
   • key_points (array of 3-5 strings)
   • time_estimate_minutes (number, 10-30)
-  • quiz (array of 2-3 multiple-choice questions)
+  • quiz (array of 2-3 questions, mostly multiple-choice - see QUIZ FORMAT)
   • videoSearchQuery (optional string - see VIDEO POLICY below)
 
 QUIZ FORMAT:
 Each quiz question must have:
 - question: (string) Clear, specific question text
-- type: "MCQ"
-- options: (array of 4 strings) Four plausible options
-- answer: (string) Exact match to one of the options
+- type: "MCQ" | "Short" | "Code" | "Practical" (see QUESTION TYPES)
+- options: (array of 4 strings) Four plausible options - MCQ only
+- answer: (string) For MCQ an exact match to one of the options; otherwise the reference answer
 - explanation: (string) Brief explanation of why the answer is correct
+- difficulty: "easy" | "medium" | "hard" - vary it within each lesson (recall → application → analysis)
+- conceptsTested: (array of 1-2 strings) The key concepts the question checks, worded like the lesson's key_points
+
+QUESTION TYPES:
+- "MCQ": the default; use it for most questions
+- "Short": answered in a few words (a term, name or number); keep "answer" short
+- "Code": only for programming content; "question" shows code with a gap to fill, "answer" is the missing code, add "language" (e.g. "python")
+- "Practical": a hands-on task; "answer" is a model solution and "rubric" is an array of 2-4 criteria the learner checks their work against
 
 VIDEO POLICY - CRITICAL INSTRUCTIONS:
 ${input.pdfVideos && input.pdfVideos.length > 0
@@ -166,7 +177,9 @@ REQUIRED JSON STRUCTURE:
                 "Option D - plausible but incorrect"
               ],
               "answer": "Option B - correct answer",
-              "explanation": "Brief explanation of why Option B is the correct answer."
+              "explanation": "Brief explanation of why Option B is the correct answer.",
+              "difficulty": "medium",
+              "conceptsTested": ["First key concept or learning objective"]
             }
           ],
           "resources": {
@@ -203,99 +216,26 @@ ${truncatedContent}
 
 Remember: Output ONLY the JSON object. Start your response with { and end with }. No markdown, no explanations.`;
 
-  console.log("🤖 Streaming response from DeepSeek...");
-  let out = "";
-  let chunkCount = 0;
-  for await (const chunk of aiGenerateStream(prompt, {
+  console.log("🤖 Generating course structure...");
+  const result = await generateStructured(prompt, GeneratedCourseSchema, {
     system,
     timeout: 300_000,
-  })) {
-    out += chunk;
-    chunkCount++;
-    if (chunkCount % 50 === 0) {
-      console.log(
-        `📦 Received ${chunkCount} chunks, ${out.length} chars so far...`
-      );
-    }
+    signal: input.signal,
+    expect: "object",
+    flow: "analyzeDocument",
+  });
+  if (!result.ok) {
+    console.error(
+      "❌ Course generation returned unusable JSON:",
+      result.error.issues
+    );
+    throw result.error;
   }
+
   console.log(
-    `✅ DeepSeek completed. Total: ${out.length} chars in ${chunkCount} chunks`
+    "✅ Successfully parsed course with",
+    result.data.modules.length,
+    "modules"
   );
-
-  // Log raw response for debugging
-  console.log("🔍 Raw AI response (first 500 chars):", out.substring(0, 500));
-
-  // Extract JSON from response (handle markdown code blocks)
-  let jsonStr = out.trim();
-  if (jsonStr.includes("```json")) {
-    const match = jsonStr.match(/```json\s*([\s\S]*?)\s*```/);
-    jsonStr = match ? match[1] : jsonStr;
-  } else if (jsonStr.includes("```")) {
-    const match = jsonStr.match(/```\s*([\s\S]*?)\s*```/);
-    jsonStr = match ? match[1] : jsonStr;
-  }
-
-  // Find the first complete JSON object
-  const match = jsonStr.match(/\{[\s\S]*\}/);
-  if (!match) {
-    console.error("❌ No valid JSON found in AI response");
-    console.error("Full response:", out);
-    throw new Error("AI did not return a valid JSON object. Please try again.");
-  }
-
-  console.log("📦 Extracted JSON (first 300 chars):", match[0].substring(0, 300));
-
-  let parsed;
-  try {
-    parsed = JSON.parse(match[0]);
-  } catch (parseError: any) {
-    console.error("❌ JSON parse error:", parseError.message);
-    console.error("Attempted to parse:", match[0].substring(0, 500));
-    throw new Error("AI returned malformed JSON. Please try again.");
-  }
-
-  // Validate structure
-  if (!parsed.modules || !Array.isArray(parsed.modules) || parsed.modules.length === 0) {
-    console.error("❌ AI returned empty or invalid modules:", parsed);
-    console.warn("⚠️ AI course generation failed; using fallback minimal course for this document.");
-    console.log("🔧 Creating fallback minimal course structure...");
-
-    // Create a minimal fallback course based on the content
-    const fallbackTitle = parsed.course_title || "Introduction to " + truncatedContent.substring(0, 50).trim();
-    return {
-      course_title: fallbackTitle,
-      modules: [{
-        module_title: "Getting Started",
-        lessons: [{
-          lesson_title: "Introduction",
-          key_points: [
-            "Overview of the topic",
-            "Key concepts to understand",
-            "Learning objectives"
-          ],
-          time_estimate_minutes: 15,
-          quiz: [{
-            question: "What is the main topic of this course?",
-            type: "MCQ",
-            options: [
-              fallbackTitle,
-              "Unrelated topic A",
-              "Unrelated topic B",
-              "None of the above"
-            ],
-            answer: fallbackTitle,
-            explanation: "This course focuses on " + fallbackTitle
-          }],
-          resources: {
-            youtube: [],
-            articles: [],
-            pdfs_docs: []
-          }
-        }]
-      }]
-    };
-  }
-
-  console.log("✅ Successfully parsed course with", parsed.modules.length, "modules");
-  return parsed;
+  return result.data;
 }
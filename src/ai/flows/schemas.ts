@@ -22,10 +22,14 @@ const PdfDocResourceSchema = z.object({
 
 const QuizQuestionSchema = z.object({
   question: z.string().describe('The quiz question.'),
-  type: z.enum(["MCQ", "Short", "Practical"]).describe("The type of quiz question."),
+  type: z.enum(["MCQ", "Short", "Code", "Practical"]).describe("The type of quiz question."),
   options: z.array(z.string()).optional().describe("A list of options for MCQ questions."),
   answer: z.string().describe('The correct answer to the question.'),
   explanation: z.string().optional().describe('A brief explanation of the correct answer.'),
+  rubric: z.array(z.string()).optional().describe("Self-assessment criteria for Practical tasks."),
+  language: z.string().optional().describe("Programming language for Code questions."),
+  difficulty: z.enum(["easy", "medium", "hard"]).optional().describe("How hard the question is."),
+  conceptsTested: z.array(z.string()).optional().describe("The concepts the question checks."),
 });
 
 const LessonSchema = z.object({
@@ -52,3 +56,154 @@ export const AnalyzeDocumentOutputSchema = z.object({
 });
 
 export type AnalyzeDocumentOutput = z.infer<typeof AnalyzeDocumentOutputSchema>;
+
+// Schemas below validate raw model output (see src/lib/structured-output.ts).
+// Fields the flows can fill in themselves are optional or defaulted, so the
+// model is only re-prompted for structural problems.
+
+export const GeneratedCourseSchema = AnalyzeDocumentOutputSchema.extend({
+  modules: z.array(ModuleSchema).min(1, "The course needs at least one module."),
+});
+
+export const QuizChunkOutputSchema = z.object({
+  questions: z.array(
+    QuizQuestionSchema.extend({
+      type: QuizQuestionSchema.shape.type.optional(),
+      session: z.string().optional().describe("The category the question belongs to."),
+    })
+  ),
+});
+
+export const AuditCourseOutputSchema = z.object({
+  summary: z.object({
+    working: z.array(z.string()).default([]).describe("What works well (✅)."),
+    missing: z.array(z.string()).default([]).describe("What is missing (❌)."),
+  }),
+  recommendations: z.array(z.string()).describe("Suggestions for improvement."),
+});
+
+export type AuditCourseOutput = z.infer<typeof AuditCourseOutputSchema>;
+
+export const MissingContentChecklistSchema = z.array(z.string());
+
+const nullableString = z.string().nullish().transform((v) => v ?? undefined);
+
+export const DocumentMetadataSchema = z.object({
+  title: z.string().optional(),
+  author: nullableString,
+  subject: nullableString,
+  detectedLanguage: z.string().optional(),
+  keywords: z.array(z.string()).default([]),
+});
+
+export const TableOfContentsSchema = z.array(
+  z.object({
+    level: z.number(),
+    title: z.string(),
+    pageNumber: z.number().default(0),
+  })
+);
+
+export const ChunkSemanticsSchema = z.object({
+  mainConcepts: z.array(z.string()).default([]),
+  keyDefinitions: z.array(z.object({ term: z.string(), definition: z.string() })).default([]),
+  codeExamples: z
+    .array(z.object({ language: z.string().optional(), code: z.string(), explanation: z.string().optional() }))
+    .default([]),
+  formulas: z.array(z.string()).default([]),
+  difficulty: z.enum(["intro", "moderate", "advanced"]).default("moderate"),
+  prerequisites: z.array(z.string()).default([]),
+  summary: z.string(),
+  keyTakeaways: z.array(z.string()).default([]),
+});
+
+export const GoalAlignmentSchema = z.object({
+  relevanceScore: z.number().min(0).max(100),
+  alignedTopics: z.array(z.string()).default([]),
+  missingFromPDF: z.array(z.string()).default([]),
+  excessInPDF: z.array(z.string()).default([]),
+  recommendations: z.array(z.string()).default([]),
+});
+
+export const PrerequisiteCheckSchema = z.object({
+  required: z.array(z.string()).default([]),
+  recommended: z.array(z.string()).default([]),
+  learnersLevel: z.enum(["ready", "needs_prep", "challenging_but_doable", "too_advanced"]).default("ready"),
+  isReadyToStart: z.boolean().default(true),
+  gapsToBridge: z
+    .array(
+      z.object({
+        concept: z.string(),
+        importance: z.enum(["critical", "important", "nice_to_have"]),
+        suggestedPrework: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+// Per-module output of the adaptive course generator; missing lesson fields
+// fall back to the source chunk's semantics
+export const GeneratedAdaptiveModuleSchema = z.object({
+  moduleTitle: z.string().optional(),
+  learningObjectives: z.array(z.string()).optional(),
+  whyItMatters: z.string().optional(),
+  realWorldApplications: z.array(z.string()).optional(),
+  lessons: z.array(
+    z.object({
+      lessonTitle: z.string().optional(),
+      objectives: z.array(z.string()).optional(),
+      difficulty: z.string().optional(),
+      sections: z
+        .array(
+          z.object({
+            type: z.string().optional(),
+            title: z.string().optional(),
+            content: z.string(),
+            conceptsTaught: z.array(z.string()).optional(),
+          })
+        )
+        .optional(),
+      quiz: z
+        .array(
+          z.object({
+            question: z.string(),
+            options: z.array(z.string()).optional(),
+            answer: z.string(),
+            explanation: z.string().optional(),
+            difficulty: z.enum(["easy", "medium", "hard"]).optional(),
+            conceptsTested: z.array(z.string()).optional(),
+          })
+        )
+        .optional(),
+    })
+  ),
+});
+
+export type GeneratedAdaptiveModule = z.infer<typeof GeneratedAdaptiveModuleSchema>;
+
+export const GradeAnswerOutputSchema = z.object({
+  correct: z.boolean().describe("Whether the learner's answer is acceptable."),
+  feedback: z.string().default("").describe("One or two sentences for the learner."),
+});
+
+export type GradeAnswerOutput = z.infer<typeof GradeAnswerOutputSchema>;
+
+export const RegeneratedQuizQuestionSchema = z.object({
+  question: z.string().describe("The rewritten multiple-choice question."),
+  options: z.array(z.string()).min(2).describe("Four distinct answer choices."),
+  answer: z.string().describe("The correct answer, copied exactly from options."),
+  explanation: z.string().optional().describe("Why the answer is correct."),
+});
+
+export type RegeneratedQuizQuestion = z.infer<typeof RegeneratedQuizQuestionSchema>;
+
+export const DistractorRationalesSchema = z.object({
+  rationales: z
+    .array(
+      z.object({
+        option: z.string().describe("The wrong option, copied exactly."),
+        why: z.string().describe("Why this option is wrong."),
+      })
+    )
+    .describe("One rationale per wrong option."),
+});
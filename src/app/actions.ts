@@ -1,28 +1,38 @@
 "use server";
 
 import { AnalyzeDocumentOutputSchema } from "@/ai/flows/schemas";
-import { analyzeDocument } from "@/ai/flows/restructure-messy-pdf";
+import {
+  checkGeneratedQuizzes,
+  enrichCourseWithVideos,
+  generateCourse,
+  type PdfVideo,
+} from "@/ai/flows/course-pipeline";
 import { auditCourse } from "@/ai/flows/audit-course";
+import { saveCachedAudit } from "@/lib/generation-cache";
 import { generateQuiz } from "@/ai/flows/generate-quiz";
-import type { Course, Session, Lesson, QuizQuestion } from "@/lib/types";
+import { analyzePDFStructure } from "@/ai/flows/pdf-structure-analyzer";
+import {
+  processLearnerProfile,
+  createDefaultProfile,
+} from "@/ai/flows/learner-profile-processor";
+import { generateAdaptiveCourse } from "@/ai/flows/adaptive-course-generator";
+import { adaptiveToLegacy, type LearnerProfile } from "@/lib/adaptive-types";
+import { createHash } from "crypto";
+import type { Course, Session, Lesson } from "@/lib/types";
 import { transformAnalysisToCourse } from "@/lib/course-transform";
 import { QUIZ_PAPERS, getQuizPaperById } from "@/data/quizPapers";
+import { paperExamSettings, paperQuizQuestions } from "@/lib/exam";
 import {
-  matchVideosToLessons,
-  searchYouTubeForTopic,
-  validateAndSelectBestVideo,
-  type LessonWithQuery,
-} from "@/lib/youtube-search";
+  getUserQuestionBank,
+  listUserQuestionBanks,
+} from "@/lib/question-bank-store";
+import { getServerSession } from "@/lib/server-session";
 
 export async function generateCourseFromText(
   text: string,
   duration?: string,
-  pdfVideos?: Array<{
-    id: string;
-    title: string;
-    watchUrl: string;
-    embedUrl?: string;
-  }>
+  pdfVideos?: PdfVideo[],
+  options: { regenerate?: boolean } = {}
 ): Promise<Course | { error: string }> {
   const trimmed = text.trim();
   if (!trimmed || trimmed.length < 100) {
@@ -31,51 +41,23 @@ export async function generateCourseFromText(
         "Please enter a substantial amount of text (at least 100 characters) to create a course.",
     };
   }
-  // Cap very large inputs to keep latency/cost in check
-  const MAX_CHARS = 12000; // Reduced from 16000 for faster processing
-  const safeText =
-    trimmed.length > MAX_CHARS ? trimmed.slice(0, MAX_CHARS) : trimmed;
 
   try {
-    // Add timeout wrapper for AI processing (5 minutes for Ollama)
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(
-        () => reject(new Error("Course generation timed out after 5 minutes")),
-        300000 // 5 minutes
-      );
-    });
-
-    const analysisPromise = analyzeDocument({
-      textContent: safeText,
-      duration: duration,
-      pdfVideos: pdfVideos || [],
-    });
-
-    const analysis = await Promise.race([analysisPromise, timeoutPromise]);
+    const { course, analysis, cacheKey, cachedAt } = await generateCourse(
+      trimmed,
+      { duration, pdfVideos, regenerate: options.regenerate }
+    );
 
-    if (!analysis || !analysis.modules || analysis.modules.length === 0) {
-      return {
-        error:
-          "The AI could not generate a valid course structure. This can happen if:\n" +
-          "• The content is too short or unclear\n" +
-          "• The AI service is overloaded\n" +
-          "• The text doesn't contain structured educational content\n\n" +
-          "Try providing more detailed, structured content (e.g., lesson outlines, chapter headings).",
-      };
+    // Run audit in background without blocking (cached courses were audited)
+    if (!cachedAt) {
+      auditCourse({ courseContent: JSON.stringify(analysis, null, 2) })
+        .then((report) => {
+          console.log("Course Audit Report:", JSON.stringify(report, null, 2));
+          return saveCachedAudit(cacheKey, report.recommendations);
+        })
+        .catch((err) => console.error("Auditing failed:", err));
     }
 
-    const course = transformAnalysisToCourse(analysis);
-
-    // NEW: Enhanced video enrichment pipeline
-    await enrichCourseWithVideos(course, pdfVideos || []);
-
-    // Run audit in background without blocking
-    auditCourse({ courseContent: JSON.stringify(analysis, null, 2) })
-      .then((report) =>
-        console.log("Course Audit Report:", JSON.stringify(report, null, 2))
-      )
-      .catch((err) => console.error("Auditing failed:", err));
-
     return course;
   } catch (e: any) {
     return {
@@ -87,169 +69,74 @@ export async function generateCourseFromText(
 }
 
 /**
- * Enhanced video enrichment pipeline:
- * 1. Match PDF videos to lessons semantically
- * 2. Search YouTube for lessons with videoSearchQuery
- * 3. Skip videos gracefully if none found
+ * Adaptive pipeline: PDF structure analysis → learner profile processing →
+ * adaptive course generation. The resulting `AdaptiveCourse` travels on the
+ * returned `Course` as `adaptive_course`, so it is persisted wherever the
+ * course is saved and stays playable in the existing lesson view.
  */
-async function enrichCourseWithVideos(
-  course: Course,
-  pdfVideos: Array<{
-    id: string;
-    title: string;
-    watchUrl: string;
-    embedUrl?: string;
-  }>
-): Promise<void> {
-  console.log(`🎥 Starting video enrichment pipeline...`);
-  console.log(`   PDF videos: ${pdfVideos.length}`);
-  console.log(
-    `   Total lessons: ${course.sessions.flatMap((s) => s.lessons).length}`
-  );
-
-  // Step 1: Build lesson query map
-  const lessonsWithQueries: LessonWithQuery[] = [];
-  const lessonMap = new Map<string, Lesson>();
-
-  course.sessions.forEach((session) => {
-    session.lessons.forEach((lesson) => {
-      lessonMap.set(lesson.id, lesson);
-
-      // Extract videoSearchQuery from analysis_report if available
-      const videoSearchQuery = extractVideoSearchQuery(
-        course.analysis_report,
-        lesson.lesson_title
-      );
-
-      lessonsWithQueries.push({
-        lessonId: lesson.id,
-        lessonTitle: lesson.lesson_title,
-        keyPoints: lesson.key_points,
-        videoSearchQuery,
-      });
-    });
-  });
-
-  // Step 2: Match PDF videos to lessons semantically
-  let videoMatches = new Map<string, any>();
-
-  if (pdfVideos.length > 0) {
-    console.log(`🔍 Matching ${pdfVideos.length} PDF videos to lessons...`);
-    videoMatches = await matchVideosToLessons(pdfVideos, lessonsWithQueries);
-    console.log(`✅ Matched ${videoMatches.size} PDF videos to lessons`);
+export async function generateAdaptiveCourseFromText(
+  text: string,
+  options: {
+    filename?: string;
+    pageCount?: number;
+    profile?: Partial<LearnerProfile>;
+    pdfVideos?: PdfVideo[];
+  } = {}
+): Promise<Course | { error: string }> {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed.length < 100) {
+    return {
+      error:
+        "Please enter a substantial amount of text (at least 100 characters) to create a course.",
+    };
   }
 
-  // Step 3: For lessons without matched videos, search YouTube if query exists
-  for (const lessonQuery of lessonsWithQueries) {
-    const lesson = lessonMap.get(lessonQuery.lessonId);
-    if (!lesson) continue;
-
-    // Initialize resources array if missing
-    if (!lesson.resources) {
-      lesson.resources = [];
-    }
-
-    // Check if lesson already has a matched PDF video
-    const matchedVideo = videoMatches.get(lessonQuery.lessonId);
-    if (matchedVideo) {
-      console.log(
-        `✅ Adding matched PDF video to lesson "${lesson.lesson_title}"`
-      );
-      lesson.resources.push({
-        title: matchedVideo.title,
-        url: matchedVideo.watchUrl,
-        type: "video" as const,
-      });
-      continue;
-    }
-
-    // If no PDF match and videoSearchQuery exists, search YouTube
-    if (lessonQuery.videoSearchQuery) {
-      console.log(
-        `🔍 Searching YouTube for: "${lessonQuery.videoSearchQuery}"`
-      );
-
-      try {
-        const searchResults = await searchYouTubeForTopic(
-          lessonQuery.videoSearchQuery,
-          {
-            maxResults: 3,
-            minDuration: 120, // 2 minutes minimum
-          }
-        );
-
-        if (searchResults.length > 0) {
-          const validVideo = await validateAndSelectBestVideo(searchResults);
+  try {
+    const filename = options.filename || "Pasted text";
+    // Rough estimate when the upload did not report a page count
+    const pageCount =
+      options.pageCount || Math.max(1, Math.ceil(trimmed.length / 3000));
+    const pdfHash = createHash("sha256").update(trimmed).digest("hex");
+    const profile: LearnerProfile = {
+      ...createDefaultProfile(),
+      ...options.profile,
+    };
 
-          if (validVideo) {
-            console.log(
-              `✅ Found video for "${lesson.lesson_title}": ${validVideo.title}`
-            );
-            lesson.resources.push({
-              title: validVideo.title,
-              url: validVideo.watchUrl,
-              type: "video" as const,
-            });
-          } else {
-            console.log(
-              `⚠️ No embeddable video found for "${lesson.lesson_title}" (all search results blocked embedding)`
-            );
-          }
-        } else {
-          const apiKeyConfigured =
-            process.env.YOUTUBE_API_KEY ||
-            process.env.NEXT_PUBLIC_YOUTUBE_API_KEY;
-          if (!apiKeyConfigured) {
-            console.log(
-              `ℹ️ Skipping YouTube search for "${lesson.lesson_title}" (API key not configured)`
-            );
-          } else {
-            console.log(
-              `ℹ️ No YouTube videos found for query: "${lessonQuery.videoSearchQuery}"`
-            );
-          }
-        }
-      } catch (error: any) {
-        console.error(
-          `❌ YouTube search failed for "${lesson.lesson_title}":`,
-          error.message
-        );
-      }
-    } else {
-      console.log(
-        `ℹ️ No videoSearchQuery provided for lesson "${lesson.lesson_title}" - skipping video enrichment`
-      );
+    const pdfStructure = await analyzePDFStructure(trimmed, {
+      pageCount,
+      filename,
+    });
+    if (pdfStructure.contentChunks.length === 0) {
+      return {
+        error:
+          "Could not find enough structured content in this document to build an adaptive course.",
+      };
     }
-  }
 
-  const videosAdded = course.sessions
-    .flatMap((s) => s.lessons)
-    .filter((l) => l.resources?.some((r) => r.type === "video")).length;
+    const learningPlan = await processLearnerProfile(profile, pdfStructure);
+    const adaptiveCourse = await generateAdaptiveCourse(
+      pdfStructure,
+      learningPlan,
+      profile,
+      { filename, pdfHash, pageCount }
+    );
 
-  console.log(
-    `🎥 Video enrichment complete: ${videosAdded} lessons have videos`
-  );
-}
+    const course: Course = {
+      ...adaptiveToLegacy(adaptiveCourse),
+      adaptive_course: adaptiveCourse,
+    };
 
-/**
- * Extract videoSearchQuery from AI analysis output
- */
-function extractVideoSearchQuery(
-  analysisReport: any,
-  lessonTitle: string
-): string | undefined {
-  if (!analysisReport?.modules) return undefined;
+    await checkGeneratedQuizzes(course);
+    await enrichCourseWithVideos(course, options.pdfVideos || []);
 
-  for (const module of analysisReport.modules) {
-    const lesson = module.lessons?.find(
-      (l: any) => l.lesson_title === lessonTitle
-    );
-    if (lesson?.videoSearchQuery) {
-      return lesson.videoSearchQuery;
-    }
+    return course;
+  } catch (e) {
+    return {
+      error:
+        (e as Error)?.message ||
+        "An unexpected error occurred while generating the adaptive course. Please try again later.",
+    };
   }
-
-  return undefined;
 }
 
 export async function generateQuizFromText(
@@ -266,6 +153,7 @@ export async function generateQuizFromText(
     const analysis = await generateQuiz({ textContent: trimmed });
     // Transform the raw analysis into a full Course object (adds IDs, etc.)
     const course = transformAnalysisToCourse(analysis);
+    await checkGeneratedQuizzes(course);
     return course;
   } catch (e: any) {
     return {
@@ -274,31 +162,39 @@ export async function generateQuizFromText(
   }
 }
 
-export async function getQuizPapers() {
-  return QUIZ_PAPERS.map((paper) => ({
+// Built-in papers, then the signed-in user's imported question banks
+export async function getQuizPapers(accessToken?: string | null) {
+  const session = await getServerSession(accessToken);
+  const uploaded = session ? await listUserQuestionBanks(session) : [];
+  return [
+    ...QUIZ_PAPERS.map((paper) => ({ paper, uploaded: false })),
+    ...uploaded.map((paper) => ({ paper, uploaded: true })),
+  ].map(({ paper, uploaded }) => ({
     id: paper.id,
     title: paper.title,
     description: paper.description ?? "",
     questionCount: paper.questions.length,
+    timeLimit: paper.timeLimit,
+    attemptsAllowed: paper.attemptsAllowed,
+    uploaded,
   }));
 }
 
 export async function generateQuizFromPaper(
-  paperId: string
+  paperId: string,
+  accessToken?: string | null
 ): Promise<Course | { error: string }> {
-  const paper = getQuizPaperById(paperId);
+  let paper = getQuizPaperById(paperId) ?? null;
+  if (!paper) {
+    const session = await getServerSession(accessToken);
+    paper = session ? await getUserQuestionBank(session, paperId) : null;
+  }
   if (!paper) {
     return { error: `Quiz paper not found: ${paperId}` };
   }
 
   // Map QuizQuestion[] -> Course structure
-  const quizQuestions: QuizQuestion[] = paper.questions.map((q, index) => ({
-    question: q.questionText,
-    type: "MCQ",
-    options: q.options ?? [],
-    answer: q.answerText,
-    explanation: q.explanation ?? "Correct answer from paper.",
-  }));
+  const quizQuestions = paperQuizQuestions(paper);
 
   const lesson: Lesson = {
     id: `lesson-${paper.id}`,
@@ -327,6 +223,7 @@ export async function generateQuizFromPaper(
       course_title: paper.title,
       modules: [],
     },
+    exam: paperExamSettings(paper),
   };
 
   return course;
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAiCalls, summarizeAiUsage } from "@/lib/ai-usage";
+import { providerChain, providerHealth } from "@/lib/ai-provider";
+
+export const runtime = "nodejs";
+
+const RECENT_CALLS = 50;
+
+/**
+ * Which provider served each flow, with latency and estimated tokens.
+ * Counts are per server process and reset on restart. Admin only: send
+ * the `x-admin-token` header.
+ */
+export async function GET(req: NextRequest) {
+  const token = req.headers.get("x-admin-token") || "";
+  if (!token || token !== process.env.ADMIN_API_TOKEN) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    chain: providerChain(),
+    circuits: providerHealth(),
+    flows: summarizeAiUsage(),
+    recent: getAiCalls().slice(-RECENT_CALLS).reverse(),
+  });
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from "next/server";
+import { aiGenerateStream } from "@/lib/ai-provider";
+import { ollamaEmbed } from "@/lib/ollama";
+import {
+  buildGroundedPrompt,
+  chunkDocument,
+  citationLabel,
+  retrievePassages,
+  type DocumentChunk,
+} from "@/lib/rag";
+import { bearerToken } from "@/lib/server-session";
+import { MAX_SOURCE_CHARS } from "@/lib/source-document";
+import { getSourceDocument, sourceOwner } from "@/lib/source-store";
+import type { SourceDocument } from "@/lib/types";
+
+export const runtime = "nodejs";
+
+const MAX_BODY_CHARS = 4_000;
+const MAX_QUESTION_CHARS = 500;
+const MAX_INDEXED_DOCUMENTS = 8;
+
+// Chunks and chunk embeddings per document, by content hash, so only the
+// question is embedded on later questions. Map iteration order doubles as
+// recency order (oldest first).
+type DocumentIndex = {
+  chunks: DocumentChunk[];
+  vectors: Map<string, number[]>;
+};
+const indexes = new Map<string, DocumentIndex>();
+
+function documentIndex(doc: SourceDocument): DocumentIndex {
+  const index = indexes.get(doc.contentHash) ?? {
+    chunks: chunkDocument(doc.text.slice(0, MAX_SOURCE_CHARS), doc.pageOffsets),
+    vectors: new Map<string, number[]>(),
+  };
+  indexes.delete(doc.contentHash);
+  indexes.set(doc.contentHash, index);
+  while (indexes.size > MAX_INDEXED_DOCUMENTS) {
+    indexes.delete(indexes.keys().next().value as string);
+  }
+  return index;
+}
+
+const embeddingsEnabled = () =>
+  (process.env.EMBEDDINGS_PROVIDER || "none").toLowerCase() === "ollama";
+
+/**
+ * Answer a question from the source document of a saved course.
+ *
+ * Body: { question, courseId, localUserId? }, with the session's access
+ * token as `Authorization: Bearer <token>`. The document is loaded on the
+ * server for the signed-in user (or, signed out, the browser's local user
+ * id; see local-user.ts), never taken from the client.
+ *
+ * Streams newline-delimited JSON events:
+ * - { type: "citations", citations: [{ n, chunkId, page?, label, excerpt }] }
+ * - { type: "token", text }
+ * - { type: "done" } or { type: "error", error }
+ *
+ * Closing the request cancels the AI request in flight.
+ */
+export async function POST(req: NextRequest) {
+  let body: { question?: string; courseId?: string; localUserId?: string };
+  try {
+    const raw = await req.text();
+    if (raw.length > MAX_BODY_CHARS) {
+      return NextResponse.json(
+        { error: "Request body too large" },
+        { status: 413 }
+      );
+    }
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const question = (body.question || "").trim().slice(0, MAX_QUESTION_CHARS);
+  if (!question) {
+    return NextResponse.json(
+      { error: "No question provided" },
+      { status: 400 }
+    );
+  }
+  const owner =
+    typeof body.courseId === "string" && body.courseId
+      ? await sourceOwner(
+          bearerToken(req.headers.get("authorization") ?? undefined),
+          body.localUserId
+        )
+      : null;
+  if (!owner) {
+    return NextResponse.json(
+      { error: "Save this course to ask questions about its source." },
+      { status: 401 }
+    );
+  }
+  const doc = await getSourceDocument(owner.uid, body.courseId!, owner.db);
+  if (!doc?.text.trim()) {
+    return NextResponse.json(
+      { error: "This course has no source document to search." },
+      { status: 422 }
+    );
+  }
+
+  const { chunks, vectors } = documentIndex(doc);
+  const passages = await retrievePassages(question, chunks, {
+    embed: embeddingsEnabled() ? ollamaEmbed : undefined,
+    chunkVectors: vectors,
+  });
+  console.log(
+    `🔎 [Ask] Retrieved ${passages.length} passages for: "${question.slice(0, 60)}"`
+  );
+
+  const encoder = new TextEncoder();
+  // Aborted when the client disconnects or cancels the response body
+  const ctrl = new AbortController();
+  req.signal.addEventListener("abort", () => ctrl.abort(), { once: true });
+  const signal = ctrl.signal;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        if (signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      send({
+        type: "citations",
+        citations: passages.map((p, i) => ({
+          n: i + 1,
+          chunkId: p.id,
+          page: p.page,
+          label: citationLabel(p),
+          excerpt: p.text.slice(0, 240),
+        })),
+      });
+
+      if (passages.length === 0) {
+        send({
+          type: "token",
+          text: "I couldn't find anything in the document related to that question.",
+        });
+        send({ type: "done" });
+        controller.close();
+        return;
+      }
+
+      try {
+        const { system, prompt } = buildGroundedPrompt(question, passages);
+        for await (const text of aiGenerateStream(prompt, {
+          system,
+          timeout: 60_000,
+          flow: "askDocument",
+          signal,
+        })) {
+          send({ type: "token", text });
+        }
+        send({ type: "done" });
+      } catch (e) {
+        if (signal.aborted) {
+          console.log("🛑 [Ask] Cancelled by client");
+        } else {
+          console.error("❌ [Ask] Generation failed:", e);
+          send({
+            type: "error",
+            error: (e as Error)?.message || "Failed to generate an answer.",
+          });
+        }
+      }
+      try {
+        controller.close();
+      } catch {
+        /* already closed by the client disconnecting */
+      }
+    },
+    cancel() {
+      ctrl.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
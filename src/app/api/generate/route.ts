@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { generateCourse, type PdfVideo } from "@/ai/flows/course-pipeline";
+import { auditCourse } from "@/ai/flows/audit-course";
+import { MAX_SOURCE_CHARS } from "@/lib/source-document";
+import { saveCachedAudit } from "@/lib/generation-cache";
+import type { GenerationEvent } from "@/lib/types";
+
+export const runtime = "nodejs";
+// Map-reduce generation of long documents can take up to 20 minutes
+export const maxDuration = 1200;
+
+/**
+ * Generate a course and stream progress as it happens.
+ *
+ * Streams newline-delimited JSON `GenerationEvent`s:
+ * - { type: "extracted" } once the text is accepted
+ * - { type: "section" } per map-reduce section (long documents only)
+ * - { type: "warning" } when part of a long document is left out
+ * - { type: "module" } and { type: "quizzes" } per drafted module
+ * - { type: "video" } per lesson after video enrichment
+ * - { type: "cached" } instead of the above when an identical upload was
+ *   generated before (send `regenerate: true` to skip the cache)
+ * - { type: "course" } with the final course, then { type: "audit" }
+ * - { type: "done" } or { type: "error", error }
+ *
+ * Closing the request (e.g. the client aborting its fetch) cancels the AI
+ * request in flight.
+ */
+export async function POST(req: NextRequest) {
+  let body: {
+    text?: string;
+    duration?: string;
+    pdfVideos?: PdfVideo[];
+    regenerate?: boolean;
+  };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const text = (body.text || "").trim().slice(0, MAX_SOURCE_CHARS);
+  if (text.length < 100) {
+    return NextResponse.json(
+      {
+        error:
+          "Please enter a substantial amount of text (at least 100 characters) to create a course.",
+      },
+      { status: 400 }
+    );
+  }
+  const pdfVideos = Array.isArray(body.pdfVideos) ? body.pdfVideos : [];
+
+  const encoder = new TextEncoder();
+  // Aborted when the client disconnects or cancels the response body
+  const ctrl = new AbortController();
+  req.signal.addEventListener("abort", () => ctrl.abort(), { once: true });
+  const signal = ctrl.signal;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerationEvent) => {
+        if (signal.aborted) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const { course, analysis, cacheKey, cachedAt, audit } =
+          await generateCourse(text, {
+            duration: body.duration,
+            pdfVideos,
+            signal,
+            onEvent: send,
+            regenerate: body.regenerate === true,
+          });
+        send({ type: "course", course });
+
+        // The course is usable already; the audit only adds recommendations
+        if (audit) {
+          send({ type: "audit", recommendations: audit });
+        } else if (!cachedAt) {
+          try {
+            const report = await auditCourse({
+              courseContent: JSON.stringify(analysis, null, 2),
+              signal,
+            });
+            send({ type: "audit", recommendations: report.recommendations });
+            await saveCachedAudit(cacheKey, report.recommendations);
+          } catch (e) {
+            console.error("Auditing failed:", (e as Error)?.message);
+          }
+        }
+        send({ type: "done" });
+      } catch (e) {
+        if (signal.aborted) {
+          console.log("🛑 [Generate] Cancelled by client");
+        } else {
+          console.error("❌ [Generate] Generation failed:", e);
+          send({
+            type: "error",
+            error:
+              (e as Error)?.message ||
+              "An unexpected error occurred while generating the course. Please try again later.",
+          });
+        }
+      }
+      try {
+        controller.close();
+      } catch {
+        /* already closed by the client disconnecting */
+      }
+    },
+    cancel() {
+      ctrl.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { parsePdf } from "@/lib/pdf-parser";
+import { hashText, joinPages } from "@/lib/source-document";
 
 export async function POST(req: NextRequest) {
   try {
@@ -14,6 +15,8 @@ export async function POST(req: NextRequest) {
 
     const fileName = file.name.toLowerCase();
     let rawText = "";
+    let pageCount = 0;
+    let pageOffsets = [0];
 
     // Handle JSON files
     if (fileName.endsWith(".json")) {
@@ -60,8 +63,12 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      rawText = data.text || "";
-      console.log(`✅ [PDF] Extracted ${rawText.length} chars from PDF`);
+      // Re-join per-page text so page boundaries can be stored with the course
+      ({ text: rawText, pageOffsets } = joinPages(data.pages));
+      pageCount = data.pageCount;
+      console.log(
+        `✅ [PDF] Extracted ${rawText.length} chars from ${pageCount} pages`
+      );
     }
     // Handle TXT files
     else if (fileName.endsWith(".txt")) {
@@ -104,6 +111,9 @@ export async function POST(req: NextRequest) {
     // Return clean data
     return NextResponse.json({
       text: rawText,
+      pageCount,
+      pageOffsets,
+      contentHash: await hashText(rawText),
       videos: [],
     });
   } catch (error: any) {
@@ -1,17 +1,88 @@
 "use server";
 
-import { saveCourse } from "@/lib/auth";
-import type { Course } from "@/lib/types";
+import { getSavedCourse, saveCourse } from "@/lib/auth";
+import { localOwnerId } from "@/lib/local-user";
+import { getServerSession } from "@/lib/server-session";
+import { MAX_SOURCE_CHARS } from "@/lib/source-document";
+import {
+  findCourseBySourceHash,
+  getSourceDocument,
+  saveSourceDocument,
+  sourceOwner,
+} from "@/lib/source-store";
+import type { Course, SourceDocument } from "@/lib/types";
+import { randomUUID } from "crypto";
 
+// Courses belong to the signed-in user: actions take the session's access
+// token (`getAccessToken`) and never a user id from the client. Without a
+// session (signed out, or Supabase not configured) source documents go to
+// the local store under the browser's random id (`getLocalUserId`).
+
+/**
+ * Save a generated course with its source document. The document goes to the
+ * `source_*` columns (or the local store) and never into the course JSON.
+ * Without a session only the document is kept, in the local store under
+ * `localUserId`, and the returned id is temporary.
+ */
 export async function saveCourseForUser(
-  uid: string,
-  course: Course
+  accessToken: string | null,
+  course: Course,
+  localUserId?: string | null
 ): Promise<string | { error: string }> {
   try {
-    const courseId = await saveCourse(uid, course);
+    const session = await getServerSession(accessToken);
+    if (!session) {
+      const owner = localOwnerId(localUserId);
+      const doc = course.source_document;
+      if (!owner || !doc) return { error: "Sign in to save courses." };
+      if (doc.text.length > MAX_SOURCE_CHARS) {
+        return { error: "The source document is too large to keep." };
+      }
+      const courseId = `tmp_${randomUUID()}`;
+      const stored = await saveSourceDocument(owner, courseId, doc);
+      return stored
+        ? courseId
+        : { error: "Failed to keep the source document" };
+    }
+    const courseId = await saveCourse(session.userId, course, session.db);
+    if (course.source_document) {
+      await saveSourceDocument(
+        session.userId,
+        courseId,
+        course.source_document,
+        session.db
+      );
+    }
     return courseId;
   } catch (error: any) {
     console.error("Error saving course:", error);
     return { error: error.message || "Failed to save course" };
   }
 }
+
+export async function getCourseSourceDocument(
+  accessToken: string | null,
+  courseId: string,
+  localUserId?: string | null
+): Promise<SourceDocument | null> {
+  const owner = await sourceOwner(accessToken, localUserId);
+  if (!owner) return null;
+  return getSourceDocument(owner.uid, courseId, owner.db);
+}
+
+// Lets callers reuse an existing course instead of regenerating an identical upload
+export async function findCourseForSource(
+  accessToken: string | null,
+  contentHash: string
+): Promise<{ courseId: string; course: Course } | null> {
+  const session = await getServerSession(accessToken);
+  if (!session) return null;
+  const courseId = await findCourseBySourceHash(
+    session.userId,
+    contentHash,
+    session.db
+  );
+  const course =
+    courseId && (await getSavedCourse(session.userId, courseId, session.db));
+  return course ? { courseId: courseId!, course } : null;
+}
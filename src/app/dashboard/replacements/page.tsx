@@ -1,6 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { getAccessToken } from "@/lib/authSupabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+  ReplacementMetadata,
+  ReviewResult,
+} from "@/lib/video-replacement-review";
 
 type LogItem = {
   id?: string;
@@ -14,41 +22,105 @@ type LogItem = {
   replacementAuthor?: string;
   replacementWatchUrl?: string;
   contextTitle?: string;
+  metadata?: ReplacementMetadata | null;
 };
 
+type ReviewAction = "approve" | "reject" | "choose";
+
+const ADMIN_TOKEN_KEY = "ai-course-crafter-admin-token";
+
 export default function ReplacementsPage() {
   const [items, setItems] = useState<LogItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  // Reviews need the admin token (`ADMIN_API_TOKEN`); kept for this tab only
+  const [adminToken, setAdminToken] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
 
-  useEffect(() => {
-    let cancelled = false;
-    async function load() {
-      try {
-        const r = await fetch("/api/video-replacements?limit=100");
-        const j = await r.json();
-        if (!cancelled) setItems(j.items || []);
-      } catch (e: any) {
-        if (!cancelled)
-          setError(e?.message || "Failed to load video replacement logs");
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
+  const load = useCallback(async () => {
+    try {
+      const r = await fetch("/api/video-replacements?limit=100");
+      const j = await r.json();
+      setItems(j.items || []);
+    } catch (e: any) {
+      setError(e?.message || "Failed to load video replacement logs");
+    } finally {
+      setLoading(false);
     }
-    load();
-    return () => {
-      cancelled = true;
-    };
   }, []);
 
+  useEffect(() => {
+    load();
+    setAdminToken(window.sessionStorage.getItem(ADMIN_TOKEN_KEY) || "");
+  }, [load]);
+
+  const review = async (id: string, action: ReviewAction) => {
+    setBusyId(id);
+    setReviewNotes((prev) => ({ ...prev, [id]: "" }));
+    try {
+      const r = await fetch(`/api/video-replacements-${action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-token": adminToken,
+          // The server records the signed-in user as the reviewer
+          Authorization: `Bearer ${(await getAccessToken()) ?? ""}`,
+        },
+        body: JSON.stringify({
+          id,
+          alternativeId: action === "choose" ? chosen[id] : undefined,
+        }),
+      });
+      const result: ReviewResult & { reason?: string } = await r.json();
+      setReviewNotes((prev) => ({
+        ...prev,
+        [id]: result.ok
+          ? result.status === "approved"
+            ? `Approved; ${result.coursesUpdated} saved course${result.coursesUpdated === 1 ? "" : "s"} updated.`
+            : "Rejected."
+          : `Failed: ${result.reason}`,
+      }));
+      if (result.ok) await load();
+    } catch (e) {
+      setReviewNotes((prev) => ({
+        ...prev,
+        [id]: `Failed: ${e instanceof Error ? e.message : "request error"}`,
+      }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
   return (
     <div className="p-6">
       <h1 className="text-2xl font-semibold mb-4">Video Replacements</h1>
       <p className="text-sm text-muted-foreground mb-4">
         When a YouTube video is unavailable, the system will attempt to suggest a
         similar video and replace it automatically. This table shows recent
-        replacements for review.
+        replacements for review. Suggestions marked pending are only applied
+        to saved courses once approved.
       </p>
+      <div className="flex items-center gap-2 mb-4 max-w-md">
+        <Input
+          type="password"
+          placeholder="Admin token"
+          value={adminToken}
+          onChange={(e) => {
+            setAdminToken(e.target.value);
+            window.sessionStorage.setItem(ADMIN_TOKEN_KEY, e.target.value);
+          }}
+          aria-label="Admin token"
+        />
+      </div>
+      {!user && (
+        <p className="text-sm text-muted-foreground mb-4">
+          Sign in to review replacements; your account is recorded as the
+          reviewer.
+        </p>
+      )}
       {loading && <div>Loading…</div>}
       {error && (
         <div className="text-red-600 text-sm mb-3">Error: {error}</div>
@@ -66,6 +138,8 @@ export default function ReplacementsPage() {
                 <th className="px-3 py-2">Original</th>
                 <th className="px-3 py-2">Reason</th>
                 <th className="px-3 py-2">Replacement</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Actions</th>
               </tr>
             </thead>
             <tbody>
@@ -74,6 +148,10 @@ export default function ReplacementsPage() {
                 const originalUrl = (it as any).originalUrl || (it as any).originalurl || "";
                 const repTitle = it.replacementTitle || it.replacementId || "";
                 const repUrl = it.replacementWatchUrl || (it.replacementId ? `https://www.youtube.com/watch?v=${it.replacementId}` : "");
+                // Replacements logged without a status were applied automatically
+                const status = it.metadata?.status || "applied";
+                const alternatives = it.metadata?.alternatives || [];
+                const busy = !!it.id && busyId === it.id;
                 return (
                   <tr key={idx} className="border-t">
                     <td className="px-3 py-2 whitespace-nowrap">
@@ -113,6 +191,77 @@ export default function ReplacementsPage() {
                         repTitle || "—"
                       )}
                     </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <div className="font-medium capitalize">{status}</div>
+                      {it.metadata?.reviewedBy && (
+                        <div className="text-xs text-muted-foreground">
+                          by {it.metadata.reviewedBy}
+                          {it.metadata.reviewedAt
+                            ? `, ${new Date(it.metadata.reviewedAt).toLocaleString()}`
+                            : ""}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {status === "pending" && it.id ? (
+                        <div className="flex flex-col gap-2 min-w-[220px]">
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              disabled={busy || !adminToken || !user || !it.replacementId}
+                              onClick={() => review(it.id!, "approve")}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy || !adminToken || !user}
+                              onClick={() => review(it.id!, "reject")}
+                            >
+                              Reject
+                            </Button>
+                          </div>
+                          {alternatives.length > 0 && (
+                            <div className="flex gap-2">
+                              <select
+                                className="border rounded-md px-2 py-1 text-xs bg-background max-w-[180px]"
+                                value={chosen[it.id] || ""}
+                                onChange={(e) =>
+                                  setChosen((prev) => ({
+                                    ...prev,
+                                    [it.id!]: e.target.value,
+                                  }))
+                                }
+                                aria-label="Alternative video"
+                              >
+                                <option value="">Choose alternative…</option>
+                                {alternatives.map((alt) => (
+                                  <option key={alt.id} value={alt.id}>
+                                    {alt.title || alt.id}
+                                  </option>
+                                ))}
+                              </select>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                disabled={busy || !adminToken || !user || !chosen[it.id]}
+                                onClick={() => review(it.id!, "choose")}
+                              >
+                                Use
+                              </Button>
+                            </div>
+                          )}
+                          {reviewNotes[it.id] && (
+                            <div className="text-xs text-muted-foreground">
+                              {reviewNotes[it.id]}
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        (it.id && reviewNotes[it.id]) || "—"
+                      )}
+                    </td>
                   </tr>
                 );
               })}
@@ -0,0 +1,78 @@
+"use server";
+
+import { getQuizPaperById } from "@/data/quizPapers";
+import { getExamAttempt, submitExamAttempt } from "@/lib/auth";
+import {
+  examDeadline,
+  paperExamSettings,
+  paperQuizQuestions,
+  scoreExam,
+  type ExamResult,
+} from "@/lib/exam";
+import { getUserQuestionBank } from "@/lib/question-bank-store";
+import { getServerSession } from "@/lib/server-session";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export type ExamSubmission = {
+  responses: (string | null)[]; // indexed like the paper's questions
+  elapsedMs?: number[];
+  flagged?: number;
+  timedOut?: boolean;
+};
+
+/**
+ * Grade a signed-in learner's exam attempt against the paper and store it.
+ *
+ * Learners can't write scores themselves (see `exam_attempts` in
+ * docs/DB_SCHEMA.md): the attempt's start time comes from its row, the
+ * questions and passing score from the paper, and the result is written
+ * with the service-role client. Each attempt is graded once.
+ */
+export async function submitExam(
+  accessToken: string | null,
+  attemptId: string,
+  submission: ExamSubmission
+): Promise<ExamResult | { error: string }> {
+  try {
+    const session = await getServerSession(accessToken);
+    if (!session) return { error: "Sign in to submit exams." };
+    if (!supabaseAdmin) return { error: "Exam results can't be saved." };
+
+    const attempt = await getExamAttempt(session.userId, attemptId, session.db);
+    if (!attempt) return { error: "Exam attempt not found." };
+    if (attempt.submittedAt) {
+      return { error: "This attempt was already submitted." };
+    }
+    const paper =
+      getQuizPaperById(attempt.examId) ??
+      (await getUserQuestionBank(session, attempt.examId));
+    if (!paper) return { error: `Quiz paper not found: ${attempt.examId}` };
+
+    const questions = paperQuizQuestions(paper);
+    if (submission.responses.length !== questions.length) {
+      return { error: "The answers don't match the exam's questions." };
+    }
+    const settings = paperExamSettings(paper);
+    const completedAt = new Date();
+    const deadline = examDeadline(attempt.startedAt, settings);
+    const result = scoreExam(questions, submission.responses, {
+      settings,
+      startedAt: attempt.startedAt,
+      completedAt,
+      elapsedMs: submission.elapsedMs,
+      flagged: submission.flagged,
+      timedOut: !!submission.timedOut || (!!deadline && completedAt > deadline),
+    });
+    const saved = await submitExamAttempt(
+      session.userId,
+      attemptId,
+      result,
+      supabaseAdmin
+    );
+    if (!saved) return { error: "This attempt was already submitted." };
+    return result;
+  } catch (error) {
+    console.error("Error submitting exam:", error);
+    return { error: "Failed to submit the exam." };
+  }
+}
@@ -0,0 +1,147 @@
+"use server";
+
+import { isAnkiPackage, readAnkiPackage } from "@/lib/anki-package";
+import {
+  courseToQuestionBank,
+  detectQuestionBankFormat,
+  parseQuestionBank,
+  QUESTION_BANK_FORMATS,
+  QuestionBankError,
+  toAnkiTsv,
+  toCsv,
+  toGift,
+  toQtiPackage,
+  type QuestionBankFile,
+  type QuestionBankFormat,
+} from "@/lib/question-bank";
+import {
+  deleteUserQuestionBank,
+  saveUserQuestionBank,
+} from "@/lib/question-bank-store";
+import { getServerSession } from "@/lib/server-session";
+import { isZip, readZip, writeZip } from "@/lib/zip";
+import type { Course } from "@/lib/types";
+
+const MAX_QUESTION_BANK_BYTES = 5 * 1024 * 1024;
+
+export type ImportedQuestionBank = {
+  id: string;
+  title: string;
+  questionCount: number;
+  warnings: string[];
+};
+
+// Banks belong to the signed-in user: actions take the session's access
+// token (`getAccessToken`) and never a user id from the client
+export async function importQuestionBank(
+  accessToken: string | null,
+  filename: string,
+  base64: string
+): Promise<ImportedQuestionBank | { error: string }> {
+  try {
+    const session = await getServerSession(accessToken);
+    if (!session) return { error: "Sign in to import question banks." };
+
+    const data = Buffer.from(base64, "base64");
+    if (data.length > MAX_QUESTION_BANK_BYTES) {
+      return { error: "Question bank files must be under 5 MB." };
+    }
+
+    let files: QuestionBankFile[];
+    if (isAnkiPackage(filename)) {
+      files = [readAnkiPackage(data, filename)];
+    } else if (isZip(data)) {
+      files = readZip(data, {
+        include: (path) => path.toLowerCase().endsWith(".xml"),
+      }).map((entry) => ({
+        path: entry.path,
+        content: entry.content.toString("utf8"),
+      }));
+    } else {
+      files = [{ path: filename, content: data.toString("utf8") }];
+    }
+    const format = detectQuestionBankFormat(filename, files[0]?.content);
+    const { questions, warnings } = parseQuestionBank(format, files);
+    if (questions.length === 0) {
+      return {
+        error: ["No questions could be read from this file.", ...warnings]
+          .slice(0, 4)
+          .join(" "),
+      };
+    }
+
+    const title = filename.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ");
+    const stored = await saveUserQuestionBank(
+      session,
+      {
+        id: "",
+        title,
+        description: `Imported from ${filename} (${QUESTION_BANK_FORMATS[format].label})`,
+        questions,
+      },
+      format
+    );
+    if (!stored) return { error: "Failed to save the question bank." };
+    return {
+      id: stored.id,
+      title: stored.title,
+      questionCount: questions.length,
+      warnings,
+    };
+  } catch (error) {
+    if (!(error instanceof QuestionBankError)) {
+      console.error("Error importing question bank:", error);
+    }
+    return {
+      error: (error as Error).message || "Failed to import question bank.",
+    };
+  }
+}
+
+export async function removeQuestionBank(
+  accessToken: string | null,
+  bankId: string
+): Promise<boolean> {
+  const session = await getServerSession(accessToken);
+  return session ? deleteUserQuestionBank(session, bankId) : false;
+}
+
+export type ExportedQuestionBank = {
+  filename: string;
+  mimeType: string;
+  base64: string;
+};
+
+// Every quiz question in the course, in the given format, ready to download
+export async function exportQuestionBank(
+  course: Course,
+  format: QuestionBankFormat
+): Promise<ExportedQuestionBank | { error: string }> {
+  const paper = courseToQuestionBank(course);
+  if (paper.questions.length === 0) {
+    return { error: "This course has no quiz questions to export." };
+  }
+
+  const { extension, mimeType } = QUESTION_BANK_FORMATS[format];
+  const content =
+    format === "qti"
+      ? writeZip(toQtiPackage(paper))
+      : Buffer.from(
+          format === "gift"
+            ? toGift(paper)
+            : format === "csv"
+              ? toCsv(paper)
+              : toAnkiTsv(paper),
+          "utf8"
+        );
+  const slug =
+    paper.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "questions";
+  return {
+    filename: `${slug}.${extension}`,
+    mimeType,
+    base64: content.toString("base64"),
+  };
+}
@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from "react";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { getUserCourses, getCompletedCourses, getInProgressCourses, SavedCourse, updateLessonProgress } from "@/lib/auth";
+import { getUserCourses, getCompletedCourses, getInProgressCourses, getCourseLinkHealth, SavedCourse, updateLessonProgress } from "@/lib/auth";
+import type { CourseLinkHealth } from "@/lib/link-health";
 import {
   Card,
   CardContent,
@@ -14,11 +15,15 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Clock, BookOpen, Trophy, Play, Award, Download, AlertCircle } from "lucide-react";
+import { Clock, BookOpen, Trophy, Play, Award, Download, AlertCircle, Repeat } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useCourseStorage } from "@/hooks/use-course-storage";
 import { CertificateGallery } from "@/components/certificates/CertificateGallery";
+import { LinkHealthSummary } from "./link-health-summary";
 import { getUserCertificates, Certificate } from "@/lib/certificates";
+import { useReviewQueue } from "@/hooks/use-review-queue";
+import type { ReviewCard } from "@/lib/auth";
+import { QuizCard } from "@/components/lesson/quiz-card";
 import type { Course } from "@/lib/types";
 import dynamic from "next/dynamic";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -42,10 +47,15 @@ export function Dashboard() {
     (SavedCourse & { courseId: string })[]
   >([]);
   const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [linkHealth, setLinkHealth] = useState<Record<string, CourseLinkHealth>>({});
   const [loading, setLoading] = useState(true);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const router = useRouter();
   const { saveCourse } = useCourseStorage();
+  const { dueCards, recordAttempt, refresh: refreshReviews } = useReviewQueue();
+  // Cards of the running review session, fixed when it starts so answering
+  // (which drops cards from dueCards) doesn't reshuffle the quiz
+  const [reviewSession, setReviewSession] = useState<ReviewCard[] | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -60,7 +70,7 @@ export function Dashboard() {
       console.log('[Dashboard] Loading courses for user:', user.id);
       setErrorMessage(null); // Clear any previous errors
       
-      const [inProgress, completed, userCertificates] = await Promise.all([
+      const [inProgress, completed, userCertificates, healthReports] = await Promise.all([
         getInProgressCourses(user.id).catch(err => {
           console.error('[Dashboard] getInProgressCourses failed:', err);
           logSupabaseError('Dashboard.getInProgressCourses', err);
@@ -76,6 +86,7 @@ export function Dashboard() {
           logSupabaseError('Dashboard.getUserCertificates', err);
           return [];
         }),
+        getCourseLinkHealth(user.id),
       ]);
       
       console.log('[Dashboard] Loaded courses:', {
@@ -87,6 +98,7 @@ export function Dashboard() {
       setInProgressCourses(inProgress);
       setCompletedCourses(completed);
       setCertificates(userCertificates);
+      setLinkHealth(healthReports);
     } catch (error: any) {
       console.error("Error loading dashboard data:", error);
       logSupabaseError('Dashboard.loadCoursesAndCertificates', error);
@@ -106,8 +118,12 @@ export function Dashboard() {
   };
 
   const continueCourse = (courseData: SavedCourse & { courseId: string }) => {
+    // "Ask the Document" loads the source by course id when it's needed
     // Set the course in storage and navigate to lesson view
-    saveCourse(courseData.course);
+    saveCourse({
+      ...courseData.course,
+      source_ref: { ...courseData.course.source_ref, courseId: courseData.courseId },
+    });
     router.push("/lesson");
   };
 
@@ -215,6 +231,56 @@ export function Dashboard() {
           </Card>
         </div>
 
+        {/* Spaced-repetition review queue */}
+        {(dueCards.length > 0 || reviewSession) && (
+          <Card className="circuit-bg border-accent/30 mb-6 sm:mb-8">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <div>
+                <CardTitle className="text-lg">Due for review</CardTitle>
+                <CardDescription className="text-sm">
+                  {reviewSession
+                    ? `Reviewing ${reviewSession.length} question${reviewSession.length === 1 ? "" : "s"} from your courses`
+                    : `${dueCards.length} question${dueCards.length === 1 ? "" : "s"} from your courses ${dueCards.length === 1 ? "is" : "are"} due`}
+                </CardDescription>
+              </div>
+              <Repeat className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {reviewSession ? (
+                <>
+                  <QuizCard
+                    mode="review"
+                    questions={reviewSession.map((card) => card.question)}
+                    onQuestionAnswered={(question, correct, elapsedMs) => {
+                      const card = reviewSession.find((c) => c.question === question);
+                      if (card) recordAttempt(card, question, correct, elapsedMs);
+                    }}
+                    onQuizComplete={refreshReviews}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setReviewSession(null);
+                      refreshReviews();
+                    }}
+                    className="touch-target"
+                  >
+                    Done
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  onClick={() => setReviewSession(dueCards)}
+                  className="btn-gradient touch-target"
+                >
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Start review
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Main Content with Tabs - Mobile optimized */}
         <Tabs defaultValue="in-progress" className="space-y-4 sm:space-y-6">
           <TabsList className="grid w-full grid-cols-3 h-auto">
@@ -297,6 +363,10 @@ export function Dashboard() {
                           </div>
                         )}
 
+                        {linkHealth[courseData.courseId] && (
+                          <LinkHealthSummary health={linkHealth[courseData.courseId]} />
+                        )}
+
                         <div className="flex gap-2">
                           <Button
                             onClick={() => continueCourse(courseData)}
@@ -390,6 +460,10 @@ export function Dashboard() {
                           </div>
                         )}
 
+                        {linkHealth[courseData.courseId] && (
+                          <LinkHealthSummary health={linkHealth[courseData.courseId]} />
+                        )}
+
                         <div className="flex flex-col gap-2">
                           {/* Certificate Download Button */}
                           {certificate && userProfile && (
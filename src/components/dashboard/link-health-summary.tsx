@@ -0,0 +1,58 @@
+"use client";
+
+import { Link2, Link2Off } from "lucide-react";
+import type { CourseLinkHealth, LinkStatus } from "@/lib/link-health";
+
+const STATUS_LABELS: Record<Exclude<LinkStatus, "ok">, string> = {
+  repaired: "replaced",
+  degraded: "restricted",
+  broken: "broken",
+  unreachable: "not responding",
+};
+
+// Result of the last link sweep for a course card on the dashboard
+export function LinkHealthSummary({ health }: { health: CourseLinkHealth }) {
+  const checked = new Date(health.checkedAt).toLocaleDateString();
+  const parts = (Object.keys(STATUS_LABELS) as (keyof typeof STATUS_LABELS)[])
+    .filter((status) => health.counts[status] > 0)
+    .map((status) => `${health.counts[status]} ${STATUS_LABELS[status]}`);
+
+  if (parts.length === 0) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <Link2 className="h-3.5 w-3.5" />
+        All links working (checked {checked})
+      </div>
+    );
+  }
+
+  const needsAttention = health.counts.broken > 0;
+  return (
+    <details className="text-xs text-muted-foreground">
+      <summary
+        className={`flex items-center gap-1.5 cursor-pointer ${
+          needsAttention ? "text-destructive" : ""
+        }`}
+      >
+        <Link2Off className="h-3.5 w-3.5" />
+        Links: {parts.join(", ")} (checked {checked})
+      </summary>
+      <ul className="mt-2 space-y-1 pl-5 list-disc">
+        {health.issues.map((issue) => (
+          <li key={`${issue.lessonId}-${issue.url}`}>
+            <span className="font-medium">{issue.lessonTitle}</span>:{" "}
+            <a
+              href={issue.replacementUrl || issue.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="hover:underline"
+            >
+              {issue.title}
+            </a>{" "}
+            ({STATUS_LABELS[issue.status as keyof typeof STATUS_LABELS]})
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
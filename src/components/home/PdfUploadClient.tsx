@@ -1,6 +1,7 @@
 "use client";
 import { useRef, useState } from "react";
 import type { Course } from "@/lib/types";
+import { MAX_SOURCE_CHARS } from "@/lib/source-document";
 import { generateCourseFromText } from "@/app/actions";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
@@ -61,10 +62,9 @@ export default function PdfUploadClient({ onCourseGenerated }: Props) {
           "The PDF content is too short or could not be extracted. Please try uploading a longer PDF with more text content."
         );
       }
-      // 2) Cap long text to speed up AI
-      const MAX_CHARS = 16000; // ~16k chars cap
-      if (text.length > MAX_CHARS) {
-        text = text.slice(0, MAX_CHARS);
+      // 2) Cap very long text; the server drafts long documents section by section
+      if (text.length > MAX_SOURCE_CHARS) {
+        text = text.slice(0, MAX_SOURCE_CHARS);
       }
 
       setPhase("Analyzing with AI...");
@@ -14,13 +14,28 @@ import {
   Clock,
   ArrowRight,
   Wand2,
+  CheckCircle2,
+  XCircle,
+  FileUp,
 } from "lucide-react";
 import {
-  generateCourseFromText,
+  generateAdaptiveCourseFromText,
   generateQuizFromText,
   getQuizPapers,
   generateQuizFromPaper,
 } from "@/app/actions";
+import {
+  importQuestionBank,
+  removeQuestionBank,
+} from "@/app/question-bank-actions";
+import { QUESTION_BANK_EXTENSIONS } from "@/lib/question-bank";
+import {
+  findCourseForSource,
+  saveCourseForUser,
+} from "@/app/course-actions";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { getAccessToken } from "@/lib/authSupabase";
+import { getLocalUserId } from "@/lib/local-user";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -35,10 +50,16 @@ import { Card } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { LoadingBar } from "@/components/ui/loading-bar";
 import { useToast } from "@/hooks/use-toast";
+import { rememberSourceDocument } from "@/hooks/use-source-document";
 import { useDropzone } from "react-dropzone";
-import { Course } from "@/lib/types";
+import type { Course, GenerationEvent, SourceDocument } from "@/lib/types";
+import {
+  createSourceDocument,
+  MAX_SOURCE_CHARS,
+} from "@/lib/source-document";
 
 const formSchema = z.object({
   text: z.string().optional(),
@@ -46,6 +67,30 @@ const formSchema = z.object({
   duration: z.enum(["short", "medium", "long"]).default("medium"),
 });
 
+// A module drafted so far, shown while the rest of the course generates
+type DraftModule = { title: string; lessons: number; questions: number };
+
+// Read newline-delimited JSON events from a streaming response body
+async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: GenerationEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let idx;
+    while ((idx = buf.indexOf("\n")) >= 0) {
+      const line = buf.slice(0, idx).trim();
+      buf = buf.slice(idx + 1);
+      if (line) onEvent(JSON.parse(line) as GenerationEvent);
+    }
+  }
+}
+
 interface ContentFormProps {
   onCourseGenerated: (course: Course) => void;
   setIsLoading: (loading: boolean) => void;
@@ -66,9 +111,18 @@ export function ContentForm({
   const [mode, setMode] = useState<"course" | "quiz">("course");
   const [papers, setPapers] = useState<any[]>([]);
   const [selectedPaperId, setSelectedPaperId] = useState<string | null>(null);
+  const [personalize, setPersonalize] = useState(false);
+  const [draftModules, setDraftModules] = useState<DraftModule[]>([]);
+  const [generation, setGeneration] = useState<AbortController | null>(null);
+  // Skip the server's generation cache and build a fresh course
+  const [regenerate, setRegenerate] = useState(false);
+
+  const [importingBank, setImportingBank] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bankInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -82,17 +136,21 @@ export function ContentForm({
   // Fetch quiz papers when entering quiz mode
   useEffect(() => {
     if (mode === "quiz") {
-      getQuizPapers()
+      getAccessToken()
+        .then(getQuizPapers)
         .then(setPapers)
         .catch((err) => console.error("Failed to load quiz papers:", err));
     }
-  }, [mode]);
+  }, [mode, user?.id]);
 
   const handleQuizStart = async () => {
     if (!selectedPaperId) return;
     setIsLoading(true);
     try {
-      const result = await generateQuizFromPaper(selectedPaperId);
+      const result = await generateQuizFromPaper(
+        selectedPaperId,
+        await getAccessToken()
+      );
       if ("error" in result) {
         setError(result.error);
       } else {
@@ -105,6 +163,56 @@ export function ContentForm({
     }
   };
 
+  const handleBankImport = async (file: File) => {
+    if (!user) return;
+    setImportingBank(true);
+    setError(null);
+    try {
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+      const accessToken = await getAccessToken();
+      const result = await importQuestionBank(
+        accessToken,
+        file.name,
+        dataUrl.slice(dataUrl.indexOf(",") + 1)
+      );
+      if ("error" in result) {
+        setError(result.error);
+        return;
+      }
+      setPapers(await getQuizPapers(accessToken));
+      setSelectedPaperId(result.id);
+      toast({
+        title: "Question bank imported",
+        description:
+          `${result.questionCount} questions from "${result.title}".` +
+          (result.warnings.length
+            ? ` ${result.warnings.length} skipped: ${result.warnings[0]}`
+            : ""),
+      });
+    } catch (err) {
+      setError((err as Error).message || "Failed to import question bank.");
+    } finally {
+      setImportingBank(false);
+      if (bankInputRef.current) bankInputRef.current.value = "";
+    }
+  };
+
+  const handleBankRemove = async (bankId: string) => {
+    if (!user) return;
+    const accessToken = await getAccessToken();
+    if (await removeQuestionBank(accessToken, bankId)) {
+      setSelectedPaperId(null);
+      setPapers(await getQuizPapers(accessToken));
+    } else {
+      setError("Failed to remove the question bank.");
+    }
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: (acceptedFiles) => {
       const file = acceptedFiles[0];
@@ -138,6 +246,135 @@ export function ContentForm({
     }
   };
 
+  /**
+   * Generate a course through the streaming route, rendering modules as they
+   * are drafted. Resolves as soon as the course arrives; the audit that
+   * follows keeps streaming in the background.
+   */
+  const generateCourseStreaming = async (
+    text: string,
+    pdfVideos: unknown[] = []
+  ): Promise<Course | { error: string } | null> => {
+    const controller = new AbortController();
+    setGeneration(controller);
+    setDraftModules([]);
+
+    try {
+      const res = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text,
+          duration: form.getValues("duration"),
+          pdfVideos,
+          regenerate,
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        let msg = `Course generation failed (status ${res.status}).`;
+        try {
+          const err = await res.json();
+          if (err?.error) msg = err.error;
+        } catch {}
+        return { error: msg };
+      }
+      const body = res.body;
+
+      return await new Promise<Course | { error: string } | null>((resolve) => {
+        readEvents(body, (event) => {
+          switch (event.type) {
+            case "extracted":
+              setProcessingStep(
+                event.mapReduce
+                  ? "Long document: drafting it section by section..."
+                  : "Drafting course modules..."
+              );
+              break;
+            case "section":
+              if (event.status === "started") {
+                setProcessingStep(
+                  `Drafting section ${event.section} of ${event.total}` +
+                    (event.title ? `: ${event.title}` : "") +
+                    "..."
+                );
+              }
+              break;
+            case "module":
+              setDraftModules((prev) => [
+                ...prev,
+                {
+                  title: event.module.module_title,
+                  lessons: event.module.lessons?.length || 0,
+                  questions: 0,
+                },
+              ]);
+              break;
+            case "quizzes":
+              setDraftModules((prev) =>
+                prev.map((m, i) =>
+                  i === event.index ? { ...m, questions: event.questions } : m
+                )
+              );
+              break;
+            case "video":
+              setProcessingStep(`Finding videos for "${event.lessonTitle}"...`);
+              break;
+            case "cached":
+              toast({
+                title: "Loaded a previously generated course",
+                description: `This content was generated on ${new Date(
+                  event.generatedAt
+                ).toLocaleString()}. Turn on "Regenerate" for a fresh course.`,
+              });
+              break;
+            case "course":
+              resolve(event.course);
+              break;
+            case "warning":
+              toast({
+                title: "Part of the document was left out",
+                description: event.message,
+              });
+              break;
+            case "audit":
+              console.log(
+                "Course audit recommendations:",
+                event.recommendations
+              );
+              break;
+            case "error":
+              resolve({ error: event.error });
+              break;
+          }
+        })
+          .then(() =>
+            resolve({ error: "Course generation ended unexpectedly." })
+          )
+          .catch((e) =>
+            resolve(
+              controller.signal.aborted
+                ? null
+                : { error: e?.message || "Lost connection while generating." }
+            )
+          );
+      });
+    } catch (e) {
+      if (controller.signal.aborted) return null;
+      throw e;
+    } finally {
+      setGeneration(null);
+    }
+  };
+
+  const cancelGeneration = () => {
+    generation?.abort();
+    toast({
+      title: "Generation cancelled",
+      description: "No course was created.",
+    });
+  };
+
   const handleTextSubmit = async () => {
     const text = form.getValues("text");
     if (!text || text.length < 100) {
@@ -150,26 +387,93 @@ export function ContentForm({
     setError(null);
 
     try {
+      const source = await createSourceDocument(text);
+      if (await openExistingCourse(source)) return;
+
       let result;
       if (mode === "quiz") {
         result = await generateQuizFromText(text);
+      } else if (personalize) {
+        result = await generateAdaptiveCourseFromText(text, {
+          profile: topic ? { goal: `Learn ${topic}` } : undefined,
+        });
       } else {
-        result = await generateCourseFromText(text, duration);
+        result = await generateCourseStreaming(text);
       }
 
       if (result && "error" in result) {
         setError(result.error);
       } else if (result) {
-        await handleCourseGenerated(result);
+        await handleCourseGenerated(result, source);
       }
     } catch (e: any) {
       setError(e.message || "An error occurred.");
     } finally {
       setIsLoading(false);
+      setProcessingStep(null);
     }
   };
 
-  const handleCourseGenerated = async (course: Course) => {
+  // Same text as a course the user already saved: open that one instead
+  const openExistingCourse = async (source: SourceDocument) => {
+    if (mode !== "course" || personalize || regenerate || !user) return false;
+    const existing = await findCourseForSource(
+      await getAccessToken(),
+      source.contentHash
+    ).catch(() => null);
+    if (!existing) return false;
+    rememberSourceDocument(source);
+    await storeCourse({
+      ...existing.course,
+      source_ref: {
+        courseId: existing.courseId,
+        contentHash: source.contentHash,
+        filename: source.filename,
+      },
+    });
+    toast({
+      title: "Opened your existing course",
+      description:
+        "You already generated a course from this document. Turn on regenerate to build a new one.",
+    });
+    return true;
+  };
+
+  // Save a new course to the user's account with its source document (or,
+  // signed out, just the document to the local store); the browser only
+  // keeps a reference to the source (see use-source-document.ts)
+  const handleCourseGenerated = async (
+    course: Course,
+    source?: SourceDocument
+  ) => {
+    if (!source) return storeCourse(course);
+    rememberSourceDocument(source);
+    let courseId: string | undefined;
+    const saved = await saveCourseForUser(
+      user ? await getAccessToken() : null,
+      { ...course, source_document: source },
+      getLocalUserId()
+    ).catch((e: Error) => ({ error: e.message }));
+    if (typeof saved === "string") {
+      courseId = saved;
+    } else if (user) {
+      toast({
+        variant: "destructive",
+        title: "Course not saved to your account",
+        description: saved.error,
+      });
+    }
+    await storeCourse({
+      ...course,
+      source_ref: {
+        courseId,
+        contentHash: source.contentHash,
+        filename: source.filename,
+      },
+    });
+  };
+
+  const storeCourse = async (course: Course) => {
     // Save to local storage
     if (typeof window !== "undefined") {
       try {
@@ -196,6 +500,12 @@ export function ContentForm({
         window.dispatchEvent(new Event("storage"));
       } catch (error) {
         console.error("Error saving course:", error);
+        toast({
+          variant: "destructive",
+          title: "Couldn't save the course in this browser",
+          description:
+            "Browser storage is full. Remove some saved courses and try again.",
+        });
       }
     }
 
@@ -246,10 +556,20 @@ export function ContentForm({
       }
 
       setUploadProgress(50);
-      setProcessingStep("Generating course with AI...");
+      setProcessingStep(
+        personalize && mode === "course"
+          ? "Analyzing document structure and personalizing your course..."
+          : "Generating course with AI..."
+      );
+
+      // Keep the full extracted text (not the truncated prompt input)
+      const source = await createSourceDocument(parsed.text, {
+        filename: file.name,
+        pageOffsets: parsed?.pageOffsets,
+      });
+      if (await openExistingCourse(source)) return;
 
-      const MAX_CHARS = 100000;
-      if (text.length > MAX_CHARS) text = text.slice(0, MAX_CHARS);
+      if (text.length > MAX_SOURCE_CHARS) text = text.slice(0, MAX_SOURCE_CHARS);
 
       setUploadProgress(70);
       const pdfVideos = parsed?.videos || [];
@@ -260,19 +580,22 @@ export function ContentForm({
       let result;
       if (mode === "quiz") {
         result = await generateQuizFromText(text);
+      } else if (personalize) {
+        result = await generateAdaptiveCourseFromText(text, {
+          filename: file.name,
+          pageCount: parsed?.pageCount,
+          profile: topic ? { goal: `Learn ${topic}` } : undefined,
+          pdfVideos,
+        });
       } else {
-        result = await generateCourseFromText(
-          text,
-          form.getValues("duration"),
-          pdfVideos
-        );
+        result = await generateCourseStreaming(text, pdfVideos);
       }
 
       setUploadProgress(90);
       if (result && "error" in result) {
         setError(result.error);
       } else if (result) {
-        await handleCourseGenerated(result);
+        await handleCourseGenerated(result, source);
         setUploadProgress(100);
         setProcessingStep("Course generated successfully!");
         await new Promise((resolve) => setTimeout(resolve, 500));
@@ -280,14 +603,14 @@ export function ContentForm({
     } catch (e: any) {
       setError(e?.message || "There was an error processing your PDF.");
       setUploadProgress(0);
-    }
-
-    setIsLoading(false);
-    setProcessingStep(null);
-    setUploadProgress(0);
-    setFileName(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = "";
+    } finally {
+      setIsLoading(false);
+      setProcessingStep(null);
+      setUploadProgress(0);
+      setFileName(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
     }
   };
 
@@ -301,6 +624,32 @@ export function ContentForm({
             visible={isLoading}
             variant="inline"
           />
+          {draftModules.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {draftModules.map((m, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-primary shrink-0" />
+                  <span className="font-medium truncate">{m.title}</span>
+                  <span className="text-muted-foreground text-xs whitespace-nowrap">
+                    {m.lessons} lessons · {m.questions} quiz questions
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {generation && (
+            <div className="mt-3 flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={cancelGeneration}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+          )}
         </div>
       )}
       <Form {...form}>
@@ -410,6 +759,36 @@ export function ContentForm({
                     )}
                   />
 
+                  <div className="flex items-center justify-between gap-3 bg-background rounded-lg border p-3 sm:p-4">
+                    <Label
+                      htmlFor="personalize-course"
+                      className="text-sm sm:text-base cursor-pointer"
+                    >
+                      Personalize with adaptive learning
+                    </Label>
+                    <Switch
+                      id="personalize-course"
+                      checked={personalize}
+                      onCheckedChange={setPersonalize}
+                      disabled={isLoading}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-3 bg-background rounded-lg border p-3 sm:p-4">
+                    <Label
+                      htmlFor="regenerate-course"
+                      className="text-sm sm:text-base cursor-pointer"
+                    >
+                      Regenerate (ignore cached course)
+                    </Label>
+                    <Switch
+                      id="regenerate-course"
+                      checked={regenerate}
+                      onCheckedChange={setRegenerate}
+                      disabled={isLoading || personalize}
+                    />
+                  </div>
+
                   <Button
                     onClick={handleCopyToClipboard}
                     className="w-full btn-gradient shadow-md hover:shadow-lg transition-all touch-target text-base"
@@ -522,11 +901,55 @@ export function ContentForm({
                   <option value="">-- Select a Paper --</option>
                   {papers.map((paper) => (
                     <option key={paper.id} value={paper.id}>
-                      {paper.title} ({paper.questionCount} questions)
+                      {paper.title} ({paper.questionCount} questions
+                      {paper.timeLimit ? `, ${paper.timeLimit} min` : ""})
                     </option>
                   ))}
                 </select>
 
+                <input
+                  ref={bankInputRef}
+                  type="file"
+                  className="hidden"
+                  accept={QUESTION_BANK_EXTENSIONS.join(",")}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleBankImport(file);
+                  }}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="flex-1"
+                    disabled={!user || importingBank}
+                    onClick={() => bankInputRef.current?.click()}
+                  >
+                    {importingBank ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <FileUp className="mr-2 h-4 w-4" />
+                    )}
+                    Import question bank
+                  </Button>
+                  {papers.some(
+                    (paper) => paper.id === selectedPaperId && paper.uploaded
+                  ) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => handleBankRemove(selectedPaperId!)}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground text-center">
+                  {user
+                    ? "Moodle GIFT, QTI 2.1 (.xml or .zip), CSV, or Anki (.apkg or plain-text export)"
+                    : "Sign in to import your own question banks"}
+                </p>
+
                 <Button
                   className="w-full btn-gradient"
                   size="lg"
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   Accordion,
@@ -19,8 +19,10 @@ import {
 } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useCourseStorage } from "@/hooks/use-course-storage";
+import { useAuth } from "@/components/auth/AuthProvider";
 import {
   CheckCircle,
   Clock,
@@ -30,11 +32,22 @@ import {
   HelpCircle,
   AlertCircle,
   Sparkles,
+  GraduationCap,
+  Lock,
 } from "lucide-react";
 import type { Course } from "@/lib/types";
+import {
+  buildDiagnosticQuiz,
+  placementProgress,
+  withoutDiagnosticQuestions,
+  type DiagnosticResult,
+} from "@/lib/placement";
+import { summarizeQuizQuality } from "@/lib/quiz-quality";
+import { courseLockStates, describePrerequisite } from "@/lib/prerequisites";
 import { Badge } from "../ui/badge";
 import { Progress } from "../ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { PlacementQuizCard } from "./placement-quiz-card";
 
 interface CoursePreviewProps {
   initialCourse: Course;
@@ -53,6 +66,44 @@ export function CoursePreview({ initialCourse, onClear }: CoursePreviewProps) {
 
   const [course, setCourse] = useState(initialCourse);
   const [sessionDuration, setSessionDuration] = useState("30");
+  const [placementOpen, setPlacementOpen] = useState(false);
+  const [placement, setPlacement] = useState<DiagnosticResult | null>(null);
+  const diagnosticQuestionCount = useMemo(
+    () => buildDiagnosticQuiz(course).questions.length,
+    [course]
+  );
+  // Lessons the instructor unlocked regardless of prerequisites; the
+  // controls only show for accounts with the instructor role
+  const { userProfile } = useAuth();
+  const isInstructor = userProfile?.role === "instructor";
+  const [unlockOverrides, setUnlockOverrides] = useState<string[]>([]);
+  const lockStates = useMemo(
+    () =>
+      courseLockStates(course, {
+        progress: placement ? placementProgress(placement) : {},
+        unlockOverrides,
+      }),
+    [course, placement, unlockOverrides]
+  );
+  const allLessons = useMemo(
+    () => course.sessions.flatMap((s) => s.lessons),
+    [course]
+  );
+  const gatedLessonIds = Object.keys(lockStates).filter(
+    (id) => lockStates[id].missing.length > 0
+  );
+  const lockedCount = gatedLessonIds.filter(
+    (id) => lockStates[id].locked
+  ).length;
+  const toggleUnlockOverride = (lessonId: string) =>
+    setUnlockOverrides((prev) =>
+      prev.includes(lessonId)
+        ? prev.filter((id) => id !== lessonId)
+        : [...prev, lessonId]
+    );
+  const hasVideoSegments = allLessons.some((lesson) =>
+    lesson.resources?.some((r) => r.type === "video" && r.segment)
+  );
   const { saveCourse, startNewSession } = useCourseStorage();
   const router = useRouter();
 
@@ -84,7 +135,14 @@ export function CoursePreview({ initialCourse, onClear }: CoursePreviewProps) {
         return;
       }
 
-      saveCourse(course);
+      // Questions asked by the placement quiz don't come back in the lessons
+      saveCourse(
+        placement
+          ? withoutDiagnosticQuestions(course, buildDiagnosticQuiz(course))
+          : course,
+        placement ? placementProgress(placement) : undefined,
+        unlockOverrides
+      );
       const dbgDuration = parseInt(sessionDuration, 10);
       console.log(
         `[StartLearning] Starting session with duration: ${dbgDuration}m`
@@ -126,6 +184,19 @@ export function CoursePreview({ initialCourse, onClear }: CoursePreviewProps) {
 
   const readinessScoreValue = course.readiness_score;
 
+  if (placementOpen) {
+    return (
+      <PlacementQuizCard
+        course={course}
+        onComplete={(result) => {
+          setPlacement(result);
+          setPlacementOpen(false);
+        }}
+        onCancel={() => setPlacementOpen(false)}
+      />
+    );
+  }
+
   return (
     <div className="w-full max-w-4xl mx-auto space-y-4 sm:space-y-6">
       <Card>
@@ -174,6 +245,15 @@ export function CoursePreview({ initialCourse, onClear }: CoursePreviewProps) {
                 />
               </div>
 
+              {course.quiz_quality && course.quiz_quality.checked > 0 && (
+                <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                  <ListChecks className="h-4 w-4 shrink-0 mt-0.5" />
+                  <span>
+                    Quiz check: {summarizeQuizQuality(course.quiz_quality)}
+                  </span>
+                </div>
+              )}
+
               {course.checklist && course.checklist.length > 0 && (
                 <Alert className="text-sm">
                   <HelpCircle className="h-4 w-4 shrink-0" />
@@ -227,7 +307,40 @@ export function CoursePreview({ initialCourse, onClear }: CoursePreviewProps) {
                         >
                           <p className="font-medium text-foreground leading-snug">
                             {lesson.lesson_title}
+                            {placement?.testedOut.includes(lesson.id) && (
+                              <Badge variant="secondary" className="ml-2">
+                                Tested out
+                              </Badge>
+                            )}
                           </p>
+                          {lockStates[lesson.id]?.missing.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-x-2 mt-1 text-xs sm:text-sm">
+                              <Lock className="h-3.5 w-3.5 shrink-0" />
+                              <span>
+                                {lockStates[lesson.id].overridden
+                                  ? "Unlocked by instructor"
+                                  : `Locked: ${lockStates[lesson.id].missing
+                                      .map((p) =>
+                                        describePrerequisite(p, allLessons)
+                                      )
+                                      .join("; ")}`}
+                              </span>
+                              {isInstructor && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs sm:text-sm"
+                                  onClick={() =>
+                                    toggleUnlockOverride(lesson.id)
+                                  }
+                                >
+                                  {lockStates[lesson.id].overridden
+                                    ? "Relock"
+                                    : "Unlock"}
+                                </Button>
+                              )}
+                            </div>
+                          )}
                           {lesson.key_points &&
                             lesson.key_points.length > 0 && (
                               <ul className="text-xs sm:text-sm italic mt-1 list-disc pl-3 sm:pl-4 leading-relaxed">
@@ -246,6 +359,93 @@ export function CoursePreview({ initialCourse, onClear }: CoursePreviewProps) {
           </div>
         </CardContent>
         <CardFooter className="flex flex-col items-stretch gap-4 bg-muted/50 p-4 sm:p-6 rounded-b-lg">
+          {diagnosticQuestionCount > 0 &&
+            (placement ? (
+              <Alert className="text-sm">
+                <GraduationCap className="h-4 w-4 shrink-0" />
+                <AlertTitle className="text-sm sm:text-base">
+                  Placement: {placement.correct} of {placement.total} correct
+                </AlertTitle>
+                <AlertDescription className="space-y-3">
+                  <p>
+                    {placement.testedOut.length > 0
+                      ? `You'll skip ${placement.testedOut.length} lesson${placement.testedOut.length === 1 ? "" : "s"} you already know.`
+                      : "No lessons skipped; you'll start from the beginning."}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPlacementOpen(true)}
+                    >
+                      Retake
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPlacement(null)}
+                    >
+                      Don&apos;t skip lessons
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  Already know some of this? A short placement quiz skips the
+                  lessons you can answer.
+                </p>
+                <Button
+                  variant="secondary"
+                  onClick={() => setPlacementOpen(true)}
+                  className="touch-target shrink-0"
+                >
+                  <GraduationCap className="w-4 h-4" />
+                  Placement quiz ({diagnosticQuestionCount} questions)
+                </Button>
+              </div>
+            ))}
+          {gatedLessonIds.length > 0 && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-sm text-muted-foreground">
+                {lockedCount > 0
+                  ? `${lockedCount} lesson${lockedCount === 1 ? "" : "s"} unlock${lockedCount === 1 ? "s" : ""} once ${lockedCount === 1 ? "its" : "their"} prerequisites are passed.`
+                  : "All lessons with prerequisites are unlocked."}
+              </p>
+              {isInstructor && (
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    setUnlockOverrides(lockedCount > 0 ? gatedLessonIds : [])
+                  }
+                  className="touch-target shrink-0"
+                >
+                  <Lock className="w-4 h-4" />
+                  {lockedCount > 0
+                    ? "Unlock all (instructor)"
+                    : "Restore locks"}
+                </Button>
+              )}
+            </div>
+          )}
+          {hasVideoSegments && (
+            <div className="flex items-center gap-3">
+              <Switch
+                id="require-segment-watch"
+                checked={!!course.require_segment_watch}
+                onCheckedChange={(checked) =>
+                  setCourse({ ...course, require_segment_watch: checked })
+                }
+              />
+              <Label
+                htmlFor="require-segment-watch"
+                className="text-sm cursor-pointer"
+              >
+                Require watching video segments to complete lessons
+              </Label>
+            </div>
+          )}
           <div className="flex-1">
             <h4 className="font-bold mb-3 text-sm sm:text-base">
               Choose your study session length:
@@ -0,0 +1,143 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ChevronRight, HelpCircle } from "lucide-react";
+import type { Course } from "@/lib/types";
+import { questionTypeOf } from "@/lib/answer-grading";
+import {
+  buildDiagnosticQuiz,
+  scoreDiagnostic,
+  type DiagnosticResult,
+} from "@/lib/placement";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Progress } from "../ui/progress";
+import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
+import { CodeEditor } from "../lesson/code-editor";
+
+interface PlacementQuizCardProps {
+  course: Course;
+  onComplete: (result: DiagnosticResult) => void;
+  onCancel: () => void;
+}
+
+/**
+ * The pre-course diagnostic: one question at a time, no feedback, and an
+ * "I don't know" button so the learner never has to guess. Lessons they
+ * answer everything right for are reported as tested out.
+ */
+export function PlacementQuizCard({
+  course,
+  onComplete,
+  onCancel,
+}: PlacementQuizCardProps) {
+  const quiz = useMemo(() => buildDiagnosticQuiz(course), [course]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [responses, setResponses] = useState<(string | null)[]>([]);
+  const [response, setResponse] = useState("");
+
+  const question = quiz.questions[currentIndex];
+  if (!question) return null;
+  const type = questionTypeOf(question);
+  const isLast = currentIndex === quiz.questions.length - 1;
+  const lessonTitle = course.sessions
+    .flatMap((s) => s.lessons)
+    .find((l) => l.id === question.lessonId)?.lesson_title;
+
+  const answer = (value: string | null) => {
+    const next = [...responses, value];
+    if (isLast) {
+      onComplete(scoreDiagnostic(course, quiz, next));
+      return;
+    }
+    setResponses(next);
+    setResponse("");
+    setCurrentIndex(currentIndex + 1);
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader className="space-y-3 p-4 sm:p-6">
+        <CardTitle className="text-xl sm:text-2xl font-headline">
+          Placement Quiz
+        </CardTitle>
+        <CardDescription>
+          Question {currentIndex + 1} of {quiz.questions.length}
+          {lessonTitle && ` · ${lessonTitle}`}
+        </CardDescription>
+        <Progress
+          value={(currentIndex / quiz.questions.length) * 100}
+          className="h-2"
+        />
+        <p className="text-base sm:text-lg font-medium leading-relaxed pt-2">
+          {question.question}
+        </p>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0">
+        {type === "MCQ" ? (
+          <RadioGroup value={response} onValueChange={setResponse}>
+            {(question.options || []).map((option, index) => (
+              <div
+                key={index}
+                className="flex items-center space-x-3 rounded-md border p-3 hover:bg-accent"
+              >
+                <RadioGroupItem
+                  value={option}
+                  id={`placement-q${currentIndex}-o${index}`}
+                />
+                <Label
+                  htmlFor={`placement-q${currentIndex}-o${index}`}
+                  className="flex-1 cursor-pointer font-normal"
+                >
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        ) : type === "Code" ? (
+          <CodeEditor
+            value={response}
+            onChange={setResponse}
+            language={question.language}
+          />
+        ) : (
+          <Input
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && response.trim()) answer(response);
+            }}
+            placeholder="Type your answer"
+          />
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap justify-between gap-2 p-4 sm:p-6 pt-0">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => answer(null)}>
+            <HelpCircle className="w-4 h-4" /> I don&apos;t know
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => answer(response)}
+            disabled={!response.trim()}
+          >
+            {isLast ? "Finish" : "Next"}
+            {!isLast && <ChevronRight className="w-4 h-4" />}
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -6,24 +6,90 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Input } from "@/components/ui/input";
 import { Loader2, Send } from "lucide-react";
 import { HelpCircleIcon } from "../ui/icons";
+import { getAccessToken } from "@/lib/authSupabase";
+import { getLocalUserId } from "@/lib/local-user";
+import type { SourceDocument } from "@/lib/types";
 
-export function AskTheDocumentCard() {
+type Citation = {
+    n: number;
+    chunkId: string;
+    page?: number;
+    label: string;
+    excerpt: string;
+};
+
+type AskEvent =
+    | { type: "citations"; citations: Citation[] }
+    | { type: "token"; text: string }
+    | { type: "done" }
+    | { type: "error"; error: string };
+
+interface AskTheDocumentCardProps {
+    source?: SourceDocument;
+    // The saved course whose source the server searches (`source_ref.courseId`)
+    courseId?: string;
+}
+
+export function AskTheDocumentCard({ source, courseId }: AskTheDocumentCardProps) {
+    const canAsk = !!source && !!courseId;
     const [question, setQuestion] = useState("");
     const [isLoading, setIsLoading] = useState(false);
     const [answer, setAnswer] = useState("");
+    const [citations, setCitations] = useState<Citation[]>([]);
+    const [error, setError] = useState<string | null>(null);
 
-    const handleAskQuestion = (e: React.FormEvent) => {
+    const handleAskQuestion = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!question.trim()) return;
-        
+        if (!question.trim() || !canAsk) return;
+
         setIsLoading(true);
         setAnswer("");
-        // Simulate AI response
-        setTimeout(() => {
-            setAnswer(`Based on the document, the answer to "${question}" appears to be related to the section on page 3 regarding key principles. The document states that... (This is a simulated AI response).`);
-            setIsLoading(false);
+        setCitations([]);
+        setError(null);
+
+        try {
+            const res = await fetch("/api/ask", {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Authorization: `Bearer ${(await getAccessToken()) ?? ""}`,
+                },
+                body: JSON.stringify({
+                    question,
+                    courseId,
+                    localUserId: getLocalUserId(),
+                }),
+            });
+            if (!res.ok || !res.body) {
+                const err = await res.json().catch(() => null);
+                throw new Error(err?.error || `Request failed (status ${res.status}).`);
+            }
+
+            // Read newline-delimited JSON events as they stream in
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder();
+            let buf = "";
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buf += decoder.decode(value, { stream: true });
+                let idx;
+                while ((idx = buf.indexOf("\n")) >= 0) {
+                    const line = buf.slice(0, idx).trim();
+                    buf = buf.slice(idx + 1);
+                    if (!line) continue;
+                    const event = JSON.parse(line) as AskEvent;
+                    if (event.type === "citations") setCitations(event.citations);
+                    else if (event.type === "token") setAnswer((prev) => prev + event.text);
+                    else if (event.type === "error") setError(event.error);
+                }
+            }
             setQuestion("");
-        }, 1500);
+        } catch (err) {
+            setError((err as Error)?.message || "Failed to get an answer.");
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     return (
@@ -34,32 +100,49 @@ export function AskTheDocumentCard() {
                 </div>
                 <div>
                     <CardTitle className="text-lg">Ask the Document</CardTitle>
-                    <CardDescription>Have a question? Get an answer from your document.</CardDescription>
+                    <CardDescription>
+                        {canAsk
+                            ? "Have a question? Get an answer from your document."
+                            : "Generate a course from text or a PDF to ask questions about its source."}
+                    </CardDescription>
                 </div>
             </CardHeader>
             <CardContent>
                 <form onSubmit={handleAskQuestion} className="flex gap-2">
-                    <Input 
+                    <Input
                         placeholder="e.g., What are the main takeaways?"
                         value={question}
                         onChange={(e) => setQuestion(e.target.value)}
-                        disabled={isLoading}
+                        disabled={isLoading || !canAsk}
                     />
-                    <Button type="submit" size="icon" disabled={isLoading}>
+                    <Button type="submit" size="icon" disabled={isLoading || !canAsk}>
                         {isLoading ? <Loader2 className="animate-spin" /> : <Send />}
                     </Button>
                 </form>
-                {isLoading && (
+                {isLoading && !answer && (
                     <div className="mt-4 flex items-center gap-2 text-muted-foreground">
                         <Loader2 className="h-4 w-4 animate-spin" />
                         Thinking...
                     </div>
                 )}
+                {error && (
+                    <p className="mt-4 text-sm text-destructive">{error}</p>
+                )}
                 {answer && (
-                    <div className="mt-4 p-4 bg-background/70 rounded-md border text-sm">
+                    <div className="mt-4 p-4 bg-background/70 rounded-md border text-sm whitespace-pre-line">
                         {answer}
                     </div>
                 )}
+                {answer && citations.length > 0 && (
+                    <ol className="mt-3 space-y-2 text-xs text-muted-foreground">
+                        {citations.map((c) => (
+                            <li key={c.chunkId}>
+                                <span className="font-semibold">[{c.n}] {c.label}:</span>{" "}
+                                {c.excerpt}…
+                            </li>
+                        ))}
+                    </ol>
+                )}
             </CardContent>
         </Card>
     );
@@ -0,0 +1,87 @@
+"use client";
+
+import { useRef } from "react";
+import { cn } from "@/lib/utils";
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language?: string;
+  disabled?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+const INDENT = "  ";
+
+/**
+ * A lightweight code input for code-completion questions: monospace, line
+ * numbers, and Tab / Shift+Tab indenting instead of moving focus.
+ */
+export function CodeEditor({
+  value,
+  onChange,
+  language,
+  disabled,
+  placeholder,
+  className,
+}: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const lineCount = Math.max(value.split("\n").length, 4);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab") return;
+    e.preventDefault();
+    const el = e.currentTarget;
+    const { selectionStart: start, selectionEnd: end } = el;
+    const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+
+    let next: string;
+    let cursor: number;
+    if (e.shiftKey) {
+      if (!value.startsWith(INDENT, lineStart)) return;
+      next = value.slice(0, lineStart) + value.slice(lineStart + INDENT.length);
+      cursor = Math.max(lineStart, start - INDENT.length);
+    } else {
+      next = value.slice(0, start) + INDENT + value.slice(end);
+      cursor = start + INDENT.length;
+    }
+    onChange(next);
+    requestAnimationFrame(() => {
+      textareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex rounded-md border border-input bg-muted/40 font-mono text-sm focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2 ring-offset-background",
+        disabled && "opacity-70",
+        className
+      )}
+    >
+      <div
+        aria-hidden="true"
+        className="select-none py-2 pl-3 pr-2 text-right text-muted-foreground/70 leading-6 border-r border-border"
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i}>{i + 1}</div>
+        ))}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        placeholder={placeholder}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoCorrect="off"
+        aria-label={language ? `${language} code` : "Code"}
+        rows={lineCount}
+        className="flex-1 resize-none bg-transparent py-2 px-3 leading-6 outline-none whitespace-pre overflow-x-auto disabled:cursor-not-allowed"
+      />
+    </div>
+  );
+}
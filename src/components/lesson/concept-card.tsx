@@ -27,7 +27,7 @@ export function ConceptCard({ lesson }: ConceptCardProps) {
             </CardHeader>
             <CardContent className="p-4 sm:p-6 pt-0">
                 <div className="prose prose-sm dark:prose-invert max-w-none text-sm sm:text-base leading-relaxed">
-                    <p>{lesson.content_summary || "No content available for this step."}</p>
+                    <p className="whitespace-pre-line">{lesson.content_summary || "No content available for this step."}</p>
                      {lesson.key_points && lesson.key_points.length > 0 &&
                         <ul className='text-sm sm:text-base mt-3 sm:mt-4 space-y-1.5 sm:space-y-2'>
                           {lesson.key_points.map((point, pIndex) => <li key={pIndex} className="leading-relaxed">{point}</li>)}
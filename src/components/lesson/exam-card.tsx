@@ -0,0 +1,502 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ExamSettings, QuizQuestion } from "@/lib/types";
+import {
+  examDeadline,
+  formatCountdown,
+  remainingSeconds,
+  scoreExam,
+  type ExamResult,
+} from "@/lib/exam";
+import { questionTypeOf } from "@/lib/answer-grading";
+import { useExamAttempts } from "@/hooks/use-exam-attempts";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Flag,
+  Loader2,
+  Play,
+  XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "../ui/badge";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Progress } from "../ui/progress";
+import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
+import { Textarea } from "../ui/textarea";
+import { CodeEditor } from "./code-editor";
+
+interface ExamCardProps {
+  questions: QuizQuestion[];
+  settings: ExamSettings;
+  // Called once per submitted attempt, including auto-submits at timeout
+  onSubmitted?: (result: ExamResult) => void;
+}
+
+type Phase = "intro" | "running" | "submitted";
+
+// Warn (red timer) from this many seconds left
+const LOW_TIME_SECONDS = 60;
+
+/**
+ * A quiz paper played as a timed exam: free navigation between questions,
+ * flag-for-review, no feedback until submit, auto-submit at the time limit
+ * and a per-section result breakdown. Attempts are limited per learner.
+ */
+export function ExamCard({ questions, settings, onSubmitted }: ExamCardProps) {
+  const { attempts, remaining, loading, start, submit } =
+    useExamAttempts(settings);
+  const [phase, setPhase] = useState<Phase>("intro");
+  const [starting, setStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [responses, setResponses] = useState<(string | null)[]>([]);
+  const [flagged, setFlagged] = useState<boolean[]>([]);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [result, setResult] = useState<ExamResult | null>(null);
+  const startedAt = useRef(new Date());
+  const deadline = useRef<Date | null>(null);
+  const elapsed = useRef<number[]>([]);
+  const questionShownAt = useRef(Date.now());
+  const submitted = useRef(false);
+
+  // Bank the time on the current question before moving off it
+  const leaveQuestion = useCallback(() => {
+    const now = Date.now();
+    elapsed.current[currentIndex] =
+      (elapsed.current[currentIndex] || 0) + (now - questionShownAt.current);
+    questionShownAt.current = now;
+  }, [currentIndex]);
+
+  const goTo = (index: number) => {
+    leaveQuestion();
+    setCurrentIndex(index);
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    setStartError(null);
+    try {
+      const id = await start();
+      if (!id) {
+        setStartError("No attempts left for this exam.");
+        return;
+      }
+      startedAt.current = new Date();
+      deadline.current = examDeadline(startedAt.current, settings);
+      elapsed.current = [];
+      questionShownAt.current = Date.now();
+      submitted.current = false;
+      setAttemptId(id);
+      setResponses(questions.map(() => null));
+      setFlagged(questions.map(() => false));
+      setCurrentIndex(0);
+      setSecondsLeft(
+        deadline.current ? remainingSeconds(deadline.current) : null
+      );
+      setResult(null);
+      setPhase("running");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleSubmit = useCallback(
+    (timedOut: boolean) => {
+      if (submitted.current || !attemptId) return;
+      submitted.current = true;
+      leaveQuestion();
+      const exam = scoreExam(questions, responses, {
+        settings,
+        startedAt: startedAt.current,
+        completedAt: new Date(),
+        elapsedMs: elapsed.current,
+        flagged: flagged.filter(Boolean).length,
+        timedOut,
+      });
+      setResult(exam);
+      setConfirmOpen(false);
+      setPhase("submitted");
+      // Signed-in attempts are graded again on the server; show what's stored
+      submit(attemptId, exam, {
+        responses,
+        elapsedMs: elapsed.current,
+        flagged: flagged.filter(Boolean).length,
+        timedOut,
+      }).then((stored) => {
+        setResult(stored);
+        onSubmitted?.(stored);
+      });
+    },
+    [
+      attemptId,
+      flagged,
+      leaveQuestion,
+      onSubmitted,
+      questions,
+      responses,
+      settings,
+      submit,
+    ]
+  );
+
+  // Countdown; submits whatever has been answered when time runs out
+  useEffect(() => {
+    if (phase !== "running" || !deadline.current) return;
+    const tick = () => {
+      const left = remainingSeconds(deadline.current!);
+      setSecondsLeft(left);
+      if (left === 0) handleSubmit(true);
+    };
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [phase, handleSubmit]);
+
+  const setResponse = (value: string) =>
+    setResponses((prev) =>
+      prev.map((r, i) => (i === currentIndex ? value : r))
+    );
+
+  const toggleFlag = () =>
+    setFlagged((prev) => prev.map((f, i) => (i === currentIndex ? !f : f)));
+
+  const usedAttempts = attempts.length;
+  const isAnswered = (i: number) => !!responses[i]?.trim();
+
+  if (phase === "intro") {
+    const outOfAttempts = remaining === 0;
+    return (
+      <Card className="bg-card shadow-sm border-primary/20">
+        <CardHeader className="text-center pb-2">
+          <CardTitle className="text-lg sm:text-xl">Practice Exam</CardTitle>
+          <CardDescription>
+            Answers are revealed only after you submit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <ul className="grid grid-cols-2 gap-2 sm:gap-3">
+            <li className="rounded-md border p-3">
+              <span className="block text-muted-foreground text-xs">
+                Questions
+              </span>
+              <span className="font-semibold">{questions.length}</span>
+            </li>
+            <li className="rounded-md border p-3">
+              <span className="block text-muted-foreground text-xs">
+                Time limit
+              </span>
+              <span className="font-semibold">
+                {settings.timeLimit ? `${settings.timeLimit} min` : "None"}
+              </span>
+            </li>
+            <li className="rounded-md border p-3">
+              <span className="block text-muted-foreground text-xs">
+                Pass mark
+              </span>
+              <span className="font-semibold">{settings.passingScore}%</span>
+            </li>
+            <li className="rounded-md border p-3">
+              <span className="block text-muted-foreground text-xs">
+                Attempts
+              </span>
+              <span className="font-semibold">
+                {settings.attemptsAllowed
+                  ? `${usedAttempts} of ${settings.attemptsAllowed} used`
+                  : `${usedAttempts} used`}
+              </span>
+            </li>
+          </ul>
+          {!!settings.timeLimit && (
+            <p className="text-xs text-muted-foreground">
+              The exam is submitted automatically when time runs out. Leaving or
+              reloading the page still uses up the attempt.
+            </p>
+          )}
+          {(startError || outOfAttempts) && (
+            <p className="text-sm text-destructive">
+              {startError || "You have used all attempts for this exam."}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button
+            onClick={handleStart}
+            disabled={outOfAttempts || starting || loading}
+            className="w-full text-lg py-6 btn-gradient"
+          >
+            {starting ? (
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            ) : (
+              <Play className="w-5 h-5 mr-2 fill-current" />
+            )}
+            Start Exam
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (phase === "submitted" && result) {
+    return (
+      <Card className="bg-secondary/60 border-secondary shadow-sm quiz-complete">
+        <CardHeader className="space-y-2 sm:space-y-3 text-center">
+          <div className="mx-auto">
+            {result.passed ? (
+              <CheckCircle className="w-10 h-10 sm:w-12 sm:h-12 text-green-600 dark:text-green-400" />
+            ) : (
+              <XCircle className="w-10 h-10 sm:w-12 sm:h-12 text-destructive" />
+            )}
+          </div>
+          <CardTitle className="text-lg sm:text-xl">
+            {result.passed ? "Exam Passed" : "Exam Not Passed"}
+          </CardTitle>
+          <CardDescription className="text-sm sm:text-base">
+            You scored {result.score}% ({result.correct} of {result.total}). The
+            pass mark is {settings.passingScore}%.
+            {result.timedOut &&
+              " Time ran out, so the exam was submitted automatically."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">By section</p>
+            {result.sections.map((s) => (
+              <div key={s.section} className="space-y-1">
+                <div className="flex justify-between gap-2 text-xs sm:text-sm">
+                  <span className="truncate">{s.section}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {s.correct}/{s.total} · {s.score}%
+                  </span>
+                </div>
+                <Progress value={s.score} className="h-1.5" />
+              </div>
+            ))}
+          </div>
+          <ol className="space-y-3">
+            {questions.map((q, i) => {
+              const answer = result.answers[i];
+              return (
+                <li key={i} className="rounded-md border bg-card p-3 space-y-1">
+                  <p className="flex items-start gap-2 text-sm font-medium">
+                    {answer.correct ? (
+                      <CheckCircle className="w-4 h-4 mt-0.5 shrink-0 text-green-600 dark:text-green-400" />
+                    ) : (
+                      <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+                    )}
+                    <span>
+                      {i + 1}. {q.question}
+                    </span>
+                  </p>
+                  <p className="text-xs sm:text-sm text-muted-foreground">
+                    Your answer: {answer.selected ?? <em>not answered</em>}
+                  </p>
+                  {!answer.correct && (
+                    <p className="text-xs sm:text-sm">
+                      Correct answer: <strong>{q.answer}</strong>
+                    </p>
+                  )}
+                  {q.explanation && (
+                    <p className="text-xs sm:text-sm text-muted-foreground">
+                      {q.explanation}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </CardContent>
+        <CardFooter className="flex flex-col items-center gap-2 pt-2 sm:pt-4">
+          <Button
+            variant="outline"
+            onClick={() => setPhase("intro")}
+            disabled={remaining === 0}
+          >
+            Retake Exam
+          </Button>
+          {remaining !== null && (
+            <span className="text-xs text-muted-foreground">
+              {remaining === 0
+                ? "No attempts left"
+                : `${remaining} attempt${remaining === 1 ? "" : "s"} left`}
+            </span>
+          )}
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  const question = questions[currentIndex];
+  const type = questionTypeOf(question);
+  const response = responses[currentIndex] ?? "";
+  const unanswered =
+    questions.length - responses.filter((r) => r?.trim()).length;
+  const flaggedCount = flagged.filter(Boolean).length;
+
+  return (
+    <Card className="bg-card shadow-sm">
+      <CardHeader className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardDescription>
+            Question {currentIndex + 1} of {questions.length}
+            {question.section && ` · ${question.section}`}
+          </CardDescription>
+          {secondsLeft !== null && (
+            <Badge
+              variant={
+                secondsLeft <= LOW_TIME_SECONDS ? "destructive" : "secondary"
+              }
+              className="gap-1 font-mono tabular-nums"
+              aria-live={secondsLeft <= LOW_TIME_SECONDS ? "polite" : "off"}
+            >
+              <Clock className="w-3.5 h-3.5" />
+              {formatCountdown(secondsLeft)}
+            </Badge>
+          )}
+        </div>
+        <nav aria-label="Exam questions" className="flex flex-wrap gap-1.5">
+          {questions.map((_, i) => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => goTo(i)}
+              aria-current={i === currentIndex ? "step" : undefined}
+              aria-label={`Question ${i + 1}${isAnswered(i) ? ", answered" : ""}${flagged[i] ? ", flagged" : ""}`}
+              className={cn(
+                "relative h-8 w-8 rounded-md border text-xs font-medium transition-colors",
+                isAnswered(i)
+                  ? "bg-primary/15 border-primary/40"
+                  : "bg-background hover:bg-accent",
+                i === currentIndex && "ring-2 ring-primary"
+              )}
+            >
+              {i + 1}
+              {flagged[i] && (
+                <Flag className="absolute -top-1.5 -right-1.5 w-3 h-3 text-amber-500 fill-current" />
+              )}
+            </button>
+          ))}
+        </nav>
+        <CardTitle className="text-base sm:text-lg leading-relaxed">
+          {question.question}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {type === "MCQ" ? (
+          <RadioGroup value={response} onValueChange={setResponse}>
+            {(question.options || []).map((option, index) => (
+              <div
+                key={index}
+                className="flex items-center space-x-3 rounded-md border p-3 hover:bg-accent"
+              >
+                <RadioGroupItem
+                  value={option}
+                  id={`exam-q${currentIndex}-o${index}`}
+                />
+                <Label
+                  htmlFor={`exam-q${currentIndex}-o${index}`}
+                  className="flex-1 cursor-pointer font-normal"
+                >
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        ) : type === "Code" ? (
+          <CodeEditor
+            value={response}
+            onChange={setResponse}
+            language={question.language}
+          />
+        ) : type === "Practical" ? (
+          <Textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            placeholder="Describe your solution"
+            rows={5}
+          />
+        ) : (
+          <Input
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            placeholder="Type your answer"
+          />
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap justify-between gap-2">
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goTo(currentIndex - 1)}
+            disabled={currentIndex === 0}
+          >
+            <ChevronLeft className="w-4 h-4" /> Previous
+          </Button>
+          <Button
+            variant={flagged[currentIndex] ? "secondary" : "ghost"}
+            size="sm"
+            onClick={toggleFlag}
+            aria-pressed={flagged[currentIndex]}
+          >
+            <Flag className="w-4 h-4" />
+            {flagged[currentIndex] ? "Flagged" : "Flag for review"}
+          </Button>
+        </div>
+        {currentIndex < questions.length - 1 ? (
+          <Button size="sm" onClick={() => goTo(currentIndex + 1)}>
+            Next <ChevronRight className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => setConfirmOpen(true)}>
+            Submit Exam
+          </Button>
+        )}
+      </CardFooter>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit exam?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unanswered > 0 || flaggedCount > 0
+                ? `You have ${unanswered} unanswered and ${flaggedCount} flagged question${flaggedCount === 1 ? "" : "s"}.`
+                : "All questions are answered."}{" "}
+              You can&apos;t change your answers after submitting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep working</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleSubmit(false)}>
+              Submit
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { exportQuestionBank } from "@/app/question-bank-actions";
+import {
+  QUESTION_BANK_FORMATS,
+  type QuestionBankFormat,
+} from "@/lib/question-bank";
+import type { Course } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "../ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+
+interface ExportQuizzesMenuProps {
+  course: Course;
+}
+
+/**
+ * Downloads every quiz question in the course as a question bank for an
+ * LMS or flashcard app. Renders nothing when the course has no quizzes.
+ */
+export function ExportQuizzesMenu({ course }: ExportQuizzesMenuProps) {
+  const [exporting, setExporting] = useState<QuestionBankFormat | null>(null);
+  const { toast } = useToast();
+
+  const hasQuizzes = course.sessions.some((s) =>
+    s.lessons.some((l) => l.quiz && l.quiz.length > 0)
+  );
+  if (!hasQuizzes) return null;
+
+  const handleExport = async (format: QuestionBankFormat) => {
+    setExporting(format);
+    try {
+      const result = await exportQuestionBank(course, format);
+      if ("error" in result) {
+        toast({
+          title: "Export failed",
+          description: result.error,
+          variant: "destructive",
+        });
+        return;
+      }
+      const bytes = Uint8Array.from(atob(result.base64), (c) =>
+        c.charCodeAt(0)
+      );
+      const url = URL.createObjectURL(
+        new Blob([bytes], { type: result.mimeType })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = result.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export quizzes:", error);
+      toast({ title: "Export failed", variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="touch-target shrink-0"
+          aria-label="Export quizzes"
+          disabled={exporting !== null}
+        >
+          {exporting ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export quizzes as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(QUESTION_BANK_FORMATS) as QuestionBankFormat[]).map(
+          (format) => (
+            <DropdownMenuItem
+              key={format}
+              onSelect={() => handleExport(format)}
+            >
+              {QUESTION_BANK_FORMATS[format].label}
+              <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                .{QUESTION_BANK_FORMATS[format].extension}
+              </span>
+            </DropdownMenuItem>
+          )
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,9 +1,13 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import type { StudySession, Lesson } from "@/lib/types";
+import { useState, useEffect, useMemo, useRef } from "react";
+import type { StudySession, Lesson, QuizAttempt } from "@/lib/types";
 import { useCourseStorage } from "@/hooks/use-course-storage";
 import { useUserProgress } from "@/hooks/use-user-progress";
+import { useReviewQueue } from "@/hooks/use-review-queue";
+import { useActiveTime } from "@/hooks/use-active-time";
+import { useSourceDocument } from "@/hooks/use-source-document";
+import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter } from "next/navigation";
 import {
   ResizableHandle,
@@ -13,10 +17,13 @@ import {
 import { ScrollArea } from "../ui/scroll-area";
 import { ConceptCard } from "./concept-card";
 import { QuizCard } from "./quiz-card";
+import { ExamCard } from "./exam-card";
+import { ExportQuizzesMenu } from "./export-quizzes-menu";
 import { AskTheDocumentCard } from "./ask-the-document-card";
 import { LessonProgressBar } from "./progress-bar";
 import { Checkbox } from "../ui/checkbox";
 import { CompletionCard } from "./completion-card";
+import { LockedLessonCard } from "./locked-lesson-card";
 import { ResourcesPanel } from "./resources-panel";
 import { CertificateAwardModal } from "../certificates/CertificateAwardModal";
 import { NotesPanel } from "./notes-panel";
@@ -29,6 +36,8 @@ import {
   formatProgressHeader,
   formatProgressFooter,
 } from "@/lib/progress";
+import { courseLockStates } from "@/lib/prerequisites";
+import { unwatchedSegments } from "@/lib/video-segments";
 
 interface LessonViewProps {
   initialSession: StudySession;
@@ -39,8 +48,18 @@ export function LessonView({ initialSession }: LessonViewProps) {
   const isMobile = useIsMobile(); // Custom hook to detect mobile viewport
   const [session, setSession] = useState(initialSession);
   const [showNotes, setShowNotes] = useState(false); // Mobile: toggle notes panel
-  const { updateStepProgress, startNewSession, storedCourse } =
-    useCourseStorage();
+  const {
+    updateStepProgress,
+    recordQuizScore,
+    overrideLock,
+    markSegmentWatched,
+    startNewSession,
+    cacheQuestionRationales,
+    storedCourse,
+  } = useCourseStorage();
+  const { source: sourceDocument } = useSourceDocument(storedCourse?.course);
+  const { userProfile } = useAuth();
+  const isInstructor = userProfile?.role === "instructor";
   const [showCertificateModal, setShowCertificateModal] = useState(false);
   const [completedSteps, setCompletedSteps] = useState<Record<string, boolean>>(
     () => {
@@ -71,15 +90,26 @@ export function LessonView({ initialSession }: LessonViewProps) {
   }
   const courseId = baseSlug || generatedIdRef.current || "course-temp";
   const courseTitle = storedCourse?.course.course_title || session.title;
+  const adaptiveQuizzes =
+    storedCourse?.course.adaptive_course?.metadata.learnerProfile
+      .quizDifficulty === "adaptive";
+  const examSettings = storedCourse?.course.exam;
   const totalLessons = session.totalStepsInCourse;
 
   // Enable Supabase-backed progress tracking
   const {
+    loaded: progressLoaded,
     markLessonComplete,
+    markLessonsTestedOut,
+    recordQuizAttempt,
     isLessonCompleted,
     getCourseCompletionStatus,
     setCourseCompleteCallback,
   } = useUserProgress(courseId, courseTitle, totalLessons);
+  // Every quiz answer feeds the spaced-repetition review queue
+  const { recordAttempt } = useReviewQueue({ autoLoad: false });
+  // Time-on-task: the lesson the learner last interacted with accrues time
+  const { activate: activateLesson, takeSeconds } = useActiveTime();
 
   // Compute counts and completion state from Supabase
   const { completedLessons, isCompleted: courseIsComplete } =
@@ -125,11 +155,58 @@ export function LessonView({ initialSession }: LessonViewProps) {
   // Use Supabase-backed progress
   const isStepCompleted = (stepId: string) => isLessonCompleted(stepId);
 
-  const handleStepComplete = async (stepId: string, isChecked: boolean) => {
+  // Lessons stay locked until their prerequisites are met (see prerequisites.ts)
+  const lockStates = useMemo(
+    () =>
+      storedCourse ? courseLockStates(storedCourse.course, storedCourse) : {},
+    [storedCourse]
+  );
+  const courseLessons = useMemo(
+    () => storedCourse?.course.sessions.flatMap((s) => s.lessons) ?? [],
+    [storedCourse]
+  );
+  const isStepLocked = (stepId: string) => !!lockStates[stepId]?.locked;
+
+  // Optionally, a lesson only completes once its video segments were watched
+  const needsSegmentWatch = (lesson: Lesson) =>
+    !!storedCourse?.course.require_segment_watch &&
+    unwatchedSegments(lesson, storedCourse.watchedSegments?.[lesson.id])
+      .length > 0;
+
+  // Lessons skipped by the placement quiz count as completed for the
+  // certificate; sync them once the user's progress is known
+  const testedOutSyncedRef = useRef(false);
+  useEffect(() => {
+    if (!progressLoaded || !storedCourse || testedOutSyncedRef.current) return;
+    testedOutSyncedRef.current = true;
+    const testedOut = Object.keys(storedCourse.progress).filter(
+      (id) => storedCourse.progress[id] === "tested_out"
+    );
+    if (testedOut.length > 0) markLessonsTestedOut(testedOut);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [progressLoaded, storedCourse]);
+
+  // Until the learner interacts with a lesson, time goes to the first open one
+  useEffect(() => {
+    const firstOpen = session.lessons.find((l) => !isLessonCompleted(l.id));
+    if (firstOpen) activateLesson(firstOpen.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session]);
+
+  const handleStepComplete = async (
+    stepId: string,
+    isChecked: boolean,
+    attempt?: QuizAttempt
+  ) => {
     if (isChecked) {
       console.log(`✅ Marking lesson ${stepId} as complete`);
       // Persist to Supabase first
-      await markLessonComplete(stepId, 100, 30); // Default score and time
+      await markLessonComplete(
+        stepId,
+        attempt?.score,
+        takeSeconds(stepId),
+        attempt
+      );
       // Update local course storage
       updateStepProgress(stepId, "completed");
     } else {
@@ -141,6 +218,55 @@ export function LessonView({ initialSession }: LessonViewProps) {
     }
   };
 
+  // A finished quiz or exam records its score and completes the lesson when
+  // passed; otherwise the attempt is kept in the lesson's progress
+  const handleAttempt = (lesson: Lesson, attempt: QuizAttempt) => {
+    recordQuizScore(lesson.id, attempt.score);
+    if (
+      attempt.passed &&
+      !isStepCompleted(lesson.id) &&
+      !needsSegmentWatch(lesson)
+    ) {
+      handleStepComplete(lesson.id, true, attempt);
+    } else {
+      recordQuizAttempt(lesson.id, attempt, takeSeconds(lesson.id));
+    }
+  };
+
+  // The lesson's exam (for exam courses) or quiz, shared by both layouts
+  const renderLessonActivity = (lesson: Lesson) => {
+    if (!lesson.quiz || lesson.quiz.length === 0) return null;
+    if (examSettings) {
+      return (
+        <ExamCard
+          questions={lesson.quiz}
+          settings={examSettings}
+          onSubmitted={(result) => handleAttempt(lesson, result)}
+        />
+      );
+    }
+    return (
+      <QuizCard
+        questions={lesson.quiz}
+        adaptive={adaptiveQuizzes}
+        topic={lesson.lesson_title}
+        lesson={lesson}
+        onRationalesGenerated={(question, rationales) =>
+          cacheQuestionRationales(lesson.id, question.question, rationales)
+        }
+        onQuestionAnswered={(question, correct, elapsedMs) =>
+          recordAttempt(
+            { courseId, courseTitle, lessonId: lesson.id },
+            question,
+            correct,
+            elapsedMs
+          )
+        }
+        onQuizComplete={(attempt) => handleAttempt(lesson, attempt)}
+      />
+    );
+  };
+
   // derived values moved above
 
   // Firebase course completion disabled temporarily
@@ -211,15 +337,20 @@ export function LessonView({ initialSession }: LessonViewProps) {
                 <h1 className="text-xl sm:text-2xl md:text-3xl font-bold tracking-tight leading-tight">
                   {session.title}
                 </h1>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowNotes(true)}
-                  className="touch-target shrink-0"
-                  aria-label="Open notes panel"
-                >
-                  <PanelLeftOpen className="h-4 w-4" />
-                </Button>
+                <div className="flex gap-2 shrink-0">
+                  {storedCourse && (
+                    <ExportQuizzesMenu course={storedCourse.course} />
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowNotes(true)}
+                    className="touch-target shrink-0"
+                    aria-label="Open notes panel"
+                  >
+                    <PanelLeftOpen className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
               <LessonProgressBar
                 completedSteps={progressState.completed}
@@ -227,7 +358,10 @@ export function LessonView({ initialSession }: LessonViewProps) {
               />
             </div>
 
-            <AskTheDocumentCard />
+            <AskTheDocumentCard
+              source={sourceDocument}
+              courseId={storedCourse?.course.source_ref?.courseId}
+            />
 
             {session.lessons.map((lesson) => (
               <div
@@ -235,6 +369,8 @@ export function LessonView({ initialSession }: LessonViewProps) {
                 className="flex items-start gap-3 sm:gap-4"
                 data-lesson-id={lesson.id}
                 data-completed={isStepCompleted(lesson.id)}
+                onPointerDownCapture={() => activateLesson(lesson.id)}
+                onFocusCapture={() => activateLesson(lesson.id)}
               >
                 {/* Enhanced Skip/Complete Button */}
                 <div className="flex flex-col items-center gap-1.5 sm:gap-2 mt-6 sm:mt-8 shrink-0">
@@ -263,6 +399,9 @@ export function LessonView({ initialSession }: LessonViewProps) {
                         <Checkbox
                           id={`cb-${lesson.id}`}
                           size="large"
+                          disabled={
+                            isStepLocked(lesson.id) || needsSegmentWatch(lesson)
+                          }
                           onCheckedChange={(checked) => {
                             handleStepComplete(lesson.id, !!checked);
                           }}
@@ -274,7 +413,13 @@ export function LessonView({ initialSession }: LessonViewProps) {
                   </label>
                   {/* Label text for clarity - visible on all screens but smaller on mobile */}
                   <span className="text-[10px] sm:text-xs font-medium text-muted-foreground text-center max-w-[60px] sm:max-w-[80px] leading-tight px-1">
-                    {isStepCompleted(lesson.id) ? "Done" : "Skip"}
+                    {isStepCompleted(lesson.id)
+                      ? "Done"
+                      : isStepLocked(lesson.id)
+                        ? "Locked"
+                        : needsSegmentWatch(lesson)
+                          ? "Watch"
+                          : "Skip"}
                   </span>
                 </div>
                 <div
@@ -282,19 +427,31 @@ export function LessonView({ initialSession }: LessonViewProps) {
                     isStepCompleted(lesson.id) ? "opacity-50" : "opacity-100"
                   }`}
                 >
-                  <ConceptCard lesson={lesson} />
-                  {lesson.resources && lesson.resources.length > 0 && (
-                    <ResourcesPanel resources={lesson.resources} />
-                  )}
-                  {lesson.quiz && lesson.quiz.length > 0 && (
-                    <QuizCard
-                      questions={lesson.quiz}
-                      onQuizComplete={() => {
-                        if (!isStepCompleted(lesson.id)) {
-                          handleStepComplete(lesson.id, true);
-                        }
-                      }}
+                  {isStepLocked(lesson.id) ? (
+                    <LockedLessonCard
+                      lesson={lesson}
+                      lockState={lockStates[lesson.id]}
+                      lessons={courseLessons}
+                      onOverride={
+                        isInstructor ? () => overrideLock(lesson.id) : undefined
+                      }
                     />
+                  ) : (
+                    <>
+                      <ConceptCard lesson={lesson} />
+                      {lesson.resources && lesson.resources.length > 0 && (
+                        <ResourcesPanel
+                          resources={lesson.resources}
+                          watchedSegments={
+                            storedCourse?.watchedSegments?.[lesson.id]
+                          }
+                          onSegmentWatched={(key) =>
+                            markSegmentWatched(lesson.id, key)
+                          }
+                        />
+                      )}
+                      {renderLessonActivity(lesson)}
+                    </>
                   )}
                 </div>
               </div>
@@ -367,16 +524,24 @@ export function LessonView({ initialSession }: LessonViewProps) {
         <ScrollArea className="h-full px-4 lg:px-6">
           <div className="container mx-auto py-6 lg:py-8 space-y-6 max-w-3xl">
             <div className="sticky top-0 bg-background/80 backdrop-blur-sm z-10 py-4 -my-4">
-              <h1 className="text-2xl lg:text-3xl font-bold tracking-tight">
-                {session.title}
-              </h1>
+              <div className="flex justify-between items-start gap-2">
+                <h1 className="text-2xl lg:text-3xl font-bold tracking-tight">
+                  {session.title}
+                </h1>
+                {storedCourse && (
+                  <ExportQuizzesMenu course={storedCourse.course} />
+                )}
+              </div>
               <LessonProgressBar
                 completedSteps={progressState.completed}
                 totalSteps={progressState.total}
               />
             </div>
 
-            <AskTheDocumentCard />
+            <AskTheDocumentCard
+              source={sourceDocument}
+              courseId={storedCourse?.course.source_ref?.courseId}
+            />
 
             {session.lessons.map((lesson) => (
               <div
@@ -384,6 +549,8 @@ export function LessonView({ initialSession }: LessonViewProps) {
                 className="flex items-start gap-4"
                 data-lesson-id={lesson.id}
                 data-completed={isStepCompleted(lesson.id)}
+                onPointerDownCapture={() => activateLesson(lesson.id)}
+                onFocusCapture={() => activateLesson(lesson.id)}
               >
                 {/* Enhanced Skip/Complete Button */}
                 <div className="flex flex-col items-center gap-2 mt-8 shrink-0">
@@ -412,6 +579,9 @@ export function LessonView({ initialSession }: LessonViewProps) {
                         <Checkbox
                           id={`cb-desktop-${lesson.id}`}
                           size="large"
+                          disabled={
+                            isStepLocked(lesson.id) || needsSegmentWatch(lesson)
+                          }
                           onCheckedChange={(checked) => {
                             handleStepComplete(lesson.id, !!checked);
                           }}
@@ -423,7 +593,13 @@ export function LessonView({ initialSession }: LessonViewProps) {
                   </label>
                   {/* Label text for clarity */}
                   <span className="text-xs font-medium text-muted-foreground text-center max-w-[80px] leading-tight">
-                    {isStepCompleted(lesson.id) ? "Done" : "Skip"}
+                    {isStepCompleted(lesson.id)
+                      ? "Done"
+                      : isStepLocked(lesson.id)
+                        ? "Locked"
+                        : needsSegmentWatch(lesson)
+                          ? "Watch"
+                          : "Skip"}
                   </span>
                 </div>
                 <div
@@ -431,19 +607,31 @@ export function LessonView({ initialSession }: LessonViewProps) {
                     isStepCompleted(lesson.id) ? "opacity-50" : "opacity-100"
                   }`}
                 >
-                  <ConceptCard lesson={lesson} />
-                  {lesson.resources && lesson.resources.length > 0 && (
-                    <ResourcesPanel resources={lesson.resources} />
-                  )}
-                  {lesson.quiz && lesson.quiz.length > 0 && (
-                    <QuizCard
-                      questions={lesson.quiz}
-                      onQuizComplete={() => {
-                        if (!isStepCompleted(lesson.id)) {
-                          handleStepComplete(lesson.id, true);
-                        }
-                      }}
+                  {isStepLocked(lesson.id) ? (
+                    <LockedLessonCard
+                      lesson={lesson}
+                      lockState={lockStates[lesson.id]}
+                      lessons={courseLessons}
+                      onOverride={
+                        isInstructor ? () => overrideLock(lesson.id) : undefined
+                      }
                     />
+                  ) : (
+                    <>
+                      <ConceptCard lesson={lesson} />
+                      {lesson.resources && lesson.resources.length > 0 && (
+                        <ResourcesPanel
+                          resources={lesson.resources}
+                          watchedSegments={
+                            storedCourse?.watchedSegments?.[lesson.id]
+                          }
+                          onSegmentWatched={(key) =>
+                            markSegmentWatched(lesson.id, key)
+                          }
+                        />
+                      )}
+                      {renderLessonActivity(lesson)}
+                    </>
                   )}
                 </div>
               </div>
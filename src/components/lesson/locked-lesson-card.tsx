@@ -0,0 +1,45 @@
+"use client";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Lock } from "lucide-react";
+import { describePrerequisite, type LockState } from "@/lib/prerequisites";
+import type { Lesson } from "@/lib/types";
+
+interface LockedLessonCardProps {
+  lesson: Lesson;
+  lockState: LockState;
+  lessons: Lesson[]; // the whole course, to name prerequisites
+  onOverride?: () => void; // only for instructors
+}
+
+// Stands in for a lesson whose prerequisites aren't met yet
+export function LockedLessonCard({
+  lesson,
+  lockState,
+  lessons,
+  onOverride,
+}: LockedLessonCardProps) {
+  return (
+    <Alert>
+      <Lock className="h-4 w-4 shrink-0" />
+      <AlertTitle className="text-sm sm:text-base">
+        {lesson.lesson_title} is locked
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <ul className="list-disc pl-4 space-y-1 text-sm">
+          {lockState.missing.map((prerequisite) => (
+            <li key={prerequisite.lessonId}>
+              {describePrerequisite(prerequisite, lessons)}
+            </li>
+          ))}
+        </ul>
+        {onOverride && (
+          <Button variant="outline" size="sm" onClick={onOverride}>
+            Unlock anyway (instructor)
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import type { QuizQuestion } from "@/lib/types";
+import { useState, useEffect, useRef } from "react";
+import type { QuizAnswerRecord, QuizAttempt, QuizQuestion } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -12,23 +12,107 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { CheckCircle, XCircle, Play, Settings2 } from "lucide-react";
+import {
+  CheckCircle,
+  XCircle,
+  Play,
+  Settings2,
+  Loader2,
+  Lightbulb,
+} from "lucide-react";
 import { QuestionMarkIcon } from "../ui/icons";
 import { Label } from "../ui/label";
 import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
+import { Checkbox } from "../ui/checkbox";
+import { Textarea } from "../ui/textarea";
+import { CodeEditor } from "./code-editor";
+import {
+  FALLBACK_ACCEPT_SIMILARITY,
+  gradeCodeAnswer,
+  gradeRubric,
+  gradeShortAnswer,
+  questionTypeOf,
+  rubricFor,
+} from "@/lib/answer-grading";
+import { gradeAnswer } from "@/ai/flows/grade-answer";
+import { explainDistractors } from "@/ai/flows/explain-distractors";
+import type { DistractorLesson } from "@/lib/distractor-explanations";
+import {
+  estimateMastery,
+  nextDifficulty,
+  pickNextQuestion,
+  START_DIFFICULTY,
+} from "@/lib/adaptive-quiz";
+import type { QuestionDifficulty } from "@/lib/types";
+import { Switch } from "../ui/switch";
+import { Progress } from "../ui/progress";
 
 interface QuizCardProps {
   questions: QuizQuestion[];
-  onQuizComplete?: () => void;
+  // Called with the attempt record every time a run through the quiz ends,
+  // whether or not it reached the pass mark
+  onQuizComplete?: (attempt: QuizAttempt) => void;
+  // "review" plays the given questions in order with no setup screen and
+  // no pass mark (spaced-repetition sessions)
+  mode?: "lesson" | "review";
+  // Default for the setup screen's "Adaptive difficulty" switch: pick each
+  // question by running performance instead of shuffling
+  adaptive?: boolean;
+  // Concept credited for questions without `conceptsTested` (the lesson title)
+  topic?: string;
+  // Grounds "why is my choice wrong?" explanations; without it the button is hidden
+  lesson?: DistractorLesson;
+  // Called when distractor rationales were generated, so they can be cached
+  // on the question
+  onRationalesGenerated?: (
+    question: QuizQuestion,
+    rationales: Record<string, string>
+  ) => void;
+  // Called once per checked answer, with the time spent on the question
+  onQuestionAnswered?: (
+    question: QuizQuestion,
+    correct: boolean,
+    elapsedMs: number
+  ) => void;
 }
 
-type AnswerState = "unanswered" | "correct" | "incorrect";
+// "checking": waiting for AI grading; "assessing": practical rubric shown
+type AnswerState =
+  | "unanswered"
+  | "checking"
+  | "assessing"
+  | "correct"
+  | "incorrect";
+
+const PASS_THRESHOLD = 0.7;
+
+export function QuizCard({
+  questions: allQuestions,
+  onQuizComplete,
+  mode = "lesson",
+  adaptive = false,
+  topic,
+  lesson,
+  onRationalesGenerated,
+  onQuestionAnswered,
+}: QuizCardProps) {
+  const isReview = mode === "review";
 
-export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardProps) {
   // Start Screen State
-  const [hasStarted, setHasStarted] = useState(false);
+  const [hasStarted, setHasStarted] = useState(isReview);
   const [questionCount, setQuestionCount] = useState<string>("all");
-  const [activeQuestions, setActiveQuestions] = useState<QuizQuestion[]>([]);
+  const [activeQuestions, setActiveQuestions] = useState<QuizQuestion[]>(
+    isReview ? allQuestions : []
+  );
+  const [adaptiveEnabled, setAdaptiveEnabled] = useState(adaptive);
+
+  // Adaptive runs grow activeQuestions one question at a time from the pool
+  const [isAdaptiveRun, setIsAdaptiveRun] = useState(false);
+  const [quizLength, setQuizLength] = useState(
+    isReview ? allQuestions.length : 0
+  );
+  const [level, setLevel] = useState<QuestionDifficulty>(START_DIFFICULTY);
+  const pool = useRef<QuizQuestion[]>([]);
 
   // Quiz State
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -37,6 +121,22 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [isCompleted, setIsCompleted] = useState(false);
   const [hasScrolled, setHasScrolled] = useState(false);
+  const [answers, setAnswers] = useState<QuizAnswerRecord[]>([]);
+  const [rubricMet, setRubricMet] = useState<boolean[]>([]);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  // Rationales generated during this run, by question text
+  const [rationales, setRationales] = useState<
+    Record<string, Record<string, string>>
+  >({});
+  const [explainState, setExplainState] = useState<
+    "idle" | "loading" | "error"
+  >("idle");
+  const startedAt = useRef(new Date());
+  const questionShownAt = useRef(Date.now());
+
+  useEffect(() => {
+    questionShownAt.current = Date.now();
+  }, [currentQuestionIndex, activeQuestions]);
 
   // Initialize active questions when starting
   const handleStartQuiz = () => {
@@ -47,9 +147,17 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
 
     // Shuffle and slice
     const shuffled = [...allQuestions].sort(() => 0.5 - Math.random());
-    const selected = shuffled.slice(0, count);
-
-    setActiveQuestions(selected);
+    const adaptiveRun = adaptiveEnabled && !isReview;
+    if (adaptiveRun) {
+      pool.current = shuffled;
+      const first = pickNextQuestion(shuffled, [], START_DIFFICULTY);
+      setActiveQuestions(first ? [first] : []);
+    } else {
+      setActiveQuestions(shuffled.slice(0, count));
+    }
+    setIsAdaptiveRun(adaptiveRun);
+    setQuizLength(count);
+    setLevel(START_DIFFICULTY);
     setHasStarted(true);
 
     // Reset quiz state just in case
@@ -59,19 +167,33 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
     setCorrectAnswers(0);
     setIsCompleted(false);
     setHasScrolled(false);
+    setAnswers([]);
+    startedAt.current = new Date();
   };
 
-  // Trigger callback when quiz completes - run only once
+  // Report the attempt when the quiz completes - run only once
   useEffect(() => {
     if (isCompleted && !hasScrolled) {
-      // Calculate pass threshold (70%)
-      const passThreshold = 0.7;
-      const passed = correctAnswers / activeQuestions.length >= passThreshold;
-
-      // Auto-mark lesson complete if passed
-      if (passed && onQuizComplete) {
-        onQuizComplete();
-      }
+      const completedAt = new Date();
+      const total = activeQuestions.length;
+      const mastery = Object.fromEntries(
+        Object.entries(estimateMastery(answers, topic)).map(([concept, m]) => [
+          concept,
+          m.mastery,
+        ])
+      );
+      onQuizComplete?.({
+        startedAt: startedAt.current.toISOString(),
+        completedAt: completedAt.toISOString(),
+        answers,
+        correct: correctAnswers,
+        total,
+        score: total > 0 ? Math.round((correctAnswers / total) * 100) : 0,
+        passed: total > 0 && correctAnswers / total >= PASS_THRESHOLD,
+        elapsedMs: completedAt.getTime() - startedAt.current.getTime(),
+        adaptive: isAdaptiveRun || undefined,
+        mastery: Object.keys(mastery).length > 0 ? mastery : undefined,
+      });
 
       setHasScrolled(true);
     }
@@ -130,6 +252,19 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
               </div>
             </RadioGroup>
           </div>
+          <div className="flex items-center justify-between gap-3 rounded-md border border-muted p-3">
+            <Label htmlFor="adaptive-difficulty" className="space-y-1 cursor-pointer">
+              <span className="block text-sm font-medium">Adaptive difficulty</span>
+              <span className="block text-xs text-muted-foreground font-normal">
+                Harder questions after right answers, easier after misses
+              </span>
+            </Label>
+            <Switch
+              id="adaptive-difficulty"
+              checked={adaptiveEnabled}
+              onCheckedChange={setAdaptiveEnabled}
+            />
+          </div>
         </CardContent>
         <CardFooter>
           <Button onClick={handleStartQuiz} className="w-full text-lg py-6 btn-gradient">
@@ -140,8 +275,30 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
     );
   }
 
+  if (isCompleted && isReview) {
+    return (
+      <Card className="bg-secondary/60 border-secondary shadow-sm quiz-complete">
+        <CardHeader className="space-y-2 sm:space-y-3">
+          <div className="mx-auto">
+            <CheckCircle className="w-10 h-10 sm:w-12 sm:h-12 text-green-600 dark:text-green-400" />
+          </div>
+          <CardTitle className="text-lg sm:text-xl text-center">
+            Review Complete
+          </CardTitle>
+          <CardDescription className="text-sm sm:text-base text-center">
+            You recalled {correctAnswers} out of {activeQuestions.length} cards.
+            Missed cards come back tomorrow.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
   if (isCompleted) {
-    const passThreshold = 0.7;
+    const conceptMastery = isAdaptiveRun
+      ? Object.entries(estimateMastery(answers, topic))
+      : [];
+    const passThreshold = PASS_THRESHOLD;
     const passed = correctAnswers / activeQuestions.length >= passThreshold;
     const percentage = Math.round((correctAnswers / activeQuestions.length) * 100);
 
@@ -168,6 +325,22 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
               : ` You need ${Math.ceil(activeQuestions.length * passThreshold)} correct to pass.`}
           </CardDescription>
         </CardHeader>
+        {conceptMastery.length > 0 && (
+          <CardContent className="space-y-2">
+            <p className="text-sm font-medium">Concept mastery</p>
+            {conceptMastery.map(([concept, m]) => (
+              <div key={concept} className="space-y-1">
+                <div className="flex justify-between gap-2 text-xs sm:text-sm">
+                  <span className="truncate">{concept}</span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {Math.round(m.mastery * 100)}%
+                  </span>
+                </div>
+                <Progress value={m.mastery * 100} className="h-1.5" />
+              </div>
+            ))}
+          </CardContent>
+        )}
         <CardFooter className="flex justify-center pt-2 sm:pt-4 gap-3">
           <Button
             variant="outline"
@@ -198,42 +371,181 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
 
   const currentQuestion = activeQuestions[currentQuestionIndex];
 
-  const handleCheckAnswer = () => {
-    if (!selectedAnswer) return;
+  const questionType = questionTypeOf(currentQuestion);
+  const rubric =
+    questionType === "Practical" ? rubricFor(currentQuestion) : [];
+  const isLocked = answerState !== "unanswered";
 
-    if (
-      selectedAnswer.trim().toLowerCase() ===
-      currentQuestion.answer.trim().toLowerCase()
-    ) {
+  const recordResult = (correct: boolean, selected: string | null) => {
+    const elapsedMs = Date.now() - questionShownAt.current;
+    setAnswers((prev) => [
+      ...prev,
+      {
+        question: currentQuestion.question,
+        selected,
+        correct,
+        elapsedMs,
+        difficulty: currentQuestion.difficulty,
+        concepts: currentQuestion.conceptsTested,
+      },
+    ]);
+    if (correct) {
       setAnswerState("correct");
       setCorrectAnswers((prev) => prev + 1);
     } else {
       setAnswerState("incorrect");
     }
+    onQuestionAnswered?.(currentQuestion, correct, elapsedMs);
+  };
+
+  // Short answers and code the fuzzy matcher can't decide go to the model
+  const gradeFreeText = async (response: string) => {
+    const type = questionType === "Code" ? "Code" : "Short";
+    const local =
+      type === "Code"
+        ? gradeCodeAnswer(response, currentQuestion.answer)
+        : gradeShortAnswer(response, currentQuestion.answer);
+    if (local.verdict !== "uncertain") {
+      recordResult(local.verdict === "correct", response);
+      return;
+    }
+
+    setAnswerState("checking");
+    try {
+      const graded = await gradeAnswer({
+        question: currentQuestion.question,
+        expectedAnswer: currentQuestion.answer,
+        response,
+        type,
+        language: currentQuestion.language,
+      });
+      setFeedback(graded.feedback || null);
+      recordResult(graded.correct, response);
+    } catch (e) {
+      console.warn("⚠️ AI grading failed:", (e as Error)?.message);
+      recordResult(local.similarity >= FALLBACK_ACCEPT_SIMILARITY, response);
+    }
+  };
+
+  const handleCheckAnswer = () => {
+    if (questionType === "Practical") {
+      // Show the rubric; the learner grades their own work against it
+      setRubricMet(rubric.map(() => false));
+      setAnswerState("assessing");
+      return;
+    }
+    if (!selectedAnswer?.trim()) return;
+
+    if (questionType === "MCQ") {
+      recordResult(
+        selectedAnswer.trim().toLowerCase() ===
+          currentQuestion.answer.trim().toLowerCase(),
+        selectedAnswer
+      );
+    } else {
+      gradeFreeText(selectedAnswer);
+    }
   };
 
-  const handleNext = () => {
+  const handleSubmitAssessment = () => {
+    const { correct } = gradeRubric(rubricMet);
+    const met = rubric.filter((_, i) => rubricMet[i]);
+    recordResult(correct, met.length > 0 ? met.join("; ") : null);
+  };
+
+  // Move on; adaptive runs pick the next question from the last result
+  const advance = (lastCorrect: boolean) => {
     setSelectedAnswer(null);
     setAnswerState("unanswered");
-    if (currentQuestionIndex < activeQuestions.length - 1) {
-      setCurrentQuestionIndex((prev) => prev + 1);
-    } else {
+    setFeedback(null);
+    setExplainState("idle");
+    if (currentQuestionIndex >= quizLength - 1) {
       setIsCompleted(true);
+      return;
+    }
+    if (isAdaptiveRun) {
+      const target = nextDifficulty(level, lastCorrect);
+      const next = pickNextQuestion(pool.current, activeQuestions, target);
+      if (!next) {
+        setIsCompleted(true);
+        return;
+      }
+      setLevel(target);
+      setActiveQuestions((prev) => [...prev, next]);
+    }
+    setCurrentQuestionIndex((prev) => prev + 1);
+  };
+
+  const handleNext = () => advance(answerState === "correct");
+
+  // Every wrong option is explained in one call, so a question goes to the
+  // model once however many distractors get picked
+  const handleExplainChoice = async () => {
+    if (!lesson) return;
+    setExplainState("loading");
+    try {
+      const generated = await explainDistractors(
+        {
+          question: currentQuestion.question,
+          options: currentQuestion.options,
+          answer: currentQuestion.answer,
+          explanation: currentQuestion.explanation,
+        },
+        {
+          lesson_title: lesson.lesson_title,
+          key_points: lesson.key_points,
+          content_summary: lesson.content_summary,
+        }
+      );
+      setRationales((prev) => ({
+        ...prev,
+        [currentQuestion.question]: generated,
+      }));
+      onRationalesGenerated?.(currentQuestion, generated);
+      setExplainState(
+        selectedAnswer && generated[selectedAnswer] ? "idle" : "error"
+      );
+    } catch (e) {
+      console.warn("⚠️ Explaining the choice failed:", (e as Error)?.message);
+      setExplainState("error");
     }
   };
 
   const handleSkip = () => {
     // Allow skipping without answering
     console.log(`⏭️ Skipped question ${currentQuestionIndex + 1}`);
-    setSelectedAnswer(null);
-    setAnswerState("unanswered");
-    if (currentQuestionIndex < activeQuestions.length - 1) {
-      setCurrentQuestionIndex((prev) => prev + 1);
-    } else {
-      setIsCompleted(true);
-    }
+    setAnswers((prev) => [
+      ...prev,
+      {
+        question: currentQuestion.question,
+        selected: null,
+        correct: false,
+        elapsedMs: Date.now() - questionShownAt.current,
+        difficulty: currentQuestion.difficulty,
+        concepts: currentQuestion.conceptsTested,
+      },
+    ]);
+    advance(false);
   };
 
+  const answerText =
+    questionType === "Code" ? (
+      <pre className="mt-1 rounded bg-background/60 p-2 font-mono text-xs sm:text-sm whitespace-pre-wrap">
+        {currentQuestion.answer}
+      </pre>
+    ) : (
+      <strong>{currentQuestion.answer}</strong>
+    );
+  const whyWrong =
+    questionType === "MCQ" && answerState === "incorrect" && selectedAnswer
+      ? (rationales[currentQuestion.question]?.[selectedAnswer] ??
+        currentQuestion.distractorRationales?.[selectedAnswer])
+      : undefined;
+  const answerLabel =
+    questionType === "Practical"
+      ? "Model solution:"
+      : "The correct answer is:";
+
   return (
     <Card className="bg-card shadow-sm">
       <CardHeader className="flex flex-row items-start gap-3 sm:gap-4 p-4 sm:p-6">
@@ -242,10 +554,11 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
         </div>
         <div className="min-w-0 flex-1">
           <CardTitle className="text-base sm:text-lg">
-            Check your understanding
+            {isReview ? "Review" : "Check your understanding"}
           </CardTitle>
           <CardDescription className="text-sm">
-            Question {currentQuestionIndex + 1} of {activeQuestions.length}
+            Question {currentQuestionIndex + 1} of {quizLength}
+            {isAdaptiveRun && ` · ${currentQuestion.difficulty || START_DIFFICULTY}`}
           </CardDescription>
         </div>
       </CardHeader>
@@ -255,15 +568,15 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
         </p>
 
         {/* Multiple Choice Options */}
-        {currentQuestion.options && currentQuestion.options.length > 0 ? (
+        {questionType === "MCQ" && (
           <div className="space-y-2 sm:space-y-3">
-            {currentQuestion.options.map((option, index) => (
+            {currentQuestion.options!.map((option, index) => (
               <label
                 key={index}
                 className={`flex items-center gap-3 p-3 sm:p-4 rounded-md border cursor-pointer transition-colors touch-target ${selectedAnswer === option
                     ? "border-primary bg-primary/10"
                     : "border-border hover:bg-accent"
-                  } ${answerState !== "unanswered"
+                  } ${isLocked
                     ? "cursor-not-allowed opacity-70"
                     : ""
                   }`}
@@ -274,7 +587,7 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
                   value={option}
                   checked={selectedAnswer === option}
                   onChange={(e) => setSelectedAnswer(e.target.value)}
-                  disabled={answerState !== "unanswered"}
+                  disabled={isLocked}
                   className="accent-primary w-5 h-5 shrink-0"
                 />
                 <span className="flex-1 text-sm sm:text-base leading-relaxed">
@@ -283,18 +596,78 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
               </label>
             ))}
           </div>
-        ) : (
-          // Fallback for old format questions without options
+        )}
+
+        {questionType === "Short" && (
           <input
             type="text"
             value={selectedAnswer || ""}
             onChange={(e) => setSelectedAnswer(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !isLocked) handleCheckAnswer();
+            }}
             placeholder="Type your answer here"
+            aria-label="Your answer"
             className="flex h-11 md:h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background file:border-0 file:bg-transparent placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-            disabled={answerState !== "unanswered"}
+            disabled={isLocked}
+          />
+        )}
+
+        {questionType === "Code" && (
+          <CodeEditor
+            key={currentQuestionIndex}
+            value={selectedAnswer || ""}
+            onChange={setSelectedAnswer}
+            language={currentQuestion.language}
+            disabled={isLocked}
+            placeholder="Write the missing code"
+          />
+        )}
+
+        {questionType === "Practical" && (
+          <Textarea
+            value={selectedAnswer || ""}
+            onChange={(e) => setSelectedAnswer(e.target.value)}
+            placeholder="Do the task, then note what you did (optional)"
+            aria-label="Notes on your work"
+            disabled={isLocked}
           />
         )}
 
+        {answerState === "checking" && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Checking your answer…
+          </p>
+        )}
+
+        {answerState === "assessing" && (
+          <div className="space-y-3 rounded-md border border-primary/30 bg-primary/5 p-3 sm:p-4">
+            <p className="text-sm font-medium">
+              Check your work against each point:
+            </p>
+            {rubric.map((criterion, i) => (
+              <div key={i} className="flex items-start gap-3">
+                <Checkbox
+                  id={`rubric-${currentQuestionIndex}-${i}`}
+                  checked={rubricMet[i] || false}
+                  onCheckedChange={(checked) =>
+                    setRubricMet((prev) =>
+                      prev.map((met, j) => (j === i ? !!checked : met))
+                    )
+                  }
+                  className="mt-0.5"
+                />
+                <Label
+                  htmlFor={`rubric-${currentQuestionIndex}-${i}`}
+                  className="text-sm leading-relaxed font-normal cursor-pointer"
+                >
+                  {criterion}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+
         {answerState === "correct" && (
           <Alert
             variant="default"
@@ -305,7 +678,11 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
               Correct!
             </AlertTitle>
             <AlertDescription className="text-green-700 dark:text-green-400 text-sm">
-              The correct answer is: <strong>{currentQuestion.answer}</strong>
+              {feedback && <p className="mb-1">{feedback}</p>}
+              {answerLabel} {answerText}
+              {currentQuestion.explanation && (
+                <p className="mt-1">{currentQuestion.explanation}</p>
+              )}
             </AlertDescription>
           </Alert>
         )}
@@ -316,20 +693,66 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
               Not quite...
             </AlertTitle>
             <AlertDescription className="text-sm">
-              The correct answer is: <strong>{currentQuestion.answer}</strong>
+              {feedback && <p className="mb-1">{feedback}</p>}
+              {answerLabel} {answerText}
+              {currentQuestion.explanation && (
+                <p className="mt-1">{currentQuestion.explanation}</p>
+              )}
             </AlertDescription>
           </Alert>
         )}
+        {whyWrong ? (
+          <Alert>
+            <Lightbulb className="h-4 w-4" />
+            <AlertTitle className="text-sm sm:text-base">
+              Why not &ldquo;{selectedAnswer}&rdquo;?
+            </AlertTitle>
+            <AlertDescription className="text-sm">{whyWrong}</AlertDescription>
+          </Alert>
+        ) : (
+          questionType === "MCQ" &&
+          answerState === "incorrect" &&
+          selectedAnswer &&
+          lesson && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExplainChoice}
+                disabled={explainState === "loading"}
+              >
+                {explainState === "loading" ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Lightbulb className="h-4 w-4" />
+                )}
+                Why is my choice wrong?
+              </Button>
+              {explainState === "error" && (
+                <span className="text-xs text-muted-foreground">
+                  Couldn&apos;t explain that right now. Try again?
+                </span>
+              )}
+            </div>
+          )
+        )}
       </CardContent>
       <CardFooter className="p-4 sm:p-6 pt-2 sm:pt-4">
-        {answerState === "unanswered" ? (
+        {answerState === "checking" ? null : answerState === "assessing" ? (
+          <Button
+            onClick={handleSubmitAssessment}
+            className="touch-target text-base w-full sm:w-auto"
+          >
+            Submit Self-Assessment
+          </Button>
+        ) : answerState === "unanswered" ? (
           <div className="flex gap-2 w-full">
             <Button
               onClick={handleCheckAnswer}
-              disabled={!selectedAnswer}
+              disabled={questionType !== "Practical" && !selectedAnswer?.trim()}
               className="touch-target text-base flex-1"
             >
-              Check Answer
+              {questionType === "Practical" ? "Self-Assess" : "Check Answer"}
             </Button>
             <Button
               onClick={handleSkip}
@@ -344,9 +767,11 @@ export function QuizCard({ questions: allQuestions, onQuizComplete }: QuizCardPr
             onClick={handleNext}
             className="touch-target text-base w-full sm:w-auto"
           >
-            {currentQuestionIndex < activeQuestions.length - 1
+            {currentQuestionIndex < quizLength - 1
               ? "Next Question"
-              : "Finish Quiz"}
+              : isReview
+                ? "Finish Review"
+                : "Finish Quiz"}
           </Button>
         )}
       </CardFooter>
@@ -1,16 +1,25 @@
 
 import type { Resource } from "@/lib/types";
-import SafeYouTube from "./SafeYouTube";
+import { formatSegment, formatTimestamp, segmentKey } from "@/lib/video-segments";
+import { isVideoUrl } from "@/lib/video-providers";
+import VideoPlayer from "./video-player";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Link } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Link } from "lucide-react";
 
-export function ResourcesPanel({ resources }: { resources: Resource[] }) {
+interface ResourcesPanelProps {
+  resources: Resource[];
+  watchedSegments?: string[]; // segmentKey()s already watched
+  onSegmentWatched?: (key: string) => void;
+}
+
+export function ResourcesPanel({ resources, watchedSegments = [], onSegmentWatched }: ResourcesPanelProps) {
   if (!resources || resources.length === 0) {
     return null;
   }
 
-  const youtubeLinks = resources.filter(r => r.url.includes('youtube.com') || r.url.includes('youtu.be'));
-  const otherLinks = resources.filter(r => !youtubeLinks.includes(r));
+  const videoLinks = resources.filter(r => isVideoUrl(r.url));
+  const otherLinks = resources.filter(r => !videoLinks.includes(r));
 
   return (
     <Card className="mt-4 bg-secondary/50">
@@ -21,14 +30,53 @@ export function ResourcesPanel({ resources }: { resources: Resource[] }) {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {youtubeLinks.length > 0 && (
+        {videoLinks.length > 0 && (
           <div className="space-y-4">
-            {youtubeLinks.map((resource, index) => (
-              <div key={`yt-${index}`}>
-                <h4 className="font-semibold mb-2">{resource.title}</h4>
-                <SafeYouTube url={resource.url} title={resource.title} />
-              </div>
-            ))}
+            {videoLinks.map((resource, index) => {
+              const segment = resource.type === "video" ? resource.segment : undefined;
+              const key = segment && segmentKey(resource, segment);
+              return (
+                <div key={`video-${index}`}>
+                  <h4 className="font-semibold mb-2 flex flex-wrap items-center gap-2">
+                    {resource.title}
+                    {resource.type === "video" && resource.matchConfidence !== undefined && (
+                      <Badge
+                        variant="outline"
+                        className="font-normal text-muted-foreground"
+                        title="How closely this video matches the lesson"
+                      >
+                        {Math.round(resource.matchConfidence * 100)}% match
+                      </Badge>
+                    )}
+                  </h4>
+                  {key && (
+                    <p className="text-xs text-muted-foreground mb-2 flex items-center gap-1">
+                      {watchedSegments.includes(key) ? (
+                        <>
+                          <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+                          Segment watched
+                        </>
+                      ) : (
+                        <>
+                          Watch{" "}
+                          {segment.end === undefined
+                            ? `from ${formatTimestamp(segment.start)}`
+                            : formatSegment(segment)}{" "}
+                          for this lesson
+                        </>
+                      )}
+                    </p>
+                  )}
+                  <VideoPlayer
+                    url={resource.url}
+                    title={resource.title}
+                    segment={segment}
+                    chapters={resource.type === "video" ? resource.chapters : undefined}
+                    onSegmentWatched={key && onSegmentWatched ? () => onSegmentWatched(key) : undefined}
+                  />
+                </div>
+              );
+            })}
           </div>
         )}
 
@@ -0,0 +1,47 @@
+"use client";
+
+import {
+  formatTimestamp,
+  type VideoChapter,
+  type VideoSegment,
+} from "@/lib/video-segments";
+
+interface VideoChaptersProps {
+  segment?: VideoSegment;
+  chapters?: VideoChapter[];
+  onSeek: (seconds: number) => void;
+}
+
+// Clickable segment and chapter markers shown below a video player
+export function VideoChapters({
+  segment,
+  chapters,
+  onSeek,
+}: VideoChaptersProps) {
+  if (!segment && !chapters?.length) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2 text-xs">
+      {segment && (
+        <button
+          type="button"
+          className="px-2 py-1 rounded-md border font-medium hover:bg-secondary transition-colors"
+          onClick={() => onSeek(segment.start)}
+        >
+          Segment {formatTimestamp(segment.start)}
+          {segment.end === undefined ? "+" : `–${formatTimestamp(segment.end)}`}
+        </button>
+      )}
+      {chapters?.map((chapter) => (
+        <button
+          key={`${chapter.time}-${chapter.label}`}
+          type="button"
+          className="px-2 py-1 rounded-md text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors"
+          onClick={() => onSeek(chapter.time)}
+        >
+          <span className="font-mono">{formatTimestamp(chapter.time)}</span>{" "}
+          {chapter.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getVideoProvider, type VideoValidation } from "@/lib/video-providers";
+import type { VideoChapter, VideoSegment } from "@/lib/video-segments";
+import { reportsPlayback, useSegmentWatch } from "@/hooks/use-segment-watch";
+import { VideoChapters } from "./video-chapters";
+
+type Props = {
+  url: string;
+  title?: string;
+  segment?: VideoSegment; // play only this part of the video
+  chapters?: VideoChapter[];
+  onSegmentWatched?: () => void;
+};
+
+// Less strict: allow embed for ok, unknown, region_blocked, age_restricted
+// Always fallback (no player) for shorts, live, private, embed_disabled, not_found
+const allowEmbedReasons: ReadonlySet<VideoValidation["reason"]> = new Set([
+  "ok",
+  "unknown",
+  "region_blocked",
+  "age_restricted",
+]);
+
+function WatchLink({ href }: { href: string }) {
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center px-3 py-2 rounded bg-primary text-primary-foreground hover:opacity-90"
+    >
+      Watch Video
+    </a>
+  );
+}
+
+/**
+ * Lesson video player for any supported provider (see video-providers.ts):
+ * validates the URL, then embeds it in an iframe or a `<video>` element, or
+ * falls back to a link when it can't be embedded.
+ */
+export default function VideoPlayer({
+  url,
+  title,
+  segment,
+  chapters,
+  onSegmentWatched,
+}: Props) {
+  const provider = useMemo(() => getVideoProvider(url), [url]);
+  const [state, setState] = useState<VideoValidation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Where playback starts: the segment, or the chapter the learner picked
+  const [startAt, setStartAt] = useState(segment?.start ?? 0);
+  const [autoplay, setAutoplay] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const watch = useSegmentWatch(
+    provider?.name ?? "youtube",
+    iframeRef,
+    segment,
+    onSegmentWatched
+  );
+
+  useEffect(() => {
+    if (!provider) return;
+    let alive = true;
+    (async () => {
+      try {
+        const res = await provider.validate(url);
+        if (!alive) return;
+        setState(res);
+      } catch (e) {
+        if (!alive) return;
+        setError((e as Error)?.message || "validation failed");
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [provider, url]);
+
+  if (!provider || error) {
+    return (
+      <div className="p-4 rounded border border-border bg-muted/40 text-sm">
+        <div className="mb-2">
+          {provider
+            ? "Could not validate video."
+            : "This video can’t be embedded."}
+        </div>
+        <WatchLink href={url} />
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="aspect-video w-full bg-muted/30 rounded animate-pulse" />
+    );
+  }
+
+  // If validation indicates no playable watch URL, hide this video entirely
+  if (!state.watchUrl) {
+    return null;
+  }
+
+  if (
+    !state.embeddable ||
+    !state.id ||
+    !state.embedUrl ||
+    !allowEmbedReasons.has(state.reason)
+  ) {
+    return (
+      <div className="p-4 rounded border border-border bg-muted/40 text-sm">
+        {title && <div className="font-medium mb-1">{title}</div>}
+        <div className="mb-2">
+          This video can’t be embedded ({state.reason}).
+        </div>
+        <WatchLink href={state.watchUrl} />
+      </div>
+    );
+  }
+
+  const src = provider.embedUrl(state.id, {
+    start: startAt,
+    // Stop at the end of the segment, unless a chapter past it was picked
+    end:
+      segment?.end !== undefined && startAt < segment.end
+        ? segment.end
+        : undefined,
+    autoplay,
+    apiOrigin: watch.enabled ? window.location.origin : undefined,
+  });
+
+  return (
+    <>
+      <div className="aspect-video w-full">
+        {provider.player === "video" ? (
+          <video
+            // A new start time only applies when the source loads
+            key={startAt}
+            className="w-full h-full rounded-lg bg-black"
+            src={src}
+            title={title || state.title || "Video"}
+            poster={state.thumbnail}
+            autoPlay={autoplay}
+            preload="metadata"
+            controls
+            onTimeUpdate={(e) =>
+              watch.record(
+                e.currentTarget.currentTime,
+                e.currentTarget.duration
+              )
+            }
+          />
+        ) : (
+          <iframe
+            key={startAt}
+            ref={iframeRef}
+            onLoad={watch.listen}
+            className="w-full h-full rounded-lg"
+            src={src}
+            title={title || state.title || `${provider.label} video`}
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; fullscreen; gyroscope; picture-in-picture; web-share"
+            loading="lazy"
+            referrerPolicy="strict-origin-when-cross-origin"
+            allowFullScreen
+          />
+        )}
+      </div>
+      <VideoChapters
+        segment={segment}
+        chapters={chapters}
+        onSeek={(seconds) => {
+          setStartAt(seconds);
+          setAutoplay(true);
+        }}
+      />
+      {watch.enabled && !reportsPlayback(provider.name) && (
+        <button
+          type="button"
+          className="mt-2 px-2 py-1 rounded-md border text-xs font-medium hover:bg-secondary transition-colors"
+          onClick={onSegmentWatched}
+        >
+          Mark segment as watched
+        </button>
+      )}
+      <div className="text-xs text-muted-foreground mt-1">
+        If the video doesn’t play,{" "}
+        <a
+          href={state.watchUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:underline"
+        >
+          open it on {provider.label}
+        </a>
+        .
+      </div>
+    </>
+  );
+}
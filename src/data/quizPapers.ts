@@ -1,9 +1,13 @@
+import type { QuizQuestionType } from "@/lib/types";
+
 export interface QuizQuestion {
     id: string;
     questionText: string;
     answerText: string;
+    type?: QuizQuestionType; // defaults to MCQ with options, Short without
     options?: string[]; // optional MCQ choices
     explanation?: string; // Added to match existing schema
+    section?: string; // exam results are broken down by section
 }
 
 export interface QuizPaper {
@@ -11,6 +15,10 @@ export interface QuizPaper {
     title: string;
     description?: string;
     questions: QuizQuestion[];
+    // Exam settings; papers are played as timed exams
+    passingScore?: number; // percentage, defaults to 70
+    timeLimit?: number; // minutes; untimed when unset
+    attemptsAllowed?: number; // per user; unlimited when unset
 }
 
 export const QUIZ_PAPERS: QuizPaper[] = [
@@ -18,9 +26,13 @@ export const QUIZ_PAPERS: QuizPaper[] = [
         id: "paper-1",
         title: "Paper 1: Fundamentals",
         description: "Basic concepts and definitions.",
+        passingScore: 70,
+        timeLimit: 10,
+        attemptsAllowed: 3,
         questions: [
             {
                 id: "p1-q1",
+                section: "Hardware",
                 questionText: "What is the primary function of a CPU?",
                 answerText: "To execute instructions from computer programs.",
                 options: [
@@ -33,6 +45,7 @@ export const QUIZ_PAPERS: QuizPaper[] = [
             },
             {
                 id: "p1-q2",
+                section: "Memory",
                 questionText: "Which of the following is a non-volatile memory type?",
                 answerText: "ROM",
                 options: [
@@ -49,9 +62,13 @@ export const QUIZ_PAPERS: QuizPaper[] = [
         id: "paper-2",
         title: "Paper 2: Advanced Topics",
         description: "Deep dive into complex systems.",
+        passingScore: 70,
+        timeLimit: 5,
+        attemptsAllowed: 3,
         questions: [
             {
                 id: "p2-q1",
+                section: "Algorithms",
                 questionText: "What is the time complexity of binary search?",
                 answerText: "O(log n)",
                 options: [
@@ -56,4 +56,30 @@ describe("useUserProgress", () => {
     expect(status.isCompleted).toBe(true);
     expect(onComplete).toHaveBeenCalled();
   });
+
+  it("keeps failed attempts and adds up time without completing", async () => {
+    const { result } = renderHook(() => useUserProgress("c1", "Course", 2));
+    const attempt = { score: 40, passed: false, answers: [] };
+
+    await act(async () => {
+      await result.current.recordQuizAttempt("l1", attempt, 45);
+    });
+    await act(async () => {
+      await result.current.markLessonComplete("l1", 90, 15, {
+        score: 90,
+        passed: true,
+        answers: [],
+      });
+    });
+
+    expect(updateLessonProgress).toHaveBeenNthCalledWith(1, "u1", "c1", "l1", {
+      score: 40,
+      timeSpent: 45,
+      attempts: [attempt],
+    });
+    const lesson = result.current.progress.find((p) => p.lessonId === "l1");
+    expect(lesson.completed).toBe(true);
+    expect(lesson.timeSpent).toBe(60);
+    expect(lesson.attempts.map((a) => a.score)).toEqual([40, 90]);
+  });
 });
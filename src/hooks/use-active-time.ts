@@ -0,0 +1,52 @@
+"use client";
+
+import {
+  createActiveTimeTracker,
+  type ActiveTimeTracker,
+} from "@/lib/active-time";
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * useActiveTime
+ *
+ * Contract
+ * - Returns: `activate(id)` to switch the lesson being worked on and
+ *   `takeSeconds(id)` for the active time accrued since the last take.
+ * - Side effects: pauses the clock while the tab is hidden or the window
+ *   loses focus, resumes it when the learner comes back.
+ */
+export function useActiveTime() {
+  const trackerRef = useRef<ActiveTimeTracker | null>(null);
+  if (!trackerRef.current) trackerRef.current = createActiveTimeTracker();
+
+  useEffect(() => {
+    const tracker = trackerRef.current!;
+    const sync = () => {
+      if (document.visibilityState === "visible" && document.hasFocus()) {
+        tracker.resume();
+      } else {
+        tracker.pause();
+      }
+    };
+    sync();
+    document.addEventListener("visibilitychange", sync);
+    window.addEventListener("blur", sync);
+    window.addEventListener("focus", sync);
+    return () => {
+      document.removeEventListener("visibilitychange", sync);
+      window.removeEventListener("blur", sync);
+      window.removeEventListener("focus", sync);
+    };
+  }, []);
+
+  const activate = useCallback((id: string) => {
+    trackerRef.current!.activate(id);
+  }, []);
+
+  const takeSeconds = useCallback(
+    (id: string) => Math.round(trackerRef.current!.take(id) / 1000),
+    []
+  );
+
+  return { activate, takeSeconds };
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from 'react';
-import type { Course, StoredCourse, StudySession } from '@/lib/types';
+import type { Course, Lesson, LessonProgressStatus, StoredCourse, StudySession } from '@/lib/types';
 import { sliceSession } from '@/lib/course-slicer';
 
 const COURSE_STORAGE_KEY = 'ai-course-crafter-course';
@@ -31,11 +31,14 @@ export function useCourseStorage() {
     }
   }, []);
 
-  const saveCourse = useCallback((course: Course) => {
+  // `progress` seeds the new course, e.g. with lessons tested out by the placement quiz;
+  // `unlockOverrides` are lessons the instructor unlocked in the preview
+  const saveCourse = useCallback((course: Course, progress: StoredCourse['progress'] = {}, unlockOverrides: string[] = []) => {
     try {
       const newStoredCourse: StoredCourse = {
         course,
-        progress: {},
+        progress,
+        unlockOverrides,
         createdAt: new Date().toISOString(),
       };
       window.localStorage.setItem(COURSE_STORAGE_KEY, JSON.stringify(newStoredCourse));
@@ -84,7 +87,7 @@ export function useCourseStorage() {
     return newSession;
   }, []);
 
-  const updateStepProgress = useCallback((stepId: string, status: 'completed') => {
+  const updateStepProgress = useCallback((stepId: string, status: LessonProgressStatus) => {
     setStoredCourse(prev => {
         if (!prev) return null;
         const newProgress = { ...prev.progress, [stepId]: status };
@@ -98,6 +101,90 @@ export function useCourseStorage() {
     });
   }, []);
 
+  // Best quiz score per lesson; prerequisite gates compare it to the quiz's passing score
+  const recordQuizScore = useCallback((lessonId: string, score: number) => {
+    setStoredCourse(prev => {
+        if (!prev) return null;
+        const best = prev.quizScores?.[lessonId];
+        if (best !== undefined && best >= score) return prev;
+        const newStoredCourse: StoredCourse = { ...prev, quizScores: { ...prev.quizScores, [lessonId]: score } };
+        try {
+            window.localStorage.setItem(COURSE_STORAGE_KEY, JSON.stringify(newStoredCourse));
+        } catch (error) {
+            console.error("Failed to save quiz score in localStorage", error);
+        }
+        return newStoredCourse;
+    });
+  }, []);
+
+  // Instructor override: unlock a lesson whatever its prerequisites (see prerequisites.ts)
+  const overrideLock = useCallback((lessonId: string) => {
+    setStoredCourse(prev => {
+        if (!prev || prev.unlockOverrides?.includes(lessonId)) return prev;
+        const newStoredCourse: StoredCourse = { ...prev, unlockOverrides: [...(prev.unlockOverrides || []), lessonId] };
+        try {
+            window.localStorage.setItem(COURSE_STORAGE_KEY, JSON.stringify(newStoredCourse));
+        } catch (error) {
+            console.error("Failed to save unlock override in localStorage", error);
+        }
+        return newStoredCourse;
+    });
+  }, []);
+
+  // Video segments the learner watched, per lesson (keys from segmentKey in video-segments.ts)
+  const markSegmentWatched = useCallback((lessonId: string, key: string) => {
+    setStoredCourse(prev => {
+        if (!prev || prev.watchedSegments?.[lessonId]?.includes(key)) return prev;
+        const watched = [...(prev.watchedSegments?.[lessonId] || []), key];
+        const newStoredCourse: StoredCourse = { ...prev, watchedSegments: { ...prev.watchedSegments, [lessonId]: watched } };
+        try {
+            window.localStorage.setItem(COURSE_STORAGE_KEY, JSON.stringify(newStoredCourse));
+        } catch (error) {
+            console.error("Failed to save watched segment in localStorage", error);
+        }
+        return newStoredCourse;
+    });
+  }, []);
+
+  // Keep generated "why is my choice wrong?" rationales on the question, in
+  // both the course and the current session, so they're generated once
+  const cacheQuestionRationales = useCallback((lessonId: string, questionText: string, rationales: Record<string, string>) => {
+    const withRationales = (lesson: Lesson): Lesson =>
+      lesson.id !== lessonId ? lesson : {
+        ...lesson,
+        quiz: lesson.quiz?.map(q => q.question !== questionText ? q : {
+          ...q,
+          distractorRationales: { ...q.distractorRationales, ...rationales },
+        }),
+      };
+
+    setStoredCourse(prev => {
+        if (!prev) return null;
+        const newStoredCourse: StoredCourse = {
+          ...prev,
+          course: {
+            ...prev.course,
+            sessions: prev.course.sessions.map(s => ({ ...s, lessons: s.lessons.map(withRationales) })),
+          },
+        };
+        try {
+            window.localStorage.setItem(COURSE_STORAGE_KEY, JSON.stringify(newStoredCourse));
+        } catch (error) {
+            console.error("Failed to cache explanations in localStorage", error);
+        }
+        return newStoredCourse;
+    });
+    setStudySession(prev => {
+        if (!prev) return prev;
+        const newSession: StudySession = { ...prev, lessons: prev.lessons.map(withRationales) };
+        try {
+            window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(newSession));
+        } catch (error) {
+            console.error("Failed to cache explanations in localStorage", error);
+        }
+        return newSession;
+    });
+  }, []);
 
-  return { isLoading, storedCourse, studySession, saveCourse, startNewSession, updateStepProgress, clearCourse };
+  return { isLoading, storedCourse, studySession, saveCourse, startNewSession, updateStepProgress, recordQuizScore, overrideLock, markSegmentWatched, cacheQuestionRationales, clearCourse };
 }
@@ -0,0 +1,156 @@
+"use client";
+
+import { submitExam, type ExamSubmission } from "@/app/exam-actions";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  getExamAttempts,
+  startExamAttempt,
+  type ExamAttemptRecord,
+} from "@/lib/auth";
+import { getAccessToken } from "@/lib/authSupabase";
+import { attemptsRemaining, type ExamResult } from "@/lib/exam";
+import type { ExamSettings } from "@/lib/types";
+import { useCallback, useEffect, useState } from "react";
+
+const LOCAL_ATTEMPTS_KEY = "ai-course-crafter-exam-attempts";
+
+const readLocalAttempts = (examId: string): ExamAttemptRecord[] => {
+  try {
+    const item = window.localStorage.getItem(`${LOCAL_ATTEMPTS_KEY}:${examId}`);
+    const rows: ExamAttemptRecord[] = item ? JSON.parse(item) : [];
+    return rows.map((a) => ({
+      ...a,
+      startedAt: new Date(a.startedAt),
+      submittedAt: a.submittedAt ? new Date(a.submittedAt) : undefined,
+    }));
+  } catch (error) {
+    console.error("Failed to load exam attempts from localStorage", error);
+    return [];
+  }
+};
+
+const writeLocalAttempts = (examId: string, attempts: ExamAttemptRecord[]) => {
+  try {
+    window.localStorage.setItem(
+      `${LOCAL_ATTEMPTS_KEY}:${examId}`,
+      JSON.stringify(attempts)
+    );
+  } catch (error) {
+    console.error("Failed to save exam attempts to localStorage", error);
+  }
+};
+
+/**
+ * useExamAttempts
+ *
+ * Contract
+ * - Returns: the learner's attempts at the exam, how many remain (null when
+ *   unlimited), `start()` which claims an attempt and resolves to its id
+ *   (null when none are left) and `submit(id, result, submission)`, which
+ *   resolves to the stored result.
+ * - Side effects: attempts are stored in `exam_attempts` for logged-in
+ *   users, where the limit is also enforced and the submission is graded
+ *   again on the server (`submitExam`); otherwise in localStorage.
+ *
+ * Edge cases
+ * - No settings (not an exam course): no attempts and `start()` resolves null.
+ */
+export function useExamAttempts(settings?: ExamSettings) {
+  const { user } = useAuth();
+  const [attempts, setAttempts] = useState<ExamAttemptRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const examId = settings?.examId;
+
+  const refresh = useCallback(async () => {
+    if (!examId) return;
+    if (!user) {
+      setAttempts(readLocalAttempts(examId));
+      return;
+    }
+    setLoading(true);
+    try {
+      setAttempts(await getExamAttempts(user.id, examId));
+    } catch (error) {
+      console.error("Error loading exam attempts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, examId]);
+
+  useEffect(() => {
+    if (examId) {
+      refresh();
+    } else {
+      setAttempts([]);
+    }
+  }, [examId, refresh]);
+
+  const remaining = settings
+    ? attemptsRemaining(settings, attempts.length)
+    : null;
+
+  const start = useCallback(async (): Promise<string | null> => {
+    if (!settings || remaining === 0) return null;
+    if (!user) {
+      const attempt: ExamAttemptRecord = {
+        id: `local-${Date.now()}`,
+        examId: settings.examId,
+        startedAt: new Date(),
+      };
+      const next = [...readLocalAttempts(settings.examId), attempt];
+      writeLocalAttempts(settings.examId, next);
+      setAttempts(next);
+      return attempt.id;
+    }
+    const attempt = await startExamAttempt(user.id, settings.examId);
+    // A rejected insert usually means another tab used the last attempt
+    await refresh();
+    return attempt?.id ?? null;
+  }, [user, settings, remaining, refresh]);
+
+  const submit = useCallback(
+    async (
+      attemptId: string,
+      local: ExamResult,
+      submission: ExamSubmission
+    ): Promise<ExamResult> => {
+      if (!settings) return local;
+      let result = local;
+      if (user) {
+        const graded = await submitExam(
+          await getAccessToken(),
+          attemptId,
+          submission
+        );
+        if ("error" in graded) {
+          // Nothing was stored; show the attempts as the server has them
+          console.error("Error submitting exam:", graded.error);
+          await refresh();
+          return local;
+        }
+        result = graded;
+      }
+      const update = (a: ExamAttemptRecord): ExamAttemptRecord =>
+        a.id === attemptId
+          ? {
+              ...a,
+              submittedAt: new Date(result.completedAt),
+              score: result.score,
+              passed: result.passed,
+              result,
+            }
+          : a;
+      if (!user) {
+        const next = readLocalAttempts(settings.examId).map(update);
+        writeLocalAttempts(settings.examId, next);
+        setAttempts(next);
+        return result;
+      }
+      setAttempts((prev) => prev.map(update));
+      return result;
+    },
+    [user, settings, refresh]
+  );
+
+  return { attempts, remaining, loading, start, submit, refresh };
+}
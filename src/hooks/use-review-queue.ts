@@ -0,0 +1,82 @@
+"use client";
+
+import { useAuth } from "@/components/auth/AuthProvider";
+import { getDueReviewCards, recordReviewAttempt } from "@/lib/auth";
+import type { ReviewCard } from "@/lib/auth";
+import { reviewCardId } from "@/lib/spaced-repetition";
+import type { QuizQuestion } from "@/lib/types";
+import { useCallback, useEffect, useState } from "react";
+
+interface ReviewAttemptContext {
+  courseId: string;
+  courseTitle?: string;
+  lessonId: string;
+}
+
+/**
+ * useReviewQueue
+ *
+ * Contract
+ * - Returns: the logged-in user's due review cards, a recorder for quiz
+ *   answers and a refresher.
+ * - Side effects: fetches due cards on login; every recorded answer
+ *   reschedules (or creates) the question's review card on the server.
+ * - Pass `autoLoad: false` when only recording answers (lesson pages).
+ *
+ * Edge cases
+ * - When no user: no cards and recording is a no-op.
+ * - Answered cards that are no longer due drop out of the local queue.
+ */
+export function useReviewQueue({ autoLoad = true } = {}) {
+  const { user } = useAuth();
+  const [dueCards, setDueCards] = useState<ReviewCard[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setDueCards(await getDueReviewCards(user.id));
+    } catch (error) {
+      console.error("Error loading review queue:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user && autoLoad) {
+      refresh();
+    } else {
+      setDueCards([]);
+    }
+  }, [user, autoLoad, refresh]);
+
+  const recordAttempt = useCallback(
+    async (
+      context: ReviewAttemptContext,
+      question: QuizQuestion,
+      correct: boolean,
+      elapsedMs?: number
+    ) => {
+      if (!user) return null;
+      const card = await recordReviewAttempt(
+        user.id,
+        {
+          ...context,
+          cardId: reviewCardId(context.courseId, question.question),
+          question,
+        },
+        correct,
+        elapsedMs
+      );
+      if (card && card.dueAt.getTime() > Date.now()) {
+        setDueCards((prev) => prev.filter((c) => c.cardId !== card.cardId));
+      }
+      return card;
+    },
+    [user]
+  );
+
+  return { dueCards, loading, recordAttempt, refresh };
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import type { VideoProviderName } from "@/lib/video-providers";
+import { isSegmentWatched, type VideoSegment } from "@/lib/video-segments";
+import { useCallback, useEffect, useRef, type RefObject } from "react";
+
+type PlayerMessage = {
+  event?: string;
+  info?: { currentTime?: number; duration?: number }; // YouTube
+  data?: { seconds?: number; duration?: number }; // Vimeo
+};
+
+// Providers whose player reports its position; PeerTube's embed API needs
+// its own channel library, so those segments are marked watched by hand
+export function reportsPlayback(provider: VideoProviderName): boolean {
+  return provider !== "peertube";
+}
+
+// Ask an iframe player to start sending its position
+function subscribe(provider: VideoProviderName, frame: Window) {
+  const message =
+    provider === "vimeo"
+      ? { method: "addEventListener", value: "timeupdate" }
+      : { event: "listening" };
+  frame.postMessage(JSON.stringify(message), "*");
+}
+
+/**
+ * useSegmentWatch
+ *
+ * Contract
+ * - Inputs: the player's provider, its iframe (YouTube embedded with
+ *   `enablejsapi=1`, or Vimeo) if it has one, the segment to watch and a
+ *   callback.
+ * - Returns: `listen()`, to call from the iframe's `onLoad`; it asks the
+ *   player to report its position. `record(time, duration)`, for players
+ *   that report it directly (the `<video>` element's `timeupdate`).
+ * - Side effects: records which whole seconds were played, across reloads of
+ *   the player, and calls `onWatched` once when `isSegmentWatched` holds.
+ *   Does nothing without a segment or callback.
+ */
+export function useSegmentWatch(
+  provider: VideoProviderName,
+  iframeRef: RefObject<HTMLIFrameElement | null>,
+  segment: VideoSegment | undefined,
+  onWatched: (() => void) | undefined
+) {
+  const playedRef = useRef(new Set<number>());
+  const reportedRef = useRef(false);
+  const enabled = !!segment && !!onWatched;
+
+  const record = useCallback(
+    (currentTime: number, duration?: number) => {
+      if (!enabled || !Number.isFinite(currentTime)) return;
+      playedRef.current.add(Math.floor(currentTime));
+      if (
+        !reportedRef.current &&
+        isSegmentWatched(
+          playedRef.current,
+          segment!,
+          Number.isFinite(duration) ? duration : undefined
+        )
+      ) {
+        reportedRef.current = true;
+        onWatched!();
+      }
+    },
+    [enabled, segment, onWatched]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onMessage = (event: MessageEvent) => {
+      const frame = iframeRef.current?.contentWindow;
+      if (!frame || event.source !== frame) return;
+      let data: PlayerMessage;
+      try {
+        data =
+          typeof event.data === "string" ? JSON.parse(event.data) : event.data;
+      } catch {
+        return;
+      }
+      if (provider === "vimeo" && data?.event === "ready") {
+        subscribe(provider, frame);
+      } else if (provider === "vimeo" && data?.event === "timeupdate") {
+        const seconds = data.data?.seconds;
+        if (typeof seconds === "number") record(seconds, data.data?.duration);
+      } else if (provider === "youtube" && data?.event === "infoDelivery") {
+        const currentTime = data.info?.currentTime;
+        if (typeof currentTime === "number") {
+          record(currentTime, data.info?.duration);
+        }
+      }
+    };
+    window.addEventListener("message", onMessage);
+    return () => window.removeEventListener("message", onMessage);
+  }, [enabled, provider, iframeRef, record]);
+
+  const listen = useCallback(() => {
+    const frame = iframeRef.current?.contentWindow;
+    if (!enabled || !frame || !reportsPlayback(provider)) return;
+    subscribe(provider, frame);
+  }, [enabled, provider, iframeRef]);
+
+  return { enabled, listen, record };
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { getCourseSourceDocument } from "@/app/course-actions";
+import { getAccessToken } from "@/lib/authSupabase";
+import { getLocalUserId } from "@/lib/local-user";
+import type { Course, SourceDocument } from "@/lib/types";
+import { useEffect, useState } from "react";
+
+// Documents seen in this tab, by content hash. Kept out of localStorage:
+// a source can be a million characters and would blow the storage quota.
+const recent = new Map<string, SourceDocument>();
+
+export function rememberSourceDocument(doc: SourceDocument) {
+  recent.set(doc.contentHash, doc);
+}
+
+/**
+ * useSourceDocument
+ *
+ * Contract
+ * - Input: the course being studied.
+ * - Returns: its source document once available, and whether it is still
+ *   being fetched.
+ * - Resolution order: a `source_document` still embedded in older stored
+ *   courses; this tab's memory by `source_ref.contentHash`; the server by
+ *   `source_ref.courseId`, as the signed-in user or, signed out, this
+ *   browser's local user id.
+ */
+export function useSourceDocument(course: Course | undefined) {
+  const embedded = course?.source_document;
+  const ref = course?.source_ref;
+  const [fetched, setFetched] = useState<SourceDocument | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const cached = ref?.contentHash ? recent.get(ref.contentHash) : undefined;
+  const courseId = !embedded && !cached ? ref?.courseId : undefined;
+
+  useEffect(() => {
+    setFetched(null);
+    if (!courseId) return;
+    let alive = true;
+    setLoading(true);
+    (async () => {
+      try {
+        const doc = await getCourseSourceDocument(
+          await getAccessToken(),
+          courseId,
+          getLocalUserId()
+        );
+        if (!alive || !doc) return;
+        rememberSourceDocument(doc);
+        setFetched(doc);
+      } catch (error) {
+        console.error("Failed to load the source document:", error);
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [courseId]);
+
+  return { source: embedded ?? cached ?? fetched ?? undefined, loading };
+}
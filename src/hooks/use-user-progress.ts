@@ -4,6 +4,8 @@ import { useAuth } from "@/components/auth/AuthProvider";
 import { updateLessonProgress, getCourseProgress } from "@/lib/auth";
 import { useEffect, useState, useCallback } from "react";
 import type { LessonProgress } from "@/lib/auth";
+import { mergeLessonProgress } from "@/lib/progress";
+import type { QuizAttempt } from "@/lib/types";
 
 interface CourseCompletionData {
   courseId: string;
@@ -18,8 +20,12 @@ interface CourseCompletionData {
  *
  * Contract
  * - Inputs: courseId, courseTitle, totalLessons
- * - Returns: local progress state, helpers to mark complete, scoring accessors, and a refresher.
- * - Side effects: fetches progress for the logged-in user; updates server on mark complete.
+ * - Returns: local progress state, helpers to mark complete and record quiz
+ *   attempts, scoring accessors, and a refresher.
+ * - Side effects: fetches progress for the logged-in user; updates server on mark complete
+ *   and on every recorded attempt.
+ * - `timeSpent` arguments are active seconds since the last write; they add up.
+ * - `loaded` turns true once the user's progress has been fetched.
  *
  * Edge cases
  * - When no user or courseId: no-ops.
@@ -33,6 +39,7 @@ export function useUserProgress(
   const { user } = useAuth();
   const [progress, setProgress] = useState<LessonProgress[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loaded, setLoaded] = useState(false);
   const [onCourseComplete, setOnCourseComplete] = useState<
     ((data: CourseCompletionData) => void) | null
   >(null);
@@ -54,34 +61,27 @@ export function useUserProgress(
       console.error("Error loading progress:", error);
     } finally {
       setLoading(false);
+      setLoaded(true);
     }
   };
 
-  const markLessonComplete = async (
+  const saveProgress = async (
     lessonId: string,
-    score?: number,
-    timeSpent?: number
+    update: Partial<LessonProgress>
   ) => {
     if (!user || !courseId) return;
 
     try {
-      await updateLessonProgress(user.id, courseId, lessonId, {
-        completed: true,
-        score,
-        timeSpent,
-      });
+      await updateLessonProgress(user.id, courseId, lessonId, update);
 
       // Update local state
       setProgress((prev) => {
         const existingIndex = prev.findIndex((p) => p.lessonId === lessonId);
-        const updatedProgress = {
+        const updatedProgress = mergeLessonProgress(prev[existingIndex], {
+          ...update,
           courseId,
           lessonId,
-          completed: true,
-          completedAt: new Date(),
-          score,
-          timeSpent,
-        };
+        });
 
         let newProgress;
         if (existingIndex >= 0) {
@@ -92,7 +92,7 @@ export function useUserProgress(
         }
 
         // Check if course is now complete
-        if (totalLessons && courseTitle) {
+        if (update.completed && totalLessons && courseTitle) {
           const completedCount = newProgress.filter((p) => p.completed).length;
           if (completedCount >= totalLessons && onCourseComplete) {
             onCourseComplete({
@@ -112,6 +112,44 @@ export function useUserProgress(
     }
   };
 
+  const markLessonComplete = async (
+    lessonId: string,
+    score?: number,
+    timeSpent?: number,
+    attempt?: QuizAttempt
+  ) => {
+    await saveProgress(lessonId, {
+      completed: true,
+      score,
+      timeSpent,
+      attempts: attempt ? [attempt] : undefined,
+      mastery: attempt?.mastery,
+    });
+  };
+
+  // Keep a quiz attempt that did not complete the lesson (e.g. a failed one)
+  const recordQuizAttempt = async (
+    lessonId: string,
+    attempt: QuizAttempt,
+    timeSpent?: number
+  ) => {
+    await saveProgress(lessonId, {
+      score: attempt.score,
+      timeSpent,
+      attempts: [attempt],
+      mastery: attempt.mastery,
+    });
+  };
+
+  // Lessons skipped by the placement quiz count towards course completion;
+  // ones the learner already completed are left as they are
+  const markLessonsTestedOut = async (lessonIds: string[]) => {
+    for (const lessonId of lessonIds) {
+      if (isLessonCompleted(lessonId)) continue;
+      await saveProgress(lessonId, { completed: true, testedOut: true });
+    }
+  };
+
   const isLessonCompleted = (lessonId: string) => {
     return progress.some((p) => p.lessonId === lessonId && p.completed);
   };
@@ -143,7 +181,10 @@ export function useUserProgress(
   return {
     progress,
     loading,
+    loaded,
     markLessonComplete,
+    markLessonsTestedOut,
+    recordQuizAttempt,
     isLessonCompleted,
     getLessonScore,
     getCourseCompletionStatus,
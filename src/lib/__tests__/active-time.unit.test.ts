@@ -0,0 +1,31 @@
+import { createActiveTimeTracker } from "@/lib/active-time";
+
+describe("createActiveTimeTracker", () => {
+  it("accrues time for the active lesson only, and not while paused", () => {
+    let now = 0;
+    const tracker = createActiveTimeTracker(() => now);
+
+    tracker.activate("a");
+    now = 1000;
+    tracker.activate("b");
+    now = 3000;
+    tracker.pause(); // tab hidden
+    now = 60_000;
+    tracker.resume();
+    now = 61_000;
+
+    expect(tracker.take("a")).toBe(1000);
+    expect(tracker.take("b")).toBe(3000);
+  });
+
+  it("hands out each stretch of time once", () => {
+    let now = 0;
+    const tracker = createActiveTimeTracker(() => now);
+    tracker.activate("a");
+    now = 500;
+    expect(tracker.take("a")).toBe(500);
+    expect(tracker.take("a")).toBe(0);
+    now = 800;
+    expect(tracker.take("a")).toBe(300);
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  estimateMastery,
+  nextDifficulty,
+  pickNextQuestion,
+} from "@/lib/adaptive-quiz";
+import type { QuestionDifficulty } from "@/lib/types";
+
+const q = (id: string, difficulty?: QuestionDifficulty) => ({ id, difficulty });
+
+describe("nextDifficulty", () => {
+  it("steps up after a correct answer and down after a miss, within bounds", () => {
+    expect(nextDifficulty("medium", true)).toBe("hard");
+    expect(nextDifficulty("medium", false)).toBe("easy");
+    expect(nextDifficulty("hard", true)).toBe("hard");
+    expect(nextDifficulty("easy", false)).toBe("easy");
+  });
+});
+
+describe("pickNextQuestion", () => {
+  const easy = q("e", "easy");
+  const medium = q("m");
+  const hard = q("h", "hard");
+
+  it("prefers an unasked question at the target level", () => {
+    expect(pickNextQuestion([easy, medium, hard], [], "hard")).toBe(hard);
+    // Untagged questions count as medium
+    expect(pickNextQuestion([easy, medium, hard], [], "medium")).toBe(medium);
+  });
+
+  it("falls back to the nearest level, easier first on a tie", () => {
+    expect(pickNextQuestion([easy, hard], [], "medium")).toBe(easy);
+    expect(pickNextQuestion([easy, medium], [medium], "hard")).toBe(easy);
+    expect(pickNextQuestion([easy], [easy], "easy")).toBeNull();
+  });
+});
+
+describe("estimateMastery", () => {
+  it("weights harder questions more and starts from a neutral prior", () => {
+    const mastery = estimateMastery([
+      { correct: true, difficulty: "hard", concepts: ["graphs"] },
+      { correct: false, difficulty: "easy", concepts: ["graphs", "bfs"] },
+    ]);
+    // (3 + 1) / (4 + 2) and (0 + 1) / (1 + 2)
+    expect(mastery.graphs).toEqual({ mastery: 0.67, answered: 2, correct: 1 });
+    expect(mastery.bfs).toEqual({ mastery: 0.33, answered: 1, correct: 0 });
+  });
+
+  it("credits untagged answers to the fallback concept only", () => {
+    const answers = [{ correct: true }];
+    expect(estimateMastery(answers)).toEqual({});
+    expect(estimateMastery(answers, "Intro").Intro.mastery).toBe(0.75);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  adaptiveToLegacy,
+  findAdaptiveLesson,
+  legacyLessonId,
+  type AdaptiveCourse,
+  type AdaptiveLesson,
+} from "@/lib/adaptive-types";
+import { sliceSession } from "@/lib/course-slicer";
+
+const mkLesson = (id: string, overrides: Partial<AdaptiveLesson> = {}) =>
+  ({
+    id,
+    lessonTitle: `Lesson ${id}`,
+    sections: [
+      {
+        id: `${id}-s0`,
+        type: "introduction",
+        title: "Overview",
+        content: `Intro for ${id}`,
+        conceptsTaught: [],
+        conceptsRevisited: [],
+        complexity: "low",
+        estimatedMinutes: 3,
+      },
+      {
+        id: `${id}-s1`,
+        type: "explanation",
+        title: "Details",
+        content: `Body for ${id}`,
+        conceptsTaught: [],
+        conceptsRevisited: [],
+        complexity: "medium",
+        estimatedMinutes: 5,
+      },
+    ],
+    objectives: [`Understand ${id}`],
+    estimatedMinutes: 10,
+    difficulty: "medium",
+    contentVariants: { standard: `Standard ${id}` },
+    resources: {},
+    checkpoints: [],
+    practiceProblems: [],
+    relevanceToGoal: 80,
+    prerequisiteConcepts: [],
+    enablesUnlocking: [],
+    sourceChunkIds: [`chunk-${id}`],
+    ...overrides,
+  }) as AdaptiveLesson;
+
+const mkCourse = (): AdaptiveCourse =>
+  ({
+    courseOverview: {
+      title: "Graphs",
+      description: "A personalised course on graphs",
+      learningObjectives: ["Traverse graphs"],
+    },
+    modules: [
+      {
+        id: "module-0",
+        moduleTitle: "Basics",
+        learningObjectives: [],
+        lessons: [
+          mkLesson("a", {
+            resources: {
+              videos: [
+                {
+                  title: "BFS explained",
+                  url: "https://youtube.com/watch?v=1",
+                  timestamps: [{ time: "2:30", label: "Example" }],
+                },
+              ],
+              articles: [
+                {
+                  title: "Graph article",
+                  url: "https://example.com/graphs",
+                  section: "BFS",
+                },
+              ],
+            },
+            quiz: {
+              questions: [
+                {
+                  id: "a-q1",
+                  question: "What does BFS use?",
+                  type: "MCQ",
+                  options: ["Queue", "Stack"],
+                  answer: "Queue",
+                  explanation: "Level order needs FIFO",
+                  difficulty: "easy",
+                  conceptsTested: ["bfs"],
+                },
+              ],
+              passingScore: 70,
+            },
+          }),
+          mkLesson("b"),
+        ],
+      },
+      {
+        id: "module-1",
+        moduleTitle: "Advanced",
+        learningObjectives: [],
+        lessons: [mkLesson("c", { sections: [] })],
+      },
+    ],
+  }) as unknown as AdaptiveCourse;
+
+describe("adaptiveToLegacy", () => {
+  it("maps modules to sessions with stable lesson ids", () => {
+    const legacy = adaptiveToLegacy(mkCourse());
+    expect(legacy.course_title).toBe("Graphs");
+    expect(legacy.description).toBe("A personalised course on graphs");
+    expect(legacy.total_estimated_time).toBe("30 minutes");
+    expect(legacy.sessions.map((s) => s.session_title)).toEqual([
+      "Basics",
+      "Advanced",
+    ]);
+    expect(legacy.sessions[0].lessons.map((l) => l.id)).toEqual([
+      "session-0-lesson-0",
+      "session-0-lesson-1",
+    ]);
+  });
+
+  it("flattens sections into content_summary", () => {
+    const lesson = adaptiveToLegacy(mkCourse()).sessions[0].lessons[0];
+    expect(lesson.content_summary).toBe(
+      "Overview\nIntro for a\n\nDetails\nBody for a"
+    );
+    expect(lesson.content_snippet).toBe("Overview");
+    expect(lesson.key_points).toEqual(["Understand a"]);
+  });
+
+  it("falls back to the standard variant when there are no sections", () => {
+    const lesson = adaptiveToLegacy(mkCourse()).sessions[1].lessons[0];
+    expect(lesson.content_summary).toBe("Standard c");
+  });
+
+  it("maps resources, quiz and source chunks", () => {
+    const lesson = adaptiveToLegacy(mkCourse()).sessions[0].lessons[0];
+    expect(lesson.resources).toEqual([
+      {
+        title: "BFS explained",
+        url: "https://youtube.com/watch?v=1",
+        type: "video",
+        timestamps: "2:30 Example",
+        chapters: [{ time: 150, label: "Example" }],
+      },
+      {
+        title: "Graph article",
+        url: "https://example.com/graphs",
+        type: "article",
+        section: "BFS",
+      },
+    ]);
+    expect(lesson.quiz).toEqual([
+      {
+        question: "What does BFS use?",
+        type: "MCQ",
+        answer: "Queue",
+        options: ["Queue", "Stack"],
+        explanation: "Level order needs FIFO",
+        difficulty: "easy",
+        conceptsTested: ["bfs"],
+      },
+    ]);
+    expect(lesson.sourceChunkIds).toEqual(["chunk-a"]);
+  });
+
+  it("keeps the analysis report in sync with the sessions", () => {
+    const legacy = adaptiveToLegacy(mkCourse());
+    const report = legacy.analysis_report;
+    expect(report.modules).toHaveLength(legacy.sessions.length);
+    expect(report.modules[0].lessons[0].quiz?.[0].answer).toBe("Queue");
+  });
+
+  it("produces courses sliceSession can play", () => {
+    const legacy = adaptiveToLegacy(mkCourse());
+    const session = sliceSession(
+      {
+        course: legacy,
+        progress: { "session-0-lesson-0": "completed" },
+        createdAt: "",
+      },
+      15
+    )!;
+    expect(session.title).toBe("Basics");
+    expect(session.lessons.map((l) => l.id)).toEqual(["session-0-lesson-1"]);
+  });
+});
+
+describe("findAdaptiveLesson", () => {
+  it("maps legacy lesson ids back to adaptive lessons", () => {
+    const course = mkCourse();
+    const legacy = adaptiveToLegacy(course);
+    for (const session of legacy.sessions) {
+      for (const lesson of session.lessons) {
+        const adaptive = findAdaptiveLesson(course, lesson.id);
+        expect(adaptive?.lessonTitle).toBe(lesson.lesson_title);
+        expect(adaptive?.sourceChunkIds).toEqual(lesson.sourceChunkIds);
+      }
+    }
+  });
+
+  it("returns undefined for unknown ids", () => {
+    const course = mkCourse();
+    expect(findAdaptiveLesson(course, legacyLessonId(5, 0))).toBeUndefined();
+    expect(findAdaptiveLesson(course, "not-a-lesson")).toBeUndefined();
+  });
+});
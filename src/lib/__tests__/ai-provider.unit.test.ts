@@ -0,0 +1,164 @@
+/** @jest-environment node */
+import { createCircuitBreakers } from "@/lib/circuit-breaker";
+import { parseModelConfig, resolveModel } from "@/lib/model-routing";
+
+jest.mock("@/lib/githubModels", () => ({ githubModelsChatStream: jest.fn() }));
+jest.mock("@/lib/google", () => ({ googleGenerateStream: jest.fn() }));
+jest.mock("@/lib/deepseek", () => ({ deepseekGenerateStream: jest.fn() }));
+jest.mock("@/lib/ollama", () => ({ ollamaGenerateStream: jest.fn() }));
+
+type Modules = {
+  provider: typeof import("@/lib/ai-provider");
+  usage: typeof import("@/lib/ai-usage");
+  github: jest.Mock;
+  google: jest.Mock;
+  ollama: jest.Mock;
+};
+
+// Fresh module state (circuit breakers, usage records, model config) per test
+async function load(env: Record<string, string>): Promise<Modules> {
+  Object.assign(process.env, env);
+  jest.resetModules();
+  return {
+    provider: await import("@/lib/ai-provider"),
+    usage: await import("@/lib/ai-usage"),
+    github: (await import("@/lib/githubModels"))
+      .githubModelsChatStream as jest.Mock,
+    google: (await import("@/lib/google")).googleGenerateStream as jest.Mock,
+    ollama: (await import("@/lib/ollama")).ollamaGenerateStream as jest.Mock,
+  };
+}
+
+const succeed = (...chunks: string[]) =>
+  async function* () {
+    for (const c of chunks) yield c;
+  };
+
+const fail = (message: string) =>
+  // eslint-disable-next-line require-yield
+  async function* () {
+    throw new Error(message);
+  };
+
+async function collect(gen: AsyncGenerator<string>) {
+  let out = "";
+  for await (const chunk of gen) out += chunk;
+  return out;
+}
+
+describe("aiGenerateStream", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("falls back along the chain and records which provider served", async () => {
+    const m = await load({ AI_PROVIDER_CHAIN: "github,google,ollama" });
+    m.github.mockImplementation(fail("rate limited"));
+    m.google.mockImplementation(succeed("Hel", "lo"));
+
+    const out = await collect(
+      m.provider.aiGenerateStream("hi", { flow: "analyzeDocument" })
+    );
+
+    expect(out).toBe("Hello");
+    expect(m.ollama).not.toHaveBeenCalled();
+    const calls = m.usage.getAiCalls();
+    expect(calls.map((c) => [c.provider, c.ok])).toEqual([
+      ["github", false],
+      ["google", true],
+    ]);
+    expect(calls[1].fallbackFrom).toEqual(["github"]);
+    expect(m.usage.summarizeAiUsage().analyzeDocument.providers).toEqual({
+      google: 1,
+    });
+  });
+
+  it("skips a provider whose circuit is open", async () => {
+    const m = await load({
+      AI_PROVIDER_CHAIN: "github,ollama",
+      AI_CIRCUIT_FAILURES: "2",
+    });
+    m.github.mockImplementation(fail("down"));
+    m.ollama.mockImplementation(succeed("ok"));
+
+    for (let i = 0; i < 3; i++) {
+      await collect(m.provider.aiGenerateStream("hi"));
+    }
+
+    expect(m.github).toHaveBeenCalledTimes(2);
+    expect(m.provider.providerHealth().github.state).toBe("open");
+  });
+
+  it("does not fall back once output has been streamed", async () => {
+    const m = await load({ AI_PROVIDER_CHAIN: "github,ollama" });
+    m.github.mockImplementation(async function* () {
+      yield "partial";
+      throw new Error("connection reset");
+    });
+
+    await expect(collect(m.provider.aiGenerateStream("hi"))).rejects.toThrow(
+      "connection reset"
+    );
+    expect(m.ollama).not.toHaveBeenCalled();
+  });
+
+  it("routes each flow to its configured model", async () => {
+    const m = await load({
+      AI_PROVIDER_CHAIN: "github",
+      AI_MODELS: JSON.stringify({
+        default: { github: "gpt-4o-mini" },
+        flows: { analyzeDocument: { github: "gpt-4o" } },
+      }),
+    });
+    m.github.mockImplementation(succeed("x"));
+
+    await collect(
+      m.provider.aiGenerateStream("a", { flow: "analyzeDocument" })
+    );
+    await collect(m.provider.aiGenerateStream("b", { flow: "detectMetadata" }));
+
+    expect(m.github.mock.calls.map(([, opts]) => opts.model)).toEqual([
+      "gpt-4o",
+      "gpt-4o-mini",
+    ]);
+  });
+});
+
+describe("circuit breakers", () => {
+  it("half-opens after the cooldown and closes on a successful trial", () => {
+    let now = 0;
+    const breakers = createCircuitBreakers({
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      now: () => now,
+    });
+
+    breakers.recordFailure("p");
+    expect(breakers.tryAcquire("p")).toBe(false);
+
+    now = 1000;
+    expect(breakers.tryAcquire("p")).toBe(true);
+    // Only one trial at a time while half-open
+    expect(breakers.tryAcquire("p")).toBe(false);
+
+    breakers.recordSuccess("p");
+    expect(breakers.state("p")).toBe("closed");
+  });
+});
+
+describe("model routing", () => {
+  it("ignores unknown providers and falls back to the default", () => {
+    const config = parseModelConfig(
+      JSON.stringify({
+        default: { ollama: "llama3.1:8b", mystery: "x" },
+        flows: { detectMetadata: { ollama: "llama3.2:3b" } },
+      })
+    );
+    expect(resolveModel(config, "ollama", "detectMetadata")).toBe(
+      "llama3.2:3b"
+    );
+    expect(resolveModel(config, "ollama", "auditCourse")).toBe("llama3.1:8b");
+    expect(resolveModel(config, "github")).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  gradeCodeAnswer,
+  gradeRubric,
+  gradeShortAnswer,
+  normalizeQuestionType,
+  questionTypeOf,
+  rubricFor,
+} from "@/lib/answer-grading";
+import { adaptiveToAnalysisReport } from "@/lib/adaptive-types";
+import { transformAnalysisToCourse } from "@/lib/course-transform";
+
+describe("question types", () => {
+  it("maps every generator's type names onto the QuizCard types", () => {
+    expect(normalizeQuestionType("short_answer")).toBe("Short");
+    expect(normalizeQuestionType("code_completion")).toBe("Code");
+    expect(normalizeQuestionType("practical")).toBe("Practical");
+    expect(normalizeQuestionType("Multiple choice")).toBe("MCQ");
+    expect(normalizeQuestionType("essay")).toBeUndefined();
+  });
+
+  it("plays untyped questions the way QuizCard always has", () => {
+    expect(questionTypeOf({ options: ["a", "b"] })).toBe("MCQ");
+    expect(questionTypeOf({})).toBe("Short");
+    // An MCQ without options can only be answered as text
+    expect(questionTypeOf({ type: "MCQ", options: [] })).toBe("Short");
+  });
+
+  it("survives the transform into the UI course", () => {
+    const course = transformAnalysisToCourse({
+      course_title: "Python",
+      modules: [
+        {
+          module_title: "Basics",
+          lessons: [
+            {
+              lesson_title: "Loops",
+              key_points: ["for loops"],
+              quiz: [
+                { question: "Keyword?", type: "Short", answer: "for" },
+                {
+                  question: "for i in ___(3):",
+                  type: "Code",
+                  answer: "range",
+                  language: "python",
+                },
+                {
+                  question: "Write a loop that prints 1-10",
+                  type: "Practical",
+                  answer: "for i in range(1, 11): print(i)",
+                  rubric: ["Uses a for loop", "Prints 1 to 10"],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    const quiz = course.sessions[0].lessons[0].quiz!;
+    expect(quiz.map((q) => q.type)).toEqual(["Short", "Code", "Practical"]);
+    expect(quiz[1].language).toBe("python");
+    expect(quiz[2].rubric).toHaveLength(2);
+  });
+
+  it("keeps adaptive question types in the analysis report", () => {
+    const report = adaptiveToAnalysisReport({
+      courseOverview: { title: "T" },
+      modules: [
+        {
+          moduleTitle: "M",
+          lessons: [
+            {
+              lessonTitle: "L",
+              objectives: [],
+              estimatedMinutes: 10,
+              resources: {},
+              quiz: {
+                questions: [
+                  { question: "Q", type: "short_answer", answer: "A" },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    } as unknown as Parameters<typeof adaptiveToAnalysisReport>[0]);
+    expect(report.modules[0].lessons[0].quiz?.[0].type).toBe("Short");
+  });
+});
+
+describe("gradeShortAnswer", () => {
+  it("accepts typos, case, articles and punctuation", () => {
+    expect(gradeShortAnswer("the Mitochondria.", "mitochondria").verdict).toBe(
+      "correct"
+    );
+    expect(gradeShortAnswer("photosynthesys", "Photosynthesis").verdict).toBe(
+      "correct"
+    );
+    expect(
+      gradeShortAnswer("light reactions", "The light reactions").verdict
+    ).toBe("correct");
+  });
+
+  it("rejects clear misses and leaves near misses to the model", () => {
+    expect(gradeShortAnswer("ribosome", "mitochondria").verdict).toBe(
+      "incorrect"
+    );
+    // Extra words may flip the meaning, so the model decides
+    expect(gradeShortAnswer("not mitochondria", "mitochondria").verdict).toBe(
+      "uncertain"
+    );
+    expect(gradeShortAnswer("", "mitochondria").verdict).toBe("incorrect");
+  });
+});
+
+describe("gradeCodeAnswer", () => {
+  it("ignores formatting and comments", () => {
+    expect(
+      gradeCodeAnswer(
+        "for (let i = 0; i < n; i++) {\n  total += i; // add\n}",
+        "for(let i=0;i<n;i++){total+=i}"
+      ).verdict
+    ).toBe("correct");
+    expect(gradeCodeAnswer("print('hi')", 'print("hi")').verdict).toBe(
+      "correct"
+    );
+  });
+
+  it("never accepts different code on its own", () => {
+    expect(
+      gradeCodeAnswer("total = sum(range(n))", "total = sum(range(0, n))")
+        .verdict
+    ).toBe("uncertain");
+    expect(gradeCodeAnswer("x", "for i in range(10): print(i)").verdict).toBe(
+      "incorrect"
+    );
+  });
+});
+
+describe("practical rubric", () => {
+  it("falls back to the model solution's sentences", () => {
+    expect(
+      rubricFor({ answer: "Create a repo. Add a README.\n- Push it" })
+    ).toEqual(["Create a repo.", "Add a README.", "Push it"]);
+    expect(rubricFor({ answer: "x", rubric: ["Own rubric"] })).toEqual([
+      "Own rubric",
+    ]);
+  });
+
+  it("passes when most criteria are met", () => {
+    expect(gradeRubric([true, true, true, false]).correct).toBe(true);
+    expect(gradeRubric([true, false, false]).correct).toBe(false);
+    expect(gradeRubric([]).correct).toBe(false);
+  });
+});
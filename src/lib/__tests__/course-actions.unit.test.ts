@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  getCourseSourceDocument,
+  saveCourseForUser,
+} from "@/app/course-actions";
+import { createSourceDocument } from "@/lib/source-document";
+import type { Course } from "@/lib/types";
+
+jest.mock("@/lib/supabaseClient", () => ({
+  supabase: null,
+  isSupabaseConfigured: false,
+}));
+
+const localUserId = "0b8e4c2a-5d1f-4f7e-9a3b-2c6d8e0f1a2b";
+const otherUserId = "9f1e2d3c-4b5a-4697-8877-665544332211";
+
+const course = {
+  course_title: "Notes",
+  sessions: [],
+} as unknown as Course;
+
+describe("course actions without Supabase", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "sources-"));
+    process.env.SOURCE_STORE_DIR = dir;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.SOURCE_STORE_DIR;
+  });
+
+  it("keeps the source document under the browser's local user id", async () => {
+    const doc = await createSourceDocument("page one", {
+      filename: "notes.pdf",
+    });
+
+    const courseId = await saveCourseForUser(
+      null,
+      { ...course, source_document: doc },
+      localUserId
+    );
+    expect(courseId).toEqual(expect.stringMatching(/^tmp_/));
+
+    await expect(
+      getCourseSourceDocument(null, courseId as string, localUserId)
+    ).resolves.toEqual(doc);
+    await expect(
+      getCourseSourceDocument(null, courseId as string, otherUserId)
+    ).resolves.toBeNull();
+    await expect(
+      getCourseSourceDocument(null, courseId as string, "../../etc")
+    ).resolves.toBeNull();
+  });
+
+  it("asks for sign-in without a valid local user id", async () => {
+    const doc = await createSourceDocument("page one");
+    await expect(
+      saveCourseForUser(null, { ...course, source_document: doc }, "nope")
+    ).resolves.toEqual({ error: "Sign in to save courses." });
+    await expect(saveCourseForUser(null, course, localUserId)).resolves.toEqual(
+      { error: "Sign in to save courses." }
+    );
+  });
+});
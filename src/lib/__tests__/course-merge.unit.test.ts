@@ -0,0 +1,128 @@
+import { mergeCourseDrafts, titleSimilarity } from "@/lib/course-merge";
+import { planSections, splitText } from "@/lib/pdf-segmentation";
+import type { CourseAnalysis } from "@/lib/types";
+
+type Lesson = CourseAnalysis["modules"][number]["lessons"][number];
+
+const lesson = (title: string, points: string[] = [title]): Lesson => ({
+  lesson_title: title,
+  key_points: points,
+  time_estimate_minutes: 10,
+  quiz: [
+    { question: `About ${title}?`, type: "MCQ", options: ["a"], answer: "a" },
+  ],
+});
+
+const draft = (title: string, lessons: Lesson[]): CourseAnalysis => ({
+  course_title: title,
+  modules: [{ module_title: `${title} module`, lessons }],
+});
+
+describe("mergeCourseDrafts", () => {
+  it("creates one module per section, titled by its heading", () => {
+    const merged = mergeCourseDrafts([
+      { sectionTitle: "Chapter 1", draft: draft("A", [lesson("Variables")]) },
+      { draft: draft("B", [lesson("Loops")]) },
+    ]);
+    expect(merged.course_title).toBe("A");
+    expect(merged.modules.map((m) => m.module_title)).toEqual([
+      "Chapter 1",
+      "B module",
+    ]);
+  });
+
+  it("merges near-duplicate lessons across sections", () => {
+    const merged = mergeCourseDrafts(
+      [
+        { draft: draft("A", [lesson("Introduction to Variables", ["x"])]) },
+        {
+          draft: draft("B", [
+            lesson("Lesson 2: Introduction to variables", ["y"]),
+            lesson("Functions"),
+          ]),
+        },
+      ],
+      "Programming"
+    );
+    expect(merged.course_title).toBe("Programming");
+    expect(merged.modules[0].lessons[0].key_points).toEqual(["x", "y"]);
+    expect(merged.modules[0].lessons[0].quiz).toHaveLength(2);
+    expect(merged.modules[1].lessons.map((l) => l.lesson_title)).toEqual([
+      "Functions",
+    ]);
+  });
+
+  it("drops sections whose lessons were all duplicates", () => {
+    const merged = mergeCourseDrafts([
+      { draft: draft("A", [lesson("Recursion")]) },
+      { draft: draft("B", [lesson("Recursion")]) },
+    ]);
+    expect(merged.modules).toHaveLength(1);
+  });
+
+  it("spills lessons past the module limit into further modules", () => {
+    const titles = ["Alpha", "Bravo", "Charlie", "Delta", "Echo", "Foxtrot"];
+    const lessons = titles.map((t) => lesson(t));
+    const merged = mergeCourseDrafts([
+      { sectionTitle: "Chapter 1", draft: draft("A", lessons) },
+    ]);
+    expect(merged.modules.map((m) => m.module_title)).toEqual([
+      "Chapter 1",
+      "Chapter 1 (part 2)",
+    ]);
+    expect(merged.modules[0].lessons).toHaveLength(5);
+    expect(
+      merged.modules.flatMap((m) => m.lessons.map((l) => l.lesson_title))
+    ).toEqual(titles);
+  });
+
+  it("scores title similarity ignoring numbering prefixes", () => {
+    expect(titleSimilarity("Module 3: Graphs", "graphs")).toBe(1);
+    expect(titleSimilarity("Graphs", "Trees")).toBe(0);
+  });
+});
+
+describe("planSections", () => {
+  const paragraph = (n: number) =>
+    `Paragraph ${n} ` + "lorem ipsum dolor sit amet ".repeat(30);
+  const longText = Array.from({ length: 200 }, (_, i) => paragraph(i)).join(
+    "\n\n"
+  );
+
+  it("covers the whole document within the section limit", () => {
+    const sections = planSections(longText, {
+      maxSections: 5,
+      sectionChars: 4000,
+    });
+    expect(sections.length).toBeLessThanOrEqual(5);
+    expect(sections.every((s) => s.text.length <= 4000)).toBe(true);
+    // The condensed last section still samples the end of the document
+    expect(sections[sections.length - 1].text).toContain("Paragraph 198");
+    const covered = sections.reduce((sum, s) => sum + s.sourceChars, 0);
+    expect(covered).toBeGreaterThan(longText.length * 0.95);
+  });
+
+  it("keeps short documents in a single section", () => {
+    const sections = planSections(paragraph(1) + "\n\n" + paragraph(2), {
+      maxSections: 5,
+      sectionChars: 4000,
+    });
+    expect(sections).toHaveLength(1);
+  });
+});
+
+describe("splitText", () => {
+  it("splits at paragraph breaks without dropping text", () => {
+    const text = ["a".repeat(60), "b".repeat(60), "c".repeat(60)].join("\n\n");
+    const pieces = splitText(text, 130);
+    expect(pieces).toEqual([
+      "a".repeat(60) + "\n\n" + "b".repeat(60),
+      "c".repeat(60),
+    ]);
+  });
+
+  it("cuts text without breaks at the limit", () => {
+    const pieces = splitText("x".repeat(250), 100);
+    expect(pieces.map((p) => p.length)).toEqual([100, 100, 50]);
+  });
+});
@@ -0,0 +1,151 @@
+/** @jest-environment node */
+import { generateCourse } from "@/ai/flows/course-pipeline";
+import { analyzeDocument } from "@/ai/flows/restructure-messy-pdf";
+import type { GenerationEvent } from "@/lib/types";
+
+jest.mock("@/ai/flows/restructure-messy-pdf", () => ({
+  analyzeDocument: jest.fn(),
+}));
+jest.mock("@/ai/flows/map-reduce-course", () => ({
+  analyzeLongDocument: jest.fn(),
+}));
+jest.mock("@/lib/youtube-search", () => ({
+  matchVideosToLessons: jest.fn(async () => new Map()),
+  searchYouTubeForTopic: jest.fn(async () => []),
+  validateAndSelectBestVideo: jest.fn(async () => null),
+}));
+
+const analyzeMock = analyzeDocument as jest.Mock;
+
+const lesson = (title: string, questions: number) => ({
+  lesson_title: title,
+  key_points: [title],
+  quiz: Array.from({ length: questions }, (_, i) => ({
+    question: `${title} ${i}?`,
+    type: "MCQ",
+    options: ["a", "b"],
+    answer: "a",
+  })),
+});
+
+const text = "Some study material. ".repeat(20);
+
+describe("generateCourse", () => {
+  const saved = { ...process.env };
+  beforeEach(() => {
+    analyzeMock.mockReset();
+    process.env.GENERATION_CACHE = "off";
+  });
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("emits module, quiz and per-lesson video events in order", async () => {
+    analyzeMock.mockResolvedValue({
+      course_title: "Basics",
+      modules: [
+        { module_title: "One", lessons: [lesson("A", 2)] },
+        { module_title: "Two", lessons: [lesson("B", 1), lesson("C", 3)] },
+      ],
+    });
+    const events: GenerationEvent[] = [];
+
+    const { course } = await generateCourse(text, {
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(course.sessions).toHaveLength(2);
+    expect(events.map((e) => e.type)).toEqual([
+      "extracted",
+      "module",
+      "quizzes",
+      "module",
+      "quizzes",
+      "video",
+      "video",
+      "video",
+    ]);
+    expect(events[4]).toEqual({
+      type: "quizzes",
+      index: 1,
+      lessons: 2,
+      questions: 4,
+    });
+  });
+
+  it("passes the caller's signal through to the AI request", async () => {
+    const ctrl = new AbortController();
+    analyzeMock.mockImplementation(
+      ({ signal }: { signal: AbortSignal }) =>
+        new Promise((_, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("aborted")));
+        })
+    );
+
+    const pending = generateCourse(text, { signal: ctrl.signal });
+    ctrl.abort();
+
+    await expect(pending).rejects.toThrow("aborted");
+  });
+
+  it("rejects analyses without modules", async () => {
+    analyzeMock.mockResolvedValue({ course_title: "Empty", modules: [] });
+    await expect(generateCourse(text)).rejects.toThrow(
+      "valid course structure"
+    );
+  });
+});
+
+describe("generateCourse caching", () => {
+  const saved = { ...process.env };
+  beforeEach(() => {
+    analyzeMock.mockReset();
+    process.env.GENERATION_CACHE = "memory";
+  });
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  const analysis = {
+    course_title: "Cached",
+    modules: [{ module_title: "One", lessons: [lesson("A", 1)] }],
+  };
+  const cachedText = "Material worth caching. ".repeat(10);
+
+  it("serves identical input from the cache", async () => {
+    analyzeMock.mockResolvedValue(analysis);
+    const events: GenerationEvent[] = [];
+
+    const first = await generateCourse(cachedText, { duration: "short" });
+    const second = await generateCourse(`  ${cachedText}\n`, {
+      duration: "short",
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(analyzeMock).toHaveBeenCalledTimes(1);
+    expect(second.cachedAt).toBeDefined();
+    expect(second.course).toEqual(first.course);
+    expect(events.map((e) => e.type)).toEqual([
+      "extracted",
+      "cached",
+      "module",
+      "quizzes",
+    ]);
+  });
+
+  it("regenerates on request and replaces the cached course", async () => {
+    analyzeMock.mockResolvedValue(analysis);
+    await generateCourse(cachedText, { duration: "long" });
+    analyzeMock.mockResolvedValue({ ...analysis, course_title: "Fresh" });
+
+    const fresh = await generateCourse(cachedText, {
+      duration: "long",
+      regenerate: true,
+    });
+    const again = await generateCourse(cachedText, { duration: "long" });
+
+    expect(analyzeMock).toHaveBeenCalledTimes(2);
+    expect(fresh.cachedAt).toBeUndefined();
+    expect(again.course.course_title).toBe("Fresh");
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  buildDistractorPrompt,
+  matchRationales,
+  MAX_GROUNDING_CHARS,
+  wrongOptions,
+} from "@/lib/distractor-explanations";
+import type { QuizQuestion } from "@/lib/types";
+
+const question: QuizQuestion = {
+  question: "Which layer routes packets?",
+  type: "MCQ",
+  options: ["Transport", "Network", "Session", "Physical"],
+  answer: "network",
+  explanation: "Routing happens at layer 3.",
+};
+
+const lesson = {
+  lesson_title: "The OSI model",
+  key_points: ["Layer 3 routes packets", "Layer 4 handles ports"],
+  content_summary: "Each layer serves the one above it.",
+};
+
+describe("distractor explanations", () => {
+  it("lists the wrong options", () => {
+    expect(wrongOptions(question)).toEqual([
+      "Transport",
+      "Session",
+      "Physical",
+    ]);
+  });
+
+  it("grounds the prompt on the lesson", () => {
+    const { system, prompt } = buildDistractorPrompt(question, lesson);
+    expect(system).toMatch(/only the lesson material/);
+    expect(prompt).toContain("Correct answer: network");
+    expect(prompt).toContain("Why it's correct: Routing happens at layer 3.");
+    expect(prompt).toContain(
+      "Wrong options:\n- Transport\n- Session\n- Physical"
+    );
+    expect(prompt).toContain("- Layer 3 routes packets");
+    expect(prompt).toContain(
+      "Lesson summary:\nEach layer serves the one above it."
+    );
+  });
+
+  it("cuts long summaries and skips ones that repeat the key points", () => {
+    const long = buildDistractorPrompt(question, {
+      ...lesson,
+      content_summary: "x".repeat(MAX_GROUNDING_CHARS + 500),
+    }).prompt;
+    expect(long).toContain(`${"x".repeat(MAX_GROUNDING_CHARS)}…`);
+    expect(long).not.toContain("x".repeat(MAX_GROUNDING_CHARS + 1));
+
+    const repeated = buildDistractorPrompt(question, {
+      ...lesson,
+      content_summary: lesson.key_points.join("\n"),
+    }).prompt;
+    expect(repeated).not.toContain("Lesson summary");
+  });
+
+  it("keys rationales by option, falling back to order", () => {
+    const options = ["Transport", "Session"];
+    expect(
+      matchRationales(options, [
+        { option: "session.", why: " Sessions manage dialogues. " },
+        { option: "Transport", why: "" },
+        { option: "Presentation", why: "Not an option." },
+      ])
+    ).toEqual({ Session: "Sessions manage dialogues." });
+
+    expect(
+      matchRationales(options, [
+        { option: "A", why: "Ports." },
+        { option: "B", why: "Dialogues." },
+      ])
+    ).toEqual({ Transport: "Ports.", Session: "Dialogues." });
+  });
+});
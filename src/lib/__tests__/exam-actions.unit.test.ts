@@ -0,0 +1,57 @@
+/** @jest-environment node */
+import { submitExam } from "@/app/exam-actions";
+import { submitExamAttempt } from "@/lib/auth";
+import type { ExamAttemptRecord } from "@/lib/auth";
+
+const mockAttempt: ExamAttemptRecord = {
+  id: "a1",
+  examId: "paper-1",
+  startedAt: new Date(Date.now() - 60_000),
+};
+jest.mock("@/lib/server-session", () => ({
+  getServerSession: async (token: string | null) =>
+    token ? { userId: "u1", email: null, db: {} } : null,
+}));
+jest.mock("@/lib/supabaseAdmin", () => ({ supabaseAdmin: {} }));
+jest.mock("@/lib/question-bank-store", () => ({
+  getUserQuestionBank: async () => null,
+}));
+jest.mock("@/lib/auth", () => ({
+  getExamAttempt: async (_: string, id: string) =>
+    id === mockAttempt.id ? mockAttempt : null,
+  submitExamAttempt: jest.fn(async () => true),
+}));
+
+describe("submitExam", () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it("grades the responses against the paper on the server", async () => {
+    const result = await submitExam("token", "a1", {
+      responses: ["To execute instructions from computer programs.", null],
+      flagged: 1,
+    });
+    expect(result).toMatchObject({ total: 2, correct: 1, score: 50 });
+    expect(result).toMatchObject({ passed: false, flagged: 1 });
+    expect(submitExamAttempt).toHaveBeenCalledWith(
+      "u1",
+      "a1",
+      result,
+      expect.anything()
+    );
+  });
+
+  it("refuses anonymous, unknown and mismatched submissions", async () => {
+    await expect(submitExam(null, "a1", { responses: [] })).resolves.toEqual({
+      error: "Sign in to submit exams.",
+    });
+    await expect(submitExam("token", "a2", { responses: [] })).resolves.toEqual(
+      { error: "Exam attempt not found." }
+    );
+    await expect(
+      submitExam("token", "a1", { responses: ["only one"] })
+    ).resolves.toEqual({
+      error: "The answers don't match the exam's questions.",
+    });
+    expect(submitExamAttempt).not.toHaveBeenCalled();
+  });
+});
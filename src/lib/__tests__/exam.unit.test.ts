@@ -0,0 +1,119 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { QUIZ_PAPERS } from "@/data/quizPapers";
+import {
+  attemptsRemaining,
+  examDeadline,
+  examLimitsSeedSql,
+  formatCountdown,
+  GENERAL_SECTION,
+  remainingSeconds,
+  scoreExam,
+} from "@/lib/exam";
+import type { QuizQuestion } from "@/lib/types";
+
+const mcq = (answer: string, section?: string): QuizQuestion => ({
+  question: `Pick ${answer}`,
+  type: "MCQ",
+  options: ["A", "B", "C"],
+  answer,
+  section,
+});
+
+describe("exam timing", () => {
+  const startedAt = new Date("2025-01-01T10:00:00.000Z");
+
+  it("derives the deadline from the time limit", () => {
+    expect(examDeadline(startedAt, {})).toBeNull();
+    const deadline = examDeadline(startedAt, { timeLimit: 10 })!;
+    expect(deadline.toISOString()).toBe("2025-01-01T10:10:00.000Z");
+    expect(
+      remainingSeconds(deadline, new Date("2025-01-01T10:09:30.500Z"))
+    ).toBe(30);
+    expect(remainingSeconds(deadline, new Date("2025-01-01T11:00:00Z"))).toBe(
+      0
+    );
+  });
+
+  it("formats the countdown", () => {
+    expect(formatCountdown(65)).toBe("1:05");
+    expect(formatCountdown(3725)).toBe("1:02:05");
+  });
+
+  it("counts remaining attempts, null when unlimited", () => {
+    expect(attemptsRemaining({ attemptsAllowed: 3 }, 1)).toBe(2);
+    expect(attemptsRemaining({ attemptsAllowed: 3 }, 5)).toBe(0);
+    expect(attemptsRemaining({}, 5)).toBeNull();
+  });
+});
+
+describe("scoreExam", () => {
+  const questions = [
+    mcq("A", "Hardware"),
+    mcq("B", "Hardware"),
+    mcq("C", "Memory"),
+    { question: "Capital of France?", answer: "Paris" },
+  ];
+  const startedAt = new Date("2025-01-01T10:00:00.000Z");
+  const completedAt = new Date("2025-01-01T10:05:00.000Z");
+
+  it("scores answers and breaks the result down by section", () => {
+    const result = scoreExam(questions, ["a", "C", null, "paris"], {
+      settings: { passingScore: 50 },
+      startedAt,
+      completedAt,
+      flagged: 1,
+    });
+    expect(result).toMatchObject({
+      correct: 2,
+      total: 4,
+      score: 50,
+      passed: true,
+      answered: 3,
+      flagged: 1,
+      timedOut: false,
+      elapsedMs: 300_000,
+    });
+    expect(result.sections).toEqual([
+      { section: "Hardware", correct: 1, total: 2, score: 50 },
+      { section: "Memory", correct: 0, total: 1, score: 0 },
+      { section: GENERAL_SECTION, correct: 1, total: 1, score: 100 },
+    ]);
+    expect(result.answers[2]).toMatchObject({ selected: null, correct: false });
+  });
+
+  it("fails below the pass mark and records a timeout", () => {
+    const result = scoreExam(questions, ["A", "  "], {
+      settings: { passingScore: 70 },
+      startedAt,
+      completedAt,
+      timedOut: true,
+    });
+    expect(result).toMatchObject({
+      score: 25,
+      passed: false,
+      answered: 1,
+      timedOut: true,
+    });
+  });
+});
+
+describe("exam limits", () => {
+  it("are seeded in docs/DB_SCHEMA.md as the quiz papers set them", () => {
+    const schema = readFileSync(
+      path.join(__dirname, "../../../docs/DB_SCHEMA.md"),
+      "utf8"
+    );
+    expect(schema).toContain(examLimitsSeedSql(QUIZ_PAPERS));
+  });
+
+  it("quote paper ids and skip unlimited papers", () => {
+    const paper = { title: "", questions: [] };
+    expect(
+      examLimitsSeedSql([
+        { ...paper, id: "it's", attemptsAllowed: 2 },
+        { ...paper, id: "open" },
+      ])
+    ).toContain("  ('it''s', 2)\non conflict");
+  });
+});
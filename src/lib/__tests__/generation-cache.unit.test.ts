@@ -0,0 +1,117 @@
+/** @jest-environment node */
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createFileCache,
+  createMemoryCache,
+  generationCacheKey,
+  GENERATION_PROMPT_VERSION,
+  normalizeSourceText,
+  readCachedGeneration,
+  writeCachedGeneration,
+  type CachedGeneration,
+} from "@/lib/generation-cache";
+import type { Course } from "@/lib/types";
+
+jest.mock("@/lib/supabaseAdmin", () => ({ supabaseAdmin: null }));
+
+const entry = (title: string, createdAt = new Date()): CachedGeneration => ({
+  course: { course_title: title, sessions: [] } as unknown as Course,
+  analysis: { course_title: title, modules: [] },
+  createdAt: createdAt.toISOString(),
+  promptVersion: GENERATION_PROMPT_VERSION,
+  provider: "github",
+});
+
+describe("generationCacheKey", () => {
+  const base = { text: "Intro\n\nSome text.", provider: "github" };
+
+  it("ignores whitespace and line-ending differences", async () => {
+    expect(normalizeSourceText("  Intro \r\n\r\n\r\n  Some\t text.  ")).toBe(
+      "Intro\n\nSome text."
+    );
+    expect(
+      await generationCacheKey({
+        ...base,
+        text: "Intro \r\n\r\n\r\nSome   text.",
+      })
+    ).toBe(await generationCacheKey(base));
+  });
+
+  it("changes with duration, provider and model", async () => {
+    const key = await generationCacheKey(base);
+    const variants = await Promise.all([
+      generationCacheKey({ ...base, duration: "long" }),
+      generationCacheKey({ ...base, provider: "ollama" }),
+      generationCacheKey({ ...base, model: "gpt-4o" }),
+    ]);
+    for (const variant of variants) expect(variant).not.toBe(key);
+  });
+});
+
+describe("cache backends", () => {
+  it("evicts the least recently used memory entry", async () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+    await cache.set("a", entry("A"));
+    await cache.set("b", entry("B"));
+    await cache.get("a"); // "b" is now the oldest
+    await cache.set("c", entry("C"));
+
+    expect(await cache.get("b")).toBeNull();
+    expect((await cache.get("a"))?.course.course_title).toBe("A");
+  });
+
+  it("hands out copies from the memory cache", async () => {
+    const cache = createMemoryCache();
+    await cache.set("a", entry("A"));
+    (await cache.get("a"))!.course.course_title = "Edited";
+    expect((await cache.get("a"))?.course.course_title).toBe("A");
+  });
+
+  it("round-trips entries through the file cache", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "generation-cache-"));
+    try {
+      const cache = createFileCache({ dir });
+      await cache.set("k", entry("File"));
+      expect((await cache.get("k"))?.course.course_title).toBe("File");
+      await cache.delete("k");
+      expect(await cache.get("k")).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("readCachedGeneration", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it("treats expired entries and older prompt versions as misses", async () => {
+    process.env.GENERATION_CACHE = "memory";
+    process.env.GENERATION_CACHE_TTL_HOURS = "1";
+    await writeCachedGeneration(
+      "old",
+      entry("Old", new Date(Date.now() - 2 * 3_600_000))
+    );
+    await writeCachedGeneration("stale", {
+      ...entry("Stale"),
+      promptVersion: "course-v0",
+    });
+    await writeCachedGeneration("fresh", entry("Fresh"));
+
+    expect(await readCachedGeneration("old")).toBeNull();
+    expect(await readCachedGeneration("stale")).toBeNull();
+    expect((await readCachedGeneration("fresh"))?.course.course_title).toBe(
+      "Fresh"
+    );
+  });
+
+  it("does nothing when caching is off", async () => {
+    process.env.GENERATION_CACHE = "off";
+    await writeCachedGeneration("k", entry("Off"));
+    expect(await readCachedGeneration("k")).toBeNull();
+  });
+});
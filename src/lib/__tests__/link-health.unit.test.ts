@@ -0,0 +1,267 @@
+import {
+  checkArticleUrl,
+  sweepCourse,
+  sweepSavedCourses,
+  type CourseLinkHealth,
+} from "@/lib/link-health";
+import { logVideoReplacement } from "@/lib/video-log";
+import type { Course } from "@/lib/types";
+
+jest.mock("@/lib/supabaseClient", () => ({
+  supabase: null,
+  isSupabaseConfigured: false,
+}));
+// Saved courses to sweep, and what the sweep wrote back
+const mockCourses: { id: string; user_id: string; course: Course }[] = [];
+const mockReports: { course_id: string; report: CourseLinkHealth }[] = [];
+let mockUpdateError: { message: string } | null = null;
+jest.mock("@/lib/supabaseAdmin", () => ({
+  supabaseAdmin: {
+    from: () => ({
+      select: () => ({
+        gte: async () => ({ data: [], error: null }),
+        order: () => ({
+          range: async () => ({ data: mockCourses, error: null }),
+        }),
+      }),
+      update: () => ({ eq: async () => ({ error: mockUpdateError }) }),
+      upsert: async (row: { course_id: string; report: CourseLinkHealth }) => {
+        mockReports.push(row);
+        return { error: null };
+      },
+    }),
+  },
+}));
+jest.mock("@/lib/video-log", () => ({
+  logVideoReplacement: jest.fn(async () => {}),
+}));
+
+const DEAD = "ddddddddddd";
+const LIVE = "lllllllllll";
+const NEW = "nnnnnnnnnnn";
+
+// Just what checkArticleUrl reads; jsdom has no Response
+const respond = (status: number, headers: Record<string, string> = {}) =>
+  ({
+    status,
+    ok: status >= 200 && status < 300,
+    headers: new Map(Object.entries(headers)),
+  }) as unknown as Response;
+
+describe("checkArticleUrl", () => {
+  it("falls back to GET when HEAD isn't allowed", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(respond(405))
+      .mockResolvedValueOnce(respond(200));
+    await expect(
+      checkArticleUrl("https://example.com", { fetch: fetchMock })
+    ).resolves.toEqual({ status: "ok", reason: "200" });
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual([
+      "HEAD",
+      "GET",
+    ]);
+  });
+
+  it("backs off on 429 and 5xx, then gives up", async () => {
+    const fetchMock = jest
+      .fn()
+      .mockResolvedValueOnce(respond(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(200));
+    await expect(
+      checkArticleUrl("https://example.com", { fetch: fetchMock, backoffMs: 0 })
+    ).resolves.toEqual({ status: "ok", reason: "200" });
+
+    const down = jest.fn(async () => respond(502));
+    await expect(
+      checkArticleUrl("https://example.com", {
+        fetch: down,
+        retries: 2,
+        backoffMs: 0,
+      })
+    ).resolves.toEqual({ status: "unreachable", reason: "502" });
+    expect(down).toHaveBeenCalledTimes(3);
+  });
+
+  it("tells dead links from restricted ones", async () => {
+    const gone = jest.fn(async () => respond(404));
+    await expect(
+      checkArticleUrl("https://example.com", { fetch: gone })
+    ).resolves.toEqual({ status: "broken", reason: "404" });
+
+    const login = jest.fn(async () => respond(401));
+    await expect(
+      checkArticleUrl("https://example.com", { fetch: login })
+    ).resolves.toEqual({ status: "degraded", reason: "401" });
+  });
+});
+
+describe("sweepCourse", () => {
+  const makeCourse = () =>
+    ({
+      course_title: "Graphs",
+      sessions: [
+        {
+          id: "session-0",
+          session_title: "Basics",
+          lessons: [
+            {
+              id: "l1",
+              lesson_title: "Intro",
+              resources: [
+                {
+                  title: "Dead video",
+                  url: `https://youtu.be/${DEAD}`,
+                  type: "video",
+                  timestamps: "1:00-2:00",
+                  segment: { start: 60, end: 120 },
+                },
+                {
+                  title: "Live video",
+                  url: `https://www.youtube.com/watch?v=${LIVE}`,
+                  type: "video",
+                },
+                {
+                  title: "Article",
+                  url: "https://example.com/a",
+                  type: "article",
+                },
+              ],
+            },
+            {
+              id: "l2",
+              lesson_title: "More",
+              resources: [
+                {
+                  title: "Same article",
+                  url: "https://example.com/a",
+                  type: "article",
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    }) as unknown as Course;
+
+  const deps = () => ({
+    checkVideo: jest.fn(async ({ url }: { url: string }) => ({
+      originalUrl: url,
+      ok: true,
+      reason: url.includes(DEAD) ? "not_found" : "ok",
+      embedUrl: null,
+      openUrl: url,
+    })),
+    checkArticle: jest.fn(async () => ({
+      status: "broken" as const,
+      reason: "404",
+    })),
+    findReplacement: jest.fn(async () => ({ id: NEW, title: "New video" })),
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it("replaces dead videos and reports every problem", async () => {
+    const course = makeCourse();
+    const sweepDeps = deps();
+    const { health, repaired } = await sweepCourse(course, {
+      courseId: "c1",
+      deps: sweepDeps,
+    });
+
+    expect(repaired).toBe(1);
+    expect(health.counts).toEqual({
+      ok: 1,
+      repaired: 1,
+      degraded: 0,
+      broken: 2,
+      unreachable: 0,
+    });
+    expect(health.issues.map((i) => [i.lessonId, i.status])).toEqual([
+      ["l1", "repaired"],
+      ["l1", "broken"],
+      ["l2", "broken"],
+    ]);
+    expect(health.issues[0].replacementUrl).toBe(
+      `https://www.youtube.com/watch?v=${NEW}`
+    );
+    // The shared article was checked once
+    expect(sweepDeps.checkArticle).toHaveBeenCalledTimes(1);
+
+    const [replaced] = course.sessions[0].lessons[0].resources!;
+    expect(replaced).toEqual({
+      title: "New video",
+      url: `https://www.youtube.com/watch?v=${NEW}`,
+      type: "video",
+    });
+    expect(logVideoReplacement).toHaveBeenCalledWith(
+      expect.objectContaining({
+        originalId: DEAD,
+        replacementId: NEW,
+        contextCourseId: "c1",
+        contextLessonId: "l1",
+      })
+    );
+  });
+
+  it("only reports the replacement on a dry run", async () => {
+    const course = makeCourse();
+    const { health, repaired } = await sweepCourse(course, {
+      dryRun: true,
+      deps: deps(),
+    });
+    expect(repaired).toBe(0);
+    expect(health.issues[0]).toMatchObject({
+      status: "broken",
+      replacementUrl: `https://www.youtube.com/watch?v=${NEW}`,
+    });
+    expect(course.sessions[0].lessons[0].resources![0].url).toBe(
+      `https://youtu.be/${DEAD}`
+    );
+    expect(logVideoReplacement).not.toHaveBeenCalled();
+  });
+
+  describe("sweepSavedCourses", () => {
+    beforeEach(() => {
+      mockCourses.length = 0;
+      mockCourses.push({ id: "c1", user_id: "u1", course: makeCourse() });
+      mockReports.length = 0;
+      mockUpdateError = null;
+    });
+
+    it("saves repaired courses and their reports", async () => {
+      await expect(sweepSavedCourses({ deps: deps() })).resolves.toEqual({
+        ok: true,
+        checked: 1,
+        skipped: 0,
+        repaired: 1,
+        broken: 2,
+      });
+      expect(mockReports).toHaveLength(1);
+      expect(mockReports[0]).toMatchObject({
+        course_id: "c1",
+        report: { counts: { repaired: 1, broken: 2 } },
+      });
+    });
+
+    it("reports repairs as broken when the course can't be saved", async () => {
+      mockUpdateError = { message: "permission denied" };
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      await expect(sweepSavedCourses({ deps: deps() })).resolves.toEqual({
+        ok: true,
+        checked: 1,
+        skipped: 0,
+        repaired: 0,
+        broken: 3,
+      });
+      warn.mockRestore();
+      const { report } = mockReports[0];
+      expect(report.counts).toMatchObject({ repaired: 0, broken: 3 });
+      expect(report.issues[0]).toMatchObject({
+        status: "broken",
+        replacementUrl: `https://www.youtube.com/watch?v=${NEW}`,
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/** @jest-environment node */
+import { analyzeLongDocument } from "@/ai/flows/map-reduce-course";
+import { analyzeDocument } from "@/ai/flows/restructure-messy-pdf";
+import { aiGenerateStream } from "@/lib/ai-provider";
+
+jest.mock("@/ai/flows/restructure-messy-pdf", () => ({
+  analyzeDocument: jest.fn(),
+}));
+jest.mock("@/lib/ai-provider", () => ({
+  aiGenerateStream: jest.fn(),
+}));
+
+const analyzeMock = analyzeDocument as jest.Mock;
+const streamMock = aiGenerateStream as jest.Mock;
+
+// Headingless paragraphs, so the document is planned by paragraph groups
+const paragraph = (n: number) =>
+  `Paragraph ${n} ` + "lorem ipsum dolor sit amet ".repeat(60);
+const document = (paragraphs: number) =>
+  Array.from({ length: paragraphs }, (_, i) => paragraph(i)).join("\n\n");
+
+const draft = {
+  course_title: "Draft",
+  modules: [{ module_title: "Module", lessons: [] }],
+};
+
+describe("analyzeLongDocument", () => {
+  beforeEach(() => {
+    analyzeMock.mockReset().mockResolvedValue(draft);
+    streamMock.mockReset();
+  });
+
+  it("summarizes oversized sections instead of truncating them", async () => {
+    const summarized: string[] = [];
+    streamMock.mockImplementation(async function* (prompt: string) {
+      if (prompt.startsWith("Summarize")) {
+        summarized.push(prompt);
+        yield `Summary of ${prompt.match(/Paragraph \d+/)?.[0]}`;
+      } else {
+        yield "Course Title";
+      }
+    });
+    const warnings: string[] = [];
+
+    // ~1.6M chars: 12 sections of ~135k, each split into chunks to summarize
+    const text = document(1000);
+    await analyzeLongDocument({
+      textContent: text,
+      onWarning: (w) => warnings.push(w),
+    });
+
+    expect(warnings).toEqual([]);
+    // Every paragraph reached a summary prompt
+    const seen = summarized.join("\n");
+    for (const n of [0, 499, 999]) expect(seen).toContain(`Paragraph ${n} `);
+    for (const [{ textContent }] of analyzeMock.mock.calls) {
+      expect(textContent.length).toBeLessThanOrEqual(12000);
+    }
+  });
+
+  it("warns when text can't be summarized or drafted", async () => {
+    streamMock.mockImplementation(async function* () {
+      throw new Error("provider down");
+    });
+    analyzeMock
+      .mockRejectedValueOnce(new Error("bad JSON"))
+      .mockResolvedValue(draft);
+    const warnings: string[] = [];
+
+    await analyzeLongDocument({
+      textContent: document(200),
+      onWarning: (w) => warnings.push(w),
+    });
+
+    expect(warnings[0]).toMatch(
+      /^Section 1 .*characters could not be summarized/
+    );
+    expect(warnings[1]).toMatch(/^Section 1 .*could not be drafted/);
+    expect(warnings.length).toBeGreaterThan(2);
+  });
+});
@@ -0,0 +1,166 @@
+/** @jest-environment node */
+import { mkdtemp, readdir, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+
+jest.mock("@/lib/githubModels", () => ({ githubModelsChatStream: jest.fn() }));
+jest.mock("@/lib/youtube-search", () => ({
+  matchVideosToLessons: jest.fn(async () => new Map()),
+  searchYouTubeForTopic: jest.fn(async () => []),
+  validateAndSelectBestVideo: jest.fn(async () => null),
+}));
+
+const text = `Photosynthesis Basics
+
+Photosynthesis converts light energy into chemical energy stored in glucose. Chlorophyll absorbs light mostly in the blue and red wavelengths. The light reactions take place in the thylakoid membranes of the chloroplast. Water is split during the light reactions, releasing oxygen as a by-product. The Calvin cycle uses carbon dioxide to build glucose in the stroma. Chloroplast structure keeps the light reactions and the Calvin cycle separate. Glucose made by photosynthesis fuels cellular respiration in plants.`;
+
+async function load(env: Record<string, string>) {
+  Object.assign(process.env, { AI_PROVIDER: "mock", ...env });
+  jest.resetModules();
+  return {
+    actions: await import("@/app/actions"),
+    audit: await import("@/ai/flows/audit-course"),
+    mock: await import("@/lib/mock-ai"),
+    provider: await import("@/lib/ai-provider"),
+    github: (await import("@/lib/githubModels"))
+      .githubModelsChatStream as jest.Mock,
+  };
+}
+
+async function collect(gen: AsyncGenerator<string>) {
+  let out = "";
+  for await (const chunk of gen) out += chunk;
+  return out;
+}
+
+describe("mock AI provider", () => {
+  const saved = { ...process.env };
+  let fixtures: string;
+
+  beforeEach(async () => {
+    fixtures = await mkdtemp(path.join(os.tmpdir(), "ai-fixtures-"));
+    process.env.AI_MOCK_FIXTURES_DIR = fixtures;
+  });
+  afterEach(async () => {
+    process.env = { ...saved };
+    await rm(fixtures, { recursive: true, force: true });
+  });
+
+  it("synthesises a playable course, quiz and audit offline", async () => {
+    const m = await load({});
+
+    const course = await m.actions.generateCourseFromText(text);
+    if ("error" in course) throw new Error(course.error);
+    expect(course.course_title).toBe("Photosynthesis Basics");
+    const lessons = course.sessions.flatMap((s) => s.lessons);
+    expect(lessons.length).toBeGreaterThan(0);
+    const questions = lessons.flatMap((l) => l.quiz || []);
+    expect(questions.length).toBeGreaterThan(0);
+    for (const q of questions) {
+      expect(q.options).toHaveLength(4);
+      expect(q.options).toContain(q.answer);
+    }
+
+    const quiz = await m.actions.generateQuizFromText(text);
+    if ("error" in quiz) throw new Error(quiz.error);
+    expect(quiz.sessions.length).toBeGreaterThan(0);
+
+    const report = await m.audit.auditCourse({
+      courseContent: JSON.stringify({
+        modules: [{ lessons: [{ quiz: [1] }] }],
+      }),
+    });
+    expect(report.summary.working).toContain("1 module(s) with 1 lesson(s)");
+  });
+
+  it("grades free-text answers offline", async () => {
+    await load({});
+    const { gradeAnswer } = await import("@/ai/flows/grade-answer");
+    const input = {
+      question: "Where do the light reactions happen?",
+      expectedAnswer: "thylakoid membranes",
+      type: "Short" as const,
+    };
+    await expect(
+      gradeAnswer({ ...input, response: "in the thylakoid membrane" })
+    ).resolves.toMatchObject({ correct: true });
+    await expect(
+      gradeAnswer({ ...input, response: "stroma" })
+    ).resolves.toMatchObject({ correct: false });
+  });
+
+  it("explains wrong options offline", async () => {
+    await load({});
+    const { explainDistractors } = await import(
+      "@/ai/flows/explain-distractors"
+    );
+    const rationales = await explainDistractors(
+      {
+        question: "Where does the Calvin cycle take place?",
+        options: ["Thylakoid", "Stroma", "Nucleus"],
+        answer: "Stroma",
+      },
+      {
+        lesson_title: "Photosynthesis",
+        key_points: ["The Calvin cycle builds glucose in the stroma"],
+        content_summary: text,
+      }
+    );
+    expect(Object.keys(rationales)).toEqual(["Thylakoid", "Nucleus"]);
+    expect(rationales.Nucleus).toContain("in the stroma");
+  });
+
+  it("is deterministic for the same prompt", async () => {
+    const m = await load({});
+    const prompt = `TEXT TO ANALYZE:\n${text}`;
+    const first = await collect(
+      m.provider.aiGenerateStream(prompt, { flow: "generateQuiz" })
+    );
+    const second = await collect(
+      m.provider.aiGenerateStream(prompt, { flow: "generateQuiz" })
+    );
+    expect(second).toBe(first);
+  });
+
+  it("records upstream responses and replays them", async () => {
+    const m = await load({
+      AI_MOCK_MODE: "record",
+      AI_MOCK_UPSTREAM: "github",
+    });
+    m.github.mockImplementation(async function* () {
+      yield "A recorded ";
+      yield "title";
+    });
+
+    const recorded = await collect(
+      m.provider.aiGenerateStream("Name this course", {
+        system: "Output only the title.",
+        flow: "generateCourseTitle",
+      })
+    );
+    expect(recorded).toBe("A recorded title");
+    const key = m.mock.mockPromptKey(
+      "Name this course",
+      "Output only the title."
+    );
+    expect(await readdir(fixtures)).toEqual([`${key}.json`]);
+
+    const replay = await load({ AI_MOCK_MODE: "strict" });
+    await expect(
+      collect(
+        replay.provider.aiGenerateStream("Name this course", {
+          system: "Output only the title.",
+          flow: "generateCourseTitle",
+        })
+      )
+    ).resolves.toBe("A recorded title");
+    expect(replay.github).not.toHaveBeenCalled();
+  });
+
+  it("fails in strict mode when a prompt has no fixture", async () => {
+    const m = await load({ AI_MOCK_MODE: "strict" });
+    await expect(
+      collect(m.provider.aiGenerateStream("unseen", { flow: "auditCourse" }))
+    ).rejects.toThrow("No recorded AI fixture for auditCourse");
+  });
+});
@@ -0,0 +1,148 @@
+import { sliceSession } from "@/lib/course-slicer";
+import {
+  buildDiagnosticQuiz,
+  placementProgress,
+  scoreDiagnostic,
+  withoutDiagnosticQuestions,
+} from "@/lib/placement";
+import type { Course, Lesson, QuizQuestion } from "@/lib/types";
+
+const mcq = (
+  answer: string,
+  difficulty?: QuizQuestion["difficulty"]
+): QuizQuestion => ({
+  question: `Pick ${answer} (${difficulty || "untagged"})`,
+  type: "MCQ",
+  options: ["A", "B", "C"],
+  answer,
+  difficulty,
+});
+
+const lesson = (id: string, quiz: QuizQuestion[]) =>
+  ({
+    id,
+    lesson_title: `Lesson ${id}`,
+    content_summary: "",
+    content_snippet: "",
+    quiz,
+  }) as unknown as Lesson;
+
+const course = {
+  course_title: "Networking",
+  description: "",
+  readiness_score: 80,
+  analysis_report: {},
+  sessions: [
+    {
+      id: "s1",
+      session_title: "Basics",
+      lessons: [
+        lesson("l1", [mcq("A", "easy"), mcq("B", "hard"), mcq("C")]),
+        lesson("l2", [
+          {
+            question: "Build a subnet plan",
+            type: "Practical",
+            answer: "...",
+          },
+          { question: "Default HTTP port?", type: "Short", answer: "80" },
+          { question: "Default HTTPS port?", type: "Short", answer: "443" },
+        ]),
+      ],
+    },
+    {
+      id: "s2",
+      session_title: "Routing",
+      lessons: [lesson("l3", []), lesson("l4", [mcq("A"), mcq("B", "easy")])],
+    },
+  ],
+} as unknown as Course;
+
+describe("buildDiagnosticQuiz", () => {
+  it("asks up to two gradable questions per lesson, hardest first", () => {
+    const quiz = buildDiagnosticQuiz(course);
+    expect(quiz.passingScore).toBe(100);
+    expect(quiz.questions.map((q) => [q.lessonId, q.question])).toEqual([
+      // quiz order is kept among the picked questions
+      ["l1", "Pick B (hard)"],
+      ["l1", "Pick C (untagged)"],
+      ["l2", "Default HTTP port?"],
+      ["l4", "Pick A (untagged)"],
+    ]);
+    expect(buildDiagnosticQuiz(course, 1).questions).toHaveLength(3);
+  });
+
+  it("leaves a question for each lesson's graded quiz", () => {
+    const single = {
+      ...course,
+      sessions: [{ ...course.sessions[0], lessons: [lesson("x", [mcq("A")])] }],
+    } as Course;
+    expect(buildDiagnosticQuiz(single).questions).toEqual([]);
+    const exam = { ...course, exam: { examId: "paper-1", passingScore: 70 } };
+    expect(buildDiagnosticQuiz(exam).questions).toEqual([]);
+
+    const graded = withoutDiagnosticQuestions(
+      course,
+      buildDiagnosticQuiz(course)
+    );
+    const quizzes = graded.sessions.flatMap((s) =>
+      s.lessons.map((l) => [l.id, (l.quiz || []).map((q) => q.question)])
+    );
+    expect(quizzes).toEqual([
+      ["l1", ["Pick A (easy)"]],
+      ["l2", ["Build a subnet plan", "Default HTTPS port?"]],
+      ["l3", []],
+      ["l4", ["Pick B (easy)"]],
+    ]);
+    // The course itself is left alone
+    expect(course.sessions[0].lessons[0].quiz).toHaveLength(3);
+  });
+});
+
+describe("scoreDiagnostic", () => {
+  const quiz = buildDiagnosticQuiz(course);
+
+  it("tests out lessons with every question right; skips count as misses", () => {
+    const result = scoreDiagnostic(course, quiz, ["B", "C", null, "B"]);
+    expect(result.testedOut).toEqual(["l1"]);
+    expect(result.lessons.map((l) => [l.lessonId, l.correct, l.total])).toEqual(
+      [
+        ["l1", 2, 2],
+        ["l2", 0, 1],
+        ["l4", 0, 1],
+      ]
+    );
+    expect(result).toMatchObject({ correct: 2, total: 4, score: 50 });
+
+    const partly = scoreDiagnostic(course, quiz, ["B", "A", " 80 ", "A"]);
+    expect(partly.testedOut).toEqual(["l2", "l4"]);
+  });
+
+  it("keeps the last lesson when every lesson would be tested out", () => {
+    const small = {
+      ...course,
+      sessions: [course.sessions[0]],
+    } as Course;
+    const result = scoreDiagnostic(small, buildDiagnosticQuiz(small), [
+      "B",
+      "C",
+      "80",
+    ]);
+    expect(result.testedOut).toEqual(["l1"]);
+    expect(result.lessons[1]).toMatchObject({ correct: 1, testedOut: false });
+  });
+});
+
+describe("placement progress", () => {
+  it("makes sliceSession skip tested-out lessons", () => {
+    const progress = placementProgress({ testedOut: ["l1", "l2"] });
+    expect(progress).toEqual({ l1: "tested_out", l2: "tested_out" });
+
+    const session = sliceSession(
+      { course, progress, createdAt: "2025-01-01T00:00:00.000Z" },
+      60
+    )!;
+    expect(session.title).toBe("Routing");
+    expect(session.lessons.map((l) => l.id)).toEqual(["l3", "l4"]);
+    expect(session.completedStepsInCourse).toBe(2);
+  });
+});
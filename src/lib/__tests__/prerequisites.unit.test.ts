@@ -0,0 +1,191 @@
+import { sliceSession } from "@/lib/course-slicer";
+import {
+  buildPrerequisiteGraph,
+  courseLockStates,
+  describePrerequisite,
+  isPrerequisiteMet,
+  lessonsToRetake,
+} from "@/lib/prerequisites";
+import type { Course, StoredCourse } from "@/lib/types";
+
+const A1 = "session-0-lesson-0";
+const A2 = "session-0-lesson-1";
+const B1 = "session-1-lesson-0";
+const C1 = "session-2-lesson-0";
+
+const adaptiveLesson = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  lessonTitle: id,
+  enablesUnlocking: [],
+  ...extra,
+});
+
+// Foundations (gatekeeper) = m1 + m2, then m3; m2 requires m1
+const makeCourse = (): Course =>
+  ({
+    course_title: "Networking",
+    sessions: [
+      {
+        id: "session-0",
+        session_title: "Basics",
+        lessons: [
+          {
+            id: A1,
+            lesson_title: "Layers",
+            timeEstimateMinutes: 10,
+            quiz: [{ question: "Q?", type: "MCQ", answer: "A" }],
+          },
+          { id: A2, lesson_title: "Addresses", timeEstimateMinutes: 10 },
+        ],
+      },
+      {
+        id: "session-1",
+        session_title: "Routing",
+        lessons: [{ id: B1, lesson_title: "Routes", timeEstimateMinutes: 10 }],
+      },
+      {
+        id: "session-2",
+        session_title: "Security",
+        lessons: [
+          { id: C1, lesson_title: "Firewalls", timeEstimateMinutes: 10 },
+        ],
+      },
+    ],
+    adaptive_course: {
+      modules: [
+        {
+          id: "m1",
+          prerequisites: [],
+          lessons: [
+            adaptiveLesson("a1", {
+              enablesUnlocking: ["a2"],
+              quiz: { questions: [], passingScore: 70 },
+            }),
+            // Points backwards; ignored
+            adaptiveLesson("a2", { enablesUnlocking: ["a1"] }),
+          ],
+        },
+        {
+          id: "m2",
+          prerequisites: ["m1", "subnetting"],
+          lessons: [adaptiveLesson("b1")],
+        },
+        { id: "m3", prerequisites: [], lessons: [adaptiveLesson("c1")] },
+      ],
+      courseOverview: {
+        roadmap: {
+          phases: [
+            {
+              phaseName: "Foundations",
+              moduleIds: ["m1", "m2"],
+              gatekeeper: true,
+            },
+            { phaseName: "Advanced", moduleIds: ["m3"], gatekeeper: false },
+          ],
+        },
+      },
+    },
+  }) as unknown as Course;
+
+const stored = (extra: Partial<StoredCourse> = {}): StoredCourse => ({
+  course: makeCourse(),
+  progress: {},
+  createdAt: "2026-01-01T00:00:00.000Z",
+  ...extra,
+});
+
+describe("buildPrerequisiteGraph", () => {
+  it("collects lesson, module and phase prerequisites", () => {
+    const graph = buildPrerequisiteGraph(makeCourse());
+    expect(graph.passingScores).toEqual({ [A1]: 70 });
+    expect(graph.requires).toEqual({
+      [A2]: [{ lessonId: A1, reason: "lesson", passingScore: 70 }],
+      [B1]: [
+        { lessonId: A1, reason: "module", passingScore: 70 },
+        { lessonId: A2, reason: "module" },
+      ],
+      [C1]: [
+        { lessonId: A1, reason: "phase", passingScore: 70 },
+        { lessonId: A2, reason: "phase" },
+        { lessonId: B1, reason: "phase" },
+      ],
+    });
+  });
+
+  it("has no locks without an adaptive source", () => {
+    const course = makeCourse();
+    delete course.adaptive_course;
+    expect(buildPrerequisiteGraph(course).requires).toEqual({});
+  });
+});
+
+describe("lock states", () => {
+  it("needs the quiz passed when it has a passing score", () => {
+    const graph = buildPrerequisiteGraph(makeCourse());
+    const completed = { progress: { [A1]: "completed" as const } };
+    expect(isPrerequisiteMet(graph, A1, completed)).toBe(false);
+    expect(
+      isPrerequisiteMet(graph, A1, { ...completed, quizScores: { [A1]: 70 } })
+    ).toBe(true);
+    expect(
+      isPrerequisiteMet(graph, A1, { progress: { [A1]: "tested_out" } })
+    ).toBe(true);
+    expect(
+      isPrerequisiteMet(graph, A2, { progress: { [A2]: "completed" } })
+    ).toBe(true);
+  });
+
+  it("locks lessons until prerequisites are met, unless overridden", () => {
+    expect(courseLockStates(makeCourse(), { progress: {} })[A2]).toEqual({
+      locked: true,
+      overridden: false,
+      missing: [{ lessonId: A1, reason: "lesson", passingScore: 70 }],
+    });
+
+    const states = courseLockStates(makeCourse(), {
+      progress: { [A1]: "completed", [A2]: "completed" },
+      quizScores: { [A1]: 90 },
+      unlockOverrides: [C1],
+    });
+    expect(states[A2].locked).toBe(false);
+    expect(states[B1].locked).toBe(false);
+    expect(states[C1]).toEqual({
+      locked: false,
+      overridden: true,
+      missing: [{ lessonId: B1, reason: "phase" }],
+    });
+  });
+
+  it("describes what's missing", () => {
+    const course = makeCourse();
+    const lessons = course.sessions.flatMap((s) => s.lessons);
+    const [quiz, finish] = buildPrerequisiteGraph(course).requires[B1];
+    expect(describePrerequisite(quiz, lessons)).toBe(
+      "Score 70% on the “Layers” quiz"
+    );
+    expect(describePrerequisite(finish, lessons)).toBe("Finish “Addresses”");
+  });
+});
+
+describe("sliceSession with prerequisites", () => {
+  it("keeps a chain of lessons in one session", () => {
+    const session = sliceSession(stored(), 30)!;
+    expect(session.lessons.map((l) => l.id)).toEqual([A1, A2, B1]);
+  });
+
+  it("serves completed lessons again until their quiz is passed", () => {
+    const progress = { [A1]: "completed", [A2]: "completed" } as const;
+    const course = stored({ progress });
+    const graph = buildPrerequisiteGraph(course.course);
+    expect([...lessonsToRetake(course.course, graph, course)]).toEqual([A1]);
+    expect(sliceSession(course, 10)!.lessons.map((l) => l.id)).toEqual([A1]);
+
+    const passed = stored({ progress, quizScores: { [A1]: 80 } });
+    expect(sliceSession(passed, 10)!.lessons.map((l) => l.id)).toEqual([B1]);
+
+    const overridden = stored({ progress, unlockOverrides: [B1, C1] });
+    expect(sliceSession(overridden, 10)!.lessons.map((l) => l.id)).toEqual([
+      B1,
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { MAX_ATTEMPT_HISTORY, mergeLessonProgress } from "@/lib/progress";
+import type { QuizAttempt } from "@/lib/types";
+
+const attempt = (score: number): QuizAttempt => ({
+  startedAt: "2025-01-01T00:00:00.000Z",
+  completedAt: "2025-01-01T00:01:00.000Z",
+  answers: [],
+  correct: score / 10,
+  total: 10,
+  score,
+  passed: score >= 70,
+  elapsedMs: 60_000,
+});
+
+describe("mergeLessonProgress", () => {
+  const ids = { courseId: "c1", lessonId: "l1" };
+
+  it("keeps attempt history, sums time and keeps the best score", () => {
+    const failed = mergeLessonProgress(undefined, {
+      ...ids,
+      score: 40,
+      timeSpent: 90,
+      attempts: [attempt(40)],
+    });
+    expect(failed.completed).toBe(false);
+
+    const now = new Date("2025-01-02T00:00:00.000Z");
+    const passed = mergeLessonProgress(
+      failed,
+      {
+        ...ids,
+        completed: true,
+        score: 80,
+        timeSpent: 30,
+        attempts: [attempt(80)],
+      },
+      now
+    );
+    expect(passed).toMatchObject({
+      completed: true,
+      completedAt: now,
+      score: 80,
+      timeSpent: 120,
+    });
+    expect(passed.attempts?.map((a) => a.score)).toEqual([40, 80]);
+
+    const retry = mergeLessonProgress(passed, {
+      ...ids,
+      score: 60,
+      attempts: [attempt(60)],
+    });
+    expect(retry).toMatchObject({ completed: true, score: 80, timeSpent: 120 });
+    expect(retry.completedAt).toEqual(now);
+  });
+
+  it("caps the attempt history", () => {
+    let progress = mergeLessonProgress(undefined, ids);
+    for (let i = 0; i <= MAX_ATTEMPT_HISTORY; i++) {
+      progress = mergeLessonProgress(progress, {
+        ...ids,
+        attempts: [attempt(i)],
+      });
+    }
+    expect(progress.attempts).toHaveLength(MAX_ATTEMPT_HISTORY);
+    expect(progress.attempts?.[0].score).toBe(1);
+  });
+});
@@ -0,0 +1,352 @@
+/**
+ * @jest-environment node
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import type { QuizPaper } from "@/data/quizPapers";
+import { readAnkiPackage } from "@/lib/anki-package";
+import {
+  detectQuestionBankFormat,
+  parseQuestionBank,
+  QuestionBankError,
+  toAnkiTsv,
+  toCsv,
+  toGift,
+  toQtiPackage,
+} from "@/lib/question-bank";
+import { readZip, writeZip } from "@/lib/zip";
+import { deflateRawSync } from "zlib";
+
+const paper: QuizPaper = {
+  id: "p",
+  title: "Networking",
+  questions: [
+    {
+      id: "q1",
+      questionText: "Which layer routes packets: {network} or transport?",
+      answerText: "Network",
+      type: "MCQ",
+      options: ["Transport", "Network", "Session"],
+      explanation: "Routing = layer 3.",
+      section: "OSI",
+    },
+    {
+      id: "q2",
+      questionText: "Default HTTP port?",
+      answerText: "80",
+      type: "Short",
+      section: "Protocols",
+    },
+    {
+      id: "q3",
+      questionText: "Explain TCP slow start.",
+      answerText: "The window doubles each RTT until loss.",
+      type: "Practical",
+    },
+  ],
+};
+
+const strip = (questions: QuizPaper["questions"]) =>
+  questions.map(({ questionText, answerText, type, options, section }) => ({
+    questionText,
+    answerText,
+    type,
+    options,
+    section,
+  }));
+
+describe("GIFT", () => {
+  it("reads the common question types and categories", () => {
+    const gift = `
+// comment
+$CATEGORY: $course$/top/Basics
+
+::Q1:: 2 + 2 \\= ? {
+  =four#Right
+  ~three
+  ~%0%five
+}
+
+::Q2:: The sky is blue. {T}
+
+Grant is buried in {=Grant's tomb =Grants tomb} in New York.
+
+::Q4:: Pi to two places? {#3.14:0.005}
+
+::Q5:: Describe recursion. {####A function calling itself.}
+
+::Q6:: Match {=cat -> meow =dog -> woof}
+`;
+    const { questions, warnings } = parseQuestionBank("gift", [
+      { path: "bank.gift", content: gift },
+    ]);
+    expect(strip(questions)).toEqual([
+      {
+        questionText: "2 + 2 = ?",
+        answerText: "four",
+        type: "MCQ",
+        options: ["four", "three", "five"],
+        section: "Basics",
+      },
+      {
+        questionText: "The sky is blue.",
+        answerText: "True",
+        type: "MCQ",
+        options: ["True", "False"],
+        section: "Basics",
+      },
+      {
+        questionText: "Grant is buried in _____ in New York.",
+        answerText: "Grant's tomb",
+        type: "Short",
+        options: undefined,
+        section: "Basics",
+      },
+      {
+        questionText: "Pi to two places?",
+        answerText: "3.14",
+        type: "Short",
+        options: undefined,
+        section: "Basics",
+      },
+      {
+        questionText: "Describe recursion.",
+        answerText: "A function calling itself.",
+        type: "Practical",
+        options: undefined,
+        section: "Basics",
+      },
+    ]);
+    expect(questions[0].explanation).toBe("Right");
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(/matching/);
+  });
+
+  it("round-trips an exported bank", () => {
+    const { questions } = parseQuestionBank("gift", [
+      { path: "x.gift", content: toGift(paper) },
+    ]);
+    // Unsectioned questions land in a category named after the bank
+    expect(strip(questions)).toEqual(
+      strip(paper.questions).map((q) => ({
+        ...q,
+        section: q.section || paper.title,
+      }))
+    );
+    expect(questions[0].explanation).toBe("Routing = layer 3.");
+  });
+});
+
+describe("CSV", () => {
+  it("reads option columns and letter answers", () => {
+    const csv = [
+      "Question,Option A,Option B,Option C,Correct,Explanation,Category",
+      '"Largest planet, by mass?",Earth,Jupiter,Mars,B,"It\'s a ""gas giant""",Astronomy',
+      "Unmarked question,,,,,,",
+    ].join("\r\n");
+    const { questions, warnings } = parseQuestionBank("csv", [
+      { path: "bank.csv", content: csv },
+    ]);
+    expect(questions).toEqual([
+      {
+        id: "q-1",
+        questionText: "Largest planet, by mass?",
+        answerText: "Jupiter",
+        type: "MCQ",
+        options: ["Earth", "Jupiter", "Mars"],
+        explanation: 'It\'s a "gas giant"',
+        section: "Astronomy",
+      },
+    ]);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it("round-trips an exported bank", () => {
+    const { questions } = parseQuestionBank("csv", [
+      { path: "x.csv", content: toCsv(paper) },
+    ]);
+    expect(strip(questions)).toEqual(strip(paper.questions));
+  });
+
+  it("rejects files without question and answer columns", () => {
+    expect(() =>
+      parseQuestionBank("csv", [{ path: "x.csv", content: "a,b\n1,2" }])
+    ).toThrow(QuestionBankError);
+  });
+});
+
+describe("Anki", () => {
+  it("reads plain-text exports, including HTML and cloze notes", () => {
+    const tsv = [
+      "#separator:tab",
+      "#html:true",
+      "#deck:Languages::Spanish",
+      "hola\thello<br>(greeting)",
+      "{{c1::Madrid}} is the capital of Spain\t",
+    ].join("\n");
+    const { questions } = parseQuestionBank("anki", [
+      { path: "deck.txt", content: tsv },
+    ]);
+    expect(strip(questions)).toEqual([
+      {
+        questionText: "hola",
+        answerText: "hello\n(greeting)",
+        type: "Short",
+        options: undefined,
+        section: "Spanish",
+      },
+      {
+        questionText: "_____ is the capital of Spain",
+        answerText: "Madrid",
+        type: "Short",
+        options: undefined,
+        section: "Spanish",
+      },
+    ]);
+  });
+
+  it("exports one note per question with HTML fields", () => {
+    const tsv = toAnkiTsv(paper);
+    expect(tsv.split("\n").slice(0, 4)).toEqual([
+      "#separator:tab",
+      "#html:true",
+      "#deck:Networking",
+      "#columns:Front\tBack\tTags",
+    ]);
+    expect(tsv).toContain("A. Transport<br>B. Network<br>C. Session");
+  });
+
+  it("detects Anki files, sniffing .txt exports", () => {
+    expect(detectQuestionBankFormat("deck.apkg")).toBe("anki");
+    expect(detectQuestionBankFormat("deck.txt", "#separator:tab\na\tb")).toBe(
+      "anki"
+    );
+    expect(detectQuestionBankFormat("bank.txt", "Q {=a}")).toBe("gift");
+  });
+
+  it("reads notes and decks from an .apkg package", () => {
+    // A legacy-schema collection written by SQLite with 512-byte pages, so
+    // the notes span interior pages and the long note an overflow page
+    const data = readFileSync(path.join(__dirname, "fixtures", "deck.apkg"));
+    const file = readAnkiPackage(data, "deck.apkg");
+    const { questions, warnings } = parseQuestionBank("anki", [file]);
+    expect(warnings).toEqual([]);
+    expect(questions).toHaveLength(43);
+    expect(strip(questions.slice(0, 3))).toEqual([
+      {
+        questionText: "What does TCP stand for?",
+        answerText: "Transmission Control Protocol",
+        type: "Short",
+        section: "OSI",
+      },
+      {
+        questionText: "_____ happens at layer 3",
+        answerText: "Routing",
+        type: "Short",
+        section: "OSI",
+      },
+      {
+        questionText: "Port of service 0?",
+        answerText: "1000",
+        type: "Short",
+        section: "Default",
+      },
+    ]);
+    expect(questions[42].answerText).toMatch(/^x{3000} end$/);
+  });
+
+  it("rejects packages without a readable collection", () => {
+    const newer = writeZip([
+      { path: "collection.anki2", content: "stub" },
+      { path: "collection.anki21b", content: "zstd" },
+    ]);
+    expect(() => readAnkiPackage(newer, "new.apkg")).toThrow(
+      /Support older Anki versions/
+    );
+    expect(() =>
+      readAnkiPackage(writeZip([{ path: "media", content: "{}" }]), "x.apkg")
+    ).toThrow(QuestionBankError);
+  });
+});
+
+describe("QTI", () => {
+  it("round-trips a zipped content package, keeping sections", () => {
+    const zip = writeZip(toQtiPackage(paper));
+    const files = readZip(zip).map((entry) => ({
+      path: entry.path,
+      content: entry.content.toString("utf8"),
+    }));
+    expect(files.map((f) => f.path).slice(0, 2)).toEqual([
+      "imsmanifest.xml",
+      "assessment.xml",
+    ]);
+    const { questions } = parseQuestionBank("qti", files);
+    expect(strip(questions)).toEqual(
+      strip(paper.questions).map((q) => ({
+        ...q,
+        section: q.section || paper.title,
+      }))
+    );
+    expect(questions[0].explanation).toBe("Routing = layer 3.");
+  });
+
+  it("reads a standalone choice item with a namespace prefix", () => {
+    const xml = `<?xml version="1.0"?>
+<qti:assessmentItem xmlns:qti="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="i1" title="Capital">
+  <qti:responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <qti:correctResponse><qti:value>B</qti:value></qti:correctResponse>
+  </qti:responseDeclaration>
+  <qti:itemBody>
+    <qti:choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+      <qti:prompt>Capital of <b>France</b>?</qti:prompt>
+      <qti:simpleChoice identifier="A">Lyon</qti:simpleChoice>
+      <qti:simpleChoice identifier="B">Paris</qti:simpleChoice>
+    </qti:choiceInteraction>
+  </qti:itemBody>
+</qti:assessmentItem>`;
+    const { questions } = parseQuestionBank("qti", [
+      { path: "item.xml", content: xml },
+    ]);
+    expect(strip(questions)).toEqual([
+      {
+        questionText: "Capital of France?",
+        answerText: "Paris",
+        type: "MCQ",
+        options: ["Lyon", "Paris"],
+        section: undefined,
+      },
+    ]);
+  });
+});
+
+describe("readZip", () => {
+  // A deflated entry whose headers record the compressed size, as a zip
+  // bomb's might
+  const deflatedZip = (path: string, content: Buffer) => {
+    const zip = writeZip([{ path, content: deflateRawSync(content) }]);
+    zip.writeUInt16LE(8, 8);
+    zip.writeUInt16LE(8, zip.indexOf(Buffer.from("PK\x01\x02")) + 10);
+    return zip;
+  };
+
+  it("caps inflated entries even when the recorded size is small", () => {
+    const zip = deflatedZip("bomb.xml", Buffer.alloc(4096));
+    expect(readZip(zip)[0].content.length).toBe(4096);
+    expect(() => readZip(zip, { maxEntryBytes: 1024 })).toThrow(/too large/);
+  });
+
+  it("skips excluded entries without inflating them", () => {
+    const zip = writeZip([
+      { path: "media/video.bin", content: Buffer.alloc(2048) },
+      { path: "item.xml", content: "<item/>" },
+      { path: "other.xml", content: "<item/>" },
+    ]);
+    const xml = { include: (path: string) => path.endsWith(".xml") };
+    expect(
+      readZip(zip, { ...xml, maxTotalBytes: 100 }).map((e) => e.path)
+    ).toEqual(["item.xml", "other.xml"]);
+    expect(() => readZip(zip, { ...xml, maxTotalBytes: 10 })).toThrow(
+      /too large/
+    );
+  });
+});
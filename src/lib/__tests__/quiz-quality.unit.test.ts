@@ -0,0 +1,201 @@
+import {
+  checkQuizQuestion,
+  summarizeQuizQuality,
+  validateCourseQuizzes,
+} from "@/lib/quiz-quality";
+import type { Course, QuizQuestion } from "@/lib/types";
+
+const mcq = (
+  answer: string,
+  options: string[],
+  extra: Partial<QuizQuestion> = {}
+): QuizQuestion => ({
+  question: "Capital of France?",
+  type: "MCQ",
+  options,
+  answer,
+  ...extra,
+});
+
+const CITIES = ["Paris", "London", "Berlin", "Madrid"];
+
+describe("checkQuizQuestion", () => {
+  it("passes a well-formed question, collapsing whitespace", () => {
+    const check = checkQuizQuestion(
+      mcq(" Paris ", CITIES, { question: "Capital  of\nFrance?" })
+    );
+    expect(check).toMatchObject({ status: "ok", issues: [], flagged: false });
+    expect(check.question).toMatchObject({
+      question: "Capital of France?",
+      answer: "Paris",
+      options: CITIES,
+    });
+  });
+
+  it.each([
+    ["a letter", "a", CITIES],
+    ["a labelled letter", "(A)", CITIES],
+    ["different case", "PARIS", CITIES],
+    [
+      "a labelled option",
+      "A) Paris",
+      CITIES.map((c, i) => `${"ABCD"[i]}) ${c}`),
+    ],
+    ["a typo", "Parris", CITIES],
+  ])("maps an answer given as %s to its option", (_, answer, options) => {
+    const check = checkQuizQuestion(mcq(answer, options));
+    expect(check.status).toBe("repaired");
+    expect(check.issues).toEqual(["answer_remapped"]);
+    expect(check.question).toMatchObject({ answer: "Paris", options: CITIES });
+  });
+
+  it("drops duplicate and catch-all options", () => {
+    const check = checkQuizQuestion(
+      mcq("paris", [...CITIES, "PARIS.", "All of the above"])
+    );
+    expect(check.status).toBe("repaired");
+    expect(check.issues).toEqual([
+      "all_of_the_above",
+      "duplicate_options",
+      "answer_remapped",
+    ]);
+    expect(check.question).toMatchObject({ answer: "Paris", options: CITIES });
+  });
+
+  it("rejects questions it can't repair", () => {
+    expect(checkQuizQuestion(mcq("Rome", CITIES))).toMatchObject({
+      question: null,
+      status: "rejected",
+      issues: ["answer_not_in_options"],
+    });
+    expect(
+      checkQuizQuestion(
+        mcq("None of the above", [...CITIES, "None of the above"])
+      ).issues
+    ).toEqual(["all_of_the_above"]);
+    expect(checkQuizQuestion(mcq("Paris", ["Paris", "paris"])).status).toBe(
+      "rejected"
+    );
+    expect(
+      checkQuizQuestion({
+        question: "Explain DNS.",
+        type: "Short",
+        answer: " ",
+      }).issues
+    ).toEqual(["empty"]);
+  });
+
+  it("flags too few options, except True/False", () => {
+    const three = checkQuizQuestion(mcq("Paris", CITIES.slice(0, 3)));
+    expect(three).toMatchObject({ status: "ok", flagged: true });
+    expect(three.issues).toEqual(["too_few_options"]);
+
+    const trueFalse = checkQuizQuestion(mcq("True", ["True", "False"]));
+    expect(trueFalse).toMatchObject({ status: "ok", flagged: false });
+  });
+
+  it("flags explanations that contradict the answer", () => {
+    const claimsOther = checkQuizQuestion(
+      mcq("Paris", CITIES, {
+        explanation: "The correct answer is London, home of Parliament.",
+      })
+    );
+    expect(claimsOther.issues).toEqual(["explanation_contradicts"]);
+    expect(claimsOther.flagged).toBe(true);
+
+    expect(
+      checkQuizQuestion(
+        mcq("Paris", CITIES, { explanation: "Paris is incorrect here." })
+      ).issues
+    ).toEqual(["explanation_contradicts"]);
+    expect(
+      checkQuizQuestion(
+        mcq("Paris", CITIES, {
+          explanation: "The correct answer is Paris because it is the capital.",
+        })
+      ).issues
+    ).toEqual([]);
+  });
+});
+
+describe("validateCourseQuizzes", () => {
+  const makeCourse = () =>
+    ({
+      course_title: "Geography",
+      sessions: [
+        {
+          id: "s1",
+          session_title: "Europe",
+          lessons: [
+            {
+              id: "l1",
+              lesson_title: "Capitals",
+              key_points: [],
+              quiz: [
+                mcq("Paris", CITIES),
+                mcq("B", CITIES, { question: "Capital of the UK?" }),
+                mcq("Rome", CITIES, { question: "Capital of Italy?" }),
+                mcq("Paris", CITIES.slice(0, 3)),
+              ],
+            },
+          ],
+        },
+      ],
+    }) as unknown as Course;
+
+  it("repairs in place, drops rejected questions and reports stats", async () => {
+    const course = makeCourse();
+    const report = await validateCourseQuizzes(course);
+    expect(course.sessions[0].lessons[0].quiz!.map((q) => q.answer)).toEqual([
+      "Paris",
+      "London",
+      "Paris",
+    ]);
+    expect(report).toMatchObject({
+      checked: 4,
+      passed: 1,
+      repaired: 1,
+      regenerated: 0,
+      rejected: 1,
+      issues: {
+        answer_remapped: 1,
+        answer_not_in_options: 1,
+        too_few_options: 1,
+      },
+    });
+    expect(report.flagged).toEqual([
+      {
+        lessonId: "l1",
+        question: "Capital of France?",
+        issues: ["too_few_options"],
+      },
+    ]);
+    expect(course.quiz_quality).toBe(report);
+    expect(summarizeQuizQuality(report)).toBe(
+      "4 questions checked, 1 repaired, 1 removed, 1 flagged"
+    );
+  });
+
+  it("regenerates rejected questions within the budget", async () => {
+    const course = makeCourse();
+    const regenerate = jest.fn(async (_lesson, question: QuizQuestion) => ({
+      ...question,
+      options: ["Rome", "Milan", "Turin", "Naples"],
+    }));
+    const report = await validateCourseQuizzes(course, { regenerate });
+    expect(regenerate).toHaveBeenCalledTimes(1);
+    expect(regenerate.mock.calls[0][2]).toEqual(["answer_not_in_options"]);
+    expect(report).toMatchObject({ regenerated: 1, rejected: 0 });
+    expect(course.sessions[0].lessons[0].quiz![2].answer).toBe("Rome");
+
+    const failing = jest.fn(async () => {
+      throw new Error("model unavailable");
+    });
+    const noBudget = await validateCourseQuizzes(makeCourse(), {
+      regenerate: failing,
+      maxRegenerations: 0,
+    });
+    expect(failing).not.toHaveBeenCalled();
+    expect(noBudget.rejected).toBe(1);
+  });
+});
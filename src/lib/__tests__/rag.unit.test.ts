@@ -0,0 +1,118 @@
+import { joinPages } from "@/lib/source-document";
+import {
+  bm25Search,
+  buildGroundedPrompt,
+  chunkDocument,
+  cosineSimilarity,
+  reciprocalRankFusion,
+  retrievePassages,
+} from "@/lib/rag";
+
+const paged = (pages: string[]) => {
+  const { text, pageOffsets } = joinPages(pages);
+  return chunkDocument(text, pageOffsets);
+};
+
+const words = (prefix: string, n: number) =>
+  Array.from({ length: n }, (_, i) => `${prefix}${i}`).join(" ");
+
+describe("chunkDocument", () => {
+  it("splits long text into overlapping chunks", () => {
+    const chunks = chunkDocument(words("w", 400));
+    expect(chunks.length).toBe(3);
+    expect(chunks[0].text.split(" ")).toHaveLength(180);
+    // 40 words of overlap between neighbours
+    expect(chunks[1].text.startsWith("w140 ")).toBe(true);
+    expect(chunks.every((c) => c.page === undefined)).toBe(true);
+  });
+
+  it("tags chunks with pages when page offsets are given", () => {
+    const { text, pageOffsets } = joinPages([
+      "first page text",
+      "second page text",
+    ]);
+    const chunks = chunkDocument(text, pageOffsets);
+    expect(chunks.map((c) => c.page)).toEqual([1, 2]);
+    expect(chunks.map((c) => c.id)).toEqual(["chunk-0", "chunk-1"]);
+  });
+});
+
+describe("bm25Search", () => {
+  const chunks = paged([
+    "Photosynthesis converts light energy into chemical energy in plants.",
+    "Mitochondria are the powerhouse of the cell and produce ATP.",
+    "The French revolution began in 1789.",
+  ]);
+
+  it("ranks the most relevant chunk first", () => {
+    const res = bm25Search("how do mitochondria produce ATP?", chunks, 2);
+    expect(res[0].page).toBe(2);
+    expect(res).toHaveLength(1);
+  });
+
+  it("returns nothing for stopword-only queries", () => {
+    expect(bm25Search("what is the", chunks, 3)).toEqual([]);
+  });
+});
+
+describe("retrievePassages", () => {
+  const chunks = paged(["alpha beta", "alpha gamma", "alpha delta"]);
+
+  it("finds passages by meaning that share no words with the question", async () => {
+    const synonyms = paged(["alpha beta", "alpha gamma", "canine puppy"]);
+    const embed = jest.fn(async (text: string) =>
+      text.includes("dog") || text.includes("canine") ? [1, 0] : [0, 1]
+    );
+    await expect(retrievePassages("dog", synonyms)).resolves.toEqual([]);
+    const res = await retrievePassages("dog", synonyms, { topK: 1, embed });
+    expect(res.map((p) => p.page)).toEqual([3]);
+  });
+
+  it("embeds each chunk once when given a vector cache", async () => {
+    const embed = jest.fn(async (text: string) =>
+      text.includes("gamma") ? [1, 0] : [0, 1]
+    );
+    const chunkVectors = new Map<string, number[]>();
+    await retrievePassages("gamma", chunks, { embed, chunkVectors });
+    const res = await retrievePassages("gamma", chunks, {
+      embed,
+      chunkVectors,
+    });
+    expect(res[0].page).toBe(2);
+    expect(chunkVectors.size).toBe(chunks.length);
+    // Both questions plus each chunk once
+    expect(embed).toHaveBeenCalledTimes(2 + chunks.length);
+  });
+
+  it("fuses the lexical and embedding rankings", () => {
+    const [a, b, c] = chunks.map((chunk) => ({ ...chunk, score: 1 }));
+    const fused = reciprocalRankFusion([
+      [a, b, c],
+      [c, a],
+    ]);
+    expect(fused.map((p) => p.id)).toEqual([a.id, c.id, b.id]);
+    expect(fused[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+  });
+
+  it("falls back to BM25 when embedding fails", async () => {
+    const embed = jest.fn(async () => {
+      throw new Error("offline");
+    });
+    const res = await retrievePassages("gamma", chunks, { embed });
+    expect(res.map((p) => p.page)).toEqual([2]);
+  });
+});
+
+describe("helpers", () => {
+  it("computes cosine similarity", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+  });
+
+  it("numbers passages with page labels in the prompt", () => {
+    const [passage] = paged(["one", "two"]).slice(1);
+    const { prompt } = buildGroundedPrompt("q", [{ ...passage, score: 1 }]);
+    expect(prompt).toContain("[1] (page 2)\ntwo");
+  });
+});
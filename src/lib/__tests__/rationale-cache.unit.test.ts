@@ -0,0 +1,61 @@
+/** @jest-environment node */
+import {
+  rationaleCacheKey,
+  readCachedRationales,
+  writeCachedRationales,
+} from "@/lib/rationale-cache";
+
+// What the `distractor_rationales` table holds, by key
+const mockRows = new Map<string, Record<string, string>>();
+jest.mock("@/lib/supabaseAdmin", () => ({
+  supabaseAdmin: {
+    from: () => ({
+      select: () => ({
+        eq: (_: string, key: string) => ({
+          maybeSingle: async () => ({
+            data: mockRows.has(key) ? { rationales: mockRows.get(key) } : null,
+            error: null,
+          }),
+        }),
+      }),
+      upsert: async (row: {
+        key: string;
+        rationales: Record<string, string>;
+      }) => {
+        mockRows.set(row.key, row.rationales);
+        return { error: null };
+      },
+    }),
+  },
+}));
+
+const grounded = { system: "Tutor", prompt: "Which layer routes packets?" };
+
+describe("rationale cache", () => {
+  it("keys on the whole prompt", async () => {
+    const key = await rationaleCacheKey(grounded);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    await expect(rationaleCacheKey({ ...grounded })).resolves.toBe(key);
+    await expect(
+      rationaleCacheKey({ ...grounded, prompt: `${grounded.prompt} (edited)` })
+    ).resolves.not.toBe(key);
+  });
+
+  it("shares written rationales through the table", async () => {
+    const key = await rationaleCacheKey(grounded);
+    await expect(readCachedRationales(key)).resolves.toBeNull();
+
+    await writeCachedRationales(key, { Transport: "Layer 4 handles ports." });
+    expect(mockRows.get(key)).toEqual({ Transport: "Layer 4 handles ports." });
+    await expect(readCachedRationales(key)).resolves.toEqual({
+      Transport: "Layer 4 handles ports.",
+    });
+
+    // Written by another server process
+    const other = await rationaleCacheKey({ ...grounded, system: "Other" });
+    mockRows.set(other, { Session: "Layer 5." });
+    await expect(readCachedRationales(other)).resolves.toEqual({
+      Session: "Layer 5.",
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  createSourceDocument,
+  joinPages,
+  pageAtOffset,
+} from "@/lib/source-document";
+import {
+  findCourseBySourceHash,
+  getSourceDocument,
+  saveSourceDocument,
+} from "@/lib/source-store";
+
+jest.mock("@/lib/supabaseClient", () => ({
+  supabase: null,
+  isSupabaseConfigured: false,
+}));
+
+describe("source document helpers", () => {
+  it("records where each page starts", () => {
+    const { text, pageOffsets } = joinPages(["abc", "de", "f"]);
+    expect(text).toBe("abc\n\nde\n\nf");
+    expect(pageOffsets).toEqual([0, 5, 9]);
+    expect(pageAtOffset(pageOffsets, 0)).toBe(1);
+    expect(pageAtOffset(pageOffsets, 6)).toBe(2);
+    expect(pageAtOffset(pageOffsets, 10)).toBe(3);
+  });
+
+  it("hashes identical text to the same content hash", async () => {
+    const a = await createSourceDocument("same text");
+    const b = await createSourceDocument("same text", { filename: "b.pdf" });
+    const c = await createSourceDocument("other text");
+    expect(a.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.contentHash).toBe(b.contentHash);
+    expect(a.contentHash).not.toBe(c.contentHash);
+    expect(a.pageOffsets).toEqual([0]);
+    expect(a.pageCount).toBe(1);
+  });
+});
+
+describe("source store (local stand-in)", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "sources-"));
+    process.env.SOURCE_STORE_DIR = dir;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.SOURCE_STORE_DIR;
+  });
+
+  it("round-trips a document and finds it by hash", async () => {
+    const { text, pageOffsets } = joinPages(["page one", "page two"]);
+    const doc = await createSourceDocument(text, {
+      filename: "notes.pdf",
+      pageOffsets,
+    });
+
+    await expect(saveSourceDocument("u1", "tmp_1", doc)).resolves.toBe("local");
+    await expect(getSourceDocument("u1", "tmp_1")).resolves.toEqual(doc);
+    await expect(findCourseBySourceHash("u1", doc.contentHash)).resolves.toBe(
+      "tmp_1"
+    );
+  });
+
+  it("returns null for unknown courses and hashes", async () => {
+    await expect(getSourceDocument("u1", "missing")).resolves.toBeNull();
+    await expect(findCourseBySourceHash("u2", "abc")).resolves.toBeNull();
+  });
+});
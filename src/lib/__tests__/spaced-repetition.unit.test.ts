@@ -0,0 +1,78 @@
+import {
+  dueCards,
+  MIN_EASE,
+  qualityFromAnswer,
+  reviewCardId,
+  scheduleReview,
+} from "@/lib/spaced-repetition";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-01-01T00:00:00.000Z");
+
+describe("scheduleReview", () => {
+  it("grows the interval 1 → 6 → interval × ease on correct answers", () => {
+    const first = scheduleReview(undefined, 4, now);
+    expect(first).toMatchObject({ intervalDays: 1, repetitions: 1 });
+    expect(first.dueAt.getTime()).toBe(now.getTime() + DAY_MS);
+
+    const second = scheduleReview(first, 4, now);
+    expect(second.intervalDays).toBe(6);
+
+    const third = scheduleReview(second, 4, now);
+    expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor));
+    expect(third.easeFactor).toBe(2.5);
+  });
+
+  it("resets a forgotten card to tomorrow and counts a lapse", () => {
+    let card = scheduleReview(undefined, 5, now);
+    card = scheduleReview(card, 5, now);
+    const lapsed = scheduleReview(card, 1, now);
+
+    expect(lapsed).toMatchObject({
+      intervalDays: 1,
+      repetitions: 0,
+      lapses: 1,
+    });
+    expect(lapsed.easeFactor).toBeLessThan(card.easeFactor);
+    // A new card answered wrongly has nothing to lapse from
+    expect(scheduleReview(undefined, 1, now).lapses).toBe(0);
+  });
+
+  it("never lowers the ease below the minimum", () => {
+    let card = scheduleReview(undefined, 0, now);
+    for (let i = 0; i < 10; i++) card = scheduleReview(card, 0, now);
+    expect(card.easeFactor).toBe(MIN_EASE);
+  });
+});
+
+describe("qualityFromAnswer", () => {
+  it("grades correct answers by speed", () => {
+    expect(qualityFromAnswer(false, 1_000)).toBe(1);
+    expect(qualityFromAnswer(true)).toBe(4);
+    expect(qualityFromAnswer(true, 3_000)).toBe(5);
+    expect(qualityFromAnswer(true, 15_000)).toBe(4);
+    expect(qualityFromAnswer(true, 60_000)).toBe(3);
+  });
+});
+
+describe("dueCards", () => {
+  it("returns due cards most overdue first", () => {
+    const at = (days: number) => ({
+      id: days,
+      dueAt: new Date(now.getTime() + days * DAY_MS),
+    });
+    expect(
+      dueCards([at(-1), at(2), at(-3), at(0)], now).map((c) => c.id)
+    ).toEqual([-3, -1, 0]);
+  });
+});
+
+describe("reviewCardId", () => {
+  it("is stable across whitespace and case, and scoped to the course", () => {
+    const id = reviewCardId("course-a", "What is ATP?");
+    expect(id).toMatch(/^course-a:[0-9a-f]{8}$/);
+    expect(reviewCardId("course-a", "  what is atp? ")).toBe(id);
+    expect(reviewCardId("course-b", "What is ATP?")).not.toBe(id);
+    expect(reviewCardId("course-a", "What is NADPH?")).not.toBe(id);
+  });
+});
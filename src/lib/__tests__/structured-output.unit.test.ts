@@ -0,0 +1,138 @@
+import { z } from "zod";
+import {
+  extractJsonText,
+  generateStructured,
+  parseStructured,
+  repairJson,
+  StructuredOutputError,
+} from "@/lib/structured-output";
+import { aiGenerateStream } from "@/lib/ai-provider";
+
+jest.mock("@/lib/ai-provider", () => ({ aiGenerateStream: jest.fn() }));
+
+const streamMock = aiGenerateStream as jest.Mock;
+
+// Each call to the provider streams the next response in two chunks
+function respondWith(...responses: string[]) {
+  let call = 0;
+  streamMock.mockImplementation(async function* () {
+    const text = responses[Math.min(call++, responses.length - 1)];
+    yield text.slice(0, 5);
+    yield text.slice(5);
+  });
+}
+
+const Schema = z.object({
+  title: z.string(),
+  items: z.array(z.number()),
+});
+
+describe("extractJsonText", () => {
+  it("reads JSON inside code fences surrounded by prose", () => {
+    const raw = 'Sure!\n```json\n{"a": [1, 2]}\n```\nHope that helps {x}';
+    expect(extractJsonText(raw)).toBe('{"a": [1, 2]}');
+  });
+
+  it("stops at the matching brace, ignoring braces in strings", () => {
+    expect(extractJsonText('{"a": "}"} trailing {"b": 1}')).toBe('{"a": "}"}');
+  });
+
+  it("returns the tail of a truncated value and honours `expect`", () => {
+    expect(extractJsonText('x [1, {"a": 2', "object")).toBe('{"a": 2');
+    expect(extractJsonText("no json here")).toBeNull();
+  });
+});
+
+describe("repairJson", () => {
+  it("removes trailing commas", () => {
+    expect(JSON.parse(repairJson('{"a": [1, 2,], "b": {"c": 1,},}'))).toEqual({
+      a: [1, 2],
+      b: { c: 1 },
+    });
+  });
+
+  it("closes truncated arrays and objects", () => {
+    expect(JSON.parse(repairJson('{"title": "T", "items": [1, 2, 3'))).toEqual({
+      title: "T",
+      items: [1, 2, 3],
+    });
+    expect(JSON.parse(repairJson('[{"a": "unfinished str'))).toEqual([
+      { a: "unfinished str" },
+    ]);
+  });
+
+  it("drops a dangling key and partial literals", () => {
+    expect(JSON.parse(repairJson('{"a": 1, "b":'))).toEqual({ a: 1 });
+    expect(JSON.parse(repairJson('{"a": 1, "par'))).toEqual({ a: 1 });
+    expect(JSON.parse(repairJson('{"a": [true, fal'))).toEqual({ a: [true] });
+  });
+});
+
+describe("parseStructured", () => {
+  it("returns typed data and flags repairs", () => {
+    const result = parseStructured('{"title": "T", "items": [1,]}', Schema);
+    expect(result).toEqual({
+      ok: true,
+      data: { title: "T", items: [1] },
+      attempts: 1,
+      repaired: true,
+    });
+  });
+
+  it("reports schema issues with their paths", () => {
+    const result = parseStructured('{"title": 3, "items": ["x"]}', Schema);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(StructuredOutputError);
+    expect(result.error.kind).toBe("schema_mismatch");
+    expect(result.error.issues.join("\n")).toMatch(/^title: /m);
+    expect(result.error.issues.join("\n")).toMatch(/^items\.0: /m);
+  });
+
+  it("distinguishes missing JSON", () => {
+    const result = parseStructured("I cannot help with that.", Schema);
+    expect(!result.ok && result.error.kind).toBe("no_json");
+  });
+});
+
+describe("generateStructured", () => {
+  beforeEach(() => streamMock.mockReset());
+
+  it("re-prompts with the validation errors until the output is valid", async () => {
+    respondWith('{"title": "T"}', '{"title": "T", "items": [4]}');
+
+    const result = await generateStructured("Make a list", Schema);
+
+    expect(result).toMatchObject({ ok: true, attempts: 2 });
+    expect(streamMock).toHaveBeenCalledTimes(2);
+    const retryPrompt = streamMock.mock.calls[1][0] as string;
+    expect(retryPrompt).toContain("Make a list");
+    expect(retryPrompt).toContain("- items: Required");
+  });
+
+  it("gives up after maxAttempts with a typed error", async () => {
+    respondWith("nothing useful");
+
+    const result = await generateStructured("Make a list", Schema, {
+      maxAttempts: 2,
+    });
+
+    expect(streamMock).toHaveBeenCalledTimes(2);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.kind).toBe("no_json");
+    expect(result.error.attempts).toBe(2);
+  });
+
+  it("does not retry provider errors", async () => {
+    streamMock.mockImplementation(async function* () {
+      yield "";
+      throw new Error("network down");
+    });
+
+    await expect(generateStructured("Make a list", Schema)).rejects.toThrow(
+      "network down"
+    );
+    expect(streamMock).toHaveBeenCalledTimes(1);
+  });
+});
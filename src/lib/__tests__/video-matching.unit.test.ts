@@ -0,0 +1,129 @@
+import {
+  assignVideosToLessons,
+  maxWeightAssignment,
+  scoreVideoLessonPairs,
+  tfidfVectors,
+} from "@/lib/video-matching";
+import { matchVideosToLessons } from "@/lib/youtube-search";
+
+jest.mock("@/lib/youtube", () => ({
+  validateYouTubeUrl: jest.fn(async (url: string) => {
+    const id = new URL(url).searchParams.get("v");
+    return {
+      embeddable: id !== "gone",
+      id,
+      embedUrl: `https://www.youtube-nocookie.com/embed/${id}`,
+      watchUrl: url,
+      reason: id === "gone" ? "not_found" : "ok",
+    };
+  }),
+}));
+
+describe("maxWeightAssignment", () => {
+  it("finds the best total where greedy picking would not", () => {
+    // Greedy gives row 0 column 0 (0.9) and row 1 column 1 (0.1) = 1.0
+    expect(
+      maxWeightAssignment([
+        [0.9, 0.8],
+        [0.85, 0.1],
+      ])
+    ).toEqual([1, 0]);
+  });
+
+  it("handles more rows than columns and the reverse", () => {
+    expect(maxWeightAssignment([[0.2], [0.7], [0.4]])).toEqual([-1, 0, -1]);
+    expect(maxWeightAssignment([[0.2, 0.7, 0.4]])).toEqual([1]);
+    expect(maxWeightAssignment([])).toEqual([]);
+  });
+});
+
+describe("scoring", () => {
+  it("weights rare shared terms and lines up word forms", () => {
+    const [lesson, related, unrelated] = tfidfVectors([
+      "Sorting algorithms",
+      "How to sort: algorithm basics",
+      "Cooking pasta",
+    ]);
+    expect(lesson.length).toBe(related.length);
+    const dot = (a: number[], b: number[]) =>
+      a.reduce((sum, x, i) => sum + x * b[i], 0);
+    expect(dot(lesson, related)).toBeGreaterThan(0);
+    expect(dot(lesson, unrelated)).toBe(0);
+  });
+
+  it("uses embeddings when given and falls back to TF-IDF", async () => {
+    const embed = async (text: string) =>
+      text.includes("queue") ? [1, 0] : [0, 1];
+    const byEmbedding = await scoreVideoLessonPairs(
+      ["Breadth-first search uses a queue"],
+      ["BFS with a queue", "DFS with recursion"],
+      { embed }
+    );
+    expect(byEmbedding).toEqual({ method: "embedding", scores: [[1, 0]] });
+
+    const failing = async () => {
+      throw new Error("offline");
+    };
+    const byTfidf = await scoreVideoLessonPairs(["Queues"], ["Queue basics"], {
+      embed: failing,
+    });
+    expect(byTfidf.method).toBe("tfidf");
+    expect(byTfidf.scores[0][0]).toBeGreaterThan(0);
+  });
+
+  it("keeps only pairs above the minimum, with their confidence", () => {
+    const assignments = assignVideosToLessons({
+      method: "embedding",
+      scores: [
+        [0.912, 0.6],
+        [0.7, 0.3],
+      ],
+    });
+    expect(assignments).toEqual([
+      { lesson: 0, video: 1, confidence: 0.6 },
+      { lesson: 1, video: 0, confidence: 0.7 },
+    ]);
+    expect(assignVideosToLessons({ method: "tfidf", scores: [[0.1]] })).toEqual(
+      []
+    );
+  });
+});
+
+describe("matchVideosToLessons", () => {
+  const video = (id: string, title: string) => ({
+    id,
+    title,
+    watchUrl: `https://www.youtube.com/watch?v=${id}`,
+  });
+
+  it("assigns PDF videos across lessons with a confidence", async () => {
+    const matches = await matchVideosToLessons(
+      [
+        video("v1", "Binary search trees explained"),
+        video("v2", "Hash tables and hashing"),
+        video("gone", "Binary search trees"),
+      ],
+      [
+        {
+          lessonId: "hash",
+          lessonTitle: "Hash tables",
+          keyPoints: ["Collisions", "Hashing functions"],
+        },
+        {
+          lessonId: "bst",
+          lessonTitle: "Binary search trees",
+          keyPoints: ["Insertion", "Tree traversal"],
+        },
+        {
+          lessonId: "graphs",
+          lessonTitle: "Graphs",
+          keyPoints: ["Edges", "Vertices"],
+        },
+      ]
+    );
+    expect([...matches.keys()].sort()).toEqual(["bst", "hash"]);
+    expect(matches.get("bst")).toMatchObject({ id: "v1", method: "tfidf" });
+    expect(matches.get("hash")!.id).toBe("v2");
+    expect(matches.get("hash")!.confidence).toBeGreaterThan(0.15);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  getVideoProvider,
+  mp4Provider,
+  peertubeProvider,
+  vimeoProvider,
+  youtubeProvider,
+} from "@/lib/video-providers";
+
+// Just what the providers read; jsdom has no Response
+const respond = (status: number, body: unknown = {}, type = "") =>
+  ({
+    status,
+    ok: status >= 200 && status < 300,
+    json: async () => body,
+    headers: new Map([["content-type", type]]),
+  }) as unknown as Response;
+
+const fetchMock = jest.fn();
+const originalFetch = global.fetch;
+const originalHosts = process.env.NEXT_PUBLIC_PEERTUBE_HOSTS;
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  global.fetch = fetchMock;
+  process.env.NEXT_PUBLIC_PEERTUBE_HOSTS =
+    "videos.school.edu, tube.example.org";
+});
+
+afterAll(() => {
+  global.fetch = originalFetch;
+  if (originalHosts === undefined)
+    delete process.env.NEXT_PUBLIC_PEERTUBE_HOSTS;
+  else process.env.NEXT_PUBLIC_PEERTUBE_HOSTS = originalHosts;
+});
+
+describe("getVideoProvider", () => {
+  it("dispatches on the URL", () => {
+    const name = (url: string) => getVideoProvider(url)?.name ?? null;
+    expect(name("https://youtu.be/dQw4w9WgXcQ")).toBe("youtube");
+    expect(name("https://vimeo.com/76979871")).toBe("vimeo");
+    expect(name("https://tube.example.org/videos/watch/abc-123")).toBe(
+      "peertube"
+    );
+    expect(name("https://cdn.example.com/talks/intro.MP4?sig=1")).toBe("mp4");
+    expect(name("https://example.com/article")).toBeNull();
+    expect(name("not a url")).toBeNull();
+  });
+
+  it("only treats links on configured hosts as PeerTube", () => {
+    expect(
+      peertubeProvider.extractId("https://videos.school.edu/w/9c9de5e8")
+    ).toBe("videos.school.edu/9c9de5e8");
+    expect(
+      peertubeProvider.extractId(
+        "https://videos.school.edu/videos/embed/9c9de5e8"
+      )
+    ).toBe("videos.school.edu/9c9de5e8");
+    expect(
+      peertubeProvider.extractId("https://tube.example.org/w/p/abc")
+    ).toBeNull();
+    for (const path of ["w", "videos/watch", "videos/embed"]) {
+      expect(
+        getVideoProvider(`https://other.example.com/${path}/9c9de5e8`)
+      ).toBeNull();
+    }
+  });
+});
+
+describe("embed URLs", () => {
+  it("passes segment bounds in each provider's format", () => {
+    const segment = { start: 90, end: 120 };
+    expect(youtubeProvider.embedUrl("dQw4w9WgXcQ", segment)).toBe(
+      "https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?start=90&end=120"
+    );
+    expect(vimeoProvider.embedUrl("76979871", segment)).toBe(
+      "https://player.vimeo.com/video/76979871#t=90s"
+    );
+    expect(peertubeProvider.embedUrl("tube.example.org/abc", segment)).toBe(
+      "https://tube.example.org/videos/embed/abc?start=90s&stop=120s"
+    );
+    expect(mp4Provider.embedUrl("https://cdn.example.com/a.mp4", segment)).toBe(
+      "https://cdn.example.com/a.mp4#t=90,120"
+    );
+  });
+
+  it("keeps the hash of unlisted Vimeo videos", () => {
+    const id = vimeoProvider.extractId("https://vimeo.com/76979871/8272103f6e");
+    expect(id).toBe("76979871:8272103f6e");
+    expect(vimeoProvider.embedUrl(id!)).toBe(
+      "https://player.vimeo.com/video/76979871?h=8272103f6e"
+    );
+    expect(vimeoProvider.watchUrl(id!)).toBe(
+      "https://vimeo.com/76979871/8272103f6e"
+    );
+    expect(
+      vimeoProvider.extractId("https://player.vimeo.com/video/76979871?h=abc1")
+    ).toBe("76979871:abc1");
+  });
+});
+
+describe("validate", () => {
+  it("reads Vimeo oEmbed metadata", async () => {
+    fetchMock.mockResolvedValueOnce(
+      respond(200, {
+        title: "The New Vimeo Player",
+        author_name: "Vimeo",
+        thumbnail_url: "https://i.vimeocdn.com/video/1.jpg",
+      })
+    );
+    await expect(
+      vimeoProvider.validate("https://vimeo.com/channels/staffpicks/76979871")
+    ).resolves.toMatchObject({
+      provider: "vimeo",
+      embeddable: true,
+      reason: "ok",
+      embedUrl: "https://player.vimeo.com/video/76979871",
+      title: "The New Vimeo Player",
+      thumbnail: "https://i.vimeocdn.com/video/1.jpg",
+    });
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://vimeo.com/api/oembed.json?url=https%3A%2F%2Fvimeo.com%2F76979871"
+    );
+  });
+
+  it("hides deleted videos and links out to private ones", async () => {
+    fetchMock.mockResolvedValueOnce(respond(404));
+    await expect(
+      peertubeProvider.validate("https://tube.example.org/videos/watch/abc")
+    ).resolves.toMatchObject({ reason: "not_found", watchUrl: null });
+
+    fetchMock.mockResolvedValueOnce(respond(403));
+    await expect(
+      vimeoProvider.validate("https://vimeo.com/76979871")
+    ).resolves.toMatchObject({
+      reason: "private",
+      embeddable: false,
+      watchUrl: "https://vimeo.com/76979871",
+    });
+  });
+
+  it("checks video files with a HEAD request", async () => {
+    const url = "https://cdn.example.com/a.mp4";
+    fetchMock.mockResolvedValueOnce(respond(200, {}, "video/mp4"));
+    await expect(mp4Provider.validate(url)).resolves.toMatchObject({
+      embeddable: true,
+      embedUrl: url,
+      reason: "ok",
+    });
+    expect(fetchMock).toHaveBeenCalledWith(url, { method: "HEAD" });
+
+    fetchMock.mockResolvedValueOnce(respond(200, {}, "text/html"));
+    await expect(mp4Provider.validate(url)).resolves.toMatchObject({
+      embeddable: false,
+      reason: "embed_disabled",
+    });
+
+    // CORS failures in the browser still leave the file playable
+    fetchMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    await expect(mp4Provider.validate(url)).resolves.toMatchObject({
+      embeddable: true,
+      reason: "unknown",
+    });
+  });
+});
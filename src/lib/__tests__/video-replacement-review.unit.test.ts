@@ -0,0 +1,306 @@
+import {
+  pickReplacement,
+  replaceVideoInCourse,
+  reviewVideoReplacement,
+  type ReplacementRow,
+} from "@/lib/video-replacement-review";
+import type { Course } from "@/lib/types";
+
+type CourseRow = { id: string; course: Course };
+type MockTables = {
+  video_replacements: ReplacementRow[];
+  user_courses: CourseRow[];
+};
+type MockTable = keyof MockTables;
+type MockRow = ReplacementRow | CourseRow;
+
+// Just enough of the Supabase query builder: `eq` filters on columns and on
+// "metadata->>status", and updates apply to the rows in place
+const mockTables: MockTables = { video_replacements: [], user_courses: [] };
+const mockUpdates: {
+  table: MockTable;
+  values: Record<string, unknown>;
+  id: string;
+}[] = [];
+
+const mockField = (row: MockRow, column: string) =>
+  column === "metadata->>status"
+    ? (row as ReplacementRow).metadata?.status
+    : (row as Record<string, unknown>)[column];
+
+function mockUpdate(table: MockTable, values: Record<string, unknown>) {
+  const filters: [string, unknown][] = [];
+  const run = () => {
+    const rows = (mockTables[table] as MockRow[]).filter((row) =>
+      filters.every(([column, value]) => mockField(row, column) === value)
+    );
+    for (const row of rows) {
+      mockUpdates.push({ table, values, id: row.id });
+      Object.assign(row, values);
+    }
+    return rows;
+  };
+  const query = {
+    eq(column: string, value: unknown) {
+      filters.push([column, value]);
+      return query;
+    },
+    select: async () => ({
+      data: run().map((row) => ({ id: row.id })),
+      error: null,
+    }),
+    then(resolve: (result: { error: null }) => void) {
+      run();
+      resolve({ error: null });
+    },
+  };
+  return query;
+}
+
+// `courses_linking_video`: courses whose JSON mentions the video id, by id
+function mockLinking(videoId: string) {
+  let after = "";
+  const query = {
+    gt(_: string, id: string) {
+      after = id;
+      return query;
+    },
+    order: () => query,
+    limit: async (count: number) => ({
+      data: mockTables.user_courses
+        .filter(
+          (row) =>
+            row.id > after && JSON.stringify(row.course).includes(videoId)
+        )
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, count),
+      error: null,
+    }),
+  };
+  return query;
+}
+
+jest.mock("@/lib/supabaseClient", () => ({
+  isSupabaseConfigured: true,
+  supabase: {
+    from: (table: MockTable) => ({
+      select: () => ({
+        eq: (_: string, id: string) => ({
+          maybeSingle: async () => ({
+            data: mockTables[table].find((row) => row.id === id) ?? null,
+            error: null,
+          }),
+        }),
+        order: () => ({
+          range: async (from: number, to: number) => ({
+            data: mockTables[table].slice(from, to + 1),
+            error: null,
+          }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => mockUpdate(table, values),
+    }),
+    rpc: (_: string, args: { video_id: string }) => mockLinking(args.video_id),
+  },
+}));
+
+// Saved courses are rewritten with the service-role client
+jest.mock("@/lib/supabaseAdmin", () => ({
+  supabaseAdmin: jest.requireMock("@/lib/supabaseClient").supabase,
+}));
+
+const OLD = "dQw4w9WgXcQ";
+const NEW = "9bZkp7q19f0";
+
+const makeCourse = () =>
+  ({
+    course_title: "Music",
+    sessions: [
+      {
+        id: "session-0",
+        session_title: "Pop",
+        lessons: [
+          {
+            id: "session-0-lesson-0",
+            lesson_title: "Hooks",
+            resources: [
+              {
+                title: "Old video",
+                url: `https://youtu.be/${OLD}`,
+                type: "video",
+              },
+              {
+                title: "Other",
+                url: "https://www.youtube.com/watch?v=aaaaaaaaaaa",
+                type: "video",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+    adaptive_course: {
+      modules: [
+        {
+          lessons: [
+            {
+              resources: {
+                videos: [
+                  {
+                    title: "Old video",
+                    url: `https://www.youtube.com/watch?v=${OLD}`,
+                    timestamps: [{ time: "1:00", label: "Chorus" }],
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    },
+  }) as unknown as Course;
+
+describe("video replacement review", () => {
+  it("picks the suggestion or an offered alternative", () => {
+    const row = {
+      id: "r1",
+      replacementId: NEW,
+      replacementTitle: "Suggested",
+      metadata: {
+        status: "pending" as const,
+        alternatives: [{ id: "bbbbbbbbbbb", title: "Alt" }],
+      },
+    };
+    expect(pickReplacement(row)).toMatchObject({ id: NEW, title: "Suggested" });
+    expect(pickReplacement(row, "bbbbbbbbbbb")).toEqual({
+      id: "bbbbbbbbbbb",
+      title: "Alt",
+    });
+    expect(pickReplacement(row, "ccccccccccc")).toBeNull();
+  });
+
+  it("rewrites lesson and adaptive resources for the original video", () => {
+    const course = makeCourse();
+    const replaced = replaceVideoInCourse(course, OLD, {
+      id: NEW,
+      title: "New video",
+    });
+    expect(replaced).toBe(2);
+
+    const [first, other] = course.sessions[0].lessons[0].resources!;
+    expect(first).toMatchObject({
+      title: "New video",
+      url: `https://www.youtube.com/watch?v=${NEW}`,
+    });
+    expect(other.title).toBe("Other");
+
+    const video =
+      course.adaptive_course!.modules[0].lessons[0].resources.videos![0];
+    expect(video).toMatchObject({
+      url: `https://www.youtube.com/watch?v=${NEW}`,
+      embedUrl: `https://www.youtube-nocookie.com/embed/${NEW}`,
+    });
+    expect(video.timestamps).toBeUndefined();
+
+    expect(replaceVideoInCourse(course, OLD, { id: NEW })).toBe(0);
+  });
+
+  describe("reviewVideoReplacement", () => {
+    beforeEach(() => {
+      mockUpdates.length = 0;
+      mockTables.user_courses = [
+        { id: "c1", course: makeCourse() },
+        {
+          id: "c2",
+          course: { course_title: "Other", sessions: [] } as unknown as Course,
+        },
+      ];
+      mockTables.video_replacements = [
+        {
+          id: "r1",
+          originalUrl: `https://youtu.be/${OLD}`,
+          replacementId: NEW,
+          replacementTitle: "New video",
+          metadata: { status: "pending", audit: [] },
+        },
+        { id: "r2", metadata: { status: "approved" } },
+      ];
+    });
+
+    it("propagates an approval and records who approved it", async () => {
+      const result = await reviewVideoReplacement("r1", {
+        action: "approve",
+        reviewer: "admin@example.com",
+      });
+      expect(result).toEqual({
+        ok: true,
+        status: "approved",
+        replacementId: NEW,
+        coursesUpdated: 1,
+      });
+
+      // Claimed before any course is touched, then completed
+      const [claim, course, log] = mockUpdates;
+      expect(claim).toMatchObject({ table: "video_replacements", id: "r1" });
+      expect(course).toMatchObject({ table: "user_courses", id: "c1" });
+      expect(JSON.stringify(course.values.course)).not.toContain(OLD);
+      expect(log).toMatchObject({ table: "video_replacements", id: "r1" });
+      const metadata = log.values.metadata as ReplacementRow["metadata"];
+      expect(metadata).toMatchObject({
+        status: "approved",
+        reviewedBy: "admin@example.com",
+        audit: [
+          {
+            action: "approved",
+            by: "admin@example.com",
+            replacementId: NEW,
+            courseIds: ["c1"],
+          },
+        ],
+      });
+      expect(metadata?.reviewedAt).toBe(metadata?.audit?.[0].at);
+    });
+
+    it("lets only one of two concurrent reviews through", async () => {
+      const results = await Promise.all([
+        reviewVideoReplacement("r1", { action: "approve", reviewer: "a" }),
+        reviewVideoReplacement("r1", { action: "reject", reviewer: "b" }),
+      ]);
+      expect(results).toEqual([
+        expect.objectContaining({ ok: true, status: "approved" }),
+        { ok: false, reason: "already_reviewed" },
+      ]);
+      expect(
+        mockUpdates.filter((u) => u.table === "user_courses")
+      ).toHaveLength(1);
+    });
+
+    it("rejects without touching courses, once", async () => {
+      await expect(
+        reviewVideoReplacement("r1", {
+          action: "approve",
+          reviewer: "admin",
+          alternativeId: "ccccccccccc",
+        })
+      ).resolves.toEqual({ ok: false, reason: "unknown_alternative" });
+      await expect(
+        reviewVideoReplacement("r1", {
+          action: "reject",
+          reviewer: "admin",
+          note: "Off topic",
+        })
+      ).resolves.toMatchObject({ ok: true, status: "rejected" });
+      expect(mockUpdates).toHaveLength(1);
+      const metadata = mockUpdates[0].values
+        .metadata as ReplacementRow["metadata"];
+      expect(metadata?.audit?.[0]).toMatchObject({
+        action: "rejected",
+        note: "Off topic",
+      });
+
+      await expect(
+        reviewVideoReplacement("r2", { action: "reject", reviewer: "admin" })
+      ).resolves.toEqual({ ok: false, reason: "already_reviewed" });
+    });
+  });
+});
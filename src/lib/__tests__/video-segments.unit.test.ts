@@ -0,0 +1,114 @@
+import {
+  formatTimestamp,
+  isSegmentWatched,
+  parseTimestamp,
+  parseVideoTimestamps,
+  segmentKey,
+  unwatchedSegments,
+} from "@/lib/video-segments";
+import type { Lesson } from "@/lib/types";
+
+describe("parseTimestamp", () => {
+  it.each([
+    ["2:30", 150],
+    ["1:02:03", 3723],
+    ["150", 150],
+    ["150s", 150],
+    ["2m30s", 150],
+    ["1h 2m 3s", 3723],
+    ["@2:30", 150],
+    ["t=90", 90],
+  ])("reads %s", (text, seconds) => {
+    expect(parseTimestamp(text)).toBe(seconds);
+  });
+
+  it("rejects what isn't a timestamp", () => {
+    expect(parseTimestamp("")).toBeNull();
+    expect(parseTimestamp("intro")).toBeNull();
+    expect(parseTimestamp("2:75")).toBeNull();
+  });
+
+  it("formats back to clock time", () => {
+    expect(formatTimestamp(150)).toBe("2:30");
+    expect(formatTimestamp(3723)).toBe("1:02:03");
+  });
+});
+
+describe("parseVideoTimestamps", () => {
+  it.each([
+    "2:30-5:15",
+    "2:30 – 5:15",
+    "from 2m30s to 5m15s",
+    "150s until 315s",
+    "@2:30 through 5:15",
+  ])("normalises the range %s", (text) => {
+    expect(parseVideoTimestamps(text)).toEqual({
+      segment: { start: 150, end: 315 },
+      timestamps: "2:30-5:15",
+    });
+  });
+
+  it("splits a segment from labelled chapters", () => {
+    expect(
+      parseVideoTimestamps("3:00 Example 1; 2:30-5:15 Setup | 4:10 - Recap")
+    ).toEqual({
+      segment: { start: 150, end: 315 },
+      chapters: [
+        { time: 150, label: "Setup" },
+        { time: 180, label: "Example 1" },
+        { time: 250, label: "Recap" },
+      ],
+      timestamps: "2:30-5:15, 2:30 Setup, 3:00 Example 1, 4:10 Recap",
+    });
+  });
+
+  it("treats a lone timestamp as an open-ended segment", () => {
+    expect(parseVideoTimestamps("at 12:00")).toEqual({
+      segment: { start: 720 },
+      timestamps: "12:00-",
+    });
+  });
+
+  it("ignores text without timestamps", () => {
+    expect(parseVideoTimestamps("the whole video")).toEqual({});
+    expect(parseVideoTimestamps(undefined)).toEqual({});
+  });
+});
+
+describe("watching segments", () => {
+  const seconds = (from: number, to: number) =>
+    Array.from({ length: to - from }, (_, i) => from + i);
+
+  it("needs most of the segment played", () => {
+    const segment = { start: 100, end: 200 };
+    expect(isSegmentWatched(seconds(100, 190), segment)).toBe(true);
+    expect(isSegmentWatched(seconds(100, 180), segment)).toBe(false);
+    // Seconds outside the segment don't count
+    expect(isSegmentWatched(seconds(0, 100), segment)).toBe(false);
+  });
+
+  it("needs the duration for open-ended segments", () => {
+    expect(isSegmentWatched(seconds(50, 100), { start: 50 })).toBe(false);
+    expect(isSegmentWatched(seconds(50, 100), { start: 50 }, 100)).toBe(true);
+  });
+
+  it("lists the lesson's segments not watched yet", () => {
+    const video = {
+      title: "Sorting",
+      url: "https://youtu.be/abc",
+      type: "video" as const,
+      segment: { start: 0, end: 60 },
+    };
+    const lesson = {
+      resources: [
+        video,
+        { title: "Whole talk", url: "https://youtu.be/def", type: "video" },
+        { title: "Docs", url: "https://example.com", type: "article" },
+      ],
+    } as Pick<Lesson, "resources">;
+    expect(unwatchedSegments(lesson)).toEqual([video]);
+    const key = segmentKey(video, video.segment);
+    expect(key).toBe("https://youtu.be/abc#0:00-1:00");
+    expect(unwatchedSegments(lesson, [key])).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Time-on-task tracking for lessons.
+ *
+ * One lesson is active at a time; its clock runs only while the tracker is
+ * resumed (the tab is visible and focused). `take` hands out the time
+ * accrued since the previous `take`, so each progress write records only
+ * new time.
+ */
+
+export type ActiveTimeTracker = {
+  activate(id: string): void;
+  pause(): void;
+  resume(): void;
+  // Accrued milliseconds for `id` since the last take, then resets them
+  take(id: string): number;
+  activeId(): string | null;
+};
+
+export function createActiveTimeTracker(
+  now: () => number = Date.now
+): ActiveTimeTracker {
+  const accrued = new Map<string, number>();
+  let active: string | null = null;
+  let running = true;
+  let since = now();
+
+  // Bank the time since the last checkpoint against the active lesson
+  const checkpoint = () => {
+    const t = now();
+    if (active && running) {
+      accrued.set(active, (accrued.get(active) || 0) + (t - since));
+    }
+    since = t;
+  };
+
+  return {
+    activate(id) {
+      if (id === active) return;
+      checkpoint();
+      active = id;
+    },
+    pause() {
+      checkpoint();
+      running = false;
+    },
+    resume() {
+      checkpoint();
+      running = true;
+    },
+    take(id) {
+      if (id === active) checkpoint();
+      const ms = accrued.get(id) || 0;
+      accrued.delete(id);
+      return ms;
+    },
+    activeId: () => active,
+  };
+}
@@ -0,0 +1,123 @@
+import type {
+  QuestionDifficulty,
+  QuizAnswerRecord,
+  QuizQuestion,
+} from "./types";
+
+/**
+ * Adaptive quiz selection and concept mastery.
+ *
+ * An adaptive quiz starts at medium and moves one level up after a correct
+ * answer and one level down after a miss (or skip). When the pool has no
+ * unasked question at the target level, the nearest level is used.
+ *
+ * Mastery is estimated per concept from the answers, weighting harder
+ * questions more and starting from a neutral prior so a single answer
+ * doesn't read as 0% or 100%.
+ */
+
+export const DIFFICULTY_LEVELS: QuestionDifficulty[] = [
+  "easy",
+  "medium",
+  "hard",
+];
+export const START_DIFFICULTY: QuestionDifficulty = "medium";
+
+const DIFFICULTY_WEIGHT: Record<QuestionDifficulty, number> = {
+  easy: 1,
+  medium: 2,
+  hard: 3,
+};
+// Weight of the neutral (50%) prior in the mastery estimate
+const PRIOR_WEIGHT = 2;
+
+export function difficultyOf(
+  question: Pick<QuizQuestion, "difficulty">
+): QuestionDifficulty {
+  return question.difficulty || START_DIFFICULTY;
+}
+
+export function nextDifficulty(
+  current: QuestionDifficulty,
+  correct: boolean
+): QuestionDifficulty {
+  const index = DIFFICULTY_LEVELS.indexOf(current) + (correct ? 1 : -1);
+  return DIFFICULTY_LEVELS[
+    Math.min(Math.max(index, 0), DIFFICULTY_LEVELS.length - 1)
+  ];
+}
+
+/**
+ * The next question to ask: the first unasked question at `target`, else at
+ * the nearest level (ties go to the easier one). Null when the pool is used up.
+ */
+export function pickNextQuestion<T extends Pick<QuizQuestion, "difficulty">>(
+  pool: T[],
+  asked: T[],
+  target: QuestionDifficulty
+): T | null {
+  const remaining = pool.filter((q) => !asked.includes(q));
+  if (remaining.length === 0) return null;
+  const targetIndex = DIFFICULTY_LEVELS.indexOf(target);
+  const distance = (q: T) =>
+    Math.abs(DIFFICULTY_LEVELS.indexOf(difficultyOf(q)) - targetIndex) * 2 +
+    (DIFFICULTY_LEVELS.indexOf(difficultyOf(q)) > targetIndex ? 1 : 0);
+  return remaining.reduce((best, q) =>
+    distance(q) < distance(best) ? q : best
+  );
+}
+
+export type ConceptMastery = {
+  mastery: number; // 0-1
+  answered: number;
+  correct: number;
+};
+
+/**
+ * Per-concept mastery from a quiz's answers. Answers without concepts count
+ * towards `fallbackConcept` when given, and are ignored otherwise.
+ */
+export function estimateMastery(
+  answers: Pick<QuizAnswerRecord, "correct" | "difficulty" | "concepts">[],
+  fallbackConcept?: string
+): Record<string, ConceptMastery> {
+  const totals: Record<
+    string,
+    { earned: number; weight: number; answered: number; correct: number }
+  > = {};
+  for (const answer of answers) {
+    const concepts = answer.concepts?.length
+      ? answer.concepts
+      : fallbackConcept
+        ? [fallbackConcept]
+        : [];
+    const weight = DIFFICULTY_WEIGHT[answer.difficulty || START_DIFFICULTY];
+    for (const concept of concepts) {
+      const t = (totals[concept] ||= {
+        earned: 0,
+        weight: 0,
+        answered: 0,
+        correct: 0,
+      });
+      t.weight += weight;
+      t.answered += 1;
+      if (answer.correct) {
+        t.earned += weight;
+        t.correct += 1;
+      }
+    }
+  }
+
+  const mastery: Record<string, ConceptMastery> = {};
+  for (const [concept, t] of Object.entries(totals)) {
+    mastery[concept] = {
+      mastery:
+        Math.round(
+          ((t.earned + PRIOR_WEIGHT * 0.5) / (t.weight + PRIOR_WEIGHT)) * 100
+        ) / 100,
+      answered: t.answered,
+      correct: t.correct,
+    };
+  }
+  return mastery;
+}
@@ -9,6 +9,13 @@
  */
 
 import type { AnalyzeDocumentOutput } from "@/ai/flows/schemas";
+import { normalizeQuestionType } from "./answer-grading";
+import type { QuestionDifficulty, QuizQuestionType } from "./types";
+import {
+  parseVideoTimestamps,
+  type VideoChapter,
+  type VideoSegment,
+} from "./video-segments";
 
 // ==================== PDF UNDERSTANDING ====================
 
@@ -542,15 +549,29 @@ export type LegacyCourse = {
       content_summary: string;
       content_snippet: string;
       key_points: string[];
-      resources?: Array<{ title: string; url: string; type: string }>;
+      resources?: Array<
+        | {
+            title: string;
+            url: string;
+            type: "video";
+            timestamps?: string;
+            segment?: VideoSegment;
+            chapters?: VideoChapter[];
+          }
+        | { title: string; url: string; type: "article"; section?: string }
+      >;
       quiz?: Array<{
         question: string;
+        type?: QuizQuestionType;
         answer: string;
+        difficulty?: QuestionDifficulty;
+        conceptsTested?: string[];
         options?: string[];
         explanation?: string;
       }>;
       timeEstimateMinutes?: number;
       isCompleted?: boolean;
+      sourceChunkIds?: string[];
     }>;
     estimated_time?: string;
   }>;
@@ -560,9 +581,139 @@ export type LegacyCourse = {
   analysis_report: AnalyzeDocumentOutput;
 };
 
-// Helper function to convert AdaptiveCourse to LegacyCourse
+// Flatten an AdaptiveCourse into the analysis report shape used by the
+// classic pipeline (`transformAnalysisToCourse`, video enrichment, audit)
+export function adaptiveToAnalysisReport(
+  course: AdaptiveCourse
+): AnalyzeDocumentOutput {
+  return {
+    course_title: course.courseOverview.title,
+    modules: course.modules.map((module) => ({
+      module_title: module.moduleTitle,
+      lessons: module.lessons.map((lesson) => ({
+        lesson_title: lesson.lessonTitle,
+        key_points: lesson.objectives,
+        time_estimate_minutes: lesson.estimatedMinutes,
+        resources: {
+          youtube: (lesson.resources.videos || []).map((v) => ({
+            title: v.title,
+            url: v.url,
+          })),
+          articles: (lesson.resources.articles || []).map((a) => ({
+            title: a.title,
+            url: a.url,
+            section: a.section,
+          })),
+        },
+        quiz: (lesson.quiz?.questions || []).map((q) => ({
+          question: q.question,
+          type: normalizeQuestionType(q.type) || "MCQ",
+          options: q.options,
+          answer: q.answer,
+          explanation: q.explanation,
+          difficulty: q.difficulty === "adaptive" ? "medium" : q.difficulty,
+          conceptsTested: q.conceptsTested,
+        })),
+      })),
+    })),
+  };
+}
+
+// Lesson IDs follow `transformAnalysisToCourse` so progress keys stay stable
+// whichever pipeline produced the course
+export function legacyLessonId(moduleIndex: number, lessonIndex: number) {
+  return `session-${moduleIndex}-lesson-${lessonIndex}`;
+}
+
+// Flatten lesson sections into the plain-text summary shown by ConceptCard
+function flattenSections(lesson: AdaptiveLesson): string {
+  const body = lesson.sections
+    .filter((section) => section.content.trim())
+    .map((section) =>
+      section.title ? `${section.title}\n${section.content}` : section.content
+    )
+    .join("\n\n");
+  return body || lesson.contentVariants.standard || lesson.objectives.join("\n");
+}
+
+function snippetOf(text: string, maxLength = 160): string {
+  const firstLine = text.split("\n").find((line) => line.trim()) || "";
+  return firstLine.length > maxLength
+    ? `${firstLine.slice(0, maxLength - 1).trimEnd()}…`
+    : firstLine;
+}
+
+// Helper function to convert AdaptiveCourse to LegacyCourse so adaptive
+// courses play through LessonView and `sliceSession` unchanged
 export function adaptiveToLegacy(course: AdaptiveCourse): LegacyCourse {
-  // Implementation will map new structure to old for backward compatibility
-  // This allows gradual frontend migration
-  return {} as LegacyCourse; // Placeholder
+  const totalMinutes = course.modules.reduce(
+    (acc, module) =>
+      acc + module.lessons.reduce((sum, l) => sum + l.estimatedMinutes, 0),
+    0
+  );
+
+  return {
+    course_title: course.courseOverview.title,
+    description: course.courseOverview.description,
+    total_estimated_time: `${totalMinutes} minutes`,
+    sessions: course.modules.map((module, sIndex) => ({
+      id: `session-${sIndex}`,
+      session_title: module.moduleTitle,
+      estimated_time: `${module.lessons.reduce(
+        (sum, l) => sum + l.estimatedMinutes,
+        0
+      )} minutes`,
+      lessons: module.lessons.map((lesson, lIndex) => {
+        const summary = flattenSections(lesson);
+        return {
+          id: legacyLessonId(sIndex, lIndex),
+          lesson_title: lesson.lessonTitle,
+          content_summary: summary,
+          content_snippet: snippetOf(summary),
+          key_points: lesson.objectives,
+          resources: [
+            ...(lesson.resources.videos || []).map((v) => ({
+              title: v.title,
+              url: v.url,
+              type: "video" as const,
+              ...parseVideoTimestamps(
+                v.timestamps?.map((t) => `${t.time} ${t.label}`).join(", ")
+              ),
+            })),
+            ...(lesson.resources.articles || []).map((a) => ({
+              title: a.title,
+              url: a.url,
+              type: "article" as const,
+              section: a.section,
+            })),
+          ],
+          quiz: (lesson.quiz?.questions || []).map((q) => ({
+            question: q.question,
+            type: normalizeQuestionType(q.type),
+            answer: q.answer,
+            options: q.options,
+            explanation: q.explanation,
+            // "adaptive" is a profile setting, never a question's level
+            difficulty: q.difficulty === "adaptive" ? "medium" : q.difficulty,
+            conceptsTested: q.conceptsTested,
+          })),
+          timeEstimateMinutes: lesson.estimatedMinutes,
+          sourceChunkIds: lesson.sourceChunkIds,
+        };
+      }),
+    })),
+    checklist: course.courseOverview.learningObjectives,
+    readiness_score: 100,
+    analysis_report: adaptiveToAnalysisReport(course),
+  };
+}
+
+// Reverse lookup for a lesson played through the legacy UI
+export function findAdaptiveLesson(
+  course: AdaptiveCourse,
+  legacyId: string
+): AdaptiveLesson | undefined {
+  const match = /^session-(\d+)-lesson-(\d+)$/.exec(legacyId);
+  if (!match) return undefined;
+  return course.modules[Number(match[1])]?.lessons[Number(match[2])];
 }
@@ -2,24 +2,170 @@ import { githubModelsChatStream } from "./githubModels";
 import { deepseekGenerateStream } from "./deepseek";
 import { ollamaGenerateStream } from "./ollama";
 import { googleGenerateStream } from "./google";
+import { mockGenerateStream } from "./mock-ai";
+import { createCircuitBreakers } from "./circuit-breaker";
+import { estimateTokens, recordAiCall } from "./ai-usage";
+import {
+  isProviderName,
+  loadModelConfig,
+  resolveModel,
+  type ProviderName,
+} from "./model-routing";
 
 type StreamGen = ReturnType<typeof githubModelsChatStream>;
 
-export function aiGenerateStream(
+export type AiGenerateOptions = {
+  system?: string;
+  timeout?: number;
+  model?: string; // overrides model routing for the first provider in the chain
+  signal?: AbortSignal;
+  flow?: string; // calling flow, used for model routing and usage stats
+};
+
+const PROVIDERS: Record<
+  ProviderName,
+  (prompt: string, opts: AiGenerateOptions) => StreamGen
+> = {
+  github: githubModelsChatStream,
+  google: (prompt, opts) => googleGenerateStream(prompt, opts) as StreamGen,
+  deepseek: (prompt, opts) => deepseekGenerateStream(prompt, opts) as StreamGen,
+  ollama: (prompt, opts) => ollamaGenerateStream(prompt, opts) as StreamGen,
+  mock: (prompt, opts) =>
+    mockGenerateStream(prompt, {
+      ...opts,
+      upstream: mockUpstream(opts),
+    }) as StreamGen,
+};
+
+/**
+ * The real provider the mock forwards to when recording fixtures
+ * (`AI_MOCK_MODE=record`), from `AI_MOCK_UPSTREAM`.
+ */
+function mockUpstream(opts: AiGenerateOptions) {
+  const name = process.env.AI_MOCK_UPSTREAM?.trim().toLowerCase() || "";
+  if (!isProviderName(name) || name === "mock") return undefined;
+  const model = resolveModel(loadModelConfig(), name, opts.flow);
+  return (prompt: string) => PROVIDERS[name](prompt, { ...opts, model });
+}
+
+const breakers = createCircuitBreakers({
+  failureThreshold: Number(process.env.AI_CIRCUIT_FAILURES) || 3,
+  cooldownMs: Number(process.env.AI_CIRCUIT_COOLDOWN_MS) || 60_000,
+});
+
+/**
+ * Providers to try, in order: `AI_PROVIDER_CHAIN` (e.g. "github,google,ollama")
+ * or the single `AI_PROVIDER`. Unknown names are skipped; ollama is the
+ * default when nothing valid is configured.
+ */
+export function providerChain(): ProviderName[] {
+  const raw =
+    process.env.AI_PROVIDER_CHAIN || process.env.AI_PROVIDER || "github";
+  const chain = raw
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(isProviderName);
+  return chain.length > 0 ? Array.from(new Set(chain)) : ["ollama"];
+}
+
+/**
+ * The provider and model a flow is routed to first, before any fallback.
+ */
+export function primaryRoute(flow?: string): {
+  provider: ProviderName;
+  model?: string;
+} {
+  const provider = providerChain()[0];
+  return { provider, model: resolveModel(loadModelConfig(), provider, flow) };
+}
+
+export function providerHealth() {
+  return breakers.snapshot();
+}
+
+/**
+ * Stream a completion from the first healthy provider in the chain.
+ *
+ * A provider that fails before streaming anything counts against its circuit
+ * breaker and the next provider is tried. Once output has reached the caller
+ * the error is rethrown instead, since streamed text cannot be retracted.
+ * `signal` cancels the request (no fallback); `timeout` applies per provider.
+ */
+export async function* aiGenerateStream(
   prompt: string,
-  opts: { system?: string; timeout?: number; model?: string } = {}
+  opts: AiGenerateOptions = {}
 ): AsyncGenerator<string> {
-  const provider = (process.env.AI_PROVIDER || "github").toLowerCase();
+  const flow = opts.flow || "unknown";
+  const config = loadModelConfig();
+  const chain = providerChain();
+  const tried: string[] = [];
+  let lastError: unknown;
 
-  if (provider === "google") {
-    return googleGenerateStream(prompt, opts) as StreamGen;
-  }
-  if (provider === "github") {
-    return githubModelsChatStream(prompt, opts) as StreamGen;
-  }
-  if (provider === "deepseek") {
-    return deepseekGenerateStream(prompt, opts) as StreamGen;
+  for (const [index, provider] of chain.entries()) {
+    if (!breakers.tryAcquire(provider)) {
+      tried.push(`${provider} (circuit open)`);
+      continue;
+    }
+
+    const model =
+      (index === 0 && opts.model) || resolveModel(config, provider, opts.flow);
+    const started = Date.now();
+    let firstChunkMs: number | undefined;
+    let outputChars = 0;
+    let settled = false;
+    const record = (ok: boolean, error?: string) =>
+      recordAiCall({
+        at: new Date(started).toISOString(),
+        flow,
+        provider,
+        model,
+        ok,
+        latencyMs: Date.now() - started,
+        firstChunkMs,
+        promptChars: prompt.length + (opts.system?.length || 0),
+        outputChars,
+        estimatedTokens: estimateTokens(
+          prompt.length + (opts.system?.length || 0) + outputChars
+        ),
+        fallbackFrom: tried.length > 0 ? [...tried] : undefined,
+        error,
+      });
+
+    try {
+      for await (const chunk of PROVIDERS[provider](prompt, {
+        system: opts.system,
+        timeout: opts.timeout,
+        model,
+        signal: opts.signal,
+        flow: opts.flow,
+      })) {
+        if (firstChunkMs === undefined) firstChunkMs = Date.now() - started;
+        outputChars += chunk.length;
+        yield chunk;
+      }
+      settled = true;
+      breakers.recordSuccess(provider);
+      record(true);
+      return;
+    } catch (e) {
+      settled = true;
+      if (opts.signal?.aborted) {
+        breakers.release(provider);
+        throw e;
+      }
+      breakers.recordFailure(provider);
+      record(false, (e as Error)?.message || String(e));
+      if (outputChars > 0) throw e;
+      lastError = e;
+      tried.push(provider);
+    } finally {
+      // The caller stopped reading early
+      if (!settled) breakers.release(provider);
+    }
   }
-  // default to ollama
-  return ollamaGenerateStream(prompt, opts) as StreamGen;
+
+  if (lastError) throw lastError;
+  throw new Error(
+    `No AI provider available: ${tried.join(", ")}. Try again shortly.`
+  );
 }
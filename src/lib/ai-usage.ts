@@ -0,0 +1,91 @@
+/**
+ * In-memory record of AI calls: which provider and model served each flow,
+ * how long it took and roughly how many tokens it used. Providers do not
+ * all report token counts when streaming, so tokens are estimated from
+ * character counts (~4 chars per token).
+ */
+
+export type AiCallRecord = {
+  at: string;
+  flow: string;
+  provider: string;
+  model?: string; // undefined = the provider's env default
+  ok: boolean;
+  latencyMs: number;
+  firstChunkMs?: number;
+  promptChars: number;
+  outputChars: number;
+  estimatedTokens: number;
+  fallbackFrom?: string[]; // providers tried (and failed or skipped) first
+  error?: string;
+};
+
+export type FlowUsage = {
+  calls: number;
+  failures: number;
+  avgLatencyMs: number;
+  estimatedTokens: number;
+  providers: Record<string, number>; // successful calls per provider
+};
+
+const MAX_RECORDS = 500;
+const CHARS_PER_TOKEN = 4;
+
+const records: AiCallRecord[] = [];
+
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+export function recordAiCall(record: AiCallRecord): void {
+  records.push(record);
+  if (records.length > MAX_RECORDS)
+    records.splice(0, records.length - MAX_RECORDS);
+
+  const target = `${record.provider}${record.model ? `/${record.model}` : ""}`;
+  const fallback = record.fallbackFrom?.length
+    ? ` (after ${record.fallbackFrom.join(", ")})`
+    : "";
+  if (record.ok) {
+    console.log(
+      `📊 [AI] ${record.flow} → ${target}${fallback}: ${record.latencyMs}ms, ~${record.estimatedTokens} tokens`
+    );
+  } else {
+    console.warn(
+      `📊 [AI] ${record.flow} → ${target} failed after ${record.latencyMs}ms: ${record.error}`
+    );
+  }
+}
+
+export function getAiCalls(): AiCallRecord[] {
+  return [...records];
+}
+
+export function summarizeAiUsage(
+  calls: AiCallRecord[] = records
+): Record<string, FlowUsage> {
+  const byFlow: Record<string, FlowUsage> = {};
+  for (const call of calls) {
+    const usage = (byFlow[call.flow] ||= {
+      calls: 0,
+      failures: 0,
+      avgLatencyMs: 0,
+      estimatedTokens: 0,
+      providers: {},
+    });
+    usage.avgLatencyMs =
+      (usage.avgLatencyMs * usage.calls + call.latencyMs) / (usage.calls + 1);
+    usage.calls++;
+    usage.estimatedTokens += call.estimatedTokens;
+    if (call.ok) {
+      usage.providers[call.provider] =
+        (usage.providers[call.provider] || 0) + 1;
+    } else {
+      usage.failures++;
+    }
+  }
+  for (const usage of Object.values(byFlow)) {
+    usage.avgLatencyMs = Math.round(usage.avgLatencyMs);
+  }
+  return byFlow;
+}
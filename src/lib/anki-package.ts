@@ -0,0 +1,102 @@
+import {
+  ankiNotesToText,
+  QuestionBankError,
+  type AnkiNote,
+  type QuestionBankFile,
+} from "./question-bank";
+import { readSqliteTable, type SqliteRow } from "./sqlite";
+import { readZip } from "./zip";
+
+/**
+ * Anki package import (.apkg decks and .colpkg collections).
+ *
+ * A package is a zip holding the collection as a SQLite database
+ * (`collection.anki21`, or `collection.anki2` from older versions) plus
+ * media files, which are skipped. Each note's first two fields become the
+ * front and back; the deck of its first card becomes the section. Server
+ * only: reads the zip with zlib.
+ */
+
+const COLLECTIONS = ["collection.anki21", "collection.anki2"];
+// Newer exports compress the collection with zstd, which we can't read
+const COMPRESSED_COLLECTION = "collection.anki21b";
+const MAX_COLLECTION_BYTES = 64 * 1024 * 1024;
+
+export const isAnkiPackage = (filename: string) =>
+  /\.(apkg|colpkg)$/i.test(filename);
+
+export function readAnkiPackage(
+  data: Buffer,
+  filename: string
+): QuestionBankFile {
+  const entries = readZip(data, {
+    include: (path) =>
+      COLLECTIONS.includes(path) || path === COMPRESSED_COLLECTION,
+    maxEntryBytes: MAX_COLLECTION_BYTES,
+    maxTotalBytes: MAX_COLLECTION_BYTES,
+  });
+  const paths = entries.map((entry) => entry.path);
+  // Packages with a compressed collection also carry an "update Anki" stub
+  if (paths.includes(COMPRESSED_COLLECTION)) {
+    throw new QuestionBankError(
+      'This Anki package uses a newer format. In Anki, export the deck again with "Support older Anki versions" ticked.',
+      "anki"
+    );
+  }
+  const collection = COLLECTIONS.map((path) =>
+    entries.find((entry) => entry.path === path)
+  ).find(Boolean);
+  if (!collection) {
+    throw new QuestionBankError(
+      `${filename} is not an Anki package (no collection found).`,
+      "anki"
+    );
+  }
+
+  const db = collection.content;
+  const notes = readSqliteTable(db, "notes");
+  if (!notes) {
+    throw new QuestionBankError(`${filename} has no Anki notes.`, "anki");
+  }
+  const decks = deckNames(db);
+  const noteDecks = new Map<number, string>();
+  // cards: id, nid, did, ...
+  for (const { values } of readSqliteTable(db, "cards") ?? []) {
+    const [noteId, deckId] = [Number(values[1]), Number(values[2])];
+    if (!noteDecks.has(noteId) && decks.has(deckId)) {
+      noteDecks.set(noteId, decks.get(deckId)!);
+    }
+  }
+
+  // notes: id (the rowid), guid, mid, mod, usn, tags, flds, ...; fields are
+  // separated by 0x1f
+  const parsed: AnkiNote[] = notes.map(({ rowid, values }) => ({
+    fields: String(values[6] ?? "").split("\x1f"),
+    deck: noteDecks.get(rowid),
+  }));
+  return { path: filename, content: ankiNotesToText(parsed) };
+}
+
+// Deck names by id: a `decks` table in newer collections, else JSON in `col`
+function deckNames(db: Buffer): Map<number, string> {
+  const names = new Map<number, string>();
+  const table = readSqliteTable(db, "decks");
+  if (table) {
+    // decks: id (the rowid), name (levels separated by 0x1f), ...
+    for (const { rowid, values } of table) {
+      names.set(rowid, String(values[1] ?? "").replace(/\x1f/g, "::"));
+    }
+    return names;
+  }
+  // col: id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, ...
+  const col: SqliteRow | undefined = readSqliteTable(db, "col")?.[0];
+  try {
+    const decks = JSON.parse(String(col?.values[10] ?? "{}"));
+    for (const [id, deck] of Object.entries<{ name?: string }>(decks)) {
+      if (deck?.name) names.set(Number(id), deck.name);
+    }
+  } catch {
+    // Unreadable deck list: notes go without sections
+  }
+  return names;
+}
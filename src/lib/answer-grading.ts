@@ -0,0 +1,192 @@
+import type { QuizQuestion, QuizQuestionType } from "./types";
+
+/**
+ * Grading for the non-multiple-choice question types.
+ *
+ * - Short: fuzzy match against the model answer. Clear matches and clear
+ *   misses are decided locally; anything in between is "uncertain" and goes
+ *   to the gradeAnswer flow.
+ * - Code: compared with whitespace and comments ignored; near misses are
+ *   uncertain, as for short answers.
+ * - Practical: the learner checks themselves against a rubric.
+ */
+
+export type GradeVerdict = "correct" | "incorrect" | "uncertain";
+
+export type LocalGrade = {
+  verdict: GradeVerdict;
+  similarity: number; // 0-1
+};
+
+// At or above: accepted without asking the model
+export const ACCEPT_SIMILARITY = 0.85;
+// Below: rejected without asking the model
+export const REJECT_SIMILARITY = 0.4;
+// Decides uncertain answers when the gradeAnswer flow is unavailable
+export const FALLBACK_ACCEPT_SIMILARITY = 0.6;
+// Share of rubric criteria a practical task needs to pass
+export const RUBRIC_PASS_RATIO = 0.7;
+
+const TYPE_ALIASES: Record<string, QuizQuestionType> = {
+  mcq: "MCQ",
+  multiple_choice: "MCQ",
+  short: "Short",
+  short_answer: "Short",
+  code: "Code",
+  code_completion: "Code",
+  practical: "Practical",
+};
+
+/**
+ * Map the type names used by the different generators (course schema,
+ * adaptive courses, imports) onto the ones QuizCard renders.
+ */
+export function normalizeQuestionType(
+  type: string | undefined
+): QuizQuestionType | undefined {
+  if (!type) return undefined;
+  return TYPE_ALIASES[
+    type
+      .trim()
+      .toLowerCase()
+      .replace(/[\s-]+/g, "_")
+  ];
+}
+
+/**
+ * How a question should be played. Untyped questions are MCQ when they have
+ * options and short-answer otherwise, as QuizCard always treated them.
+ */
+export function questionTypeOf(
+  question: Pick<QuizQuestion, "type" | "options">
+): QuizQuestionType {
+  const type = normalizeQuestionType(question.type);
+  if (type === "MCQ" && !question.options?.length) return "Short";
+  if (type) return type;
+  return question.options?.length ? "MCQ" : "Short";
+}
+
+const ARTICLES = new Set(["a", "an", "the"]);
+
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s.]/gu, " ")
+    .replace(/\.(?!\d)/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !ARTICLES.has(word))
+    .join(" ");
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Similarity of a response to the expected answer, 0-1: the better of the
+ * edit-distance ratio (typos) and the share of answer words the response
+ * contains (extra words, different order).
+ */
+export function answerSimilarity(response: string, expected: string): number {
+  const a = normalizeAnswer(response);
+  const b = normalizeAnswer(expected);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const editRatio = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const responseWords = new Set(a.split(" "));
+  const expectedWords = b.split(" ");
+  const covered = expectedWords.filter((word) =>
+    [...responseWords].some(
+      (r) => r === word || (word.length > 3 && levenshtein(r, word) <= 1)
+    )
+  ).length;
+  // Extra words may change the meaning ("not X"), so they leave the verdict
+  // to the model; a response padded with guesses gets no coverage credit
+  const padding = responseWords.size - expectedWords.length;
+  const coverage =
+    (covered / expectedWords.length) *
+    (padding <= 0 ? 1 : padding <= expectedWords.length ? 0.8 : 0);
+  return Math.max(editRatio, coverage);
+}
+
+function verdictFor(similarity: number): GradeVerdict {
+  if (similarity >= ACCEPT_SIMILARITY) return "correct";
+  if (similarity < REJECT_SIMILARITY) return "incorrect";
+  return "uncertain";
+}
+
+export function gradeShortAnswer(
+  response: string,
+  expected: string
+): LocalGrade {
+  const similarity = answerSimilarity(response, expected);
+  return { verdict: verdictFor(similarity), similarity };
+}
+
+// Code with comments dropped and whitespace collapsed, so formatting
+// differences don't count against the learner
+export function normalizeCode(code: string): string {
+  return code
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/(^|\s)(\/\/|#).*$/gm, "$1")
+    .replace(/'/g, '"')
+    .replace(/\s*([{}()[\];,=+\-*/<>:])\s*/g, "$1")
+    .replace(/\s+/g, " ")
+    .replace(/;(?=[}\s]|$)/g, "")
+    .trim();
+}
+
+export function gradeCodeAnswer(
+  response: string,
+  expected: string
+): LocalGrade {
+  const a = normalizeCode(response);
+  const b = normalizeCode(expected);
+  if (!a || !b) return { verdict: "incorrect", similarity: 0 };
+  if (a === b) return { verdict: "correct", similarity: 1 };
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  // Different code can be equally right, so only a model can accept it
+  return {
+    verdict: similarity < REJECT_SIMILARITY ? "incorrect" : "uncertain",
+    similarity,
+  };
+}
+
+/**
+ * Rubric criteria for a practical task: the question's own rubric, or the
+ * model answer split into its sentences / lines.
+ */
+export function rubricFor(
+  question: Pick<QuizQuestion, "rubric" | "answer">
+): string[] {
+  if (question.rubric?.length) return question.rubric;
+  return question.answer
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z])/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+}
+
+export function gradeRubric(met: boolean[]): {
+  correct: boolean;
+  ratio: number;
+} {
+  if (met.length === 0) return { correct: false, ratio: 0 };
+  const ratio = met.filter(Boolean).length / met.length;
+  return { correct: ratio >= RUBRIC_PASS_RATIO, ratio };
+}
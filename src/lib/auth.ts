@@ -1,11 +1,34 @@
 // Firebase dependencies removed. Consumers should migrate to Supabase-backed auth in authSupabase.ts
-import { supabase, isSupabaseConfigured } from "./supabaseClient";
-import type { Course } from "./types";
+import {
+  supabase,
+  isSupabaseConfigured,
+  type SupabaseDb,
+} from "./supabaseClient";
+import type {
+  Course,
+  QuizAttempt,
+  QuizQuestion,
+  SourceDocument,
+} from "./types";
+import { mergeLessonProgress } from "./progress";
+import {
+  qualityFromAnswer,
+  scheduleReview,
+  type ReviewSchedule,
+} from "./spaced-repetition";
+import type { ExamResult } from "./exam";
+import type { CourseLinkHealth } from "./link-health";
+import type { QuizPaper } from "@/data/quizPapers";
+
+// Instructors may unlock lessons regardless of prerequisites. Set as
+// `app_metadata.role` (only the service role can change app metadata).
+export type UserRole = "learner" | "instructor";
 
 export interface UserProfile {
   uid: string;
   email: string;
   displayName: string;
+  role: UserRole;
   createdAt: Date;
   lastLoginAt: Date;
 }
@@ -15,8 +38,38 @@ export interface LessonProgress {
   lessonId: string;
   completed: boolean;
   completedAt?: Date;
-  score?: number;
-  timeSpent?: number;
+  score?: number; // best quiz score, 0-100
+  timeSpent?: number; // active seconds on the lesson, summed across visits
+  attempts?: QuizAttempt[]; // quiz attempt history, oldest first
+  mastery?: Record<string, number>; // concept → latest mastery estimate, 0-1
+  testedOut?: boolean; // completed by passing the placement quiz
+}
+
+// Spaced-repetition state for one quiz question (see spaced-repetition.ts)
+export interface ReviewCard extends ReviewSchedule {
+  cardId: string; // reviewCardId(courseId, question)
+  courseId: string;
+  courseTitle?: string;
+  lessonId: string;
+  question: QuizQuestion; // snapshot, so reviews work without the course
+  attempts: number;
+  correctAttempts: number;
+}
+
+export type ReviewCardInput = Pick<
+  ReviewCard,
+  "cardId" | "courseId" | "courseTitle" | "lessonId" | "question"
+>;
+
+// One sitting of a timed exam; unsubmitted attempts still count
+export interface ExamAttemptRecord {
+  id: string;
+  examId: string;
+  startedAt: Date;
+  submittedAt?: Date;
+  score?: number; // 0-100
+  passed?: boolean;
+  result?: ExamResult;
 }
 
 export interface SavedCourse {
@@ -64,6 +117,7 @@ export const getUserProfile = async (
       uid: user.id,
       email: user.email || "",
       displayName: user.user_metadata?.display_name || "User",
+      role: user.app_metadata?.role === "instructor" ? "instructor" : "learner",
       createdAt: new Date(user.created_at),
       lastLoginAt: user.last_sign_in_at ? new Date(user.last_sign_in_at) : new Date(),
     };
@@ -80,25 +134,31 @@ export const getUserProfile = async (
  * Contract
  * - Input: uid, Course object (see types.ts)
  * - Output: course id (uuid) on success; returns a temporary id `tmp_<timestamp>` on failure
- * - Side effects: writes to `user_courses` table.
+ * - Side effects: writes to `user_courses` table. `course.source_document` is
+ *   left out of the `course` JSON; see `saveSourceDocument` in source-store.ts.
+ *   On the server, pass the session's client as `db` (see server-session.ts).
  */
 export const saveCourse = async (
   uid: string,
-  course: Course
+  course: Course,
+  db: SupabaseDb = supabase
 ): Promise<string> => {
   try {
     if (!isSupabaseConfigured) {
       console.warn("[auth.saveCourse] Supabase not configured; skipping insert");
       return `tmp_${Date.now()}`;
     }
+    const courseData = { ...course };
+    delete courseData.source_document;
+    delete courseData.source_ref;
     const payload = {
       user_id: uid,
-      course,
+      course: courseData,
       progress: [],
       saved_at: new Date().toISOString(),
       last_accessed_at: new Date().toISOString(),
     } as any;
-    const { data, error } = await supabase
+    const { data, error } = await db
       .from("user_courses")
       .insert(payload)
       .select("id")
@@ -112,6 +172,166 @@ export const saveCourse = async (
   }
 };
 
+type SourceRow = {
+  source_text: string | null;
+  source_page_offsets: number[] | null;
+  source_hash: string | null;
+  source_filename: string | null;
+  source_extracted_at: string | null;
+};
+
+/**
+ * Store the extracted source document on a saved course row.
+ *
+ * Contract
+ * - Input: uid, course id returned by `saveCourse`, SourceDocument
+ * - Output: true when the row was updated; false when Supabase is not
+ *   configured or the update failed (e.g. source columns not migrated yet).
+ * - Side effects: writes the `source_*` columns of `user_courses`.
+ */
+export const saveCourseSource = async (
+  uid: string,
+  courseId: string,
+  doc: SourceDocument,
+  db: SupabaseDb = supabase
+): Promise<boolean> => {
+  try {
+    if (!isSupabaseConfigured || courseId.startsWith("tmp_")) return false;
+    const { error } = await db
+      .from("user_courses")
+      .update({
+        source_text: doc.text,
+        source_page_offsets: doc.pageOffsets,
+        source_hash: doc.contentHash,
+        source_filename: doc.filename ?? null,
+        source_extracted_at: doc.extractedAt,
+      } as never)
+      .eq("id", courseId)
+      .eq("user_id", uid);
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.warn("[auth.saveCourseSource] Supabase update failed:", e);
+    return false;
+  }
+};
+
+/**
+ * Fetch the source document stored with a course, or null when none exists.
+ */
+export const getCourseSource = async (
+  uid: string,
+  courseId: string,
+  db: SupabaseDb = supabase
+): Promise<SourceDocument | null> => {
+  try {
+    if (!isSupabaseConfigured || courseId.startsWith("tmp_")) return null;
+    const { data, error } = await db
+      .from("user_courses")
+      .select(
+        "source_text, source_page_offsets, source_hash, source_filename, source_extracted_at"
+      )
+      .eq("id", courseId)
+      .eq("user_id", uid)
+      .single();
+    if (error) throw error;
+    const row = data as SourceRow | null;
+    if (!row?.source_text) return null;
+    const pageOffsets = row.source_page_offsets?.length
+      ? row.source_page_offsets
+      : [0];
+    return {
+      filename: row.source_filename || undefined,
+      text: row.source_text,
+      pageOffsets,
+      pageCount: pageOffsets.length,
+      contentHash: row.source_hash || "",
+      extractedAt: row.source_extracted_at || "",
+    };
+  } catch (e) {
+    console.warn("[auth.getCourseSource] Supabase select failed:", e);
+    return null;
+  }
+};
+
+/**
+ * Find the most recent course a user generated from identical source text.
+ */
+export const findCourseIdBySourceHash = async (
+  uid: string,
+  contentHash: string,
+  db: SupabaseDb = supabase
+): Promise<string | null> => {
+  try {
+    if (!isSupabaseConfigured) return null;
+    const { data, error } = await db
+      .from("user_courses")
+      .select("id")
+      .eq("user_id", uid)
+      .eq("source_hash", contentHash)
+      .order("saved_at", { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    return (data as { id: string }[] | null)?.[0]?.id ?? null;
+  } catch (e) {
+    console.warn("[auth.findCourseIdBySourceHash] Supabase select failed:", e);
+    return null;
+  }
+};
+
+/**
+ * A user's saved course by id, or null when it doesn't exist or isn't theirs.
+ */
+export const getSavedCourse = async (
+  uid: string,
+  courseId: string,
+  db: SupabaseDb = supabase
+): Promise<Course | null> => {
+  try {
+    if (!isSupabaseConfigured || courseId.startsWith("tmp_")) return null;
+    const { data, error } = await db
+      .from("user_courses")
+      .select("course")
+      .eq("id", courseId)
+      .eq("user_id", uid)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as { course: Course } | null)?.course ?? null;
+  } catch (e) {
+    console.warn("[auth.getSavedCourse] Supabase select failed:", e);
+    return null;
+  }
+};
+
+/**
+ * Link health reports for a user's courses, keyed by course id (written by
+ * the link sweeper, see `src/lib/link-health.ts`). Courses never swept, or a
+ * missing `course_link_health` table, just have no entry.
+ */
+export const getCourseLinkHealth = async (
+  uid: string
+): Promise<Record<string, CourseLinkHealth>> => {
+  try {
+    if (!isSupabaseConfigured) return {};
+    const { data, error } = await supabase
+      .from("course_link_health")
+      .select("course_id, report")
+      .eq("user_id", uid);
+    if (error) throw error;
+    const reports: Record<string, CourseLinkHealth> = {};
+    for (const row of (data || []) as {
+      course_id: string;
+      report: CourseLinkHealth;
+    }[]) {
+      reports[row.course_id] = row.report;
+    }
+    return reports;
+  } catch (e) {
+    console.warn("[auth.getCourseLinkHealth] Supabase select failed:", e);
+    return {};
+  }
+};
+
 /**
  * List a user's saved courses sorted by saved_at DESC.
  * Returns simplified rows with proper Date objects for timestamps.
@@ -153,6 +373,8 @@ export const getUserCourses = async (
  * Behavior
  * - Reads current `progress` array
  * - Upserts the target lesson's progress, setting `completedAt` when completed
+ * - Appends `attempts` and adds `timeSpent` rather than overwriting them
+ *   (see mergeLessonProgress)
  * - Updates `last_accessed_at`
  */
 export const updateLessonProgress = async (
@@ -176,17 +398,11 @@ export const updateLessonProgress = async (
 
     const current: LessonProgress[] = (row?.progress as LessonProgress[]) || [];
     const idx = current.findIndex((p) => p.lessonId === lessonId);
-    const base: LessonProgress = {
+    const updated = mergeLessonProgress(current[idx], {
+      ...progress,
       courseId,
       lessonId,
-      completed: false,
-    };
-    const updated: LessonProgress = {
-      ...base,
-      ...current[idx],
-      ...progress,
-      completedAt: progress.completed ? new Date() : current[idx]?.completedAt,
-    } as LessonProgress;
+    });
 
     if (idx >= 0) {
       current[idx] = updated;
@@ -239,6 +455,359 @@ export const getCourseProgress = async (
   }
 };
 
+type ReviewCardRow = {
+  card_id: string;
+  course_id: string;
+  course_title: string | null;
+  lesson_id: string;
+  question: QuizQuestion;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  attempts: number;
+  correct_attempts: number;
+};
+
+const toReviewCard = (row: ReviewCardRow): ReviewCard => ({
+  cardId: row.card_id,
+  courseId: row.course_id,
+  courseTitle: row.course_title || undefined,
+  lessonId: row.lesson_id,
+  question: row.question,
+  easeFactor: row.ease_factor,
+  intervalDays: row.interval_days,
+  repetitions: row.repetitions,
+  lapses: row.lapses,
+  dueAt: new Date(row.due_at),
+  lastReviewedAt: row.last_reviewed_at
+    ? new Date(row.last_reviewed_at)
+    : undefined,
+  attempts: row.attempts,
+  correctAttempts: row.correct_attempts,
+});
+
+/**
+ * Record an answer to a quiz question and reschedule its review card.
+ *
+ * Contract
+ * - Input: uid, the card (created on first answer), whether the answer was
+ *   correct and optionally how long it took
+ * - Output: the updated ReviewCard, or null when Supabase is not configured
+ *   or the write failed
+ * - Side effects: upserts a row in `review_cards`
+ */
+export const recordReviewAttempt = async (
+  uid: string,
+  card: ReviewCardInput,
+  correct: boolean,
+  elapsedMs?: number
+): Promise<ReviewCard | null> => {
+  try {
+    if (!isSupabaseConfigured) return null;
+    const { data: existing, error: fetchError } = await supabase
+      .from("review_cards")
+      .select("*")
+      .eq("user_id", uid)
+      .eq("card_id", card.cardId)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    const previous = existing ? toReviewCard(existing as ReviewCardRow) : null;
+    const schedule = scheduleReview(
+      previous ?? undefined,
+      qualityFromAnswer(correct, elapsedMs)
+    );
+    const updated: ReviewCard = {
+      ...card,
+      ...schedule,
+      attempts: (previous?.attempts || 0) + 1,
+      correctAttempts: (previous?.correctAttempts || 0) + (correct ? 1 : 0),
+    };
+
+    const { error } = await supabase.from("review_cards").upsert(
+      {
+        user_id: uid,
+        card_id: updated.cardId,
+        course_id: updated.courseId,
+        course_title: updated.courseTitle ?? null,
+        lesson_id: updated.lessonId,
+        question: updated.question,
+        ease_factor: updated.easeFactor,
+        interval_days: updated.intervalDays,
+        repetitions: updated.repetitions,
+        lapses: updated.lapses,
+        due_at: updated.dueAt.toISOString(),
+        last_reviewed_at: updated.lastReviewedAt?.toISOString() ?? null,
+        attempts: updated.attempts,
+        correct_attempts: updated.correctAttempts,
+      } as never,
+      { onConflict: "user_id,card_id" }
+    );
+    if (error) throw error;
+    return updated;
+  } catch (e) {
+    console.warn("[auth.recordReviewAttempt] Supabase upsert failed:", e);
+    return null;
+  }
+};
+
+/**
+ * Review cards due at `now`, most overdue first.
+ */
+export const getDueReviewCards = async (
+  uid: string,
+  now: Date = new Date(),
+  limit = 50
+): Promise<ReviewCard[]> => {
+  try {
+    if (!isSupabaseConfigured) return [];
+    const { data, error } = await supabase
+      .from("review_cards")
+      .select("*")
+      .eq("user_id", uid)
+      .lte("due_at", now.toISOString())
+      .order("due_at", { ascending: true })
+      .limit(limit);
+    if (error) throw error;
+    return ((data as ReviewCardRow[] | null) || []).map(toReviewCard);
+  } catch (e) {
+    console.warn("[auth.getDueReviewCards] Supabase select failed:", e);
+    return [];
+  }
+};
+
+type ExamAttemptRow = {
+  id: string;
+  exam_id: string;
+  started_at: string;
+  submitted_at: string | null;
+  score: number | null;
+  passed: boolean | null;
+  result: ExamResult | null;
+};
+
+const toExamAttempt = (row: ExamAttemptRow): ExamAttemptRecord => ({
+  id: row.id,
+  examId: row.exam_id,
+  startedAt: new Date(row.started_at),
+  submittedAt: row.submitted_at ? new Date(row.submitted_at) : undefined,
+  score: row.score ?? undefined,
+  passed: row.passed ?? undefined,
+  result: row.result ?? undefined,
+});
+
+/**
+ * Start an attempt at a timed exam.
+ *
+ * Contract
+ * - Input: uid and the exam (quiz paper) id
+ * - Output: the new attempt, or null when no attempts are left, Supabase is
+ *   not configured or the insert failed
+ * - Side effects: inserts a row in `exam_attempts`; the table's trigger looks
+ *   up the exam's limit in `exam_limits` and rejects the row once it's used up
+ */
+export const startExamAttempt = async (
+  uid: string,
+  examId: string
+): Promise<ExamAttemptRecord | null> => {
+  try {
+    if (!isSupabaseConfigured) return null;
+    const { data, error } = await supabase
+      .from("exam_attempts")
+      .insert({
+        user_id: uid,
+        exam_id: examId,
+        started_at: new Date().toISOString(),
+      } as never)
+      .select("*")
+      .single();
+    if (error) throw error;
+    return toExamAttempt(data as ExamAttemptRow);
+  } catch (e) {
+    console.warn("[auth.startExamAttempt] Supabase insert failed:", e);
+    return null;
+  }
+};
+
+/**
+ * Store the result of a submitted exam attempt.
+ *
+ * Contract
+ * - Input: uid, the attempt id and the result graded on the server; `db` is
+ *   the service-role client (supabaseAdmin.ts), since learners can't update
+ *   their own attempts
+ * - Output: true when the attempt was stored; false when it was already
+ *   submitted, isn't the user's or the update failed
+ */
+export const submitExamAttempt = async (
+  uid: string,
+  attemptId: string,
+  result: ExamResult,
+  db: SupabaseDb
+): Promise<boolean> => {
+  try {
+    const { data, error } = await db
+      .from("exam_attempts")
+      .update({
+        submitted_at: result.completedAt,
+        score: result.score,
+        passed: result.passed,
+        result,
+      } as never)
+      .eq("id", attemptId)
+      .eq("user_id", uid)
+      .is("submitted_at", null)
+      .select("id");
+    if (error) throw error;
+    return (data || []).length > 0;
+  } catch (e) {
+    console.warn("[auth.submitExamAttempt] Supabase update failed:", e);
+    return false;
+  }
+};
+
+/**
+ * One of a learner's exam attempts, or null when there's no such attempt.
+ */
+export const getExamAttempt = async (
+  uid: string,
+  attemptId: string,
+  db: SupabaseDb = supabase
+): Promise<ExamAttemptRecord | null> => {
+  try {
+    if (!isSupabaseConfigured) return null;
+    const { data, error } = await db
+      .from("exam_attempts")
+      .select("*")
+      .eq("id", attemptId)
+      .eq("user_id", uid)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? toExamAttempt(data as ExamAttemptRow) : null;
+  } catch (e) {
+    console.warn("[auth.getExamAttempt] Supabase select failed:", e);
+    return null;
+  }
+};
+
+/**
+ * A learner's attempts at an exam, oldest first.
+ */
+export const getExamAttempts = async (
+  uid: string,
+  examId: string
+): Promise<ExamAttemptRecord[]> => {
+  try {
+    if (!isSupabaseConfigured) return [];
+    const { data, error } = await supabase
+      .from("exam_attempts")
+      .select("*")
+      .eq("user_id", uid)
+      .eq("exam_id", examId)
+      .order("started_at", { ascending: true });
+    if (error) throw error;
+    return ((data as ExamAttemptRow[] | null) || []).map(toExamAttempt);
+  } catch (e) {
+    console.warn("[auth.getExamAttempts] Supabase select failed:", e);
+    return [];
+  }
+};
+
+type QuestionBankRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  questions: QuizPaper["questions"];
+};
+
+/**
+ * Store an imported question bank for a user.
+ *
+ * Contract
+ * - Input: uid, the parsed bank and the format it was imported from; `db`
+ *   is the session's client on the server (see server-session.ts)
+ * - Output: the new bank's id, or null when Supabase is not configured or
+ *   the insert failed
+ * - Side effects: inserts a row in `question_banks`
+ */
+export const saveQuestionBank = async (
+  uid: string,
+  paper: QuizPaper,
+  format: string,
+  db: SupabaseDb = supabase
+): Promise<string | null> => {
+  try {
+    if (!isSupabaseConfigured) return null;
+    const { data, error } = await db
+      .from("question_banks")
+      .insert({
+        user_id: uid,
+        title: paper.title,
+        description: paper.description ?? null,
+        format,
+        questions: paper.questions,
+        created_at: new Date().toISOString(),
+      } as never)
+      .select("id")
+      .single();
+    if (error) throw error;
+    return (data as { id: string }).id;
+  } catch (e) {
+    console.warn("[auth.saveQuestionBank] Supabase insert failed:", e);
+    return null;
+  }
+};
+
+/**
+ * A user's imported question banks, oldest first.
+ */
+export const getQuestionBanks = async (
+  uid: string,
+  db: SupabaseDb = supabase
+): Promise<QuizPaper[]> => {
+  try {
+    if (!isSupabaseConfigured) return [];
+    const { data, error } = await db
+      .from("question_banks")
+      .select("id,title,description,questions")
+      .eq("user_id", uid)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+    return ((data as QuestionBankRow[] | null) || []).map((row) => ({
+      id: row.id,
+      title: row.title,
+      description: row.description ?? undefined,
+      questions: row.questions || [],
+    }));
+  } catch (e) {
+    console.warn("[auth.getQuestionBanks] Supabase select failed:", e);
+    return [];
+  }
+};
+
+export const deleteQuestionBank = async (
+  uid: string,
+  bankId: string,
+  db: SupabaseDb = supabase
+): Promise<boolean> => {
+  try {
+    if (!isSupabaseConfigured) return false;
+    const { error } = await db
+      .from("question_banks")
+      .delete()
+      .eq("id", bankId)
+      .eq("user_id", uid);
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.warn("[auth.deleteQuestionBank] Supabase delete failed:", e);
+    return false;
+  }
+};
+
 /**
  * Mark a course as completed
  * 
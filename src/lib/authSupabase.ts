@@ -102,6 +102,17 @@ export async function getCurrentUser(): Promise<AppUser | null> {
   };
 }
 
+/**
+ * Access token of the current session, for server actions that act as the
+ * signed-in user (see `getServerSession` in server-session.ts). Null when
+ * signed out.
+ */
+export async function getAccessToken(): Promise<string | null> {
+  if (!supabase || !supabase.auth) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
 /**
  * Start OAuth sign-in flow (redirect) for supported providers.
  * Returns provider data; throws on error.
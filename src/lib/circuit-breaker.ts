@@ -0,0 +1,90 @@
+/**
+ * Per-key circuit breakers (one per AI provider).
+ *
+ * - closed: calls go through; consecutive failures are counted
+ * - open: after `failureThreshold` consecutive failures, calls are skipped
+ *   until `cooldownMs` has passed
+ * - half-open: after the cooldown one trial call is let through; success
+ *   closes the circuit, failure opens it again
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number;
+  cooldownMs: number;
+  now?: () => number;
+};
+
+type Circuit = {
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+};
+
+export type CircuitBreakers = ReturnType<typeof createCircuitBreakers>;
+
+export function createCircuitBreakers(opts: CircuitBreakerOptions) {
+  const now = opts.now || Date.now;
+  const circuits = new Map<string, Circuit>();
+
+  const get = (key: string): Circuit => {
+    let circuit = circuits.get(key);
+    if (!circuit) {
+      circuit = { failures: 0, trialInFlight: false };
+      circuits.set(key, circuit);
+    }
+    return circuit;
+  };
+
+  const state = (key: string): CircuitState => {
+    const circuit = get(key);
+    if (circuit.openedAt === undefined) return "closed";
+    return now() - circuit.openedAt >= opts.cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+
+    /** Whether a call may be attempted now; claims the half-open trial. */
+    tryAcquire(key: string): boolean {
+      const current = state(key);
+      if (current === "closed") return true;
+      if (current === "open") return false;
+      const circuit = get(key);
+      if (circuit.trialInFlight) return false;
+      circuit.trialInFlight = true;
+      return true;
+    },
+
+    recordSuccess(key: string): void {
+      circuits.set(key, { failures: 0, trialInFlight: false });
+    },
+
+    recordFailure(key: string): void {
+      const circuit = get(key);
+      circuit.failures++;
+      circuit.trialInFlight = false;
+      if (
+        circuit.openedAt !== undefined ||
+        circuit.failures >= opts.failureThreshold
+      ) {
+        circuit.openedAt = now();
+      }
+    },
+
+    /** Give up a claimed trial without an outcome (e.g. the caller cancelled). */
+    release(key: string): void {
+      get(key).trialInFlight = false;
+    },
+
+    snapshot(): Record<string, { state: CircuitState; failures: number }> {
+      return Object.fromEntries(
+        Array.from(circuits.entries()).map(([key, circuit]) => [
+          key,
+          { state: state(key), failures: circuit.failures },
+        ])
+      );
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import type { CourseAnalysis } from "./types";
+
+type Module = CourseAnalysis["modules"][number];
+type Lesson = Module["lessons"][number];
+
+export type SectionDraft = {
+  sectionTitle?: string;
+  draft: CourseAnalysis;
+};
+
+const MAX_LESSONS_PER_MODULE = 5;
+const MAX_KEY_POINTS = 6;
+const MAX_QUIZ_QUESTIONS = 5;
+const DUPLICATE_THRESHOLD = 0.8;
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/^(module|lesson|chapter|part)\s*\d+[:.)-]?\s*/, "")
+      .match(/[\p{L}\p{N}]+/gu) || []
+  );
+}
+
+// Jaccard similarity of lesson title words
+export function titleSimilarity(a: string, b: string): number {
+  const ta = titleTokens(a);
+  const tb = titleTokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return shared / (ta.size + tb.size - shared);
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item).trim().toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+// Fold a duplicate lesson into the one already kept
+function mergeLesson(kept: Lesson, dup: Lesson): Lesson {
+  return {
+    ...kept,
+    key_points: uniqueBy(
+      [...(kept.key_points || []), ...(dup.key_points || [])],
+      (p) => p
+    ).slice(0, MAX_KEY_POINTS),
+    quiz: uniqueBy(
+      [...(kept.quiz || []), ...(dup.quiz || [])],
+      (q) => q.question
+    ).slice(0, MAX_QUIZ_QUESTIONS),
+    time_estimate_minutes:
+      Math.max(
+        kept.time_estimate_minutes || 0,
+        dup.time_estimate_minutes || 0
+      ) || undefined,
+  };
+}
+
+/**
+ * Reduce step of map-reduce generation: one module per section draft.
+ *
+ * - Module title comes from the section heading, else the draft's first module.
+ * - Lessons whose titles nearly match a lesson already kept (anywhere in the
+ *   course) are merged into it instead of repeated.
+ * - A section with more than MAX_LESSONS_PER_MODULE lessons spills into
+ *   further modules ("… (part 2)") rather than losing lessons.
+ * - Sections that end up without lessons are dropped.
+ */
+export function mergeCourseDrafts(
+  drafts: SectionDraft[],
+  courseTitle?: string
+): CourseAnalysis {
+  const kept: Lesson[] = [];
+  const modules: Module[] = [];
+
+  for (const { sectionTitle, draft } of drafts) {
+    const draftModules = draft.modules || [];
+    const lessons: Lesson[] = [];
+
+    for (const lesson of draftModules.flatMap((m) => m.lessons || [])) {
+      const dupIdx = kept.findIndex(
+        (k) =>
+          titleSimilarity(k.lesson_title, lesson.lesson_title) >=
+          DUPLICATE_THRESHOLD
+      );
+      if (dupIdx >= 0) {
+        const merged = mergeLesson(kept[dupIdx], lesson);
+        // Update the kept lesson wherever it already lives
+        for (const m of modules) {
+          m.lessons = m.lessons.map((l) => (l === kept[dupIdx] ? merged : l));
+        }
+        const localIdx = lessons.indexOf(kept[dupIdx]);
+        if (localIdx >= 0) lessons[localIdx] = merged;
+        kept[dupIdx] = merged;
+        continue;
+      }
+      lessons.push(lesson);
+      kept.push(lesson);
+    }
+
+    if (lessons.length === 0) continue;
+    const moduleTitle =
+      sectionTitle ||
+      draftModules[0]?.module_title ||
+      `Module ${modules.length + 1}`;
+    for (let i = 0; i < lessons.length; i += MAX_LESSONS_PER_MODULE) {
+      const part = i / MAX_LESSONS_PER_MODULE + 1;
+      modules.push({
+        module_title:
+          part === 1 ? moduleTitle : `${moduleTitle} (part ${part})`,
+        lessons: lessons.slice(i, i + MAX_LESSONS_PER_MODULE),
+      });
+    }
+  }
+
+  return {
+    course_title:
+      courseTitle ||
+      drafts.find((d) => d.draft.course_title)?.draft.course_title ||
+      "Untitled Course",
+    modules,
+  };
+}
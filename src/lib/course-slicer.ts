@@ -1,3 +1,8 @@
+import {
+  buildPrerequisiteGraph,
+  lessonLockState,
+  lessonsToRetake,
+} from "./prerequisites";
 import type { Lesson, StoredCourse, StudySession } from "./types";
 
 /**
@@ -7,12 +12,16 @@ import type { Lesson, StoredCourse, StudySession } from "./types";
  * - Inputs: a StoredCourse (with `course.sessions[].lessons[]`) and desired minutes.
  * - Output: a StudySession or null when all lessons are completed.
  * - Ordering: respects original module ordering; never pulls lessons from before the first uncompleted lesson's module.
+ * - Prerequisites: skips lessons locked by the prerequisite graph (see prerequisites.ts); a lesson
+ *   whose prerequisites come earlier in the same session is included, and LessonView shows it
+ *   locked until they're met.
  * - Time estimate: uses `lesson.timeEstimateMinutes` or a default of 5 minutes per lesson.
  *
  * Error modes / edge cases
  * - If no uncompleted lessons exist => returns null.
  * - If duration < first lesson estimate => returns first uncompleted lesson only.
- * - Ignores lessons considered "completed" in StoredCourse.progress map.
+ * - Ignores lessons marked "completed" or "tested_out" in StoredCourse.progress map, except
+ *   completed lessons whose quiz must still be passed to unlock a later lesson.
  */
 const DEFAULT_LESSON_TIME = 5; // minutes
 
@@ -21,6 +30,8 @@ export function sliceSession(
   durationMinutes: number
 ): StudySession | null {
   const { course, progress } = storedCourse;
+  const graph = buildPrerequisiteGraph(course);
+  const retake = lessonsToRetake(course, graph, storedCourse);
 
   console.log("[sliceSession] Input:", {
     courseSessions: course.sessions.length,
@@ -32,10 +43,10 @@ export function sliceSession(
     durationMinutes,
   });
 
-  // Flatten lessons and filter out completed ones.
+  // Flatten lessons and filter out completed and tested-out ones.
   const allLessons = course.sessions.flatMap((s) => s.lessons);
   const uncompletedLessons = allLessons.filter(
-    (lesson) => !progress[lesson.id]
+    (lesson) => !progress[lesson.id] || retake.has(lesson.id)
   );
 
   console.log("[sliceSession] Uncompleted lessons:", uncompletedLessons.length);
@@ -54,6 +65,7 @@ export function sliceSession(
 
   let cumulativeTime = 0;
   const sessionLessons: Lesson[] = [];
+  const planned = new Set<string>();
 
   for (const lesson of uncompletedLessons) {
     // Keep module ordering: only include lessons from the current or later modules.
@@ -61,12 +73,16 @@ export function sliceSession(
       s.lessons.some((l) => l.id === lesson.id)
     );
     if (lessonOriginalSessionIndex < sessionIndex) continue;
+    if (lessonLockState(graph, lesson.id, storedCourse, planned).locked) {
+      continue;
+    }
 
     const lessonTime = lesson.timeEstimateMinutes || DEFAULT_LESSON_TIME;
 
     // Always include the first lesson, even if it exceeds duration, to avoid empty sessions.
     if (sessionLessons.length === 0) {
       sessionLessons.push(lesson);
+      planned.add(lesson.id);
       cumulativeTime += lessonTime;
       continue;
     }
@@ -74,6 +90,7 @@ export function sliceSession(
     if (cumulativeTime + lessonTime <= durationMinutes) {
       cumulativeTime += lessonTime;
       sessionLessons.push(lesson);
+      planned.add(lesson.id);
     } else {
       break;
     }
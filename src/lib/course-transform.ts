@@ -1,8 +1,11 @@
+import { normalizeQuestionType } from "./answer-grading";
 import type { Course, CourseAnalysis } from "./types";
+import { parseVideoTimestamps } from "./video-segments";
 
 // Transform AI analysis output into the UI `Course` shape.
 // - Flattens and sums time estimates for `total_estimated_time`.
-// - Normalizes resource categories and quiz items.
+// - Normalizes resource categories and quiz items (keeping the question type).
+// - Parses video `timestamps` into a segment and chapters (see video-segments.ts).
 // - Generates stable IDs based on indexes.
 export function transformAnalysisToCourse(analysis: CourseAnalysis): Course {
   const allLessons = (analysis.modules || []).flatMap((m) => m.lessons || []);
@@ -22,6 +25,7 @@ export function transformAnalysisToCourse(analysis: CourseAnalysis): Course {
         const resources = [
           ...(lesson.resources?.youtube || []).map((r) => ({
             ...r,
+            ...parseVideoTimestamps(r.timestamps),
             type: "video" as const,
           })),
           ...(lesson.resources?.articles || []).map((r) => ({
@@ -43,9 +47,16 @@ export function transformAnalysisToCourse(analysis: CourseAnalysis): Course {
           resources: resources,
           quiz: (lesson.quiz || []).map((q) => ({
             question: q.question,
+            type: normalizeQuestionType(q.type),
             options: q.options,
             answer: q.answer,
             explanation: q.explanation,
+            rubric: q.rubric,
+            language: q.language,
+            difficulty: q.difficulty || "medium",
+            conceptsTested: q.conceptsTested?.length
+              ? q.conceptsTested
+              : [lesson.lesson_title],
           })),
           timeEstimateMinutes: lesson.time_estimate_minutes,
         };
@@ -5,7 +5,12 @@ const DEEPSEEK_MODEL = process.env.DEEPSEEK_MODEL || "deepseek-chat";
 
 export async function* deepseekGenerateStream(
   prompt: string,
-  opts: { system?: string; timeout?: number } = {}
+  opts: {
+    system?: string;
+    timeout?: number;
+    model?: string;
+    signal?: AbortSignal;
+  } = {}
 ) {
   if (!DEEPSEEK_API_KEY) {
     throw new Error(
@@ -29,13 +34,15 @@ export async function* deepseekGenerateStream(
       Authorization: `Bearer ${DEEPSEEK_API_KEY}`,
     },
     body: JSON.stringify({
-      model: DEEPSEEK_MODEL,
+      model: opts.model || DEEPSEEK_MODEL,
       messages,
       stream: true,
       temperature: 0.7,
       max_tokens: 8192,
     }),
-    signal: ctrl.signal,
+    signal: opts.signal
+      ? AbortSignal.any([ctrl.signal, opts.signal])
+      : ctrl.signal,
   });
   clearTimeout(id);
 
@@ -76,7 +83,12 @@ export async function* deepseekGenerateStream(
 
 export async function deepseekGenerate(
   prompt: string,
-  opts: { system?: string; timeout?: number } = {}
+  opts: {
+    system?: string;
+    timeout?: number;
+    model?: string;
+    signal?: AbortSignal;
+  } = {}
 ): Promise<string> {
   let result = "";
   for await (const chunk of deepseekGenerateStream(prompt, opts)) {
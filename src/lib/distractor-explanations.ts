@@ -0,0 +1,83 @@
+import { normalizeAnswer } from "./answer-grading";
+import type { Lesson, QuizQuestion } from "./types";
+
+/**
+ * "Why is my choice wrong?" rationales for multiple-choice distractors.
+ *
+ * One call explains every wrong option of a question, grounded on the
+ * lesson's key points and summary. The server shares the result across
+ * learners (rationale-cache.ts), and the browser also keeps it on the
+ * question (`distractorRationales`) so the stored course doesn't ask again.
+ */
+
+// Lesson text sent for grounding; summaries past this are cut
+export const MAX_GROUNDING_CHARS = 4000;
+
+export type DistractorQuestion = Pick<
+  QuizQuestion,
+  "question" | "options" | "answer" | "explanation"
+>;
+
+export type DistractorLesson = Pick<
+  Lesson,
+  "lesson_title" | "key_points" | "content_summary"
+>;
+
+export function wrongOptions(question: DistractorQuestion): string[] {
+  const answer = normalizeAnswer(question.answer);
+  return (question.options || []).filter((o) => normalizeAnswer(o) !== answer);
+}
+
+export function buildDistractorPrompt(
+  question: DistractorQuestion,
+  lesson: DistractorLesson
+): { system: string; prompt: string } {
+  const keyPoints = (lesson.key_points || []).map((p) => `- ${p}`).join("\n");
+  let summary = (lesson.content_summary || "").trim();
+  if (summary.length > MAX_GROUNDING_CHARS) {
+    summary = `${summary.slice(0, MAX_GROUNDING_CHARS).trimEnd()}…`;
+  }
+  // Key points are often the summary itself; don't send them twice
+  if (summary === (lesson.key_points || []).join("\n").trim()) summary = "";
+
+  const system =
+    "You are a patient tutor explaining quiz mistakes. Use only the lesson material provided. Output ONLY valid JSON.";
+  const prompt = `A learner picked a wrong option in a multiple-choice question. For EACH wrong option below, explain in one or two sentences why it is wrong, pointing to what the lesson says. Don't just restate the correct answer.
+
+Output ONLY a JSON object: { "rationales": [{ "option": "<wrong option, copied exactly>", "why": "..." }] }
+
+Question: ${question.question}
+Correct answer: ${question.answer}${question.explanation ? `\nWhy it's correct: ${question.explanation}` : ""}
+
+Wrong options:
+${wrongOptions(question)
+  .map((o) => `- ${o}`)
+  .join("\n")}
+
+LESSON: ${lesson.lesson_title}
+Key points:
+${keyPoints || "(none)"}${summary ? `\n\nLesson summary:\n${summary}` : ""}`;
+  return { system, prompt };
+}
+
+/**
+ * Key the model's rationales by the options they explain. Options are
+ * matched ignoring case and punctuation; when the model echoed none of them
+ * but returned one rationale per option, order is used.
+ */
+export function matchRationales(
+  options: string[],
+  rationales: { option: string; why: string }[]
+): Record<string, string> {
+  const usable = rationales.filter((r) => r.why.trim());
+  const matched: Record<string, string> = {};
+  for (const option of options) {
+    const key = normalizeAnswer(option);
+    const found = usable.find((r) => normalizeAnswer(r.option) === key);
+    if (found) matched[option] = found.why.trim();
+  }
+  if (Object.keys(matched).length === 0 && usable.length === options.length) {
+    options.forEach((option, i) => (matched[option] = usable[i].why.trim()));
+  }
+  return matched;
+}
@@ -0,0 +1,202 @@
+import {
+  answerSimilarity,
+  FALLBACK_ACCEPT_SIMILARITY,
+  gradeCodeAnswer,
+  questionTypeOf,
+} from "./answer-grading";
+import type { QuizPaper } from "@/data/quizPapers";
+import type {
+  ExamSettings,
+  QuizAnswerRecord,
+  QuizAttempt,
+  QuizQuestion,
+} from "./types";
+
+/**
+ * Timed exams for quiz papers.
+ *
+ * An exam shows no answers until it is submitted, either by the learner or
+ * automatically when the time limit runs out. Grading is deterministic so a
+ * submit can't stall on (or be gamed through) the gradeAnswer flow: free-text
+ * answers are accepted at the fallback similarity QuizCard uses offline.
+ * Signed-in learners' attempts are graded again on the server against the
+ * paper (`submitExam` in src/app/exam-actions.ts), which is what's stored.
+ * Each start counts as an attempt, so reloading mid-exam doesn't reset it.
+ */
+
+export const DEFAULT_PASSING_SCORE = 70;
+// Section for questions the paper doesn't assign to one
+export const GENERAL_SECTION = "General";
+
+export type ExamSectionResult = {
+  section: string;
+  correct: number;
+  total: number;
+  score: number; // 0-100
+};
+
+// A submitted exam: a quiz attempt plus the per-section breakdown
+export type ExamResult = QuizAttempt & {
+  sections: ExamSectionResult[];
+  answered: number;
+  flagged: number; // still flagged for review at submit
+  timedOut: boolean;
+};
+
+export function examDeadline(
+  startedAt: Date,
+  settings: Pick<ExamSettings, "timeLimit">
+): Date | null {
+  if (!settings.timeLimit) return null;
+  return new Date(startedAt.getTime() + settings.timeLimit * 60_000);
+}
+
+export function remainingSeconds(deadline: Date, now: Date = new Date()) {
+  return Math.max(0, Math.ceil((deadline.getTime() - now.getTime()) / 1000));
+}
+
+// "m:ss", or "h:mm:ss" from an hour up
+export function formatCountdown(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// Attempts left, or null when the exam allows unlimited attempts
+export function attemptsRemaining(
+  settings: Pick<ExamSettings, "attemptsAllowed">,
+  used: number
+): number | null {
+  if (!settings.attemptsAllowed) return null;
+  return Math.max(0, settings.attemptsAllowed - used);
+}
+
+export function isExamAnswerCorrect(
+  question: QuizQuestion,
+  response: string | null
+): boolean {
+  if (!response?.trim()) return false;
+  switch (questionTypeOf(question)) {
+    case "MCQ":
+      return (
+        response.trim().toLowerCase() === question.answer.trim().toLowerCase()
+      );
+    case "Code": {
+      const grade = gradeCodeAnswer(response, question.answer);
+      return (
+        grade.verdict === "correct" ||
+        (grade.verdict === "uncertain" &&
+          grade.similarity >= FALLBACK_ACCEPT_SIMILARITY)
+      );
+    }
+    default:
+      return (
+        answerSimilarity(response, question.answer) >=
+        FALLBACK_ACCEPT_SIMILARITY
+      );
+  }
+}
+
+/**
+ * Grade a submitted exam. `responses` and `elapsedMs` are indexed like
+ * `questions`; a null or blank response counts as unanswered (and wrong).
+ */
+export function scoreExam(
+  questions: QuizQuestion[],
+  responses: (string | null)[],
+  options: {
+    settings: Pick<ExamSettings, "passingScore">;
+    startedAt: Date;
+    completedAt: Date;
+    elapsedMs?: number[];
+    flagged?: number;
+    timedOut?: boolean;
+  }
+): ExamResult {
+  const answers: QuizAnswerRecord[] = questions.map((question, i) => {
+    const response = responses[i]?.trim() ? responses[i] : null;
+    return {
+      question: question.question,
+      selected: response,
+      correct: isExamAnswerCorrect(question, response),
+      elapsedMs: options.elapsedMs?.[i] ?? 0,
+      difficulty: question.difficulty,
+      concepts: question.conceptsTested,
+    };
+  });
+
+  const bySection = new Map<string, ExamSectionResult>();
+  questions.forEach((question, i) => {
+    const section = question.section?.trim() || GENERAL_SECTION;
+    const entry = bySection.get(section) || {
+      section,
+      correct: 0,
+      total: 0,
+      score: 0,
+    };
+    entry.total += 1;
+    if (answers[i].correct) entry.correct += 1;
+    bySection.set(section, entry);
+  });
+  const sections = [...bySection.values()].map((s) => ({
+    ...s,
+    score: Math.round((s.correct / s.total) * 100),
+  }));
+
+  const total = questions.length;
+  const correct = answers.filter((a) => a.correct).length;
+  const score = total > 0 ? Math.round((correct / total) * 100) : 0;
+  return {
+    startedAt: options.startedAt.toISOString(),
+    completedAt: options.completedAt.toISOString(),
+    answers,
+    correct,
+    total,
+    score,
+    passed: total > 0 && score >= options.settings.passingScore,
+    elapsedMs: options.completedAt.getTime() - options.startedAt.getTime(),
+    sections,
+    answered: answers.filter((a) => a.selected !== null).length,
+    flagged: options.flagged ?? 0,
+    timedOut: options.timedOut ?? false,
+  };
+}
+
+// A quiz paper's questions as played in the exam, in paper order
+export function paperQuizQuestions(paper: QuizPaper): QuizQuestion[] {
+  return paper.questions.map((q) => ({
+    question: q.questionText,
+    type: q.type ?? (q.options?.length ? "MCQ" : "Short"),
+    options: q.options ?? [],
+    answer: q.answerText,
+    explanation: q.explanation ?? "Correct answer from paper.",
+    section: q.section,
+  }));
+}
+
+export function paperExamSettings(paper: QuizPaper): ExamSettings {
+  return {
+    examId: paper.id,
+    passingScore: paper.passingScore ?? DEFAULT_PASSING_SCORE,
+    timeLimit: paper.timeLimit,
+    attemptsAllowed: paper.attemptsAllowed,
+  };
+}
+
+/**
+ * The `exam_limits` seed for the papers with an attempt limit, as printed in
+ * docs/DB_SCHEMA.md. The database enforces limits from that table, so it
+ * must be re-run whenever a paper's `attemptsAllowed` changes.
+ */
+export function examLimitsSeedSql(papers: QuizPaper[]): string {
+  const rows = papers
+    .filter((paper) => paper.attemptsAllowed)
+    .map(
+      (paper) =>
+        `  ('${paper.id.replace(/'/g, "''")}', ${paper.attemptsAllowed})`
+    );
+  return `insert into public.exam_limits (exam_id, attempts_allowed) values
+${rows.join(",\n")}
+on conflict (exam_id) do update set attempts_allowed = excluded.attempts_allowed;`;
+}
@@ -0,0 +1,264 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { hashText } from "./source-document";
+import { supabaseAdmin } from "./supabaseAdmin";
+import type { SupabaseDb } from "./supabaseClient";
+import type { Course, CourseAnalysis } from "./types";
+
+/**
+ * Cache of generated courses, so uploading the same document again skips
+ * the analysis and video enrichment.
+ *
+ * Entries are keyed by the normalised source text, the requested duration,
+ * the provider/model the analysis is routed to and GENERATION_PROMPT_VERSION.
+ * The backend is chosen with `GENERATION_CACHE`:
+ * - memory (default): in-process LRU of GENERATION_CACHE_MAX_ENTRIES
+ * - file: JSON files under GENERATION_CACHE_DIR (default `.data/generation-cache`)
+ * - supabase: the `generation_cache` table (see docs/DB_SCHEMA.md), through
+ *   the service-role client so browsers can't plant entries
+ * - off: no caching
+ *
+ * Entries older than GENERATION_CACHE_TTL_HOURS (default a week) are misses.
+ * Cache failures are logged and treated as misses; they never fail a
+ * generation.
+ */
+
+// Bump whenever the course prompts or post-processing change in a way that
+// should invalidate previously generated courses.
+export const GENERATION_PROMPT_VERSION = "course-v3";
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export type CachedGeneration = {
+  course: Course;
+  analysis: CourseAnalysis;
+  audit?: string[]; // audit recommendations, added once the audit finishes
+  createdAt: string;
+  promptVersion: string;
+  provider: string;
+  model?: string;
+};
+
+export type GenerationCacheBackend = {
+  name: string;
+  get(key: string): Promise<CachedGeneration | null>;
+  set(key: string, entry: CachedGeneration): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+export type GenerationCacheKeyParts = {
+  text: string;
+  duration?: string;
+  provider: string;
+  model?: string;
+  pdfVideoIds?: string[];
+};
+
+/**
+ * Text as it matters for generation: Unicode-normalised, with line endings,
+ * runs of spaces and blank lines collapsed, so re-extracting the same
+ * document yields the same hash.
+ */
+export function normalizeSourceText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export async function generationCacheKey(
+  parts: GenerationCacheKeyParts
+): Promise<string> {
+  return hashText(
+    JSON.stringify([
+      GENERATION_PROMPT_VERSION,
+      await hashText(normalizeSourceText(parts.text)),
+      parts.duration || "",
+      parts.provider,
+      parts.model || "",
+      [...(parts.pdfVideoIds || [])].sort(),
+    ])
+  );
+}
+
+export function createMemoryCache(
+  opts: { maxEntries?: number } = {}
+): GenerationCacheBackend {
+  const maxEntries = Math.max(1, opts.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  // Map iteration order doubles as recency order (oldest first)
+  const entries = new Map<string, CachedGeneration>();
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      entries.set(key, entry);
+      return structuredClone(entry);
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, structuredClone(entry));
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createFileCache(opts: { dir: string }): GenerationCacheBackend {
+  const file = (key: string) =>
+    path.join(opts.dir, `${key.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+  return {
+    name: "file",
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(file(key), "utf8"));
+      } catch {
+        return null;
+      }
+    },
+    async set(key, entry) {
+      await fs.mkdir(opts.dir, { recursive: true });
+      await fs.writeFile(file(key), JSON.stringify(entry), "utf8");
+    },
+    async delete(key) {
+      await fs.rm(file(key), { force: true });
+    },
+  };
+}
+
+export function createSupabaseCache(opts: {
+  db: SupabaseDb;
+  table?: string;
+}): GenerationCacheBackend {
+  const { db } = opts;
+  const table = opts.table || "generation_cache";
+  return {
+    name: "supabase",
+    async get(key) {
+      const { data, error } = await db
+        .from(table)
+        .select("entry")
+        .eq("key", key)
+        .maybeSingle();
+      if (error) throw error;
+      return (data?.entry as CachedGeneration) || null;
+    },
+    async set(key, entry) {
+      const { error } = await db
+        .from(table)
+        .upsert({ key, entry, created_at: entry.createdAt });
+      if (error) throw error;
+    },
+    async delete(key) {
+      const { error } = await db.from(table).delete().eq("key", key);
+      if (error) throw error;
+    },
+  };
+}
+
+let configured: { setting: string; backend: GenerationCacheBackend | null };
+
+/**
+ * The backend selected by `GENERATION_CACHE`, or null when caching is off.
+ */
+export function getGenerationCache(): GenerationCacheBackend | null {
+  const setting = (process.env.GENERATION_CACHE || "memory")
+    .trim()
+    .toLowerCase();
+  if (configured?.setting === setting) return configured.backend;
+
+  let backend: GenerationCacheBackend | null = null;
+  if (setting === "file") {
+    backend = createFileCache({
+      dir:
+        process.env.GENERATION_CACHE_DIR ||
+        path.join(process.cwd(), ".data", "generation-cache"),
+    });
+  } else if (setting === "supabase") {
+    if (supabaseAdmin) {
+      backend = createSupabaseCache({ db: supabaseAdmin });
+    } else {
+      console.warn(
+        "⚠️ GENERATION_CACHE=supabase needs SUPABASE_SERVICE_ROLE_KEY"
+      );
+    }
+  } else if (setting !== "off") {
+    backend = createMemoryCache({
+      maxEntries:
+        Number(process.env.GENERATION_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES,
+    });
+  }
+  configured = { setting, backend };
+  return backend;
+}
+
+function isFresh(entry: CachedGeneration): boolean {
+  const ttlHours =
+    Number(process.env.GENERATION_CACHE_TTL_HOURS) || DEFAULT_TTL_HOURS;
+  const age = Date.now() - new Date(entry.createdAt).getTime();
+  return (
+    entry.promptVersion === GENERATION_PROMPT_VERSION &&
+    age >= 0 &&
+    age < ttlHours * 3_600_000
+  );
+}
+
+/**
+ * A fresh cached generation for `key`, or null on a miss.
+ */
+export async function readCachedGeneration(
+  key: string
+): Promise<CachedGeneration | null> {
+  const cache = getGenerationCache();
+  if (!cache) return null;
+  try {
+    const entry = await cache.get(key);
+    if (!entry) return null;
+    if (isFresh(entry)) return entry;
+    await cache.delete(key);
+  } catch (e) {
+    console.warn(
+      `⚠️ [GenerationCache] ${cache.name} read failed:`,
+      (e as Error)?.message
+    );
+  }
+  return null;
+}
+
+export async function writeCachedGeneration(
+  key: string,
+  entry: CachedGeneration
+): Promise<void> {
+  const cache = getGenerationCache();
+  if (!cache) return;
+  try {
+    await cache.set(key, entry);
+  } catch (e) {
+    console.warn(
+      `⚠️ [GenerationCache] ${cache.name} write failed:`,
+      (e as Error)?.message
+    );
+  }
+}
+
+/**
+ * Attach the audit recommendations to an existing entry, so cache hits can
+ * return them without re-running the audit.
+ */
+export async function saveCachedAudit(
+  key: string,
+  recommendations: string[]
+): Promise<void> {
+  const entry = await readCachedGeneration(key);
+  if (entry)
+    await writeCachedGeneration(key, { ...entry, audit: recommendations });
+}
@@ -5,7 +5,12 @@ const GITHUB_TOKEN = process.env.GITHUB_TOKEN || process.env.GH_TOKEN || "";
 
 export async function* githubModelsChatStream(
   prompt: string,
-  opts: { system?: string; timeout?: number; model?: string } = {}
+  opts: {
+    system?: string;
+    timeout?: number;
+    model?: string;
+    signal?: AbortSignal;
+  } = {}
 ) {
   if (!GITHUB_TOKEN) throw new Error("Missing GITHUB_TOKEN in environment.");
 
@@ -30,7 +35,9 @@ export async function* githubModelsChatStream(
       temperature: 0.7,
       max_tokens: 8192,
     }),
-    signal: ctrl.signal,
+    signal: opts.signal
+      ? AbortSignal.any([ctrl.signal, opts.signal])
+      : ctrl.signal,
   });
   clearTimeout(id);
 
@@ -69,7 +76,12 @@ export async function* githubModelsChatStream(
 
 export async function githubModelsGenerate(
   prompt: string,
-  opts: { system?: string; timeout?: number; model?: string } = {}
+  opts: {
+    system?: string;
+    timeout?: number;
+    model?: string;
+    signal?: AbortSignal;
+  } = {}
 ): Promise<string> {
   let result = "";
   for await (const chunk of githubModelsChatStream(prompt, opts))
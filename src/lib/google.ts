@@ -3,7 +3,12 @@ const GOOGLE_MODEL = "gemini-1.5-flash-latest";
 
 export async function* googleGenerateStream(
   prompt: string,
-  opts: { system?: string; timeout?: number } = {}
+  opts: {
+    system?: string;
+    timeout?: number;
+    model?: string;
+    signal?: AbortSignal;
+  } = {}
 ) {
   if (!GOOGLE_GENAI_API_KEY) {
     throw new Error(
@@ -28,7 +33,7 @@ export async function* googleGenerateStream(
     parts: [{ text: fullPrompt }],
   });
 
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${GOOGLE_MODEL}:streamGenerateContent?key=${GOOGLE_GENAI_API_KEY}`;
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${opts.model || GOOGLE_MODEL}:streamGenerateContent?key=${GOOGLE_GENAI_API_KEY}`;
 
   const res = await fetch(url, {
     method: "POST",
@@ -42,7 +47,9 @@ export async function* googleGenerateStream(
         maxOutputTokens: 8192,
       },
     }),
-    signal: ctrl.signal,
+    signal: opts.signal
+      ? AbortSignal.any([ctrl.signal, opts.signal])
+      : ctrl.signal,
   });
 
   clearTimeout(id);
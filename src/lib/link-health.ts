@@ -0,0 +1,410 @@
+import { supabaseAdmin } from "./supabaseAdmin";
+import type { SupabaseDb } from "./supabaseClient";
+import type { Course, Resource } from "./types";
+import {
+  replaceVideoInCourse,
+  type ReplacementCandidate,
+} from "./video-replacement-review";
+import { logVideoReplacement } from "./video-log";
+import { extractYouTubeId, isYouTubeUrl } from "./youtube";
+import {
+  processBatch,
+  repairYouTubeItem,
+  type RepairItem,
+  type RepairResult,
+} from "./youtube-repair";
+import {
+  searchYouTubeForTopic,
+  validateAndSelectBestVideo,
+} from "./youtube-search";
+
+/**
+ * Link-rot sweeper for saved courses.
+ *
+ * Walks every course in `user_courses` and checks its lesson resources:
+ * - YouTube videos go through the repair step of `/api/youtube-repair-batch`
+ *   (`repairYouTubeItem`). Deleted or private videos are replaced with the
+ *   best embeddable search result for their title, when there is one, and
+ *   the replacement is logged to `video_replacements`.
+ * - Other links get a HEAD request (GET when HEAD isn't allowed), retried
+ *   with exponential backoff on 429, 5xx and network errors.
+ *
+ * Each course gets a health report in `course_link_health`, shown on the
+ * dashboard. Courses checked within `freshHours` are skipped, so a capped
+ * run (`maxCourses`) picks up where the last one stopped. Runs from
+ * `npm run sweep:links` or the `/api/link-sweep` cron route.
+ */
+
+export type LinkStatus =
+  | "ok"
+  | "repaired" // a dead video was replaced
+  | "degraded" // reachable but restricted: not embeddable, login or paywall
+  | "broken" // gone, and nothing replaced it
+  | "unreachable"; // no answer after retries; may be temporary
+
+export type LinkCheck = {
+  lessonId: string;
+  lessonTitle: string;
+  title: string;
+  url: string;
+  status: LinkStatus;
+  reason: string; // validation reason or HTTP status
+  replacementUrl?: string;
+};
+
+export type CourseLinkHealth = {
+  checkedAt: string; // ISO timestamp
+  counts: Record<LinkStatus, number>;
+  issues: LinkCheck[]; // every link that isn't "ok"
+};
+
+export type ArticleCheck = {
+  status: Extract<LinkStatus, "ok" | "degraded" | "broken" | "unreachable">;
+  reason: string;
+};
+
+export type SweepDeps = {
+  checkVideo: (item: RepairItem) => Promise<RepairResult>;
+  checkArticle: (url: string) => Promise<ArticleCheck>;
+  findReplacement: (title: string) => Promise<ReplacementCandidate | null>;
+};
+
+export type SweepOptions = {
+  dryRun?: boolean; // report only; don't write courses or reports
+  maxCourses?: number; // courses to check this run
+  freshHours?: number; // skip courses checked more recently
+  onCourse?: (courseId: string, health: CourseLinkHealth) => void;
+};
+
+export type SweepSummary =
+  | {
+      ok: true;
+      checked: number;
+      skipped: number;
+      repaired: number;
+      broken: number;
+    }
+  | { ok: false; reason: "not_configured" | "error"; note?: string };
+
+// user_courses rows scanned per request
+const COURSE_PAGE_SIZE = 200;
+const DEFAULT_FRESH_HOURS = 24;
+
+const ARTICLE_RETRIES = 3;
+const ARTICLE_TIMEOUT_MS = 10_000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30_000;
+
+// Validation reasons for videos that can't be watched at all
+const DEAD_VIDEO_REASONS = new Set(["not_found", "private"]);
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function retryDelay(
+  response: Response | null,
+  attempt: number,
+  baseMs: number
+) {
+  const retryAfter = Number(response?.headers.get("retry-after"));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, BACKOFF_MAX_MS);
+  return Math.min(baseMs * 2 ** attempt, BACKOFF_MAX_MS);
+}
+
+/**
+ * Check that a link still resolves. HEAD first; servers that reject HEAD
+ * (400, 403, 405, 501 or a dropped connection) get a GET instead.
+ */
+export async function checkArticleUrl(
+  url: string,
+  opts: { retries?: number; backoffMs?: number; fetch?: typeof fetch } = {}
+): Promise<ArticleCheck> {
+  const request = opts.fetch || fetch;
+  const retries = opts.retries ?? ARTICLE_RETRIES;
+  const backoffMs = opts.backoffMs ?? BACKOFF_BASE_MS;
+  let method: "HEAD" | "GET" = "HEAD";
+  let lastReason = "unknown";
+
+  for (let attempt = 0; attempt <= retries; ) {
+    let response: Response | null = null;
+    try {
+      response = await request(url, {
+        method,
+        redirect: "follow",
+        signal: AbortSignal.timeout(ARTICLE_TIMEOUT_MS),
+      });
+      // Only the status matters
+      await response.body?.cancel().catch(() => {});
+    } catch (e) {
+      lastReason = e instanceof Error ? e.message : String(e);
+      if (method === "HEAD") {
+        method = "GET";
+        continue;
+      }
+    }
+
+    if (response) {
+      const status = response.status;
+      lastReason = String(status);
+      if (response.ok) return { status: "ok", reason: lastReason };
+      if (method === "HEAD" && [400, 403, 405, 501].includes(status)) {
+        method = "GET";
+        continue;
+      }
+      if (status === 404 || status === 410) {
+        return { status: "broken", reason: lastReason };
+      }
+      if (status !== 429 && status < 500) {
+        return { status: "degraded", reason: lastReason };
+      }
+    }
+
+    if (attempt === retries) break;
+    await sleep(retryDelay(response, attempt, backoffMs));
+    attempt++;
+  }
+  return { status: "unreachable", reason: lastReason };
+}
+
+// Best embeddable search result for a dead video's title
+async function findReplacementByTitle(
+  title: string
+): Promise<ReplacementCandidate | null> {
+  const results = await searchYouTubeForTopic(title, { maxResults: 3 });
+  const video = await validateAndSelectBestVideo(results);
+  return video
+    ? {
+        id: video.id,
+        title: video.title,
+        author: video.author,
+        watchUrl: video.watchUrl,
+      }
+    : null;
+}
+
+const defaultDeps: SweepDeps = {
+  checkVideo: (item) => repairYouTubeItem(item),
+  checkArticle: (url) => checkArticleUrl(url),
+  findReplacement: findReplacementByTitle,
+};
+
+function videoStatus(result: RepairResult): LinkStatus {
+  if (result.reason === "ok") return "ok";
+  if (DEAD_VIDEO_REASONS.has(result.reason)) return "broken";
+  if (result.reason === "validation_failed" || result.reason === "unknown") {
+    return "unreachable";
+  }
+  return "degraded";
+}
+
+/**
+ * Check every resource in a course and replace dead videos. Mutates
+ * `course`; `repaired` counts the videos replaced. Links shared by several
+ * lessons are checked once. A dry run only reports the replacement it would
+ * make, as `replacementUrl` on the broken link.
+ */
+export async function sweepCourse(
+  course: Course,
+  opts: { courseId?: string; dryRun?: boolean; deps?: Partial<SweepDeps> } = {}
+): Promise<{ health: CourseLinkHealth; repaired: number }> {
+  const deps = { ...defaultDeps, ...opts.deps };
+  const entries = course.sessions.flatMap((session) =>
+    session.lessons.flatMap((lesson) =>
+      (lesson.resources || []).map((resource) => ({ lesson, resource }))
+    )
+  );
+
+  type Verdict = Pick<LinkCheck, "status" | "reason">;
+  const verdicts = new Map<string, Promise<Verdict>>();
+  const check = async (resource: Resource): Promise<Verdict> => {
+    if (resource.type === "video" && isYouTubeUrl(resource.url)) {
+      const result = await deps.checkVideo({
+        url: resource.url,
+        title: resource.title,
+      });
+      return { status: videoStatus(result), reason: result.reason };
+    }
+    return deps.checkArticle(resource.url);
+  };
+
+  const results = await processBatch(
+    entries,
+    async ({ lesson, resource }): Promise<LinkCheck> => {
+      if (!verdicts.has(resource.url)) {
+        verdicts.set(resource.url, check(resource));
+      }
+      return {
+        lessonId: lesson.id,
+        lessonTitle: lesson.lesson_title,
+        title: resource.title,
+        url: resource.url,
+        ...(await verdicts.get(resource.url)!),
+      };
+    }
+  );
+
+  // Replace dead videos one at a time; replacing rewrites the whole course
+  const replacements = new Map<string, ReplacementCandidate | null>();
+  let repaired = 0;
+  for (const result of results) {
+    const originalId = extractYouTubeId(result.url);
+    if (result.status !== "broken" || !originalId) continue;
+    if (!replacements.has(originalId)) {
+      const replacement = await deps
+        .findReplacement(result.title)
+        .catch(() => null);
+      replacements.set(originalId, replacement);
+      if (replacement && !opts.dryRun) {
+        repaired += replaceVideoInCourse(course, originalId, replacement);
+        await logVideoReplacement({
+          originalUrl: result.url,
+          originalId,
+          reason: result.reason,
+          replacementId: replacement.id,
+          replacementTitle: replacement.title ?? null,
+          replacementAuthor: replacement.author ?? null,
+          replacementWatchUrl: replacement.watchUrl ?? null,
+          contextTitle: result.lessonTitle,
+          contextLessonId: result.lessonId,
+          contextCourseId: opts.courseId ?? null,
+          metadata: { source: "link-sweep" },
+        });
+      }
+    }
+    const replacement = replacements.get(originalId);
+    if (replacement) {
+      if (!opts.dryRun) result.status = "repaired";
+      result.replacementUrl =
+        replacement.watchUrl ||
+        `https://www.youtube.com/watch?v=${replacement.id}`;
+    }
+  }
+
+  const counts: Record<LinkStatus, number> = {
+    ok: 0,
+    repaired: 0,
+    degraded: 0,
+    broken: 0,
+    unreachable: 0,
+  };
+  for (const result of results) counts[result.status]++;
+  return {
+    health: {
+      checkedAt: new Date().toISOString(),
+      counts,
+      issues: results.filter((r) => r.status !== "ok"),
+    },
+    repaired,
+  };
+}
+
+// The course still links the dead videos when its update failed; keep the
+// replacement as a suggestion, like a dry run does
+function unrepair(health: CourseLinkHealth) {
+  for (const issue of health.issues) {
+    if (issue.status === "repaired") issue.status = "broken";
+  }
+  health.counts.broken += health.counts.repaired;
+  health.counts.repaired = 0;
+}
+
+// Ids of courses whose report is newer than `freshHours`
+async function recentlyCheckedCourses(db: SupabaseDb, freshHours: number) {
+  const since = new Date(Date.now() - freshHours * 3600_000).toISOString();
+  const { data, error } = await db
+    .from("course_link_health")
+    .select("course_id")
+    .gte("checked_at", since);
+  if (error) throw error;
+  return new Set(
+    ((data || []) as { course_id: string }[]).map((row) => row.course_id)
+  );
+}
+
+/**
+ * Sweep saved courses, writing repaired courses back and storing a report
+ * per course. Runs with the service-role client (supabaseAdmin.ts), since
+ * the courses belong to other users. When a repaired course can't be written
+ * back, its repairs are reported as broken links.
+ */
+export async function sweepSavedCourses(
+  opts: SweepOptions & { deps?: Partial<SweepDeps> } = {}
+): Promise<SweepSummary> {
+  const db = supabaseAdmin;
+  if (!db) return { ok: false, reason: "not_configured" };
+  const maxCourses = opts.maxCourses ?? Infinity;
+  const summary = { checked: 0, skipped: 0, repaired: 0, broken: 0 };
+
+  try {
+    const fresh = await recentlyCheckedCourses(
+      db,
+      opts.freshHours ?? DEFAULT_FRESH_HOURS
+    );
+    for (let from = 0; summary.checked < maxCourses; from += COURSE_PAGE_SIZE) {
+      const { data, error } = await db
+        .from("user_courses")
+        .select("id, user_id, course")
+        .order("id")
+        .range(from, from + COURSE_PAGE_SIZE - 1);
+      if (error) throw error;
+      const rows = (data || []) as {
+        id: string;
+        user_id: string;
+        course: Course | null;
+      }[];
+
+      for (const row of rows) {
+        if (summary.checked >= maxCourses) break;
+        if (!row.course?.sessions || fresh.has(row.id)) {
+          summary.skipped++;
+          continue;
+        }
+        const { health, repaired } = await sweepCourse(row.course, {
+          courseId: row.id,
+          dryRun: opts.dryRun,
+          deps: opts.deps,
+        });
+        let saved = repaired;
+        if (repaired > 0 && !opts.dryRun) {
+          const { error: updateError } = await db
+            .from("user_courses")
+            .update({ course: row.course } as never)
+            .eq("id", row.id);
+          if (updateError) {
+            console.warn(
+              `[linkSweep] Updating course ${row.id} failed:`,
+              updateError
+            );
+            unrepair(health);
+            saved = 0;
+          }
+        }
+        summary.checked++;
+        summary.repaired += saved;
+        summary.broken += health.counts.broken;
+        opts.onCourse?.(row.id, health);
+        if (opts.dryRun) continue;
+
+        const { error: reportError } = await db
+          .from("course_link_health")
+          .upsert({
+            course_id: row.id,
+            user_id: row.user_id,
+            checked_at: health.checkedAt,
+            report: health,
+          } as never);
+        if (reportError) {
+          console.warn(
+            `[linkSweep] Saving the report for ${row.id} failed:`,
+            reportError
+          );
+        }
+      }
+      if (rows.length < COURSE_PAGE_SIZE) break;
+    }
+    return { ok: true, ...summary };
+  } catch (e) {
+    console.warn("[linkSweep] Sweep failed:", e);
+    const note = e instanceof Error ? e.message : String(e);
+    return { ok: false, reason: "error", note };
+  }
+}
@@ -0,0 +1,36 @@
+const LOCAL_USER_KEY = "ai-course-crafter-local-user";
+
+/**
+ * A random id for this browser, so server actions can keep data for people
+ * without an account (or when Supabase isn't configured). Only this browser
+ * knows it, which is what keeps its data private. Null outside the browser
+ * or when localStorage is unavailable.
+ */
+export function getLocalUserId(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    let id = window.localStorage.getItem(LOCAL_USER_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      window.localStorage.setItem(LOCAL_USER_KEY, id);
+    }
+    return id;
+  } catch (error) {
+    console.error("Failed to read the local user id from localStorage", error);
+    return null;
+  }
+}
+
+const LOCAL_USER_ID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The store owner for a local user id sent by the browser, or null when it
+ * isn't one `getLocalUserId` could have made. Prefixed so it can never
+ * collide with a Supabase user id.
+ */
+export function localOwnerId(localUserId?: string | null): string | null {
+  return localUserId && LOCAL_USER_ID.test(localUserId)
+    ? `local-${localUserId.toLowerCase()}`
+    : null;
+}
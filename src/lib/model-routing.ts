@@ -0,0 +1,102 @@
+import { readFileSync } from "fs";
+import path from "path";
+
+/**
+ * Per-flow model selection.
+ *
+ * Configured as JSON in the `AI_MODELS` env var or in `models.json`
+ * (path overridable with `AI_MODELS_FILE`):
+ *
+ *   {
+ *     "default": { "github": "gpt-4o-mini" },
+ *     "flows": {
+ *       "detectMetadata": { "github": "gpt-4o-mini", "ollama": "llama3.2:3b" },
+ *       "analyzeDocument": { "github": "gpt-4o", "google": "gemini-1.5-pro" }
+ *     }
+ *   }
+ *
+ * Model names are provider-specific, so each entry maps provider → model.
+ * Anything not configured uses the provider's own env default
+ * (GH_MODELS_MODEL, OLLAMA_MODEL, ...).
+ */
+
+export type ProviderName = "github" | "google" | "deepseek" | "ollama" | "mock";
+
+export const PROVIDER_NAMES: ProviderName[] = [
+  "github",
+  "google",
+  "deepseek",
+  "ollama",
+  "mock",
+];
+
+type ProviderModels = Partial<Record<ProviderName, string>>;
+
+export type ModelConfig = {
+  default?: ProviderModels;
+  flows?: Record<string, ProviderModels>;
+};
+
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(name);
+}
+
+/**
+ * Parse a model config, ignoring unknown providers and non-string models.
+ */
+export function parseModelConfig(json: string): ModelConfig {
+  const raw = JSON.parse(json);
+  const clean = (entry: unknown): ProviderModels => {
+    const models: ProviderModels = {};
+    if (!entry || typeof entry !== "object") return models;
+    for (const [provider, model] of Object.entries(entry)) {
+      if (isProviderName(provider) && typeof model === "string" && model) {
+        models[provider] = model;
+      }
+    }
+    return models;
+  };
+  const flows: Record<string, ProviderModels> = {};
+  for (const [flow, entry] of Object.entries(raw?.flows || {})) {
+    flows[flow] = clean(entry);
+  }
+  return { default: clean(raw?.default), flows };
+}
+
+export function resolveModel(
+  config: ModelConfig,
+  provider: ProviderName,
+  flow?: string
+): string | undefined {
+  return (
+    (flow ? config.flows?.[flow]?.[provider] : undefined) ||
+    config.default?.[provider]
+  );
+}
+
+let cached: ModelConfig | undefined;
+
+/**
+ * Load the model config once per process. A missing or invalid config
+ * means every flow uses the provider defaults.
+ */
+export function loadModelConfig(): ModelConfig {
+  if (cached) return cached;
+  try {
+    if (process.env.AI_MODELS) {
+      cached = parseModelConfig(process.env.AI_MODELS);
+    } else {
+      const file = path.resolve(
+        process.cwd(),
+        process.env.AI_MODELS_FILE || "models.json"
+      );
+      cached = parseModelConfig(readFileSync(file, "utf8"));
+    }
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code !== "ENOENT") {
+      console.warn("⚠️ Ignoring invalid model config:", (e as Error)?.message);
+    }
+    cached = {};
+  }
+  return cached;
+}
@@ -1,9 +1,15 @@
 const OLLAMA_BASE_URL = process.env.OLLAMA_BASE_URL || "http://localhost:11434";
 const OLLAMA_MODEL = process.env.OLLAMA_MODEL || "llama3.1:8b";
+const OLLAMA_EMBED_MODEL = process.env.OLLAMA_EMBED_MODEL || OLLAMA_MODEL;
 
 export async function* ollamaGenerateStream(
   prompt: string,
-  opts: { system?: string; timeout?: number } = {}
+  opts: {
+    system?: string;
+    timeout?: number;
+    model?: string;
+    signal?: AbortSignal;
+  } = {}
 ) {
   const ctrl = new AbortController();
   const timeout = opts.timeout || 300_000; // 5 minutes default
@@ -13,12 +19,14 @@ export async function* ollamaGenerateStream(
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
-      model: OLLAMA_MODEL,
+      model: opts.model || OLLAMA_MODEL,
       prompt,
       system: opts.system,
       stream: true,
     }),
-    signal: ctrl.signal,
+    signal: opts.signal
+      ? AbortSignal.any([ctrl.signal, opts.signal])
+      : ctrl.signal,
   });
   clearTimeout(id);
 
@@ -54,7 +62,7 @@ export async function ollamaEmbed(text: string): Promise<number[]> {
   const res = await fetch(`${OLLAMA_BASE_URL}/api/embeddings`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ model: OLLAMA_MODEL, prompt: text }),
+    body: JSON.stringify({ model: OLLAMA_EMBED_MODEL, prompt: text }),
   });
   if (!res.ok) throw new Error(`Embeddings failed: ${res.status}`);
   const data = await res.json();
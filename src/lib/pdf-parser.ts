@@ -2,12 +2,46 @@
  * Safe wrapper for pdf-parse to avoid test file loading issues
  */
 
-export async function parsePdf(buffer: Buffer): Promise<{ text: string }> {
+type PdfTextItem = { str: string; transform: number[] };
+type PdfPage = {
+  pageIndex: number;
+  getTextContent: (opts: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }) => Promise<{ items: PdfTextItem[] }>;
+};
+
+export async function parsePdf(
+  buffer: Buffer
+): Promise<{ text: string; pageCount: number; pages: string[] }> {
   try {
     // Dynamic import to avoid build-time issues
     const pdfParse = (await import('pdf-parse')).default;
-    const data = await pdfParse(buffer);
-    return { text: data.text || '' };
+    const pages: string[] = [];
+
+    // Same text layout as pdf-parse's default renderer, but kept per page
+    const renderPage = async (pageData: PdfPage) => {
+      const content = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of content.items) {
+        text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      pages[pageData.pageIndex] = text;
+      return text;
+    };
+
+    const data = await pdfParse(buffer, {
+      pagerender: renderPage as unknown as (pageData: unknown) => string,
+    });
+    const pageCount = data.numpages || 0;
+    // Pages that failed to render are kept as empty strings so numbering holds
+    const allPages = Array.from({ length: pageCount }, (_, i) => pages[i] || '');
+    return { text: data.text || '', pageCount, pages: allPages };
   } catch (error) {
     console.error('PDF parsing error:', error);
     throw new Error('Failed to parse PDF file');
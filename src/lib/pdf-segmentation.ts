@@ -0,0 +1,296 @@
+/**
+ * Deterministic (non-AI) segmentation of extracted document text.
+ *
+ * Shared by the adaptive PDF structure analyzer and the map-reduce course
+ * generator for long documents.
+ */
+
+import type { ContentChunk, TableOfContentsEntry } from "@/lib/adaptive-types";
+
+export type RawChunk = Omit<ContentChunk, "semantics" | "learningMetadata">;
+
+/**
+ * Detect headings in text and create a synthetic TOC
+ */
+export function detectHeadingsAsTOC(text: string): TableOfContentsEntry[] {
+  const lines = text.split("\n");
+  const toc: TableOfContentsEntry[] = [];
+
+  // Simple heuristic: short lines (< 80 chars) in title case
+  lines.forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (
+      trimmed.length > 5 &&
+      trimmed.length < 80 &&
+      /^[A-Z]/.test(trimmed) && // Starts with capital
+      !/[.;,]$/.test(trimmed) && // Doesn't end with punctuation
+      /[A-Z].*[a-z]/.test(trimmed) // Has mixed case
+    ) {
+      // Estimate level by indentation or numbering
+      let level = 1;
+      if (/^\d+\.\d+/.test(trimmed)) level = 2;
+      if (/^\d+\.\d+\.\d+/.test(trimmed)) level = 3;
+
+      toc.push({
+        level,
+        title: trimmed,
+        pageNumber: Math.floor(idx / 40), // Rough estimate: 40 lines/page
+      });
+    }
+  });
+
+  return toc.slice(0, 50); // Limit to 50 entries
+}
+
+/**
+ * Segment text using TOC as guide
+ */
+export function segmentByTOC(
+  text: string,
+  toc: TableOfContentsEntry[]
+): RawChunk[] {
+  const chunks: RawChunk[] = [];
+  const lines = text.split("\n");
+
+  for (let i = 0; i < toc.length; i++) {
+    const entry = toc[i];
+    const nextEntry = toc[i + 1];
+
+    // Find text between this heading and next
+    const startIdx = lines.findIndex((line) =>
+      line.includes(entry.title.substring(0, 20))
+    );
+    const endIdx = nextEntry
+      ? lines.findIndex((line) =>
+          line.includes(nextEntry.title.substring(0, 20))
+        )
+      : lines.length;
+
+    if (startIdx >= 0 && endIdx > startIdx) {
+      const chunkText = lines.slice(startIdx, endIdx).join("\n");
+
+      // Skip very small chunks (< 100 chars)
+      if (chunkText.length < 100) continue;
+
+      chunks.push({
+        id: `chunk-${i}`,
+        sourcePages: [entry.pageNumber],
+        rawText: chunkText,
+        structure: {
+          heading: entry.title,
+          level: entry.level,
+          chunkType: inferChunkType(entry.title, chunkText),
+        },
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Segment text by semantic boundaries (paragraphs, sections)
+ */
+export function segmentBySemanticBoundaries(text: string): RawChunk[] {
+  const chunks: RawChunk[] = [];
+  const paragraphs = text.split(/\n\s*\n/); // Split by double newlines
+
+  const targetChunkSize = 2000; // ~2000 chars per chunk
+  let currentChunk = "";
+  let chunkIndex = 0;
+
+  for (const para of paragraphs) {
+    if (
+      currentChunk.length + para.length > targetChunkSize &&
+      currentChunk.length > 500
+    ) {
+      // Save current chunk
+      chunks.push({
+        id: `chunk-${chunkIndex++}`,
+        sourcePages: [Math.floor(chunkIndex / 2)], // Rough estimate
+        rawText: currentChunk,
+        structure: {
+          level: 2,
+          chunkType: inferChunkType("", currentChunk),
+        },
+      });
+      currentChunk = para;
+    } else {
+      currentChunk += "\n\n" + para;
+    }
+  }
+
+  // Add final chunk
+  if (currentChunk.length > 100) {
+    chunks.push({
+      id: `chunk-${chunkIndex}`,
+      sourcePages: [Math.floor(chunkIndex / 2)],
+      rawText: currentChunk,
+      structure: {
+        level: 2,
+        chunkType: inferChunkType("", currentChunk),
+      },
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Infer chunk type from title and content
+ */
+function inferChunkType(
+  title: string,
+  content: string
+): ContentChunk["structure"]["chunkType"] {
+  const lower = (title + " " + content.substring(0, 200)).toLowerCase();
+
+  if (
+    lower.includes("introduction") ||
+    lower.includes("overview") ||
+    lower.includes("getting started")
+  ) {
+    return "introduction";
+  }
+  if (
+    lower.includes("example") ||
+    lower.includes("case study") ||
+    lower.includes("demo")
+  ) {
+    return "example";
+  }
+  if (
+    lower.includes("exercise") ||
+    lower.includes("practice") ||
+    lower.includes("problem")
+  ) {
+    return "exercise";
+  }
+  if (lower.includes("definition") || lower.includes("terminology")) {
+    return "definition";
+  }
+  if (lower.includes("summary") || lower.includes("conclusion")) {
+    return "summary";
+  }
+  if (lower.includes("reference") || lower.includes("appendix")) {
+    return "reference";
+  }
+
+  return "theory"; // Default
+}
+
+export type DocumentSection = {
+  title?: string;
+  text: string; // condensed to at most `sectionChars`
+  fullText: string; // everything the section covers, before condensing
+  sourceChars: number; // length of the original text the section covers
+};
+
+/**
+ * Plan the sections of a long document for map-reduce generation.
+ *
+ * - Segments by detected headings when they cover most of the text,
+ *   otherwise by paragraph boundaries; oversized segments are re-split.
+ * - Groups adjacent segments into at most `maxSections` sections.
+ * - Condenses each section to `sectionChars` by keeping the heading and the
+ *   opening of every segment, so all parts of the document are represented.
+ */
+export function planSections(
+  text: string,
+  opts: { maxSections: number; sectionChars: number }
+): DocumentSection[] {
+  const toc = detectHeadingsAsTOC(text);
+  let segments = toc.length > 3 ? segmentByTOC(text, toc) : [];
+  const covered = segments.reduce((sum, c) => sum + c.rawText.length, 0);
+  if (covered < text.length * 0.6) segments = [];
+
+  segments = segments.flatMap((chunk) =>
+    chunk.rawText.length > opts.sectionChars
+      ? segmentBySemanticBoundaries(chunk.rawText).map((sub, idx) => ({
+          ...sub,
+          structure: {
+            ...sub.structure,
+            heading: idx === 0 ? chunk.structure.heading : undefined,
+          },
+        }))
+      : [chunk]
+  );
+  if (segments.length === 0) segments = segmentBySemanticBoundaries(text);
+  if (segments.length === 0) {
+    return [
+      {
+        text: text.slice(0, opts.sectionChars),
+        fullText: text,
+        sourceChars: text.length,
+      },
+    ];
+  }
+
+  const totalChars = segments.reduce((sum, c) => sum + c.rawText.length, 0);
+  const targetChars = Math.max(
+    opts.sectionChars,
+    Math.ceil(totalChars / opts.maxSections)
+  );
+
+  const groups: RawChunk[][] = [];
+  let current: RawChunk[] = [];
+  let currentChars = 0;
+  for (const segment of segments) {
+    if (
+      current.length > 0 &&
+      currentChars + segment.rawText.length > targetChars &&
+      groups.length < opts.maxSections - 1
+    ) {
+      groups.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(segment);
+    currentChars += segment.rawText.length;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group) => ({
+    title: group.find((c) => c.structure.heading)?.structure.heading,
+    text: condenseSegments(group, opts.sectionChars),
+    fullText: group.map((c) => c.rawText.trim()).join("\n\n"),
+    sourceChars: group.reduce((sum, c) => sum + c.rawText.length, 0),
+  }));
+}
+
+/**
+ * Split text into consecutive pieces of at most `maxChars`, preferring
+ * paragraph, then line, then sentence boundaries. Nothing is dropped.
+ */
+export function splitText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const cut = [/\n\s*\n/g, /\n/g, /[.!?]\s/g]
+      .map((re) => Math.max(...[...window.matchAll(re)].map((m) => m.index!)))
+      .find((i) => i > maxChars / 2);
+    const end = cut !== undefined ? cut + 1 : maxChars;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+function condenseSegments(segments: RawChunk[], budget: number): string {
+  const full = segments.map((c) => c.rawText.trim()).join("\n\n");
+  if (full.length <= budget) return full;
+
+  const share = Math.floor(budget / segments.length);
+  return segments
+    .map((c) => {
+      const body = c.rawText.trim().slice(0, share);
+      const heading = c.structure.heading;
+      return heading && !body.startsWith(heading)
+        ? `${heading}\n${body}`
+        : body;
+    })
+    .join("\n\n")
+    .slice(0, budget);
+}
@@ -0,0 +1,194 @@
+import { questionTypeOf } from "./answer-grading";
+import type { Quiz } from "./adaptive-types";
+import { isExamAnswerCorrect } from "./exam";
+import type {
+  Course,
+  LessonProgressStatus,
+  QuestionDifficulty,
+  QuizQuestion,
+} from "./types";
+
+/**
+ * Diagnostic placement quiz, taken before a course starts.
+ *
+ * The diagnostic asks up to two questions from each lesson's quiz, hardest
+ * first since they are the best evidence, and always leaves at least one for
+ * the lesson's graded quiz. Once placement is taken the asked questions are
+ * removed from the graded quizzes (`withoutDiagnosticQuestions`), so a
+ * learner who doesn't test out isn't graded on answers they've already seen.
+ * A lesson is tested out only when
+ * every question asked about it is answered correctly; "I don't know" counts
+ * as a miss, so nobody has to guess. Practical questions are self-assessed
+ * and never asked. Grading is local, like exams (see exam.ts).
+ *
+ * Tested-out lessons are stored as "tested_out" in StoredCourse.progress,
+ * which sliceSession skips like completed ones.
+ */
+
+export const DIAGNOSTIC_QUESTIONS_PER_LESSON = 2;
+// Per-lesson score needed to test out, in percent
+export const TEST_OUT_SCORE = 100;
+
+const DIFFICULTY_RANK: Record<QuestionDifficulty, number> = {
+  hard: 0,
+  medium: 1,
+  easy: 2,
+};
+
+export type DiagnosticQuestion = QuizQuestion & { lessonId: string };
+
+export type DiagnosticQuiz = Omit<Quiz, "questions"> & {
+  questions: DiagnosticQuestion[];
+};
+
+export type DiagnosticLessonResult = {
+  lessonId: string;
+  lessonTitle: string;
+  correct: number;
+  total: number;
+  testedOut: boolean;
+};
+
+export type DiagnosticResult = {
+  lessons: DiagnosticLessonResult[]; // lessons the diagnostic asked about
+  testedOut: string[]; // lesson ids, in course order
+  correct: number;
+  total: number;
+  score: number; // 0-100
+};
+
+/**
+ * Build the diagnostic for a course. Lessons with fewer than two
+ * auto-gradable questions are left out, so they can't be tested out. Exams
+ * get no diagnostic: they're graded against the full paper.
+ */
+export function buildDiagnosticQuiz(
+  course: Course,
+  perLesson: number = DIAGNOSTIC_QUESTIONS_PER_LESSON
+): DiagnosticQuiz {
+  const sessions = course.exam ? [] : course.sessions;
+  const questions = sessions.flatMap((session) =>
+    session.lessons.flatMap((lesson) => {
+      const gradable = (lesson.quiz || []).filter(
+        (q) => questionTypeOf(q) !== "Practical"
+      );
+      return (
+        gradable
+          .map((q, index) => ({ q, index }))
+          // Array.sort is stable, so equal difficulties keep quiz order
+          .sort(
+            (a, b) =>
+              DIFFICULTY_RANK[a.q.difficulty || "medium"] -
+              DIFFICULTY_RANK[b.q.difficulty || "medium"]
+          )
+          // One question stays for the graded quiz
+          .slice(0, Math.min(perLesson, gradable.length - 1))
+          .sort((a, b) => a.index - b.index)
+          .map(({ q }) => ({ ...q, lessonId: lesson.id }))
+      );
+    })
+  );
+
+  return {
+    id: "diagnostic",
+    title: `${course.course_title}: placement quiz`,
+    questions,
+    passingScore: TEST_OUT_SCORE,
+  };
+}
+
+/**
+ * Grade a diagnostic. `responses` is indexed like `quiz.questions`; null or
+ * blank means the learner didn't know.
+ *
+ * If every lesson in the course would be tested out, the last one is kept so
+ * there is still a session to finish the course with.
+ */
+export function scoreDiagnostic(
+  course: Course,
+  quiz: DiagnosticQuiz,
+  responses: (string | null)[]
+): DiagnosticResult {
+  const lessons: DiagnosticLessonResult[] = [];
+  quiz.questions.forEach((question, i) => {
+    let lesson = lessons.find((l) => l.lessonId === question.lessonId);
+    if (!lesson) {
+      lesson = {
+        lessonId: question.lessonId,
+        lessonTitle:
+          course.sessions
+            .flatMap((s) => s.lessons)
+            .find((l) => l.id === question.lessonId)?.lesson_title || "",
+        correct: 0,
+        total: 0,
+        testedOut: false,
+      };
+      lessons.push(lesson);
+    }
+    lesson.total++;
+    if (isExamAnswerCorrect(question, responses[i] ?? null)) lesson.correct++;
+  });
+
+  lessons.forEach((lesson) => {
+    lesson.testedOut =
+      (lesson.correct / lesson.total) * 100 >= quiz.passingScore;
+  });
+
+  const lessonCount = course.sessions.reduce(
+    (acc, s) => acc + s.lessons.length,
+    0
+  );
+  const testedOut = lessons.filter((l) => l.testedOut);
+  if (testedOut.length > 0 && testedOut.length === lessonCount) {
+    testedOut[testedOut.length - 1].testedOut = false;
+    testedOut.pop();
+  }
+
+  const correct = lessons.reduce((acc, l) => acc + l.correct, 0);
+  const total = quiz.questions.length;
+  return {
+    lessons,
+    testedOut: testedOut.map((l) => l.lessonId),
+    correct,
+    total,
+    score: total > 0 ? Math.round((correct / total) * 100) : 0,
+  };
+}
+
+/**
+ * The course with the diagnostic's questions removed from the lesson quizzes
+ * they were taken from. Questions are matched by their text.
+ */
+export function withoutDiagnosticQuestions(
+  course: Course,
+  quiz: DiagnosticQuiz
+): Course {
+  const asked = new Set(
+    quiz.questions.map((q) => `${q.lessonId}\n${q.question}`)
+  );
+  return {
+    ...course,
+    sessions: course.sessions.map((session) => ({
+      ...session,
+      lessons: session.lessons.map((lesson) =>
+        lesson.quiz
+          ? {
+              ...lesson,
+              quiz: lesson.quiz.filter(
+                (q) => !asked.has(`${lesson.id}\n${q.question}`)
+              ),
+            }
+          : lesson
+      ),
+    })),
+  };
+}
+
+// Starting progress for a course after placement
+export function placementProgress(
+  result: Pick<DiagnosticResult, "testedOut">
+): Record<string, LessonProgressStatus> {
+  return Object.fromEntries(
+    result.testedOut.map((lessonId) => [lessonId, "tested_out" as const])
+  );
+}
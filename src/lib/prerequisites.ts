@@ -0,0 +1,218 @@
+import { legacyLessonId } from "./adaptive-types";
+import type { Course, Lesson, StoredCourse } from "./types";
+
+/**
+ * Prerequisite graph for adaptive courses.
+ *
+ * Edges come from the adaptive course the lessons were generated from:
+ * - `AdaptiveLesson.enablesUnlocking`: the listed lessons require this one.
+ * - `AdaptiveModule.prerequisites`: entries naming another module require
+ *   all of its lessons (concept names are ignored).
+ * - `CoursePhase.gatekeeper`: lessons in later phases require all lessons
+ *   of the gatekeeper phase.
+ *
+ * A prerequisite is met when it was tested out, or, when its quiz has a
+ * `passingScore`, once the best recorded score reaches it; otherwise when
+ * it's completed. Only edges pointing back in course order are kept, so the
+ * graph can't have cycles and the first unfinished lesson is never locked.
+ * Lessons the instructor unlocked (`StoredCourse.unlockOverrides`) ignore
+ * their prerequisites; only accounts with the instructor role
+ * (`UserProfile.role`) get the unlock controls. Courses without an adaptive
+ * source have no locks.
+ */
+
+export type PrerequisiteReason = "lesson" | "module" | "phase";
+
+export type Prerequisite = {
+  lessonId: string;
+  reason: PrerequisiteReason;
+  passingScore?: number; // set when the prerequisite's quiz must be passed
+};
+
+export type PrerequisiteGraph = {
+  requires: Record<string, Prerequisite[]>; // lesson id → lessons needed first
+  passingScores: Record<string, number>; // lesson id → quiz pass mark, 0-100
+};
+
+// The parts of a stored course that decide whether a lesson is unlocked
+export type GateProgress = Pick<
+  StoredCourse,
+  "progress" | "quizScores" | "unlockOverrides"
+>;
+
+export type LockState = {
+  locked: boolean;
+  overridden: boolean; // unlocked by the instructor despite missing prerequisites
+  missing: Prerequisite[]; // unmet prerequisites, in course order
+};
+
+const UNLOCKED: LockState = { locked: false, overridden: false, missing: [] };
+
+export function buildPrerequisiteGraph(course: Course): PrerequisiteGraph {
+  const graph: PrerequisiteGraph = { requires: {}, passingScores: {} };
+  const adaptive = course.adaptive_course;
+  if (!adaptive) return graph;
+
+  const lessons = course.sessions.flatMap((s) => s.lessons);
+  const order = new Map(lessons.map((lesson, index) => [lesson.id, index]));
+  const playable = new Map(lessons.map((lesson) => [lesson.id, lesson]));
+
+  // Adaptive ids → the legacy ids lessons are played and tracked under
+  const lessonIds = new Map<string, string>();
+  const moduleLessons = new Map<string, string[]>();
+  adaptive.modules.forEach((module, mIndex) => {
+    const ids: string[] = [];
+    module.lessons.forEach((lesson, lIndex) => {
+      const id = legacyLessonId(mIndex, lIndex);
+      if (!playable.has(id)) return;
+      lessonIds.set(lesson.id, id);
+      ids.push(id);
+      // Quiz validation may have removed every question; nothing to pass then
+      const passingScore = lesson.quiz?.passingScore;
+      if (passingScore !== undefined && playable.get(id)!.quiz?.length) {
+        graph.passingScores[id] = passingScore;
+      }
+    });
+    moduleLessons.set(module.id, ids);
+  });
+
+  const addEdge = (
+    lessonId: string,
+    prerequisiteId: string,
+    reason: PrerequisiteReason
+  ) => {
+    const at = order.get(lessonId);
+    const before = order.get(prerequisiteId);
+    if (at === undefined || before === undefined || before >= at) return;
+    const list = (graph.requires[lessonId] ||= []);
+    if (!list.some((p) => p.lessonId === prerequisiteId)) {
+      const passingScore = graph.passingScores[prerequisiteId];
+      list.push(
+        passingScore === undefined
+          ? { lessonId: prerequisiteId, reason }
+          : { lessonId: prerequisiteId, reason, passingScore }
+      );
+    }
+  };
+
+  adaptive.modules.forEach((module) => {
+    for (const lesson of module.lessons) {
+      const from = lessonIds.get(lesson.id);
+      if (!from) continue;
+      for (const unlocked of lesson.enablesUnlocking || []) {
+        const to = lessonIds.get(unlocked);
+        if (to) addEdge(to, from, "lesson");
+      }
+    }
+    for (const required of module.prerequisites || []) {
+      const requiredLessons = moduleLessons.get(required);
+      if (!requiredLessons || required === module.id) continue;
+      for (const lessonId of moduleLessons.get(module.id) || []) {
+        requiredLessons.forEach((id) => addEdge(lessonId, id, "module"));
+      }
+    }
+  });
+
+  const phases = adaptive.courseOverview?.roadmap?.phases || [];
+  const phaseLessons = phases.map((phase) =>
+    phase.moduleIds.flatMap((id) => moduleLessons.get(id) || [])
+  );
+  phases.forEach((phase, pIndex) => {
+    if (!phase.gatekeeper) return;
+    for (const later of phaseLessons.slice(pIndex + 1).flat()) {
+      phaseLessons[pIndex].forEach((id) => addEdge(later, id, "phase"));
+    }
+  });
+
+  for (const list of Object.values(graph.requires)) {
+    list.sort((a, b) => order.get(a.lessonId)! - order.get(b.lessonId)!);
+  }
+  return graph;
+}
+
+export function isPrerequisiteMet(
+  graph: PrerequisiteGraph,
+  lessonId: string,
+  state: GateProgress
+): boolean {
+  const status = state.progress[lessonId];
+  if (status === "tested_out") return true;
+  const passingScore = graph.passingScores[lessonId];
+  if (passingScore === undefined) return status === "completed";
+  return (state.quizScores?.[lessonId] ?? -1) >= passingScore;
+}
+
+/**
+ * Lock state of one lesson. `planned` lessons (earlier in the same study
+ * session) count as met, so a session can hold a chain of lessons.
+ */
+export function lessonLockState(
+  graph: PrerequisiteGraph,
+  lessonId: string,
+  state: GateProgress,
+  planned?: Set<string>
+): LockState {
+  const missing = (graph.requires[lessonId] || []).filter(
+    (p) =>
+      !planned?.has(p.lessonId) && !isPrerequisiteMet(graph, p.lessonId, state)
+  );
+  if (missing.length === 0) return UNLOCKED;
+  const overridden = !!state.unlockOverrides?.includes(lessonId);
+  return { locked: !overridden, overridden, missing };
+}
+
+// Lock state of every lesson in the course, keyed by lesson id
+export function courseLockStates(
+  course: Course,
+  state: GateProgress
+): Record<string, LockState> {
+  const graph = buildPrerequisiteGraph(course);
+  const states: Record<string, LockState> = {};
+  for (const lesson of course.sessions.flatMap((s) => s.lessons)) {
+    states[lesson.id] = lessonLockState(graph, lesson.id, state);
+  }
+  return states;
+}
+
+/**
+ * Completed lessons whose quiz still has to be passed because an unfinished,
+ * non-overridden lesson is waiting on them, directly or through another
+ * lesson to retake. sliceSession serves these again.
+ */
+export function lessonsToRetake(
+  course: Course,
+  graph: PrerequisiteGraph,
+  state: GateProgress
+): Set<string> {
+  const retake = new Set<string>();
+  // Prerequisites come first, so walking backwards sees every waiting lesson
+  const lessons = course.sessions.flatMap((s) => s.lessons).reverse();
+  for (const lesson of lessons) {
+    const waiting = state.progress[lesson.id]
+      ? retake.has(lesson.id)
+      : !state.unlockOverrides?.includes(lesson.id);
+    if (!waiting) continue;
+    for (const p of graph.requires[lesson.id] || []) {
+      if (
+        state.progress[p.lessonId] &&
+        !isPrerequisiteMet(graph, p.lessonId, state)
+      ) {
+        retake.add(p.lessonId);
+      }
+    }
+  }
+  return retake;
+}
+
+// "Finish “Intro”" or "Score 70% on the “Intro” quiz", for lock notices
+export function describePrerequisite(
+  prerequisite: Prerequisite,
+  lessons: Pick<Lesson, "id" | "lesson_title">[]
+): string {
+  const title =
+    lessons.find((l) => l.id === prerequisite.lessonId)?.lesson_title ||
+    prerequisite.lessonId;
+  return prerequisite.passingScore === undefined
+    ? `Finish “${title}”`
+    : `Score ${prerequisite.passingScore}% on the “${title}” quiz`;
+}
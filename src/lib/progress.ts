@@ -3,6 +3,8 @@
  * Ensures no negative values, no overflow, and correct display strings
  */
 
+import type { LessonProgress } from "./auth";
+
 export interface ProgressState {
   completed: number;
   total: number;
@@ -64,3 +66,42 @@ export function formatProgressFraction(state: ProgressState): string {
 export function formatProgressPercentage(state: ProgressState): string {
   return `${state.pct}%`;
 }
+
+// Quiz attempts kept per lesson; older ones are dropped
+export const MAX_ATTEMPT_HISTORY = 20;
+
+/**
+ * Merge a progress update into a lesson's stored progress
+ * - attempts are appended (history is kept, capped at MAX_ATTEMPT_HISTORY)
+ * - timeSpent is added to the time already recorded
+ * - score keeps the best result so far
+ * - mastery is updated per concept with the latest estimate
+ * - testedOut sticks once the placement quiz has completed the lesson
+ */
+export function mergeLessonProgress(
+  current: LessonProgress | undefined,
+  update: Partial<LessonProgress> &
+    Pick<LessonProgress, "courseId" | "lessonId">,
+  now: Date = new Date()
+): LessonProgress {
+  const attempts = [...(current?.attempts || []), ...(update.attempts || [])];
+  const timeSpent = (current?.timeSpent || 0) + (update.timeSpent || 0);
+  const scores = [current?.score, update.score].filter(
+    (s): s is number => typeof s === "number"
+  );
+  const completed = update.completed ?? current?.completed ?? false;
+  const mastery = { ...current?.mastery, ...update.mastery };
+
+  return {
+    courseId: update.courseId,
+    lessonId: update.lessonId,
+    completed,
+    completedAt: update.completed ? now : current?.completedAt,
+    score: scores.length > 0 ? Math.max(...scores) : undefined,
+    timeSpent: timeSpent || undefined,
+    attempts:
+      attempts.length > 0 ? attempts.slice(-MAX_ATTEMPT_HISTORY) : undefined,
+    mastery: Object.keys(mastery).length > 0 ? mastery : undefined,
+    testedOut: update.testedOut ?? current?.testedOut,
+  };
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { QuizPaper } from "@/data/quizPapers";
+import { deleteQuestionBank, getQuestionBanks, saveQuestionBank } from "./auth";
+import type { QuestionBankFormat } from "./question-bank";
+import type { ServerSession } from "./server-session";
+
+/**
+ * Server-only persistence for imported question banks.
+ *
+ * Prefers the `question_banks` table (see auth.ts), queried as the session's
+ * user so row level security applies. When the write fails, banks go to
+ * JSON files under QUESTION_BANK_STORE_DIR (default
+ * `.data/question-banks/<user>/<bank>.json`). Callers pass a verified
+ * session (`getServerSession`), never a user id from the client.
+ */
+
+// Local bank ids carry a prefix so they never collide with Supabase uuids
+const LOCAL_ID_PREFIX = "local-bank-";
+
+const storeDir = () =>
+  process.env.QUESTION_BANK_STORE_DIR ||
+  path.join(process.cwd(), ".data", "question-banks");
+
+const safeSegment = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+const userDir = (uid: string) => path.join(storeDir(), safeSegment(uid));
+
+const localPath = (uid: string, bankId: string) =>
+  path.join(userDir(uid), `${safeSegment(bankId)}.json`);
+
+/**
+ * Store an imported bank. Returns it with its stored id, or null when both
+ * stores failed.
+ */
+export async function saveUserQuestionBank(
+  session: ServerSession,
+  paper: QuizPaper,
+  format: QuestionBankFormat
+): Promise<QuizPaper | null> {
+  const uid = session.userId;
+  const remoteId = await saveQuestionBank(uid, paper, format, session.db);
+  if (remoteId) return { ...paper, id: remoteId };
+
+  try {
+    const stored = {
+      ...paper,
+      id: `${LOCAL_ID_PREFIX}${Date.now().toString(36)}`,
+    };
+    await fs.mkdir(userDir(uid), { recursive: true });
+    await fs.writeFile(
+      localPath(uid, stored.id),
+      JSON.stringify({
+        ...stored,
+        format,
+        createdAt: new Date().toISOString(),
+      }),
+      "utf8"
+    );
+    return stored;
+  } catch (e) {
+    console.warn("[questionBankStore.save] Local write failed:", e);
+    return null;
+  }
+}
+
+/**
+ * All of a user's imported banks, from both stores.
+ */
+export async function listUserQuestionBanks(
+  session: ServerSession
+): Promise<QuizPaper[]> {
+  const uid = session.userId;
+  const banks = await getQuestionBanks(uid, session.db);
+  try {
+    const names = (await fs.readdir(userDir(uid))).filter((n) =>
+      n.endsWith(".json")
+    );
+    const local = await Promise.all(
+      names.map(async (name) => {
+        const raw = await fs.readFile(path.join(userDir(uid), name), "utf8");
+        return JSON.parse(raw) as QuizPaper & { createdAt: string };
+      })
+    );
+    local
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach(({ id, title, description, questions }) =>
+        banks.push({ id, title, description, questions })
+      );
+  } catch {
+    // No local store for this user yet
+  }
+  return banks;
+}
+
+export async function getUserQuestionBank(
+  session: ServerSession,
+  bankId: string
+): Promise<QuizPaper | null> {
+  const banks = await listUserQuestionBanks(session);
+  return banks.find((bank) => bank.id === bankId) ?? null;
+}
+
+export async function deleteUserQuestionBank(
+  session: ServerSession,
+  bankId: string
+): Promise<boolean> {
+  if (!bankId.startsWith(LOCAL_ID_PREFIX)) {
+    return deleteQuestionBank(session.userId, bankId, session.db);
+  }
+  try {
+    await fs.unlink(localPath(session.userId, bankId));
+    return true;
+  } catch (e) {
+    console.warn("[questionBankStore.delete] Local delete failed:", e);
+    return false;
+  }
+}
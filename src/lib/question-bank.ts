@@ -0,0 +1,999 @@
+import type {
+  QuizPaper,
+  QuizQuestion as PaperQuestion,
+} from "@/data/quizPapers";
+import { normalizeQuestionType, questionTypeOf } from "./answer-grading";
+import type { Course } from "./types";
+
+/**
+ * Question bank import and export.
+ *
+ * Supported formats:
+ * - gift: Moodle GIFT text (multiple choice, true/false, short answer,
+ *   numerical and essay questions; `$CATEGORY` lines become sections)
+ * - qti: IMS QTI 2.1 item XML, or a content package whose assessmentTest
+ *   sections become sections (choice, text entry and extended text items)
+ * - csv: one question per row with a header row (see CSV_COLUMNS)
+ * - anki: Anki "Notes in Plain Text" exports (front → question, back →
+ *   answer). `.apkg` packages are SQLite databases; anki-package.ts turns
+ *   their notes into the plain-text form on the server.
+ *
+ * Parsers skip questions they can't represent and report them as warnings
+ * rather than failing the whole bank.
+ */
+
+export type QuestionBankFormat = "gift" | "qti" | "csv" | "anki";
+
+export type QuestionBankFile = { path: string; content: string };
+
+export type ParsedQuestionBank = {
+  questions: PaperQuestion[];
+  warnings: string[];
+};
+
+export class QuestionBankError extends Error {
+  constructor(
+    message: string,
+    readonly format?: QuestionBankFormat
+  ) {
+    super(message);
+    this.name = "QuestionBankError";
+  }
+}
+
+export const QUESTION_BANK_FORMATS: Record<
+  QuestionBankFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  gift: { label: "Moodle GIFT", extension: "gift", mimeType: "text/plain" },
+  qti: { label: "IMS QTI 2.1", extension: "zip", mimeType: "application/zip" },
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  anki: {
+    label: "Anki (plain text)",
+    extension: "txt",
+    mimeType: "text/tab-separated-values",
+  },
+};
+
+// Accepted by the upload input
+export const QUESTION_BANK_EXTENSIONS = [
+  ".gift",
+  ".txt",
+  ".xml",
+  ".zip",
+  ".csv",
+  ".tsv",
+  ".apkg",
+];
+
+/**
+ * Pick the format from the file name, sniffing `.txt` files, which can be
+ * either GIFT or an Anki plain-text export.
+ */
+export function detectQuestionBankFormat(
+  filename: string,
+  sample = ""
+): QuestionBankFormat {
+  const ext = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  switch (ext) {
+    case "gift":
+      return "gift";
+    case "xml":
+    case "zip":
+      return "qti";
+    case "csv":
+      return "csv";
+    case "tsv":
+      return "anki";
+    case "apkg":
+    case "colpkg":
+      return "anki";
+    case "txt":
+      return /^#(separator|html|columns|deck|notetype)/im.test(sample) ||
+        !/[^\\]\{[\s\S]*?[^\\]\}/.test(sample)
+        ? "anki"
+        : "gift";
+    default:
+      throw new QuestionBankError(
+        `Unsupported question bank file: ${filename}. Use GIFT, QTI (.xml or .zip), CSV, or an Anki package or plain-text export.`
+      );
+  }
+}
+
+export function parseQuestionBank(
+  format: QuestionBankFormat,
+  files: QuestionBankFile[],
+  idPrefix = "q"
+): ParsedQuestionBank {
+  const warnings: string[] = [];
+  const text = (files[0]?.content || "").replace(/^\uFEFF/, "");
+  const parsed =
+    format === "gift"
+      ? parseGift(text, warnings)
+      : format === "qti"
+        ? parseQti(files, warnings)
+        : format === "csv"
+          ? parseCsv(text, warnings)
+          : parseAnki(text, warnings);
+
+  const questions: PaperQuestion[] = [];
+  for (const q of parsed) {
+    if (!q.questionText.trim() || !q.answerText.trim()) {
+      warnings.push(
+        `Skipped "${truncate(q.questionText) || "untitled"}": no question text or answer`
+      );
+      continue;
+    }
+    questions.push({ ...q, id: `${idPrefix}-${questions.length + 1}` });
+  }
+  return { questions, warnings };
+}
+
+// -- shared helpers ---------------------------------------------------------
+
+type DraftQuestion = Omit<PaperQuestion, "id">;
+
+const truncate = (text: string, max = 40) =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, code: string) => {
+      if (code[0] === "#") {
+        const n =
+          code[1].toLowerCase() === "x"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+      }
+      return ENTITIES[code.toLowerCase()] ?? match;
+    }
+  );
+}
+
+// Markup to plain text: line breaks and block ends become newlines
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|pre|h\d)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeHtml(text: string): string {
+  return escapeXml(text).replace(/\n/g, "<br>");
+}
+
+function defaultType(q: Pick<DraftQuestion, "type" | "options">) {
+  return questionTypeOf({ type: q.type, options: q.options });
+}
+
+// Delimited text (CSV, TSV) with RFC 4180 quoting
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+function formatDelimited(rows: string[][], delimiter: string): string {
+  return rows
+    .map((row) =>
+      row
+        .map((field) =>
+          /["\n\r]/.test(field) ||
+          field.includes(delimiter) ||
+          field !== field.trim()
+            ? `"${field.replace(/"/g, '""')}"`
+            : field
+        )
+        .join(delimiter)
+    )
+    .join("\n");
+}
+
+// -- GIFT -------------------------------------------------------------------
+
+const GIFT_SPECIAL = /[~=#{}:\\]/g;
+
+const giftEscape = (text: string) =>
+  text.replace(GIFT_SPECIAL, (c) => `\\${c}`).replace(/\n/g, "\\n");
+
+const giftUnescape = (text: string) =>
+  text
+    .replace(/\\n/g, "\n")
+    .replace(/\\([~=#{}:\\])/g, "$1")
+    .trim();
+
+// Index of `token` not preceded by a backslash, or -1
+function indexOfUnescaped(text: string, token: string, from = 0): number {
+  for (let i = from; i <= text.length - token.length; i++) {
+    if (text[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (text.startsWith(token, i)) return i;
+  }
+  return -1;
+}
+
+function countUnescaped(text: string, char: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\\") i++;
+    else if (text[i] === char) count++;
+  }
+  return count;
+}
+
+function parseGift(text: string, warnings: string[]): DraftQuestion[] {
+  const blocks: { raw: string; section?: string }[] = [];
+  let section: string | undefined;
+  let block: string[] = [];
+  const flush = () => {
+    const raw = block.join("\n").trim();
+    if (raw) blocks.push({ raw, section });
+    block = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("//")) continue;
+    const category = trimmed.match(/^\$CATEGORY:\s*(.+)$/i);
+    if (category) {
+      flush();
+      // Moodle writes category paths like "$course$/top/Hardware"
+      section = category[1].split("/").pop()!.trim() || undefined;
+      continue;
+    }
+    const open = block.join("\n");
+    if (!trimmed && countUnescaped(open, "{") <= countUnescaped(open, "}")) {
+      flush();
+      continue;
+    }
+    block.push(line);
+  }
+  flush();
+
+  const questions: DraftQuestion[] = [];
+  for (const { raw, section } of blocks) {
+    try {
+      const question = parseGiftQuestion(raw);
+      if (question) questions.push({ ...question, section });
+    } catch (e) {
+      warnings.push(
+        `Skipped GIFT question "${truncate(raw.replace(/\s+/g, " "))}": ${(e as Error).message}`
+      );
+    }
+  }
+  return questions;
+}
+
+function parseGiftQuestion(raw: string): DraftQuestion | null {
+  let text = raw.replace(/^::[\s\S]*?::/, "").trim();
+  const format = text.match(/^\[(html|moodle|plain|markdown)\]/i)?.[1];
+  if (format) text = text.slice(format.length + 2);
+  const clean = (s: string) =>
+    format?.toLowerCase() === "html"
+      ? htmlToText(giftUnescape(s))
+      : giftUnescape(s);
+
+  const open = indexOfUnescaped(text, "{");
+  if (open < 0) return null; // a description item, not a question
+  let close = -1;
+  for (let i = open; (i = indexOfUnescaped(text, "}", i)) >= 0; i++) close = i;
+  if (close < 0) throw new Error("unclosed answer block");
+
+  const stem = clean(text.slice(0, open));
+  const tail = clean(text.slice(close + 1));
+  const questionText = tail ? `${stem} _____ ${tail}` : stem;
+  let body = text.slice(open + 1, close).trim();
+
+  let explanation: string | undefined;
+  const general = indexOfUnescaped(body, "####");
+  if (general >= 0) {
+    explanation = clean(body.slice(general + 4)) || undefined;
+    body = body.slice(0, general).trim();
+  }
+
+  if (!body) {
+    // Essay: the general feedback doubles as the model answer
+    return {
+      questionText,
+      type: "Practical",
+      answerText: explanation || "",
+    };
+  }
+
+  const trueFalse = body.match(/^(TRUE|FALSE|T|F)\b([\s\S]*)$/i);
+  if (trueFalse) {
+    const feedback = trueFalse[2].split(/(?<!\\)#/)[1];
+    return {
+      questionText,
+      type: "MCQ",
+      options: ["True", "False"],
+      answerText: trueFalse[1][0].toUpperCase() === "T" ? "True" : "False",
+      explanation: explanation || (feedback ? clean(feedback) : undefined),
+    };
+  }
+
+  if (body.startsWith("#")) {
+    const first = body.slice(1).replace(/^=\s*(%[\d.]+%)?/, "");
+    const value = first
+      .split(/(?<!\\)[=~#]/)[0]
+      .split(":")[0]
+      .trim();
+    return { questionText, type: "Short", answerText: value, explanation };
+  }
+
+  const choices: { correct: boolean; text: string; feedback?: string }[] = [];
+  let wrongMarkers = 0;
+  for (let i = 0; i < body.length; ) {
+    const marker = body[i];
+    if (marker !== "=" && marker !== "~") {
+      throw new Error(`unexpected "${marker}" in answers`);
+    }
+    let end = i + 1;
+    while (end < body.length) {
+      if (body[end] === "\\") end += 2;
+      else if (body[end] === "=" || body[end] === "~") break;
+      else end++;
+    }
+    let choice = body.slice(i + 1, end).trim();
+    i = end;
+    if (indexOfUnescaped(choice, "->") >= 0) {
+      throw new Error("matching questions are not supported");
+    }
+    const weight = choice.match(/^%(-?[\d.]+)%/);
+    if (weight) choice = choice.slice(weight[0].length);
+    const hash = indexOfUnescaped(choice, "#");
+    const feedback = hash >= 0 ? clean(choice.slice(hash + 1)) : undefined;
+    if (hash >= 0) choice = choice.slice(0, hash);
+    if (marker === "~") wrongMarkers++;
+    choices.push({
+      correct: marker === "=" || (!!weight && parseFloat(weight[1]) >= 100),
+      text: clean(choice),
+      feedback,
+    });
+  }
+
+  const correct = choices.find((c) => c.correct);
+  if (!correct) throw new Error("no correct answer marked");
+  return wrongMarkers > 0
+    ? {
+        questionText,
+        type: "MCQ",
+        options: choices.map((c) => c.text),
+        answerText: correct.text,
+        explanation: explanation || correct.feedback,
+      }
+    : {
+        // Only "=" answers: short answer, the first one is the model answer
+        questionText,
+        type: "Short",
+        answerText: correct.text,
+        explanation: explanation || correct.feedback,
+      };
+}
+
+export function toGift(paper: QuizPaper): string {
+  const out: string[] = [`// ${paper.title}`];
+  if (paper.description) out.push(`// ${paper.description}`);
+  // Categories carry over to later questions, so once any question has a
+  // section the unsectioned ones go under the bank's title
+  const sectioned = paper.questions.some((q) => q.section);
+  let section: string | undefined;
+  paper.questions.forEach((q, i) => {
+    const category = q.section || paper.title;
+    if (sectioned && category !== section) {
+      section = category;
+      out.push("", `$CATEGORY: ${section}`);
+    }
+    const type = defaultType(q);
+    out.push("", `::Q${i + 1}:: ${giftEscape(q.questionText)} {`);
+    if (type === "MCQ") {
+      const options = q.options?.length ? q.options : [q.answerText];
+      if (!options.includes(q.answerText)) {
+        out.push(`  =${giftEscape(q.answerText)}`);
+      }
+      for (const option of options) {
+        const marker = option === q.answerText ? "=" : "~";
+        out.push(`  ${marker}${giftEscape(option)}`);
+      }
+    } else if (type !== "Practical") {
+      out.push(`  =${giftEscape(q.answerText)}`);
+    }
+    // Essays have no answers; their model answer travels as general feedback
+    const feedback = type === "Practical" ? q.answerText : q.explanation;
+    if (feedback) out.push(`  ####${giftEscape(feedback)}`);
+    out.push("}");
+  });
+  return `${out.join("\n")}\n`;
+}
+
+// -- CSV --------------------------------------------------------------------
+
+// Header names (lowercased, letters and digits only) → question field
+const CSV_COLUMNS: Record<string, keyof DraftQuestion> = {
+  question: "questionText",
+  questiontext: "questionText",
+  prompt: "questionText",
+  answer: "answerText",
+  answertext: "answerText",
+  correct: "answerText",
+  correctanswer: "answerText",
+  options: "options",
+  choices: "options",
+  explanation: "explanation",
+  feedback: "explanation",
+  type: "type",
+  section: "section",
+  category: "section",
+  topic: "section",
+};
+// "option a", "choice 2", or bare "a".."h" columns hold one option each
+const OPTION_COLUMN = /^(?:(?:option|choice)(?:[a-z]|\d+)|[a-h])$/;
+// Separates options packed into a single "options" cell
+const OPTION_SEPARATOR = "|";
+
+function parseCsv(text: string, warnings: string[]): DraftQuestion[] {
+  const delimiter =
+    (text.split("\n")[0].match(/;/g)?.length || 0) >
+    (text.split("\n")[0].match(/,/g)?.length || 0)
+      ? ";"
+      : ",";
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  if (!header) throw new QuestionBankError("The CSV file is empty", "csv");
+
+  const keys = header.map((h) => h.toLowerCase().replace(/[^a-z0-9]/g, ""));
+  const fieldAt = keys.map((k) => CSV_COLUMNS[k]);
+  const optionColumns = keys
+    .map((k, i) => (OPTION_COLUMN.test(k) && !CSV_COLUMNS[k] ? i : -1))
+    .filter((i) => i >= 0);
+  if (!fieldAt.includes("questionText") || !fieldAt.includes("answerText")) {
+    throw new QuestionBankError(
+      'CSV files need a header row with at least "question" and "answer" columns',
+      "csv"
+    );
+  }
+
+  return rows.map((row, r) => {
+    const cell = (field: keyof DraftQuestion) =>
+      row[fieldAt.indexOf(field)]?.trim() || "";
+    const packed = cell("options");
+    const options = (
+      packed
+        ? packed.split(OPTION_SEPARATOR)
+        : optionColumns.map((i) => row[i] || "")
+    )
+      .map((o) => o.trim())
+      .filter(Boolean);
+    let answerText = cell("answerText");
+    // An answer given as the option's letter
+    const letter = answerText.match(/^[a-h]$/i);
+    if (letter && options.length && !options.includes(answerText)) {
+      const option = options[letter[0].toLowerCase().charCodeAt(0) - 97];
+      if (option) answerText = option;
+      else
+        warnings.push(`Row ${r + 2}: answer "${answerText}" is not an option`);
+    }
+    const typeName = cell("type");
+    const type = normalizeQuestionType(typeName);
+    if (typeName && !type) {
+      warnings.push(
+        `Row ${r + 2}: unknown type "${typeName}", guessed from options`
+      );
+    }
+    return {
+      questionText: cell("questionText"),
+      answerText,
+      type: type ?? defaultType({ options }),
+      options: options.length ? options : undefined,
+      explanation: cell("explanation") || undefined,
+      section: cell("section") || undefined,
+    };
+  });
+}
+
+export function toCsv(paper: QuizPaper): string {
+  const rows = [
+    ["question", "type", "options", "answer", "explanation", "section"],
+  ];
+  for (const q of paper.questions) {
+    rows.push([
+      q.questionText,
+      defaultType(q),
+      (q.options || []).join(` ${OPTION_SEPARATOR} `),
+      q.answerText,
+      q.explanation || "",
+      q.section || "",
+    ]);
+  }
+  return `${formatDelimited(rows, ",")}\n`;
+}
+
+// -- Anki -------------------------------------------------------------------
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+  space: " ",
+  colon: ":",
+};
+
+function parseAnki(text: string, warnings: string[]): DraftQuestion[] {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const headers: Record<string, string> = {};
+  let start = 0;
+  for (; start < lines.length; start++) {
+    const header = lines[start].match(/^#([a-z ]+):(.*)$/i);
+    if (!header) break;
+    headers[header[1].trim().toLowerCase()] = header[2].trim();
+  }
+  const separator =
+    ANKI_SEPARATORS[headers.separator?.toLowerCase()] ??
+    (headers.separator?.length === 1 ? headers.separator : "\t");
+  const rows = parseDelimited(lines.slice(start).join("\n"), separator);
+  const html =
+    headers.html !== undefined
+      ? headers.html.toLowerCase() === "true"
+      : rows.some((row) => row.some((f) => /<\/?[a-z][^>]*>/i.test(f)));
+  const clean = (field = "") => (html ? htmlToText(field) : field.trim());
+
+  // Columns numbered in the header (1-based) carry metadata, not card sides
+  const meta = new Set(
+    ["guid column", "notetype column", "deck column", "tags column"]
+      .map((k) => parseInt(headers[k] || "", 10) - 1)
+      .filter((i) => i >= 0)
+  );
+  const named = (headers.columns || "")
+    .split(separator)
+    .map((c) => c.trim().toLowerCase());
+  const sides = named.includes("front")
+    ? [named.indexOf("front"), named.indexOf("back")]
+    : Array.from({ length: 32 }, (_, i) => i)
+        .filter((i) => !meta.has(i))
+        .slice(0, 2);
+  const deckColumn = parseInt(headers["deck column"] || "", 10) - 1;
+
+  const questions: DraftQuestion[] = [];
+  rows.forEach((row, r) => {
+    let questionText = clean(row[sides[0]]);
+    let answerText = clean(row[sides[1]]);
+    // Cloze notes keep the answer inside the front: {{c1::answer::hint}}
+    const cloze = [
+      ...questionText.matchAll(/\{\{c\d+::([\s\S]*?)(?:::[\s\S]*?)?\}\}/g),
+    ];
+    if (cloze.length) {
+      if (!answerText) answerText = cloze.map((m) => m[1]).join(", ");
+      questionText = questionText.replace(/\{\{c\d+::[\s\S]*?\}\}/g, "_____");
+    }
+    if (!questionText && !answerText) {
+      warnings.push(`Line ${start + r + 1}: empty note`);
+      return;
+    }
+    const deck = deckColumn >= 0 ? row[deckColumn] : headers.deck;
+    questions.push({
+      questionText,
+      answerText,
+      type: "Short",
+      section: deck ? deck.split("::").pop()!.trim() || undefined : undefined,
+    });
+  });
+  return questions;
+}
+
+export type AnkiNote = { fields: string[]; deck?: string };
+
+// Notes read from a package, as a plain-text export that parseAnki reads
+export function ankiNotesToText(notes: AnkiNote[]): string {
+  const rows = notes.map((note) => [
+    note.fields[0] ?? "",
+    note.fields[1] ?? "",
+    note.deck ?? "",
+  ]);
+  return (
+    [
+      "#separator:tab",
+      "#html:true",
+      "#deck column:3",
+      formatDelimited(rows, "\t"),
+    ].join("\n") + "\n"
+  );
+}
+
+export function toAnkiTsv(paper: QuizPaper): string {
+  const rows = paper.questions.map((q) => {
+    const options = q.options?.length
+      ? `<br><br>${q.options
+          .map((o, i) => `${String.fromCharCode(65 + i)}. ${escapeHtml(o)}`)
+          .join("<br>")}`
+      : "";
+    const explanation = q.explanation
+      ? `<br><br>${escapeHtml(q.explanation)}`
+      : "";
+    return [
+      `${escapeHtml(q.questionText)}${options}`,
+      `${escapeHtml(q.answerText)}${explanation}`,
+      q.section ? q.section.trim().replace(/\s+/g, "_") : "",
+    ];
+  });
+  return (
+    [
+      "#separator:tab",
+      "#html:true",
+      `#deck:${paper.title}`,
+      "#columns:Front\tBack\tTags",
+      formatDelimited(rows, "\t"),
+    ].join("\n") + "\n"
+  );
+}
+
+// -- QTI 2.1 ----------------------------------------------------------------
+
+const QTI_NS = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+// Elements may carry a namespace prefix (qti:choiceInteraction)
+const el = (name: string) => `(?:[\\w-]+:)?${name}`;
+
+function attr(attrs: string, name: string): string | undefined {
+  const m = attrs.match(
+    new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`)
+  );
+  return m ? decodeEntities(m[1] ?? m[2]) : undefined;
+}
+
+function elements(xml: string, name: string) {
+  const re = new RegExp(
+    `<${el(name)}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${el(name)}>)`,
+    "g"
+  );
+  return [...xml.matchAll(re)].map((m) => ({
+    whole: m[0],
+    attrs: m[1],
+    body: m[2] ?? "",
+  }));
+}
+
+const baseName = (path: string) => path.split("/").pop()!.toLowerCase();
+
+function parseQti(
+  files: QuestionBankFile[],
+  warnings: string[]
+): DraftQuestion[] {
+  // Sections come from an assessmentTest, when the package has one
+  const sectionOf = new Map<string, string>();
+  for (const file of files) {
+    if (!/<(?:[\w-]+:)?assessmentTest\b/.test(file.content)) continue;
+    const stack: (string | undefined)[] = [];
+    const tags = new RegExp(
+      `<(\\/?)${el("(assessmentSection|assessmentItemRef)")}\\b([^>]*?)(\\/?)>`,
+      "g"
+    );
+    for (const [, closing, name, attrs, selfClosing] of file.content.matchAll(
+      tags
+    )) {
+      if (name === "assessmentSection") {
+        if (closing) stack.pop();
+        else if (!selfClosing) stack.push(attr(attrs, "title"));
+      } else if (!closing) {
+        const href = attr(attrs, "href");
+        const section = [...stack].reverse().find(Boolean);
+        if (href && section) sectionOf.set(baseName(href), section);
+      }
+    }
+  }
+
+  const questions: DraftQuestion[] = [];
+  for (const file of files) {
+    for (const item of elements(file.content, "assessmentItem")) {
+      const title = attr(item.attrs, "title") || attr(item.attrs, "identifier");
+      try {
+        const question = parseQtiItem(item.body);
+        questions.push({
+          ...question,
+          section: sectionOf.get(baseName(file.path)),
+        });
+      } catch (e) {
+        warnings.push(`Skipped QTI item "${title}": ${(e as Error).message}`);
+      }
+    }
+  }
+  if (questions.length === 0 && warnings.length === 0) {
+    throw new QuestionBankError("No QTI assessmentItem elements found", "qti");
+  }
+  return questions;
+}
+
+function parseQtiItem(xml: string): DraftQuestion {
+  const correct = new Map<string, string[]>();
+  for (const decl of elements(xml, "responseDeclaration")) {
+    const id = attr(decl.attrs, "identifier") || "RESPONSE";
+    const response = elements(decl.body, "correctResponse")[0];
+    let values = response
+      ? elements(response.body, "value").map((v) =>
+          decodeEntities(v.body).trim()
+        )
+      : [];
+    if (values.length === 0) {
+      // No correct response: the best-scoring mapping entry
+      values = elements(decl.body, "mapEntry")
+        .map((e) => ({
+          key: attr(e.attrs, "mapKey") || "",
+          value: parseFloat(attr(e.attrs, "mappedValue") || "0"),
+        }))
+        .filter((e) => e.value > 0)
+        .sort((a, b) => b.value - a.value)
+        .map((e) => e.key);
+    }
+    correct.set(id, values);
+  }
+
+  const body = elements(xml, "itemBody")[0]?.body || "";
+  const feedback = elements(xml, "modalFeedback")[0];
+  const explanation = feedback
+    ? htmlToText(feedback.body) || undefined
+    : undefined;
+
+  const choice = elements(body, "choiceInteraction")[0];
+  if (choice) {
+    const responseId = attr(choice.attrs, "responseIdentifier") || "RESPONSE";
+    const choices = elements(choice.body, "simpleChoice").map((c) => ({
+      id: attr(c.attrs, "identifier"),
+      text: htmlToText(c.body),
+    }));
+    const keys = correct.get(responseId) || [];
+    const answer = choices.find((c) => c.id === keys[0]);
+    if (!answer) throw new Error("no correct choice");
+    const prompt = elements(choice.body, "prompt")[0];
+    const questionText = [
+      htmlToText(body.replace(choice.whole, "")),
+      prompt ? htmlToText(prompt.body) : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    return {
+      questionText,
+      type: "MCQ",
+      options: choices.map((c) => c.text),
+      answerText: answer.text,
+      explanation,
+    };
+  }
+
+  const text = [
+    ...elements(body, "textEntryInteraction"),
+    ...elements(body, "extendedTextInteraction"),
+  ][0];
+  if (text) {
+    const responseId = attr(text.attrs, "responseIdentifier") || "RESPONSE";
+    const extended = /extendedTextInteraction/.test(text.whole.slice(0, 40));
+    const prompt = elements(text.body, "prompt")[0];
+    const questionText = [
+      htmlToText(body.replace(text.whole, extended ? "" : " _____ ")),
+      prompt ? htmlToText(prompt.body) : "",
+    ]
+      .filter(Boolean)
+      .join("\n")
+      .replace(/ +/g, " ")
+      // An answer box on its own line is not a blank in the sentence
+      .replace(/\n\s*_____\s*$/, "");
+    const answerText = correct.get(responseId)?.[0] || explanation || "";
+    return {
+      questionText,
+      type: extended ? "Practical" : "Short",
+      answerText,
+      explanation:
+        extended && answerText === explanation ? undefined : explanation,
+    };
+  }
+
+  const other = body.match(/<(?:[\w-]+:)?(\w+Interaction)\b/)?.[1];
+  throw new Error(other ? `${other} is not supported` : "no interaction");
+}
+
+const qtiId = (i: number) => `item_${i + 1}`;
+
+function toQtiItem(q: PaperQuestion, identifier: string): string {
+  const type = defaultType(q);
+  const title = escapeXml(q.questionText.slice(0, 80));
+  const feedback = q.explanation
+    ? `\n  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="explanation" showHide="show">${escapeXml(q.explanation)}</modalFeedback>`
+    : "";
+  let declaration: string;
+  let body: string;
+  let processing = `\n  <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>`;
+  if (type === "MCQ") {
+    const options = q.options?.length ? q.options : [q.answerText];
+    const answerIndex = Math.max(0, options.indexOf(q.answerText));
+    declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>choice_${answerIndex + 1}</value></correctResponse>
+  </responseDeclaration>`;
+    body = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>${escapeXml(q.questionText)}</prompt>
+${options
+  .map(
+    (o, i) =>
+      `      <simpleChoice identifier="choice_${i + 1}">${escapeXml(o)}</simpleChoice>`
+  )
+  .join("\n")}
+    </choiceInteraction>`;
+  } else {
+    declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse><value>${escapeXml(q.answerText)}</value></correctResponse>
+  </responseDeclaration>`;
+    if (type === "Short") {
+      body = `<p>${escapeXml(q.questionText)}</p>
+    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(10, q.answerText.length)}"/></p>`;
+    } else {
+      // Code and practical answers are marked by hand
+      body = `<extendedTextInteraction responseIdentifier="RESPONSE">
+      <prompt>${escapeXml(q.questionText)}</prompt>
+    </extendedTextInteraction>`;
+      processing = "";
+    }
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${identifier}" title="${title}" adaptive="false" timeDependent="false">
+  ${declaration}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+    ${body}
+  </itemBody>${processing}${feedback}
+</assessmentItem>
+`;
+}
+
+/**
+ * A QTI 2.1 content package: one item file per question, an assessmentTest
+ * grouping them by section, and the manifest. Zip the files to import them
+ * into an LMS.
+ */
+export function toQtiPackage(paper: QuizPaper): QuestionBankFile[] {
+  const items = paper.questions.map((q, i) => ({
+    identifier: qtiId(i),
+    path: `items/${qtiId(i)}.xml`,
+    question: q,
+  }));
+
+  const sections: { title: string; refs: typeof items }[] = [];
+  for (const item of items) {
+    const title = item.question.section || paper.title;
+    const last = sections[sections.length - 1];
+    if (last?.title === title) last.refs.push(item);
+    else sections.push({ title, refs: [item] });
+  }
+  const test = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="${QTI_NS}" identifier="test" title="${escapeXml(paper.title)}">
+  <testPart identifier="part_1" navigationMode="nonlinear" submissionMode="simultaneous">
+${sections
+  .map(
+    (
+      s,
+      i
+    ) => `    <assessmentSection identifier="section_${i + 1}" title="${escapeXml(s.title)}" visible="true">
+${s.refs
+  .map(
+    (item) =>
+      `      <assessmentItemRef identifier="${item.identifier}" href="${item.path}"/>`
+  )
+  .join("\n")}
+    </assessmentSection>`
+  )
+  .join("\n")}
+  </testPart>
+</assessmentTest>
+`;
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml">
+      <file href="assessment.xml"/>
+${items.map((item) => `      <dependency identifierref="${item.identifier}"/>`).join("\n")}
+    </resource>
+${items
+  .map(
+    (
+      item
+    ) => `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.path}">
+      <file href="${item.path}"/>
+    </resource>`
+  )
+  .join("\n")}
+  </resources>
+</manifest>
+`;
+  return [
+    { path: "imsmanifest.xml", content: manifest },
+    { path: "assessment.xml", content: test },
+    ...items.map((item) => ({
+      path: item.path,
+      content: toQtiItem(item.question, item.identifier),
+    })),
+  ];
+}
+
+// -- courses ----------------------------------------------------------------
+
+/**
+ * Every quiz question in a course as one bank, sectioned by lesson.
+ */
+export function courseToQuestionBank(course: Course): QuizPaper {
+  const questions: PaperQuestion[] = [];
+  for (const session of course.sessions) {
+    for (const lesson of session.lessons) {
+      for (const q of lesson.quiz || []) {
+        questions.push({
+          id: `q-${questions.length + 1}`,
+          questionText: q.question,
+          answerText: q.answer,
+          type: questionTypeOf(q),
+          options: q.options?.length ? q.options : undefined,
+          explanation: q.explanation,
+          section: q.section || lesson.lesson_title,
+        });
+      }
+    }
+  }
+  return {
+    id: course.exam?.examId || "course",
+    title: course.course_title,
+    description: course.description,
+    questions,
+  };
+}
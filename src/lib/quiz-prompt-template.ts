@@ -66,6 +66,7 @@ TASK BREAKDOWN:
    - For every question, create 3 wrong answers (distractors) using OTHER terms found in this SAME document
    - This ensures high difficulty and tests true understanding
    - Distractors must be plausible and from the same topic area when possible
+   - Tag each question with "difficulty" ("easy" | "medium" | "hard") by how close its distractors are, and with the "conceptsTested" it checks
 
 3. FORMATTING (CRITICAL):
    - Output must be a SINGLE valid JSON object
@@ -82,6 +83,8 @@ REQUIRED JSON STRUCTURE:
       "options": ["Escheat", "Probate", "Devise", "Intestate"],
       "answer": "Escheat",
       "explanation": "Escheat is the process by which property reverts to the state when there are no legal heirs.",
+      "difficulty": "medium",
+      "conceptsTested": ["Escheat"],
       "session": "Legal Definitions"
     },
     {
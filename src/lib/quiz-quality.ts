@@ -0,0 +1,338 @@
+import {
+  ACCEPT_SIMILARITY,
+  answerSimilarity,
+  normalizeAnswer,
+  questionTypeOf,
+} from "./answer-grading";
+import type { Course, Lesson, QuizQuestion } from "./types";
+
+/**
+ * Validation and repair for generated quiz questions.
+ *
+ * Models often return MCQs whose answer isn't one of the options (a letter,
+ * different case, a near-copy), duplicate options, "all of the above" items
+ * or too few options, and QuizCard can't play those. Each question goes
+ * through these steps:
+ *
+ * 1. Whitespace is collapsed and "A) " style option labels are stripped.
+ * 2. "All/none of the above" options are dropped; when one is the answer the
+ *    question is rejected, since removing it changes the question.
+ * 3. Duplicate options (ignoring case and punctuation) are merged.
+ * 4. The answer is mapped to its option: exact, case-insensitive, by letter,
+ *    then fuzzily when one option is a clear match. Otherwise it's rejected.
+ * 5. Fewer than two options is rejected; two or three (except True/False)
+ *    and explanations that name another option as correct are flagged.
+ *
+ * Rejected questions are regenerated when a generator is supplied, up to a
+ * per-course budget, and dropped otherwise.
+ */
+
+export type QuizIssueCode =
+  | "empty"
+  | "answer_remapped"
+  | "answer_not_in_options"
+  | "duplicate_options"
+  | "all_of_the_above"
+  | "too_few_options"
+  | "explanation_contradicts";
+
+export const QUIZ_ISSUE_LABELS: Record<QuizIssueCode, string> = {
+  empty: "Question or answer is blank",
+  answer_remapped: "Answer didn't match its option exactly",
+  answer_not_in_options: "Answer isn't one of the options",
+  duplicate_options: "Duplicate options",
+  all_of_the_above: '"All/none of the above" option',
+  too_few_options: "Fewer than 4 options",
+  explanation_contradicts: "Explanation contradicts the answer",
+};
+
+export const MIN_MCQ_OPTIONS = 4;
+export const DEFAULT_MAX_REGENERATIONS = 5;
+
+export type QuestionCheck = {
+  question: QuizQuestion | null; // null when rejected
+  status: "ok" | "repaired" | "rejected";
+  issues: QuizIssueCode[];
+  flagged: boolean; // playable, but worth a human look
+};
+
+export type QuizQualityReport = {
+  checked: number;
+  passed: number; // unchanged apart from whitespace
+  repaired: number;
+  regenerated: number;
+  rejected: number; // dropped from the course
+  issues: Partial<Record<QuizIssueCode, number>>;
+  flagged: { lessonId: string; question: string; issues: QuizIssueCode[] }[];
+};
+
+// Replaces a rejected question; resolve null (or throw) to drop it
+export type RegenerateQuizQuestion = (
+  lesson: Lesson,
+  question: QuizQuestion,
+  issues: QuizIssueCode[]
+) => Promise<QuizQuestion | null>;
+
+// Issues that are fixed in place rather than flagged
+const REPAIRED: QuizIssueCode[] = [
+  "answer_remapped",
+  "duplicate_options",
+  "all_of_the_above",
+];
+const FLAGGED: QuizIssueCode[] = ["too_few_options", "explanation_contradicts"];
+
+const OPTION_LABEL = /^\(?([a-h])[).:]\s+/i;
+const LETTER_ANSWER = /^(?:option\s+)?\(?([a-h])\)?[.):]?$/i;
+const CATCH_ALL_OPTION =
+  /^(?:all|none|both|neither) of (?:the )?(?:above|these|those|options|answers|them)$/i;
+const CLAIMED_ANSWER =
+  /\b(?:correct|right) (?:answer|option|choice) is:?\s+(?:option\s+)?["'“‘]?(.+?)["'”’]?(?:[.;,](?:\s|$)|\s+(?:because|since|as)\b|$)/i;
+
+const squash = (text: string | undefined) =>
+  (text || "").replace(/\s+/g, " ").trim();
+
+// Options that differ only in case or punctuation are duplicates
+const optionKey = (option: string) =>
+  normalizeAnswer(option) || option.toLowerCase();
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Strip "A) ", "B. " labels, but only when every option is labelled in order
+function stripOptionLabels(options: string[]): string[] {
+  const labelled = options.every(
+    (option, i) =>
+      OPTION_LABEL.exec(option)?.[1].toLowerCase() ===
+      String.fromCharCode(97 + i)
+  );
+  return labelled
+    ? options.map((option) => option.replace(OPTION_LABEL, ""))
+    : options;
+}
+
+function isTrueFalse(options: string[]): boolean {
+  const set = new Set(options.map((o) => normalizeAnswer(o)));
+  return (
+    set.size === 2 &&
+    ((set.has("true") && set.has("false")) || (set.has("yes") && set.has("no")))
+  );
+}
+
+/**
+ * Index of the option `text` refers to, or -1: exact, case-insensitive,
+ * by letter (when letters were used), without a label, then the single
+ * clearly most similar option.
+ */
+function resolveOption(text: string, options: string[]): number {
+  const exact = options.indexOf(text);
+  if (exact >= 0) return exact;
+  const lower = text.toLowerCase();
+  const caseless = options.findIndex((o) => o.toLowerCase() === lower);
+  if (caseless >= 0) return caseless;
+
+  const letter = LETTER_ANSWER.exec(text)?.[1];
+  if (letter) {
+    const index = letter.toLowerCase().charCodeAt(0) - 97;
+    return index < options.length ? index : -1;
+  }
+  if (OPTION_LABEL.test(text)) {
+    const unlabelled = resolveOption(text.replace(OPTION_LABEL, ""), options);
+    if (unlabelled >= 0) return unlabelled;
+  }
+
+  const normalized = normalizeAnswer(text);
+  const same = options.findIndex((o) => normalizeAnswer(o) === normalized);
+  if (same >= 0) return same;
+
+  const scores = options.map((o) => answerSimilarity(text, o));
+  const best = Math.max(...scores);
+  const matches = scores.filter((s) => s === best).length;
+  return best >= ACCEPT_SIMILARITY && matches === 1 ? scores.indexOf(best) : -1;
+}
+
+function contradicts(
+  explanation: string,
+  answer: string,
+  options: string[]
+): boolean {
+  const claimed = CLAIMED_ANSWER.exec(explanation)?.[1]?.trim();
+  if (claimed) {
+    const index = resolveOption(claimed, options);
+    if (index >= 0 && options[index] !== answer) return true;
+  }
+  return new RegExp(
+    `${escapeRegExp(answer)}["'”’]? is (?:not (?:the )?correct|incorrect|wrong)`,
+    "i"
+  ).test(explanation);
+}
+
+/**
+ * Check one question and return its repaired form (or null when it can't be
+ * played). Non-MCQ questions are only checked for blanks.
+ */
+export function checkQuizQuestion(original: QuizQuestion): QuestionCheck {
+  const issues: QuizIssueCode[] = [];
+  const question: QuizQuestion = {
+    ...original,
+    question: squash(original.question),
+    answer: squash(original.answer),
+  };
+  if (original.explanation !== undefined) {
+    question.explanation = squash(original.explanation);
+  }
+  const reject = (issue: QuizIssueCode): QuestionCheck => ({
+    question: null,
+    status: "rejected",
+    issues: [...issues, issue],
+    flagged: false,
+  });
+
+  if (!question.question || !question.answer) return reject("empty");
+  if (questionTypeOf(original) !== "MCQ") {
+    return { question, status: "ok", issues, flagged: false };
+  }
+
+  let options = stripOptionLabels(
+    (original.options || []).map(squash).filter(Boolean)
+  );
+
+  // Resolved first: "C" must point at the option as the model listed it
+  const answerIndex = resolveOption(question.answer, options);
+  const answer = answerIndex >= 0 ? options[answerIndex] : null;
+
+  if (options.some((o) => CATCH_ALL_OPTION.test(o))) {
+    if (answer && CATCH_ALL_OPTION.test(answer)) {
+      return reject("all_of_the_above");
+    }
+    issues.push("all_of_the_above");
+    options = options.filter((o) => !CATCH_ALL_OPTION.test(o));
+  }
+
+  const seen = new Set<string>();
+  const unique = options.filter((o) => {
+    const key = optionKey(o);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (unique.length < options.length) {
+    issues.push("duplicate_options");
+    options = unique;
+  }
+
+  if (!answer) return reject("answer_not_in_options");
+  // The kept duplicate may be spelled differently from the answer's option
+  const kept =
+    options.find((o) => o === answer) ??
+    options.find((o) => optionKey(o) === optionKey(answer))!;
+  if (kept !== question.answer) issues.push("answer_remapped");
+  question.answer = kept;
+  question.options = options;
+
+  if (options.length < 2) return reject("too_few_options");
+  if (options.length < MIN_MCQ_OPTIONS && !isTrueFalse(options)) {
+    issues.push("too_few_options");
+  }
+  if (
+    question.explanation &&
+    contradicts(question.explanation, kept, options)
+  ) {
+    issues.push("explanation_contradicts");
+  }
+
+  return {
+    question,
+    status: issues.some((i) => REPAIRED.includes(i)) ? "repaired" : "ok",
+    issues,
+    flagged: issues.some((i) => FLAGGED.includes(i)),
+  };
+}
+
+/**
+ * Validate and repair every quiz in the course, in place, and record the
+ * report as `course.quiz_quality`.
+ */
+export async function validateCourseQuizzes(
+  course: Course,
+  opts: {
+    regenerate?: RegenerateQuizQuestion;
+    maxRegenerations?: number;
+  } = {}
+): Promise<QuizQualityReport> {
+  const report: QuizQualityReport = {
+    checked: 0,
+    passed: 0,
+    repaired: 0,
+    regenerated: 0,
+    rejected: 0,
+    issues: {},
+    flagged: [],
+  };
+  let regenerationsLeft = opts.maxRegenerations ?? DEFAULT_MAX_REGENERATIONS;
+
+  for (const lesson of course.sessions.flatMap((s) => s.lessons)) {
+    if (!lesson.quiz?.length) continue;
+    const kept: QuizQuestion[] = [];
+
+    for (const original of lesson.quiz) {
+      report.checked++;
+      let check = checkQuizQuestion(original);
+      let regenerated = false;
+      for (const issue of check.issues) {
+        report.issues[issue] = (report.issues[issue] || 0) + 1;
+      }
+
+      if (
+        check.status === "rejected" &&
+        opts.regenerate &&
+        regenerationsLeft > 0
+      ) {
+        regenerationsLeft--;
+        try {
+          const replacement = await opts.regenerate(
+            lesson,
+            original,
+            check.issues
+          );
+          const recheck = replacement ? checkQuizQuestion(replacement) : null;
+          if (recheck && recheck.status !== "rejected") {
+            regenerated = true;
+            check = recheck;
+          }
+        } catch (e) {
+          console.warn("[quizQuality] Regenerating a question failed:", e);
+        }
+      }
+
+      if (!check.question) {
+        report.rejected++;
+        continue;
+      }
+      if (regenerated) report.regenerated++;
+      else if (check.status === "repaired") report.repaired++;
+      else if (check.issues.length === 0) report.passed++;
+      if (check.flagged) {
+        report.flagged.push({
+          lessonId: lesson.id,
+          question: check.question.question,
+          issues: check.issues.filter((i) => FLAGGED.includes(i)),
+        });
+      }
+      kept.push(check.question);
+    }
+    lesson.quiz = kept;
+  }
+
+  course.quiz_quality = report;
+  return report;
+}
+
+// One line for logs and the course preview
+export function summarizeQuizQuality(report: QuizQualityReport): string {
+  const parts = [`${report.checked} questions checked`];
+  if (report.repaired) parts.push(`${report.repaired} repaired`);
+  if (report.regenerated) parts.push(`${report.regenerated} regenerated`);
+  if (report.rejected) parts.push(`${report.rejected} removed`);
+  if (report.flagged.length) parts.push(`${report.flagged.length} flagged`);
+  return parts.join(", ");
+}
@@ -0,0 +1,232 @@
+/**
+ * Retrieval over the uploaded source document for "Ask the Document".
+ *
+ * - Chunks the text into overlapping passages, tagging each with its page
+ *   when page offsets are known.
+ * - Ranks passages with BM25; when an embedding function is supplied the
+ *   BM25 top passages are merged with the closest passages by cosine
+ *   similarity using reciprocal rank fusion, so passages that share no
+ *   words with the question can still be found.
+ * - Builds a grounded prompt whose citations ([1], [2], …) map back to chunks.
+ */
+
+export type DocumentChunk = {
+  id: string;
+  index: number;
+  text: string;
+  page?: number; // 1-based, only when page breaks are known
+};
+
+export type RetrievedPassage = DocumentChunk & { score: number };
+
+export type EmbedFn = (text: string) => Promise<number[]>;
+
+const CHUNK_WORDS = 180;
+const CHUNK_OVERLAP = 40;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const FUSION_CANDIDATES = 12; // taken from each ranking
+const RRF_K = 60; // damps the weight of the top ranks, as in Cormack et al.
+
+const STOPWORDS = new Set(
+  "a an and are as at be by can do does for from has have how i in is it its of on or that the this to was what when where which who why will with you your".split(
+    " "
+  )
+);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (t) => t.length > 1 && !STOPWORDS.has(t)
+  );
+}
+
+/**
+ * Split text into ~CHUNK_WORDS word passages with CHUNK_OVERLAP words of
+ * overlap. With `pageOffsets` (see SourceDocument) chunks never straddle a
+ * page and are tagged with their page number.
+ */
+export function chunkDocument(
+  text: string,
+  pageOffsets?: number[]
+): DocumentChunk[] {
+  const hasPages = !!pageOffsets && pageOffsets.length > 1;
+  const pages = hasPages
+    ? pageOffsets.map((start, i) => text.slice(start, pageOffsets[i + 1]))
+    : [text];
+  const chunks: DocumentChunk[] = [];
+
+  pages.forEach((pageText, pageIdx) => {
+    const words = pageText.split(/\s+/).filter(Boolean);
+    for (
+      let start = 0;
+      start < words.length;
+      start += CHUNK_WORDS - CHUNK_OVERLAP
+    ) {
+      const slice = words.slice(start, start + CHUNK_WORDS);
+      const index = chunks.length;
+      chunks.push({
+        id: `chunk-${index}`,
+        index,
+        text: slice.join(" "),
+        page: hasPages ? pageIdx + 1 : undefined,
+      });
+      if (start + CHUNK_WORDS >= words.length) break;
+    }
+  });
+
+  return chunks;
+}
+
+/**
+ * Rank chunks against a query with Okapi BM25.
+ */
+export function bm25Search(
+  query: string,
+  chunks: DocumentChunk[],
+  topK: number
+): RetrievedPassage[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const docs = chunks.map((c) => tokenize(c.text));
+  const avgLength =
+    docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+  const docFreq = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      docFreq.set(term, (docFreq.get(term) || 0) + 1);
+    }
+  }
+
+  const scored = chunks.map((chunk, i) => {
+    const doc = docs[i];
+    const termFreq = new Map<string, number>();
+    for (const term of doc) termFreq.set(term, (termFreq.get(term) || 0) + 1);
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFreq.get(term) || 0;
+      if (!tf) continue;
+      const df = docFreq.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * tf * (BM25_K1 + 1)) /
+        (tf + BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / avgLength));
+    }
+    return { ...chunk, score };
+  });
+
+  return scored
+    .filter((p) => p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Merge rankings with reciprocal rank fusion: a passage scores
+ * 1 / (RRF_K + rank) in every ranking it appears in, so passages ranked well
+ * by several retrievers come first.
+ */
+export function reciprocalRankFusion(
+  rankings: RetrievedPassage[][],
+  k = RRF_K
+): RetrievedPassage[] {
+  const fused = new Map<string, RetrievedPassage>();
+  for (const ranking of rankings) {
+    ranking.forEach((passage, rank) => {
+      const score = 1 / (k + rank + 1);
+      const seen = fused.get(passage.id);
+      fused.set(passage.id, {
+        ...passage,
+        score: (seen?.score ?? 0) + score,
+      });
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieve the top passages for a question. Uses BM25 alone, or the fusion
+ * of the BM25 and embedding rankings when `embed` is given. Chunk embeddings
+ * are read from and added to `chunkVectors` (by chunk id) when given, so a
+ * document's chunks are embedded once across questions. Embedding failures
+ * fall back to the lexical ranking.
+ */
+export async function retrievePassages(
+  question: string,
+  chunks: DocumentChunk[],
+  opts: {
+    topK?: number;
+    embed?: EmbedFn;
+    chunkVectors?: Map<string, number[]>;
+  } = {}
+): Promise<RetrievedPassage[]> {
+  const topK = opts.topK ?? 4;
+  const lexical = bm25Search(
+    question,
+    chunks,
+    opts.embed ? FUSION_CANDIDATES : topK
+  );
+  if (!opts.embed || chunks.length === 0) return lexical.slice(0, topK);
+
+  try {
+    const queryVector = await opts.embed(question);
+    const semantic: RetrievedPassage[] = [];
+    for (const chunk of chunks) {
+      let vector = opts.chunkVectors?.get(chunk.id);
+      if (!vector) {
+        vector = await opts.embed(chunk.text);
+        opts.chunkVectors?.set(chunk.id, vector);
+      }
+      const score = cosineSimilarity(queryVector, vector);
+      if (score > 0) semantic.push({ ...chunk, score });
+    }
+    semantic.sort((a, b) => b.score - a.score);
+    return reciprocalRankFusion([
+      lexical,
+      semantic.slice(0, FUSION_CANDIDATES),
+    ]).slice(0, topK);
+  } catch (e) {
+    console.warn(
+      "⚠️ Embedding search failed, using lexical ranking:",
+      (e as Error)?.message
+    );
+    return lexical.slice(0, topK);
+  }
+}
+
+export function citationLabel(passage: DocumentChunk): string {
+  return passage.page ? `page ${passage.page}` : `passage ${passage.index + 1}`;
+}
+
+/**
+ * Prompt asking the model to answer only from the numbered passages.
+ */
+export function buildGroundedPrompt(
+  question: string,
+  passages: RetrievedPassage[]
+): { system: string; prompt: string } {
+  const context = passages
+    .map((p, i) => `[${i + 1}] (${citationLabel(p)})\n${p.text}`)
+    .join("\n\n");
+
+  return {
+    system:
+      "You answer questions about a document using ONLY the numbered passages provided. Cite passages inline as [1], [2]. If the passages do not contain the answer, say so plainly instead of guessing.",
+    prompt: `PASSAGES:\n${context}\n\nQUESTION: ${question}\n\nAnswer concisely in plain text with citations.`,
+  };
+}
@@ -0,0 +1,89 @@
+import { hashText } from "./source-document";
+import { supabaseAdmin } from "./supabaseAdmin";
+
+/**
+ * Shared cache of "why is my choice wrong?" rationales (see
+ * distractor-explanations.ts), so a question goes to the model once for all
+ * learners instead of once per browser.
+ *
+ * Entries are keyed by a hash of the prompt, which holds the question, its
+ * options, answer and explanation and the lesson grounding, so editing any
+ * of them is a miss. They're kept in an in-process LRU and, when the
+ * service-role client is configured, in the `distractor_rationales` table
+ * (see docs/DB_SCHEMA.md). Only the server writes them, so learners can't
+ * plant rationales for others. Failures are logged and treated as misses.
+ */
+
+// Bump when the distractor prompt changes in a way that should invalidate
+// cached rationales
+export const RATIONALE_PROMPT_VERSION = "distractors-v1";
+
+const MAX_MEMORY_ENTRIES = 500;
+const TABLE = "distractor_rationales";
+
+export type Rationales = Record<string, string>;
+
+// Map iteration order doubles as recency order (oldest first)
+const memory = new Map<string, Rationales>();
+
+function remember(key: string, rationales: Rationales) {
+  memory.delete(key);
+  memory.set(key, rationales);
+  while (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value as string);
+  }
+}
+
+export async function rationaleCacheKey(grounded: {
+  system: string;
+  prompt: string;
+}): Promise<string> {
+  return hashText(
+    JSON.stringify([RATIONALE_PROMPT_VERSION, grounded.system, grounded.prompt])
+  );
+}
+
+/**
+ * Cached rationales for `key`, or null on a miss.
+ */
+export async function readCachedRationales(
+  key: string
+): Promise<Rationales | null> {
+  const hit = memory.get(key);
+  if (hit) {
+    remember(key, hit);
+    return { ...hit };
+  }
+  if (!supabaseAdmin) return null;
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(TABLE)
+      .select("rationales")
+      .eq("key", key)
+      .maybeSingle();
+    if (error) throw error;
+    const rationales = (data as { rationales?: Rationales } | null)?.rationales;
+    if (!rationales) return null;
+    remember(key, rationales);
+    return { ...rationales };
+  } catch (e) {
+    console.warn("⚠️ [RationaleCache] read failed:", (e as Error)?.message);
+    return null;
+  }
+}
+
+export async function writeCachedRationales(
+  key: string,
+  rationales: Rationales
+): Promise<void> {
+  remember(key, { ...rationales });
+  if (!supabaseAdmin) return;
+  try {
+    const { error } = await supabaseAdmin
+      .from(TABLE)
+      .upsert({ key, rationales } as never);
+    if (error) throw error;
+  } catch (e) {
+    console.warn("⚠️ [RationaleCache] write failed:", (e as Error)?.message);
+  }
+}
@@ -0,0 +1,50 @@
+import { createClient } from "@supabase/supabase-js";
+import { isSupabaseConfigured, type SupabaseDb } from "./supabaseClient";
+
+/**
+ * Server-side view of the signed-in user.
+ *
+ * The browser keeps its Supabase session in localStorage, so server actions
+ * receive the session's access token (`getAccessToken` in authSupabase.ts)
+ * instead of a user id. The token is checked with Supabase Auth, and the
+ * returned client sends it on every query so row level security applies as
+ * that user.
+ */
+
+export type ServerSession = {
+  userId: string;
+  email: string | null;
+  db: SupabaseDb; // queries run as this user
+};
+
+/**
+ * Verify an access token. Null when it is missing, invalid or expired, or
+ * when Supabase is not configured (there are no accounts then).
+ */
+export async function getServerSession(
+  accessToken: string | null | undefined
+): Promise<ServerSession | null> {
+  if (!isSupabaseConfigured || !accessToken) return null;
+  try {
+    const db = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL as string,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string,
+      {
+        global: { headers: { Authorization: `Bearer ${accessToken}` } },
+        auth: { persistSession: false, autoRefreshToken: false },
+      }
+    ) as SupabaseDb;
+    const { data, error } = await db.auth.getUser(accessToken);
+    if (error || !data.user) return null;
+    return { userId: data.user.id, email: data.user.email ?? null, db };
+  } catch (e) {
+    console.warn("[serverSession] Token check failed:", e);
+    return null;
+  }
+}
+
+// The access token from an `Authorization: Bearer <token>` header
+export function bearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
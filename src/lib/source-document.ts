@@ -0,0 +1,65 @@
+import type { SourceDocument } from "./types";
+
+/**
+ * Helpers for the extracted source text kept alongside a course.
+ * Runs in both the browser and Node (uses Web Crypto for hashing).
+ */
+
+// Upper bound on text sent for generation (~300 pages). Anything beyond the
+// single-pass limit is drafted section by section on the server.
+export const MAX_SOURCE_CHARS = 1_000_000;
+
+// Separator placed between pages when they are joined into one text
+export const PAGE_SEPARATOR = "\n\n";
+
+export async function hashText(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await globalThis.crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Join page texts and record where each page starts in the joined text.
+ */
+export function joinPages(pages: string[]): {
+  text: string;
+  pageOffsets: number[];
+} {
+  const pageOffsets: number[] = [];
+  let text = "";
+  pages.forEach((page, i) => {
+    if (i > 0) text += PAGE_SEPARATOR;
+    pageOffsets.push(text.length);
+    text += page;
+  });
+  return { text, pageOffsets };
+}
+
+export async function createSourceDocument(
+  text: string,
+  opts: { filename?: string; pageOffsets?: number[] } = {}
+): Promise<SourceDocument> {
+  const pageOffsets = opts.pageOffsets?.length ? opts.pageOffsets : [0];
+  return {
+    filename: opts.filename,
+    text,
+    pageOffsets,
+    pageCount: pageOffsets.length,
+    contentHash: await hashText(text),
+    extractedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * 1-based page number containing the given character offset.
+ */
+export function pageAtOffset(pageOffsets: number[], offset: number): number {
+  let page = 1;
+  for (let i = 0; i < pageOffsets.length; i++) {
+    if (pageOffsets[i] <= offset) page = i + 1;
+    else break;
+  }
+  return page;
+}
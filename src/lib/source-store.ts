@@ -0,0 +1,112 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  findCourseIdBySourceHash,
+  getCourseSource,
+  saveCourseSource,
+} from "./auth";
+import { localOwnerId } from "./local-user";
+import { getServerSession } from "./server-session";
+import type { SupabaseDb } from "./supabaseClient";
+import type { SourceDocument } from "./types";
+
+/**
+ * Server-only persistence for the source document behind a saved course.
+ *
+ * Prefers the `source_*` columns of `user_courses` (see auth.ts). When
+ * Supabase is not configured, the course only has a temporary id, or the
+ * write fails, documents go to JSON files under SOURCE_STORE_DIR
+ * (default `.data/sources/<user>/<course>.json`). Server actions pass the
+ * verified session's user and client (see course-actions.ts).
+ */
+
+const storeDir = () =>
+  process.env.SOURCE_STORE_DIR || path.join(process.cwd(), ".data", "sources");
+
+const safeSegment = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+
+const localPath = (uid: string, courseId: string) =>
+  path.join(storeDir(), safeSegment(uid), `${safeSegment(courseId)}.json`);
+
+/**
+ * Whose documents a request may read: the verified session's user or,
+ * without one, the browser's local user id (see local-user.ts).
+ */
+export async function sourceOwner(
+  accessToken: string | null,
+  localUserId?: string | null
+): Promise<{ uid: string; db?: SupabaseDb } | null> {
+  const session = await getServerSession(accessToken);
+  if (session) return { uid: session.userId, db: session.db };
+  const uid = localOwnerId(localUserId);
+  return uid ? { uid } : null;
+}
+
+/**
+ * Store the source document for a saved course.
+ * Returns where it was written, or null when both stores failed.
+ */
+export async function saveSourceDocument(
+  uid: string,
+  courseId: string,
+  doc: SourceDocument,
+  db?: SupabaseDb
+): Promise<"supabase" | "local" | null> {
+  if (await saveCourseSource(uid, courseId, doc, db)) return "supabase";
+
+  try {
+    const file = localPath(uid, courseId);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ courseId, ...doc }), "utf8");
+    return "local";
+  } catch (e) {
+    console.warn("[sourceStore.save] Local write failed:", e);
+    return null;
+  }
+}
+
+/**
+ * Load the source document for a saved course, or null when none was stored.
+ */
+export async function getSourceDocument(
+  uid: string,
+  courseId: string,
+  db?: SupabaseDb
+): Promise<SourceDocument | null> {
+  const remote = await getCourseSource(uid, courseId, db);
+  if (remote) return remote;
+
+  try {
+    const raw = await fs.readFile(localPath(uid, courseId), "utf8");
+    const stored = JSON.parse(raw);
+    delete stored.courseId;
+    return stored as SourceDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a course the user already generated from identical source text.
+ */
+export async function findCourseBySourceHash(
+  uid: string,
+  contentHash: string,
+  db?: SupabaseDb
+): Promise<string | null> {
+  const remote = await findCourseIdBySourceHash(uid, contentHash, db);
+  if (remote) return remote;
+
+  try {
+    const dir = path.join(storeDir(), safeSegment(uid));
+    for (const name of await fs.readdir(dir)) {
+      if (!name.endsWith(".json")) continue;
+      const raw = await fs.readFile(path.join(dir, name), "utf8");
+      const stored = JSON.parse(raw) as SourceDocument & { courseId: string };
+      if (stored.contentHash === contentHash) return stored.courseId;
+    }
+  } catch {
+    // No local store for this user yet
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+/**
+ * SM-2 spaced repetition for lesson quiz questions.
+ *
+ * Each question a learner answers becomes a review card with an ease factor,
+ * an interval and a due date. A correct answer pushes the next review further
+ * out (1 day, 6 days, then interval × ease); a wrong answer resets the card
+ * to tomorrow and lowers its ease.
+ */
+
+export type ReviewSchedule = {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // consecutive correct reviews
+  lapses: number; // times the card was forgotten after being learned
+  dueAt: Date;
+  lastReviewedAt?: Date;
+};
+
+// SM-2 answer quality: 0 (blackout) to 5 (perfect recall)
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Answers slower than this count as hard-won recall (quality 3)
+const SLOW_ANSWER_MS = 30_000;
+// Answers faster than this count as perfect recall (quality 5)
+const FAST_ANSWER_MS = 8_000;
+
+/**
+ * Quality for a multiple-choice answer. Quizzes only tell us right or
+ * wrong, so the time taken separates easy recall from hard recall.
+ */
+export function qualityFromAnswer(
+  correct: boolean,
+  elapsedMs?: number
+): ReviewQuality {
+  if (!correct) return 1;
+  if (elapsedMs === undefined) return 4;
+  if (elapsedMs <= FAST_ANSWER_MS) return 5;
+  return elapsedMs >= SLOW_ANSWER_MS ? 3 : 4;
+}
+
+/**
+ * The schedule after reviewing a card (`previous` is undefined for a card
+ * seen for the first time).
+ */
+export function scheduleReview(
+  previous: ReviewSchedule | undefined,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): ReviewSchedule {
+  const prev = previous || {
+    easeFactor: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+  };
+
+  const easeFactor = Math.max(
+    MIN_EASE,
+    prev.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  let lapses = prev.lapses;
+  if (quality < 3) {
+    if (prev.repetitions > 0) lapses++;
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = prev.repetitions + 1;
+    intervalDays =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+          ? 6
+          : Math.round(prev.intervalDays * prev.easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
+
+export function isDue(
+  card: Pick<ReviewSchedule, "dueAt">,
+  now: Date = new Date()
+): boolean {
+  return card.dueAt.getTime() <= now.getTime();
+}
+
+/**
+ * Due cards, most overdue first.
+ */
+export function dueCards<T extends Pick<ReviewSchedule, "dueAt">>(
+  cards: T[],
+  now: Date = new Date()
+): T[] {
+  return cards
+    .filter((card) => isDue(card, now))
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+}
+
+/**
+ * Stable id for a question within a course. Question text identifies the
+ * card, so regenerated lessons keep the history of unchanged questions.
+ */
+export function reviewCardId(courseId: string, question: string): string {
+  // FNV-1a: cheap, synchronous and identical in the browser and on the server
+  let hash = 0x811c9dc5;
+  const text = question.trim().toLowerCase();
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${courseId}:${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
@@ -0,0 +1,157 @@
+/**
+ * Minimal read-only SQLite support for question bank packages (Anki .apkg
+ * files are zipped SQLite databases).
+ *
+ * Walks the table b-trees of a database held in memory and decodes their
+ * records, following overflow pages. No indexes, WITHOUT ROWID tables, WAL
+ * files or UTF-16 databases.
+ */
+
+export type SqliteValue = null | number | string | Buffer;
+
+// INTEGER PRIMARY KEY columns are stored as null; their value is the rowid
+export type SqliteRow = { rowid: number; values: SqliteValue[] };
+
+type Database = { data: Buffer; pageSize: number; usableSize: number };
+
+const MAGIC = "SQLite format 3\0";
+const INTERIOR_TABLE = 5;
+const LEAF_TABLE = 13;
+
+const corrupt = () => new Error("Corrupt SQLite database");
+
+export function isSqlite(data: Buffer): boolean {
+  return data.length >= 100 && data.toString("latin1", 0, 16) === MAGIC;
+}
+
+/**
+ * All rows of a table, in rowid order, or null when there is no such table.
+ */
+export function readSqliteTable(
+  data: Buffer,
+  table: string
+): SqliteRow[] | null {
+  const db = open(data);
+  const schema = readTree(db, 1).find(
+    ({ values }) => values[0] === "table" && values[1] === table
+  );
+  return schema ? readTree(db, Number(schema.values[3])) : null;
+}
+
+function open(data: Buffer): Database {
+  if (!isSqlite(data)) throw new Error("Not a SQLite database");
+  if (data.readUInt32BE(56) > 1) {
+    throw new Error("Only UTF-8 SQLite databases can be read");
+  }
+  const size = data.readUInt16BE(16);
+  const pageSize = size === 1 ? 65536 : size;
+  return { data, pageSize, usableSize: pageSize - data[20] };
+}
+
+function pageStart({ data, pageSize }: Database, page: number): number {
+  if (page < 1 || page * pageSize > data.length) throw corrupt();
+  return (page - 1) * pageSize;
+}
+
+// Big-endian base-128; the ninth byte, if any, contributes all 8 bits
+function varint(data: Buffer, pos: number): [value: number, length: number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = data[pos + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + data[pos + 8], 9];
+}
+
+function readTree(db: Database, root: number): SqliteRow[] {
+  const rows: SqliteRow[] = [];
+  const seen = new Set<number>();
+  const walk = (page: number) => {
+    if (seen.has(page)) throw corrupt();
+    seen.add(page);
+    const start = pageStart(db, page);
+    const header = page === 1 ? start + 100 : start;
+    const type = db.data[header];
+    const count = db.data.readUInt16BE(header + 3);
+    const pointers = header + (type === INTERIOR_TABLE ? 12 : 8);
+    for (let i = 0; i < count; i++) {
+      const cell = start + db.data.readUInt16BE(pointers + 2 * i);
+      if (type === INTERIOR_TABLE) walk(db.data.readUInt32BE(cell));
+      else if (type === LEAF_TABLE) rows.push(readCell(db, cell));
+      else throw corrupt();
+    }
+    if (type === INTERIOR_TABLE) walk(db.data.readUInt32BE(header + 8));
+  };
+  walk(root);
+  return rows;
+}
+
+function readCell(db: Database, cell: number): SqliteRow {
+  const [size, sizeLength] = varint(db.data, cell);
+  const [rowid, rowidLength] = varint(db.data, cell + sizeLength);
+  const payload = readPayload(db, cell + sizeLength + rowidLength, size);
+  return { rowid, values: decodeRecord(payload) };
+}
+
+// Payloads too big for the page continue on a chain of overflow pages
+function readPayload(db: Database, pos: number, size: number): Buffer {
+  const { data, usableSize } = db;
+  const maxLocal = usableSize - 35;
+  if (size <= maxLocal) return data.subarray(pos, pos + size);
+
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+  const spill = minLocal + ((size - minLocal) % (usableSize - 4));
+  const local = spill <= maxLocal ? spill : minLocal;
+  const parts = [data.subarray(pos, pos + local)];
+  let remaining = size - local;
+  let next = data.readUInt32BE(pos + local);
+  const seen = new Set<number>();
+  while (remaining > 0) {
+    if (seen.has(next)) throw corrupt();
+    seen.add(next);
+    const start = pageStart(db, next);
+    const length = Math.min(remaining, usableSize - 4);
+    parts.push(data.subarray(start + 4, start + 4 + length));
+    remaining -= length;
+    next = data.readUInt32BE(start);
+  }
+  return Buffer.concat(parts);
+}
+
+const INTEGER_SIZES = [0, 1, 2, 3, 4, 6, 8];
+
+function decodeRecord(payload: Buffer): SqliteValue[] {
+  const [headerSize, headerLength] = varint(payload, 0);
+  const values: SqliteValue[] = [];
+  let pos = headerLength;
+  let body = headerSize;
+  while (pos < headerSize) {
+    const [type, length] = varint(payload, pos);
+    pos += length;
+    if (type === 0) {
+      values.push(null);
+    } else if (type <= 6) {
+      const size = INTEGER_SIZES[type];
+      values.push(
+        size === 8
+          ? Number(payload.readBigInt64BE(body))
+          : payload.readIntBE(body, size)
+      );
+      body += size;
+    } else if (type === 7) {
+      values.push(payload.readDoubleBE(body));
+      body += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const size = Math.floor((type - 12) / 2);
+      const bytes = payload.subarray(body, body + size);
+      values.push(type % 2 ? bytes.toString("utf8") : Buffer.from(bytes));
+      body += size;
+    } else {
+      throw corrupt();
+    }
+  }
+  return values;
+}
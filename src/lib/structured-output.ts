@@ -0,0 +1,275 @@
+import type { z } from "zod";
+import { aiGenerateStream } from "./ai-provider";
+
+/**
+ * Structured output for AI flows: pull JSON out of a model response, repair
+ * the usual defects, validate it against a zod schema and, when that fails,
+ * re-prompt the model with the validation errors.
+ */
+
+// First attempt plus two re-prompts
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_REPORTED_ISSUES = 8;
+
+export type StructuredOutputErrorKind =
+  | "no_json" // nothing that looks like JSON in the response
+  | "invalid_json" // JSON-like text that could not be parsed, even repaired
+  | "schema_mismatch"; // parsed, but does not match the schema
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    readonly kind: StructuredOutputErrorKind,
+    readonly issues: string[],
+    readonly raw: string,
+    readonly attempts = 1
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export type StructuredResult<T> =
+  | { ok: true; data: T; attempts: number; repaired: boolean }
+  | { ok: false; error: StructuredOutputError };
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * Text inside the first ``` fence, or the input unchanged. An unterminated
+ * fence (truncated response) runs to the end of the text.
+ */
+export function stripCodeFences(text: string): string {
+  const fenced = text.match(/```[a-zA-Z]*\s*\n?([\s\S]*?)(?:```|$)/);
+  return fenced ? fenced[1] : text;
+}
+
+/**
+ * The first JSON object or array in `text`, up to its matching close.
+ * When the value never closes (truncated output) the rest of the text is
+ * returned so `repairJson` can close it.
+ */
+export function extractJsonText(
+  text: string,
+  expect?: "object" | "array"
+): string | null {
+  const body = stripCodeFences(text);
+  const openers = expect === "object" ? "{" : expect === "array" ? "[" : "{[";
+  let start = -1;
+  for (let i = 0; i < body.length; i++) {
+    if (openers.includes(body[i])) {
+      start = i;
+      break;
+    }
+  }
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < body.length; i++) {
+    const ch = body[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "{" || ch === "[") depth++;
+    else if (ch === "}" || ch === "]") {
+      depth--;
+      if (depth === 0) return body.slice(start, i + 1);
+    }
+  }
+  return body.slice(start).trim();
+}
+
+/**
+ * Best-effort fixes for common model JSON defects:
+ * - trailing commas before `}` / `]`
+ * - output cut off mid-value: the open string is closed, a dangling key or
+ *   comma is dropped and the open arrays/objects are closed
+ */
+export function repairJson(text: string): string {
+  let out = "";
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of text) {
+    if (inString) {
+      out += ch;
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch === "{" ? "}" : "]");
+      out += ch;
+    } else if (ch === "}" || ch === "]") {
+      out = out.replace(/,\s*$/, "");
+      stack.pop();
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+
+  if (stack.length === 0 && !inString) return out;
+
+  // Truncated: close the open string, then trim what cannot be completed
+  if (inString) out += escaped ? '\\"' : '"';
+  out = out.trimEnd();
+  if (stack[stack.length - 1] === "}") {
+    // A key without a value (`"key"` or `"key":`)
+    out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, "$1");
+  }
+  // A partial literal such as `tru` or `-`
+  out = out.replace(/([[:,])\s*(?:t|tr|tru|f|fa|fal|fals|n|nu|nul|-)$/, "$1");
+  out = out.replace(/:\s*$/, ": null");
+  out = out.replace(/,\s*$/, "");
+  return out + stack.reverse().join("");
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+}
+
+/**
+ * Parse and validate one model response. Repairs are only tried when the
+ * extracted text is not valid JSON as-is.
+ */
+export function parseStructured<T>(
+  raw: string,
+  schema: Schema<T>,
+  opts: { expect?: "object" | "array" } = {}
+): StructuredResult<T> {
+  const text = extractJsonText(raw, opts.expect);
+  if (!text) {
+    return {
+      ok: false,
+      error: new StructuredOutputError(
+        "The AI response did not contain JSON.",
+        "no_json",
+        [`Expected a JSON ${opts.expect || "value"}, found none`],
+        raw
+      ),
+    };
+  }
+
+  let value: unknown;
+  let repaired = false;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    try {
+      value = JSON.parse(repairJson(text));
+      repaired = true;
+    } catch (e) {
+      return {
+        ok: false,
+        error: new StructuredOutputError(
+          "The AI returned malformed JSON.",
+          "invalid_json",
+          [(e as Error)?.message || "Unparseable JSON"],
+          raw
+        ),
+      };
+    }
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return {
+      ok: false,
+      error: new StructuredOutputError(
+        "The AI response did not match the expected structure.",
+        "schema_mismatch",
+        formatIssues(result.error),
+        raw
+      ),
+    };
+  }
+  return { ok: true, data: result.data, attempts: 1, repaired };
+}
+
+export type GenerateStructuredOptions = {
+  system?: string;
+  timeout?: number;
+  model?: string;
+  signal?: AbortSignal;
+  expect?: "object" | "array";
+  maxAttempts?: number;
+  flow?: string; // see AiGenerateOptions
+  label?: string; // used in logs, defaults to `flow`
+};
+
+/**
+ * Prompt the model and return schema-validated data, re-prompting with the
+ * validation errors up to `maxAttempts` times in total. Provider errors
+ * (network, timeout, cancellation) are thrown, not retried.
+ */
+export async function generateStructured<T>(
+  prompt: string,
+  schema: Schema<T>,
+  opts: GenerateStructuredOptions = {}
+): Promise<StructuredResult<T>> {
+  const maxAttempts = Math.max(1, opts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const label = opts.label || opts.flow || "structured output";
+  let currentPrompt = prompt;
+  let lastError: StructuredOutputError | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let raw = "";
+    for await (const chunk of aiGenerateStream(currentPrompt, {
+      system: opts.system,
+      timeout: opts.timeout,
+      model: opts.model,
+      signal: opts.signal,
+      flow: opts.flow,
+    })) {
+      raw += chunk;
+    }
+
+    const result = parseStructured(raw, schema, { expect: opts.expect });
+    if (result.ok) {
+      if (attempt > 1 || result.repaired) {
+        console.log(
+          `🔧 [${label}] Valid JSON after ${attempt} attempt(s)${result.repaired ? " (repaired)" : ""}`
+        );
+      }
+      return { ...result, attempts: attempt };
+    }
+
+    lastError = result.error;
+    console.warn(
+      `⚠️ [${label}] Attempt ${attempt}/${maxAttempts} failed (${lastError.kind}):`,
+      lastError.issues.join("; ")
+    );
+    currentPrompt = `${prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED:
+${lastError.issues.map((i) => `- ${i}`).join("\n")}
+
+Respond again with ONLY the corrected JSON ${opts.expect || "value"}. No markdown, no explanation.`;
+  }
+
+  const error = lastError!;
+  return {
+    ok: false,
+    error: new StructuredOutputError(
+      error.message,
+      error.kind,
+      error.issues,
+      error.raw,
+      maxAttempts
+    ),
+  };
+}
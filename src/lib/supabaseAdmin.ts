@@ -0,0 +1,19 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SupabaseDb } from "./supabaseClient";
+
+/**
+ * Service-role client for server-side jobs that work across users (the link
+ * sweeper and video replacement review). It bypasses row level security, so
+ * only import it from server code: `SUPABASE_SERVICE_ROLE_KEY` is not a
+ * `NEXT_PUBLIC_` variable and is undefined in the browser, where this is null.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export const supabaseAdmin: SupabaseDb | null =
+  supabaseUrl && serviceRoleKey
+    ? (createClient(supabaseUrl, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      }) as SupabaseDb)
+    : null;
@@ -10,4 +10,6 @@ export const supabase = isSupabaseConfigured
   ? createClient(supabaseUrl as string, supabaseAnonKey as string)
   : (null as unknown as ReturnType<typeof createClient>);
 
+export type SupabaseDb = typeof supabase;
+
 export type { AuthChangeEvent, Session, User } from "@supabase/supabase-js";
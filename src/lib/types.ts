@@ -1,4 +1,7 @@
 import type { AnalyzeDocumentOutput } from "@/ai/flows/schemas";
+import type { AdaptiveCourse, Quiz } from "./adaptive-types";
+import type { QuizQualityReport } from "./quiz-quality";
+import type { VideoChapter, VideoSegment } from "./video-segments";
 
 export type CourseAnalysis = AnalyzeDocumentOutput;
 
@@ -10,6 +13,11 @@ type LessonSchema = Module["lessons"][number];
 type ResourceSchema =
   | (NonNullable<NonNullable<LessonSchema["resources"]>["youtube"]>[number] & {
     type: "video";
+    // Parsed from `timestamps` (see video-segments.ts)
+    segment?: VideoSegment;
+    chapters?: VideoChapter[];
+    // 0-1 when the video was matched to the lesson (see video-matching.ts)
+    matchConfidence?: number;
   })
   | (NonNullable<NonNullable<LessonSchema["resources"]>["articles"]>[number] & {
     type: "article";
@@ -20,6 +28,13 @@ type ResourceSchema =
     type: "docs";
   });
 
+// How a quiz question is answered: pick an option, type a short answer,
+// complete a code snippet, or carry out a task and self-assess it
+export type QuizQuestionType = "MCQ" | "Short" | "Code" | "Practical";
+
+// Tagged on generated questions; drives adaptive quizzes (see adaptive-quiz.ts)
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
 // Augmented types with client-side IDs and more details for the interactive phase
 export type Lesson = Omit<LessonSchema, "resources" | "quiz"> & {
   id: string;
@@ -28,12 +43,20 @@ export type Lesson = Omit<LessonSchema, "resources" | "quiz"> & {
   resources?: ResourceSchema[];
   quiz?: {
     question: string;
-    answer: string;
+    type?: QuizQuestionType; // untyped questions play as MCQ (with options) or Short
+    answer: string; // for Practical tasks: a model solution
     options?: string[];
     explanation?: string;
+    rubric?: string[]; // Practical: self-assessment criteria
+    language?: string; // Code: language of the snippet, e.g. "python"
+    difficulty?: QuestionDifficulty;
+    conceptsTested?: string[];
+    section?: string; // exam papers: results are broken down by section
+    distractorRationales?: Record<string, string>; // MCQ: wrong option → why it's wrong
   }[];
   timeEstimateMinutes?: number;
   isCompleted?: boolean;
+  sourceChunkIds?: string[]; // PDF chunks the lesson was generated from (adaptive courses)
 };
 
 export type Session = {
@@ -52,16 +75,82 @@ export type Course = {
   total_estimated_time?: string;
   readiness_score: number; // Kept for compatibility
   analysis_report: CourseAnalysis; // include the full analysis for potential detailed views
+  adaptive_course?: AdaptiveCourse; // present when generated by the adaptive pipeline
+  source_document?: SourceDocument; // extracted upload; only sent to the server, never kept in localStorage
+  source_ref?: SourceRef; // where the source document is stored, for "Ask the Document"
+  exam?: ExamSettings; // present for quiz papers, which play as timed exams
+  quiz_quality?: QuizQualityReport; // from validateCourseQuizzes, for generated courses
+  require_segment_watch?: boolean; // lessons complete only once their video segments are watched
+};
+
+// How an exam course is sat; attempts are counted per user and exam
+export type ExamSettings = Pick<
+  Quiz,
+  "passingScore" | "timeLimit" | "attemptsAllowed"
+> & {
+  examId: string;
+};
+
+// Points at a course's source document without carrying its text, which
+// can run to a million characters. The text is fetched on demand by
+// useSourceDocument: from this tab's memory by hash, else from the server by
+// saved course id.
+export type SourceRef = {
+  courseId?: string; // the saved course (user_courses row or local store id)
+  contentHash?: string;
+  filename?: string;
+};
+
+// The text extracted from an upload, kept so the course can be traced back
+// to (and questioned against) its source
+export type SourceDocument = {
+  filename?: string;
+  text: string;
+  pageOffsets: number[]; // character offset where each page starts in `text`
+  pageCount: number;
+  contentHash: string; // sha256 of `text`, used to dedupe identical uploads
+  extractedAt: string;
 };
 
 // Extracted for convenience
 export type Resource = NonNullable<Lesson["resources"]>[0];
 export type QuizQuestion = NonNullable<Lesson["quiz"]>[0];
 
+// One answered (or skipped) question within a quiz attempt
+export type QuizAnswerRecord = {
+  question: string;
+  selected: string | null; // null when skipped
+  correct: boolean;
+  elapsedMs: number;
+  difficulty?: QuestionDifficulty;
+  concepts?: string[];
+};
+
+// A finished run through a lesson quiz, as reported by QuizCard
+export type QuizAttempt = {
+  startedAt: string;
+  completedAt: string;
+  answers: QuizAnswerRecord[];
+  correct: number;
+  total: number;
+  score: number; // 0-100
+  passed: boolean;
+  elapsedMs: number;
+  adaptive?: boolean; // questions were picked by running performance
+  mastery?: Record<string, number>; // concept → estimated mastery, 0-1
+};
+
 // Storage types
+
+// "tested_out": skipped after the placement quiz (see placement.ts)
+export type LessonProgressStatus = "completed" | "tested_out";
+
 export type StoredCourse = {
   course: Course;
-  progress: Record<string, "completed">; // Key is lesson.id
+  progress: Record<string, LessonProgressStatus>; // Key is lesson.id
+  quizScores?: Record<string, number>; // lesson.id → best quiz score, 0-100
+  unlockOverrides?: string[]; // lesson ids unlocked by the instructor (see prerequisites.ts)
+  watchedSegments?: Record<string, string[]>; // lesson.id → segmentKey()s watched
   createdAt: string;
 };
 
@@ -71,5 +160,30 @@ export type StudySession = {
   sessionIndex: number;
   durationMinutes: number;
   totalStepsInCourse: number; // Note: "steps" are now "lessons"
-  completedStepsInCourse: number;
+  completedStepsInCourse: number; // includes tested-out lessons
 };
+
+// Progress events streamed by /api/generate (one JSON object per line)
+export type GenerationEvent =
+  | { type: "extracted"; chars: number; mapReduce: boolean }
+  | {
+      type: "section";
+      section: number; // 1-based
+      total: number;
+      title?: string;
+      status: "started" | "drafted" | "failed";
+    }
+  | { type: "warning"; message: string } // e.g. part of the text was left out
+  | { type: "module"; index: number; module: CourseAnalysis["modules"][number] }
+  | { type: "quizzes"; index: number; lessons: number; questions: number }
+  | {
+      type: "video";
+      lessonId: string;
+      lessonTitle: string;
+      videoTitle?: string; // absent when no video was found
+    }
+  | { type: "cached"; generatedAt: string } // served from the generation cache
+  | { type: "course"; course: Course }
+  | { type: "audit"; recommendations: string[] }
+  | { type: "done" }
+  | { type: "error"; error: string };
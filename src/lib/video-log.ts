@@ -1,4 +1,4 @@
-import { supabase, isSupabaseConfigured } from "./supabaseClient";
+import { supabaseAdmin } from "./supabaseAdmin";
 
 export type VideoReplacementLog = {
   originalUrl: string;
@@ -17,12 +17,13 @@ export type VideoReplacementLog = {
 /**
  * Best-effort logging to Supabase table `video_replacements`.
  * The table is expected to have columns compatible with VideoReplacementLog plus created_at (timestamp default now()).
- * Function fails quietly if Supabase is not configured or the table is missing.
+ * Only the service role can write it (see docs/DB_SCHEMA.md), so this runs server-side.
+ * Function fails quietly if the service-role key is not set or the table is missing.
  */
 export async function logVideoReplacement(entry: VideoReplacementLog) {
   try {
-    if (!isSupabaseConfigured) return;
-    await supabase.from("video_replacements").insert({
+    if (!supabaseAdmin) return;
+    await supabaseAdmin.from("video_replacements").insert({
       ...entry,
       created_at: new Date().toISOString(),
     } as any);
@@ -37,8 +38,8 @@ export async function logVideoReplacement(entry: VideoReplacementLog) {
  */
 export async function logVideoReplacementPending(entry: VideoReplacementLog) {
   try {
-    if (!isSupabaseConfigured) return;
-    await supabase.from("video_replacements").insert({
+    if (!supabaseAdmin) return;
+    await supabaseAdmin.from("video_replacements").insert({
       ...entry,
       metadata: { ...(entry.metadata || {}), status: "pending" },
       created_at: new Date().toISOString(),
@@ -50,8 +51,8 @@ export async function logVideoReplacementPending(entry: VideoReplacementLog) {
 
 export async function listVideoReplacements(limit = 50) {
   try {
-    if (!isSupabaseConfigured) return [] as any[];
-    const { data } = await supabase
+    if (!supabaseAdmin) return [] as any[];
+    const { data } = await supabaseAdmin
       .from("video_replacements")
       .select("*")
       .order("created_at", { ascending: false })
@@ -0,0 +1,208 @@
+import { cosineSimilarity, tokenize, type EmbedFn } from "./rag";
+
+/**
+ * Video-to-lesson matching.
+ *
+ * Every lesson/video pair gets a similarity in [0, 1]: the cosine of their
+ * embeddings when an embedding function is supplied, otherwise the cosine of
+ * TF-IDF vectors built over all lesson and video texts (lightly stemmed, so
+ * "sorting" meets "sort"). Embedding failures fall back to TF-IDF.
+ *
+ * Videos are then assigned to lessons with the Hungarian algorithm, which
+ * maximises the total similarity over all lessons at once (each video used
+ * at most once), instead of letting early lessons take the best videos.
+ * Pairs scoring under the method's minimum are never matched; the
+ * similarity of a kept pair is its confidence.
+ */
+
+export type MatchMethod = "tfidf" | "embedding";
+
+export type SimilarityMatrix = {
+  method: MatchMethod;
+  scores: number[][]; // [lesson][video], 0-1
+};
+
+export type VideoAssignment = {
+  lesson: number; // index into the lessons
+  video: number; // index into the videos
+  confidence: number; // 0-1
+};
+
+// Embedding cosines of unrelated texts are rarely near 0, so they need a
+// higher bar than TF-IDF, where any shared rare term is a signal
+export const MIN_MATCH_SIMILARITY: Record<MatchMethod, number> = {
+  tfidf: 0.15,
+  embedding: 0.55,
+};
+
+// Crude suffix stripping; enough to line up word forms in short titles
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  return token
+    .replace(/ies$/, "y")
+    .replace(/(sh|ch|x|z|ss)es$/, "$1")
+    .replace(/([^s])s$/, "$1")
+    .replace(/(?:ing|ed)$/, "");
+}
+
+/**
+ * TF-IDF vectors for `texts` over their shared vocabulary. Smoothed idf, so
+ * terms in every text still count a little.
+ */
+export function tfidfVectors(texts: string[]): number[][] {
+  const docs = texts.map((text) => tokenize(text).map(stem));
+  const vocabulary = new Map<string, number>();
+  const docFreq: number[] = [];
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      if (!vocabulary.has(term)) {
+        vocabulary.set(term, vocabulary.size);
+        docFreq.push(0);
+      }
+      docFreq[vocabulary.get(term)!]++;
+    }
+  }
+
+  return docs.map((doc) => {
+    const vector = new Array<number>(vocabulary.size).fill(0);
+    for (const term of doc) vector[vocabulary.get(term)!]++;
+    vocabulary.forEach((index) => {
+      if (!vector[index]) return;
+      const idf = Math.log((docs.length + 1) / (docFreq[index] + 1)) + 1;
+      vector[index] *= idf;
+    });
+    return vector;
+  });
+}
+
+/**
+ * Similarity of every lesson text to every video text.
+ */
+export async function scoreVideoLessonPairs(
+  lessonTexts: string[],
+  videoTexts: string[],
+  opts: { embed?: EmbedFn } = {}
+): Promise<SimilarityMatrix> {
+  const pairScores = (lessons: number[][], videos: number[][]) =>
+    lessons.map((lesson) =>
+      videos.map((video) => Math.max(0, cosineSimilarity(lesson, video)))
+    );
+
+  if (opts.embed) {
+    try {
+      const lessons: number[][] = [];
+      for (const text of lessonTexts) lessons.push(await opts.embed(text));
+      const videos: number[][] = [];
+      for (const text of videoTexts) videos.push(await opts.embed(text));
+      return { method: "embedding", scores: pairScores(lessons, videos) };
+    } catch (e) {
+      console.warn(
+        "⚠️ Embedding video matching failed, using TF-IDF:",
+        (e as Error)?.message
+      );
+    }
+  }
+
+  const vectors = tfidfVectors([...lessonTexts, ...videoTexts]);
+  return {
+    method: "tfidf",
+    scores: pairScores(
+      vectors.slice(0, lessonTexts.length),
+      vectors.slice(lessonTexts.length)
+    ),
+  };
+}
+
+/**
+ * Assignment of rows to columns maximising the total weight (Hungarian
+ * algorithm with potentials, O(n²m)). Returns the column for each row, or
+ * -1 for rows left over when there are more rows than columns.
+ */
+export function maxWeightAssignment(weights: number[][]): number[] {
+  const rows = weights.length;
+  const cols = rows ? weights[0].length : 0;
+  if (!rows || !cols) return new Array(rows).fill(-1);
+  if (rows > cols) {
+    // Solve the transpose so every row can be assigned
+    const transposed = weights[0].map((_, c) => weights.map((row) => row[c]));
+    const byCol = maxWeightAssignment(transposed);
+    const result = new Array<number>(rows).fill(-1);
+    byCol.forEach((row, col) => {
+      if (row >= 0) result[row] = col;
+    });
+    return result;
+  }
+
+  // 1-based minimum-cost formulation on negated weights
+  const cost = (i: number, j: number) => -weights[i - 1][j - 1];
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  const match = new Array<number>(cols + 1).fill(0); // column → row
+  const way = new Array<number>(cols + 1).fill(0);
+
+  for (let i = 1; i <= rows; i++) {
+    match[0] = i;
+    let col = 0;
+    const minv = new Array<number>(cols + 1).fill(Infinity);
+    const used = new Array<boolean>(cols + 1).fill(false);
+    do {
+      used[col] = true;
+      const row = match[col];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const reduced = cost(row, j) - u[row] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = col;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          next = j;
+        }
+      }
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      col = next;
+    } while (match[col] !== 0);
+    do {
+      const prev = way[col];
+      match[col] = match[prev];
+      col = prev;
+    } while (col);
+  }
+
+  const result = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (match[j]) result[match[j] - 1] = j - 1;
+  }
+  return result;
+}
+
+/**
+ * Globally best lesson/video pairs, keeping only those at or above
+ * `minSimilarity` (by default the method's MIN_MATCH_SIMILARITY).
+ */
+export function assignVideosToLessons(
+  similarity: SimilarityMatrix,
+  minSimilarity = MIN_MATCH_SIMILARITY[similarity.method]
+): VideoAssignment[] {
+  // Pairs under the bar are worth nothing, so they never displace a real match
+  const weights = similarity.scores.map((row) =>
+    row.map((score) => (score >= minSimilarity ? score : 0))
+  );
+  const assignments: VideoAssignment[] = [];
+  maxWeightAssignment(weights).forEach((video, lesson) => {
+    if (video < 0 || weights[lesson][video] === 0) return;
+    const confidence = Math.round(similarity.scores[lesson][video] * 100) / 100;
+    assignments.push({ lesson, video, confidence });
+  });
+  return assignments;
+}
@@ -0,0 +1,382 @@
+import {
+  extractYouTubeId,
+  isYouTubeUrl,
+  validateYouTubeUrl,
+  YT_EMBED_URL,
+  YT_THUMBNAIL_URL,
+  YT_VIDEO_URL,
+  type YouTubeValidationReason,
+} from "./youtube";
+
+/**
+ * Video source providers.
+ *
+ * Each provider knows how to recognise its URLs, pull out a video ID, check
+ * the video with the host's oEmbed endpoint (a HEAD request for plain files)
+ * and build embed, watch and thumbnail URLs. `getVideoProvider` picks the
+ * provider for a URL; the lesson player (`VideoPlayer`) and the resources
+ * panel dispatch on it instead of looking for YouTube hosts.
+ *
+ * - youtube: youtube.com / youtu.be, validated by `validateYouTubeUrl`
+ * - vimeo: vimeo.com / player.vimeo.com, including unlisted `/<id>/<hash>` links
+ * - peertube: `/videos/watch/<id>`, `/videos/embed/<id>` and `/w/<id>` links,
+ *   only on the hosts in NEXT_PUBLIC_PEERTUBE_HOSTS (comma-separated). Any
+ *   site can serve those paths, so other hosts are never embedded.
+ * - mp4: direct links to .mp4, .webm, .ogv, .m4v and .mov files, played in a
+ *   `<video>` element
+ */
+
+export type VideoProviderName = "youtube" | "vimeo" | "peertube" | "mp4";
+
+export type VideoValidationReason = YouTubeValidationReason;
+
+export type VideoValidation = {
+  provider: VideoProviderName;
+  embeddable: boolean;
+  id: string | null;
+  embedUrl: string | null;
+  watchUrl: string | null; // null when the video looks gone
+  reason: VideoValidationReason;
+  title?: string;
+  author?: string;
+  thumbnail?: string;
+};
+
+export type EmbedOptions = {
+  start?: number; // seconds
+  end?: number; // seconds; ignored by Vimeo
+  autoplay?: boolean;
+  // Page origin, to turn on the player's postMessage API where it needs it
+  apiOrigin?: string;
+};
+
+export interface VideoProvider {
+  name: VideoProviderName;
+  label: string; // for "open it on …" links
+  player: "iframe" | "video";
+  matches(url: string): boolean;
+  extractId(url: string): string | null;
+  embedUrl(id: string, opts?: EmbedOptions): string;
+  watchUrl(id: string): string;
+  thumbnailUrl(id: string): string | null; // null when only oEmbed knows it
+  validate(url: string): Promise<VideoValidation>;
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    const u = new URL(url);
+    return u.protocol === "https:" || u.protocol === "http:" ? u : null;
+  } catch {
+    return null;
+  }
+}
+
+function withQuery(base: string, params: URLSearchParams): string {
+  const query = params.toString();
+  return query ? `${base}?${query}` : base;
+}
+
+function invalid(provider: VideoProviderName): VideoValidation {
+  return {
+    provider,
+    embeddable: false,
+    id: null,
+    embedUrl: null,
+    watchUrl: null,
+    reason: "invalid_url",
+  };
+}
+
+type OEmbedData = {
+  title?: string;
+  author_name?: string;
+  thumbnail_url?: string;
+};
+
+/**
+ * oEmbed lookup shared by Vimeo and PeerTube. A 404 means the video is gone
+ * and 401/403 that it is private; anything else that isn't a success (rate
+ * limits, outages, CORS in the browser) leaves the video playable as
+ * "unknown" rather than hiding it.
+ */
+async function validateWithOEmbed(
+  provider: VideoProvider,
+  id: string,
+  endpoint: string
+): Promise<VideoValidation> {
+  const base: VideoValidation = {
+    provider: provider.name,
+    embeddable: true,
+    id,
+    embedUrl: provider.embedUrl(id),
+    watchUrl: provider.watchUrl(id),
+    reason: "ok",
+  };
+  let r: { ok: boolean; status: number; json: () => Promise<unknown> };
+  try {
+    r = await fetch(endpoint);
+  } catch {
+    return { ...base, reason: "unknown" };
+  }
+  if (r.status === 404) {
+    return {
+      ...base,
+      embeddable: false,
+      embedUrl: null,
+      watchUrl: null,
+      reason: "not_found",
+    };
+  }
+  if (r.status === 401 || r.status === 403) {
+    return { ...base, embeddable: false, embedUrl: null, reason: "private" };
+  }
+  if (!r.ok) return { ...base, reason: "unknown" };
+
+  const data = ((await r.json().catch(() => null)) || {}) as OEmbedData;
+  return {
+    ...base,
+    title: data.title,
+    author: data.author_name,
+    thumbnail: data.thumbnail_url || provider.thumbnailUrl(id) || undefined,
+  };
+}
+
+export const youtubeProvider: VideoProvider = {
+  name: "youtube",
+  label: "YouTube",
+  player: "iframe",
+  matches: isYouTubeUrl,
+  extractId: extractYouTubeId,
+  embedUrl(id, opts = {}) {
+    const params = new URLSearchParams();
+    if (opts.start) params.set("start", String(opts.start));
+    if (opts.end !== undefined) params.set("end", String(opts.end));
+    if (opts.autoplay) params.set("autoplay", "1");
+    if (opts.apiOrigin) {
+      params.set("enablejsapi", "1");
+      params.set("origin", opts.apiOrigin);
+    }
+    return withQuery(YT_EMBED_URL(id), params);
+  },
+  watchUrl: YT_VIDEO_URL,
+  thumbnailUrl: YT_THUMBNAIL_URL,
+  async validate(url) {
+    const result = await validateYouTubeUrl(url);
+    return {
+      provider: "youtube",
+      ...result,
+      thumbnail:
+        result.thumbnail ||
+        (result.id ? YT_THUMBNAIL_URL(result.id) : undefined),
+    };
+  },
+};
+
+// Vimeo IDs are numeric; unlisted videos add a hash, kept as "<id>:<hash>"
+function splitVimeoId(id: string): { video: string; hash?: string } {
+  const [video, hash] = id.split(":");
+  return { video, hash };
+}
+
+export const vimeoProvider: VideoProvider = {
+  name: "vimeo",
+  label: "Vimeo",
+  player: "iframe",
+  matches(url) {
+    const host = parseUrl(url)?.hostname.replace(/^www\./, "");
+    return host === "vimeo.com" || host === "player.vimeo.com";
+  },
+  extractId(url) {
+    const u = parseUrl(url);
+    if (!u || !this.matches(url)) return null;
+    // vimeo.com/<id>, vimeo.com/<id>/<hash>, player.vimeo.com/video/<id>?h=<hash>,
+    // vimeo.com/channels/<name>/<id>, vimeo.com/groups/<name>/videos/<id>
+    const parts = u.pathname.split("/").filter(Boolean);
+    const index = parts.findIndex((part) => /^\d+$/.test(part));
+    if (index < 0) return null;
+    const next = parts[index + 1];
+    const hash =
+      u.searchParams.get("h") ||
+      (next && /^[0-9a-f]+$/i.test(next) ? next : null);
+    return hash ? `${parts[index]}:${hash}` : parts[index];
+  },
+  embedUrl(id, opts = {}) {
+    const { video, hash } = splitVimeoId(id);
+    const params = new URLSearchParams();
+    if (hash) params.set("h", hash);
+    if (opts.autoplay) params.set("autoplay", "1");
+    const url = withQuery(`https://player.vimeo.com/video/${video}`, params);
+    return opts.start ? `${url}#t=${opts.start}s` : url;
+  },
+  watchUrl(id) {
+    const { video, hash } = splitVimeoId(id);
+    return `https://vimeo.com/${video}${hash ? `/${hash}` : ""}`;
+  },
+  thumbnailUrl: () => null,
+  async validate(url) {
+    const id = this.extractId(url);
+    if (!id) return invalid("vimeo");
+    const endpoint = `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(this.watchUrl(id))}`;
+    return validateWithOEmbed(this, id, endpoint);
+  },
+};
+
+export function peertubeHosts(): string[] {
+  return (process.env.NEXT_PUBLIC_PEERTUBE_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// PeerTube IDs carry their instance, as "<host>/<video id>"
+function splitPeerTubeId(id: string): { host: string; video: string } {
+  const slash = id.lastIndexOf("/");
+  return { host: id.slice(0, slash), video: id.slice(slash + 1) };
+}
+
+export const peertubeProvider: VideoProvider = {
+  name: "peertube",
+  label: "PeerTube",
+  player: "iframe",
+  matches(url) {
+    return this.extractId(url) !== null;
+  },
+  extractId(url) {
+    const u = parseUrl(url);
+    if (!u || !peertubeHosts().includes(u.host)) return null;
+    const parts = u.pathname.split("/").filter(Boolean);
+    let video: string | undefined;
+    if (
+      parts[0] === "videos" &&
+      (parts[1] === "watch" || parts[1] === "embed")
+    ) {
+      video = parts[2];
+    } else if (parts[0] === "w") {
+      video = parts[1];
+    }
+    // Playlists (/w/p/<id>, /videos/watch/playlist/<id>) aren't single videos
+    if (!video || video === "p" || video === "playlist") return null;
+    return `${u.host}/${video}`;
+  },
+  embedUrl(id, opts = {}) {
+    const { host, video } = splitPeerTubeId(id);
+    const params = new URLSearchParams();
+    if (opts.start) params.set("start", `${opts.start}s`);
+    if (opts.end !== undefined) params.set("stop", `${opts.end}s`);
+    if (opts.autoplay) params.set("autoplay", "1");
+    return withQuery(`https://${host}/videos/embed/${video}`, params);
+  },
+  watchUrl(id) {
+    const { host, video } = splitPeerTubeId(id);
+    return `https://${host}/w/${video}`;
+  },
+  thumbnailUrl: () => null,
+  async validate(url) {
+    const id = this.extractId(url);
+    if (!id) return invalid("peertube");
+    const { host } = splitPeerTubeId(id);
+    const endpoint = `https://${host}/services/oembed?format=json&url=${encodeURIComponent(this.watchUrl(id))}`;
+    return validateWithOEmbed(this, id, endpoint);
+  },
+};
+
+const VIDEO_FILE = /\.(mp4|webm|ogv|m4v|mov)$/i;
+
+export const mp4Provider: VideoProvider = {
+  name: "mp4",
+  label: "the video host",
+  player: "video",
+  matches(url) {
+    const u = parseUrl(url);
+    return !!u && VIDEO_FILE.test(u.pathname);
+  },
+  // The file URL is the ID
+  extractId(url) {
+    const u = parseUrl(url);
+    if (!u || !VIDEO_FILE.test(u.pathname)) return null;
+    u.hash = "";
+    return u.toString();
+  },
+  // A media fragment (#t=start,end) makes the browser play only that range
+  embedUrl(id, opts = {}) {
+    if (!opts.start && opts.end === undefined) return id;
+    return `${id}#t=${opts.start || 0}${opts.end !== undefined ? `,${opts.end}` : ""}`;
+  },
+  watchUrl: (id) => id,
+  thumbnailUrl: () => null,
+  async validate(url) {
+    const id = this.extractId(url);
+    if (!id) return invalid("mp4");
+    const base: VideoValidation = {
+      provider: "mp4",
+      embeddable: true,
+      id,
+      embedUrl: id,
+      watchUrl: id,
+      reason: "ok",
+    };
+    let r: {
+      ok: boolean;
+      status: number;
+      headers: { get(name: string): string | null };
+    };
+    try {
+      r = await fetch(id, { method: "HEAD" });
+    } catch {
+      // Cross-origin HEADs often fail in the browser; <video> doesn't need CORS
+      return { ...base, reason: "unknown" };
+    }
+    if (r.status === 404 || r.status === 410) {
+      return {
+        ...base,
+        embeddable: false,
+        embedUrl: null,
+        watchUrl: null,
+        reason: "not_found",
+      };
+    }
+    if (r.status === 401 || r.status === 403) {
+      return { ...base, embeddable: false, embedUrl: null, reason: "private" };
+    }
+    if (!r.ok) return { ...base, reason: "unknown" };
+    const type = r.headers.get("content-type") || "";
+    if (type && !/^(video\/|application\/octet-stream)/i.test(type)) {
+      // Served something else, e.g. a login page
+      return {
+        ...base,
+        embeddable: false,
+        embedUrl: null,
+        reason: "embed_disabled",
+      };
+    }
+    return base;
+  },
+};
+
+// In match order; the file provider goes last so host-specific URLs win
+export const VIDEO_PROVIDERS: VideoProvider[] = [
+  youtubeProvider,
+  vimeoProvider,
+  peertubeProvider,
+  mp4Provider,
+];
+
+export function getVideoProvider(url: string): VideoProvider | null {
+  if (!url || typeof url !== "string") return null;
+  return VIDEO_PROVIDERS.find((provider) => provider.matches(url)) || null;
+}
+
+export function isVideoUrl(url: string): boolean {
+  return getVideoProvider(url) !== null;
+}
+
+/**
+ * Validate a video URL with whichever provider handles it; null when none
+ * recognises the URL.
+ */
+export async function validateVideoUrl(
+  url: string
+): Promise<VideoValidation | null> {
+  const provider = getVideoProvider(url);
+  return provider ? provider.validate(url) : null;
+}
@@ -0,0 +1,326 @@
+import { supabaseAdmin } from "./supabaseAdmin";
+import type { Course } from "./types";
+import { extractYouTubeId } from "./youtube";
+
+/**
+ * Review of pending video replacements (see `logVideoReplacementPending` in
+ * video-log.ts) from the replacements dashboard.
+ *
+ * A pending row suggests `replacementId` for `originalId`; other candidates
+ * may be listed in `metadata.alternatives`. Approving (with the suggestion or
+ * a chosen alternative) rewrites every saved course in `user_courses` that
+ * links the original video, then records the decision in `metadata`:
+ * `status`, `reviewedBy`/`reviewedAt` and an append-only `audit` list.
+ * Rejecting only records the decision.
+ *
+ * Everything runs with the service-role client (supabaseAdmin.ts), so
+ * reviewing needs `SUPABASE_SERVICE_ROLE_KEY`: browsers can't write the
+ * review log (see docs/DB_SCHEMA.md) and the courses belong to other users.
+ * Course rows whose update fails are skipped and not counted.
+ */
+
+export type ReplacementStatus = "pending" | "approved" | "rejected";
+
+export type ReplacementCandidate = {
+  id: string; // YouTube video id
+  title?: string | null;
+  author?: string | null;
+  watchUrl?: string | null;
+};
+
+export type ReplacementAuditEntry = {
+  action: "approved" | "rejected";
+  by: string;
+  at: string; // ISO timestamp
+  replacementId?: string;
+  courseIds?: string[]; // saved courses that were rewritten
+  note?: string;
+};
+
+export type ReplacementMetadata = {
+  status?: ReplacementStatus;
+  alternatives?: ReplacementCandidate[];
+  reviewedBy?: string;
+  reviewedAt?: string;
+  audit?: ReplacementAuditEntry[];
+  [key: string]: unknown;
+};
+
+export type ReplacementDecision =
+  | { action: "approve"; reviewer: string; alternativeId?: string }
+  | { action: "reject"; reviewer: string; note?: string };
+
+export type ReviewResult =
+  | {
+      ok: true;
+      status: Exclude<ReplacementStatus, "pending">;
+      replacementId?: string;
+      coursesUpdated: number;
+    }
+  | {
+      ok: false;
+      reason:
+        | "not_configured"
+        | "not_found"
+        | "already_reviewed"
+        | "unknown_alternative"
+        | "no_original"
+        | "error";
+      note?: string;
+    };
+
+export type ReplacementRow = {
+  id: string;
+  originalUrl?: string | null;
+  originalurl?: string | null; // some Supabase setups lowercase column names
+  originalId?: string | null;
+  replacementId?: string | null;
+  replacementTitle?: string | null;
+  replacementAuthor?: string | null;
+  replacementWatchUrl?: string | null;
+  metadata?: ReplacementMetadata | null;
+};
+
+// user_courses rows scanned per request while propagating
+const COURSE_PAGE_SIZE = 200;
+
+const watchUrlOf = (candidate: ReplacementCandidate) =>
+  candidate.watchUrl || `https://www.youtube.com/watch?v=${candidate.id}`;
+
+/**
+ * The candidate an approval installs: the logged suggestion, or the
+ * alternative with `alternativeId`. Null when that id wasn't offered.
+ */
+export function pickReplacement(
+  row: ReplacementRow,
+  alternativeId?: string
+): ReplacementCandidate | null {
+  const suggested: ReplacementCandidate | null = row.replacementId
+    ? {
+        id: row.replacementId,
+        title: row.replacementTitle,
+        author: row.replacementAuthor,
+        watchUrl: row.replacementWatchUrl,
+      }
+    : null;
+  if (!alternativeId) return suggested;
+  if (suggested?.id === alternativeId) return suggested;
+  return (
+    row.metadata?.alternatives?.find((alt) => alt.id === alternativeId) ?? null
+  );
+}
+
+/**
+ * Point every video resource for `originalId` at the replacement, in the
+ * playable lessons and the adaptive source. Mutates `course`; returns how
+ * many resources changed.
+ */
+export function replaceVideoInCourse(
+  course: Course,
+  originalId: string,
+  replacement: ReplacementCandidate
+): number {
+  const watchUrl = watchUrlOf(replacement);
+  let replaced = 0;
+
+  for (const lesson of course.sessions.flatMap((s) => s.lessons)) {
+    for (const resource of lesson.resources || []) {
+      if (extractYouTubeId(resource.url) !== originalId) continue;
+      resource.url = watchUrl;
+      if (replacement.title) resource.title = replacement.title;
+      if (resource.type === "video") {
+        // Timings and the match score belonged to the old video
+        delete resource.timestamps;
+        delete resource.segment;
+        delete resource.chapters;
+        delete resource.matchConfidence;
+      }
+      replaced++;
+    }
+  }
+
+  const adaptiveLessons =
+    course.adaptive_course?.modules.flatMap((m) => m.lessons) || [];
+  for (const lesson of adaptiveLessons) {
+    for (const video of lesson.resources.videos || []) {
+      if (extractYouTubeId(video.url) !== originalId) continue;
+      video.url = watchUrl;
+      video.embedUrl = `https://www.youtube-nocookie.com/embed/${replacement.id}`;
+      if (replacement.title) video.title = replacement.title;
+      // Chapters belonged to the old video
+      delete video.timestamps;
+      delete video.duration;
+      replaced++;
+    }
+  }
+  return replaced;
+}
+
+/**
+ * Rewrite every saved course that links `originalId`.
+ * Returns the ids of the rows that were updated.
+ *
+ * Candidates come from the `courses_linking_video` function, which matches
+ * the id in the course JSON on the database side. Rewritten rows stop
+ * matching, so pages are taken after the last id seen rather than by offset.
+ */
+export async function propagateVideoReplacement(
+  originalId: string,
+  replacement: ReplacementCandidate
+): Promise<string[]> {
+  const db = supabaseAdmin;
+  if (!db) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  const updated: string[] = [];
+  let after: string | null = null;
+  for (;;) {
+    let query = db.rpc("courses_linking_video", {
+      video_id: originalId,
+    } as never);
+    if (after) query = query.gt("id", after);
+    const { data, error } = await query.order("id").limit(COURSE_PAGE_SIZE);
+    if (error) throw error;
+    const rows = (data || []) as { id: string; course: Course | null }[];
+
+    for (const row of rows) {
+      after = row.id;
+      if (!row.course?.sessions) continue;
+      if (replaceVideoInCourse(row.course, originalId, replacement) === 0) {
+        continue;
+      }
+      const { error: updateError } = await db
+        .from("user_courses")
+        .update({ course: row.course } as never)
+        .eq("id", row.id);
+      if (updateError) {
+        console.warn(
+          `[videoReplacementReview] Updating course ${row.id} failed:`,
+          updateError
+        );
+        continue;
+      }
+      updated.push(row.id);
+    }
+    if (rows.length < COURSE_PAGE_SIZE) return updated;
+  }
+}
+
+/**
+ * Approve or reject a pending replacement and record who did it and when.
+ *
+ * The decision is claimed first with an update that only matches while the
+ * row is still pending, so of two concurrent reviews exactly one wins, and
+ * saved courses are only rewritten after the claim succeeded. `reviewer`
+ * must come from the verified session, not from the request body.
+ */
+export async function reviewVideoReplacement(
+  logId: string,
+  decision: ReplacementDecision
+): Promise<ReviewResult> {
+  const db = supabaseAdmin;
+  if (!db) return { ok: false, reason: "not_configured" };
+  try {
+    const { data, error } = await db
+      .from("video_replacements")
+      .select("*")
+      .eq("id", logId)
+      .maybeSingle();
+    if (error) throw error;
+    const row = data as ReplacementRow | null;
+    if (!row) return { ok: false, reason: "not_found" };
+    const metadata: ReplacementMetadata = row.metadata || {};
+    if (metadata.status !== "pending") {
+      return { ok: false, reason: "already_reviewed" };
+    }
+
+    const at = new Date().toISOString();
+    const reviewed = (entry: ReplacementAuditEntry): ReplacementMetadata => ({
+      ...metadata,
+      status: entry.action,
+      reviewedBy: entry.by,
+      reviewedAt: entry.at,
+      audit: [...(metadata.audit || []), entry],
+    });
+    // Applies the update only if the row is still pending; false when
+    // another review got there first
+    const claim = async (changes: Record<string, unknown>) => {
+      const { data: claimed, error: claimError } = await db
+        .from("video_replacements")
+        .update(changes as never)
+        .eq("id", logId)
+        .eq("metadata->>status", "pending")
+        .select("id");
+      if (claimError) throw claimError;
+      return (claimed || []).length > 0;
+    };
+
+    if (decision.action === "reject") {
+      const claimed = await claim({
+        metadata: reviewed({
+          action: "rejected",
+          by: decision.reviewer,
+          at,
+          ...(decision.note ? { note: decision.note } : {}),
+        }),
+      });
+      if (!claimed) return { ok: false, reason: "already_reviewed" };
+      return { ok: true, status: "rejected", coursesUpdated: 0 };
+    }
+
+    const replacement = pickReplacement(row, decision.alternativeId);
+    if (!replacement) return { ok: false, reason: "unknown_alternative" };
+    const originalId =
+      row.originalId ||
+      extractYouTubeId(row.originalUrl || row.originalurl || "");
+    if (!originalId) return { ok: false, reason: "no_original" };
+
+    const entry: ReplacementAuditEntry = {
+      action: "approved",
+      by: decision.reviewer,
+      at,
+      replacementId: replacement.id,
+    };
+    const claimed = await claim({
+      replacementId: replacement.id,
+      replacementTitle: replacement.title ?? null,
+      replacementAuthor: replacement.author ?? null,
+      replacementWatchUrl: watchUrlOf(replacement),
+      metadata: reviewed(entry),
+    });
+    if (!claimed) return { ok: false, reason: "already_reviewed" };
+
+    let courseIds: string[];
+    try {
+      courseIds = await propagateVideoReplacement(originalId, replacement);
+    } catch (e) {
+      // Hand the row back so the approval can be retried; courses already
+      // rewritten no longer link the original and are skipped next time
+      await db
+        .from("video_replacements")
+        .update({
+          replacementId: row.replacementId ?? null,
+          replacementTitle: row.replacementTitle ?? null,
+          replacementAuthor: row.replacementAuthor ?? null,
+          replacementWatchUrl: row.replacementWatchUrl ?? null,
+          metadata,
+        } as never)
+        .eq("id", logId);
+      throw e;
+    }
+
+    const { error: updateError } = await db
+      .from("video_replacements")
+      .update({ metadata: reviewed({ ...entry, courseIds }) } as never)
+      .eq("id", logId);
+    if (updateError) throw updateError;
+    return {
+      ok: true,
+      status: "approved",
+      replacementId: replacement.id,
+      coursesUpdated: courseIds.length,
+    };
+  } catch (e) {
+    console.warn("[videoReplacementReview] Review failed:", e);
+    const note = e instanceof Error ? e.message : String(e);
+    return { ok: false, reason: "error", note };
+  }
+}
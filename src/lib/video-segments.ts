@@ -0,0 +1,174 @@
+import type { Lesson, Resource } from "./types";
+
+/**
+ * Timestamped video segments and chapter markers.
+ *
+ * Generated resources describe the relevant part of a video as free text,
+ * e.g. "2:30-5:15", "from 2m30s to 5m15s" or "0:00 Intro, 2:30 Example 1".
+ * `parseVideoTimestamps` turns that into a segment (the first range, or a
+ * lone timestamp as an open-ended start) and chapter markers (timestamps
+ * with a label), and a normalised string like "2:30-5:15, 3:00 Example 1".
+ *
+ * Accepted timestamps: "1:02:03", "2:30", "150", "150s", "2m30s",
+ * "1h 2m 3s", optionally prefixed with "@" or "t=". Ranges are separated by
+ * "-", "–", "—", "to", "until" or "through", optionally after "from"/"at".
+ * Entries are separated by commas, semicolons, "|" or new lines.
+ */
+
+export type VideoSegment = {
+  start: number; // seconds
+  end?: number; // seconds; open-ended when missing
+};
+
+export type VideoChapter = {
+  time: number; // seconds
+  label: string;
+};
+
+export type VideoTiming = {
+  segment?: VideoSegment;
+  chapters?: VideoChapter[];
+  timestamps?: string; // normalised
+};
+
+// Share of a segment that must be played before it counts as watched
+export const SEGMENT_WATCHED_RATIO = 0.9;
+
+const TIME = String.raw`(?:\d{1,2}:)?\d{1,3}:\d{2}(?:\.\d+)?|\d+\s*h(?:\s*\d+\s*m)?(?:\s*\d+\s*s)?|\d+\s*m(?:\s*\d+\s*s)?|\d+\s*s?`;
+const PREFIX = String.raw`(?:@|t\s*=\s*)?`;
+const RANGE = new RegExp(
+  String.raw`^(?:from|at)?\s*${PREFIX}(${TIME})\s*(?:-|–|—|to|until|through)\s*${PREFIX}(${TIME})(?:\s*[-–—:]?\s+(.+))?$`,
+  "i"
+);
+const MARKER = new RegExp(
+  String.raw`^(?:from|at)?\s*${PREFIX}(${TIME})(?:\s*[-–—:]?\s*(.*))?$`,
+  "i"
+);
+
+/**
+ * Seconds for one timestamp, or null when it isn't one. Bare numbers are
+ * seconds.
+ */
+export function parseTimestamp(text: string): number | null {
+  const value = text
+    .trim()
+    .replace(/^(?:@|t\s*=\s*)/i, "")
+    .toLowerCase();
+  if (!value) return null;
+
+  if (value.includes(":")) {
+    const parts = value.split(":");
+    if (parts.length > 3 || parts.some((p) => !/^\d+(?:\.\d+)?$/.test(p))) {
+      return null;
+    }
+    const [seconds, minutes = 0, hours = 0] = parts
+      .map((p) => Math.floor(Number(p)))
+      .reverse();
+    if (seconds >= 60 || (parts.length === 3 && minutes >= 60)) return null;
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  const units = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+)\s*s?)?$/.exec(
+    value
+  );
+  if (!units || units.slice(1).every((u) => u === undefined)) return null;
+  const [, hours = "0", minutes = "0", seconds = "0"] = units;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+// "2:30", "1:02:03"
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export function formatSegment(segment: VideoSegment): string {
+  return segment.end === undefined
+    ? `${formatTimestamp(segment.start)}-`
+    : `${formatTimestamp(segment.start)}-${formatTimestamp(segment.end)}`;
+}
+
+export function parseVideoTimestamps(text: string | undefined): VideoTiming {
+  let segment: VideoSegment | undefined;
+  const chapters: VideoChapter[] = [];
+
+  for (const entry of (text || "").split(/[,;|\n]+/)) {
+    const item = entry.trim();
+    if (!item) continue;
+
+    const range = RANGE.exec(item);
+    if (range) {
+      const start = parseTimestamp(range[1]);
+      const end = parseTimestamp(range[2]);
+      if (start === null || end === null) continue;
+      if (!segment) {
+        segment = end > start ? { start, end } : { start };
+        if (range[3]) chapters.push({ time: start, label: range[3].trim() });
+      } else {
+        chapters.push({ time: start, label: range[3]?.trim() || "Part" });
+      }
+      continue;
+    }
+
+    const marker = MARKER.exec(item);
+    const time = marker ? parseTimestamp(marker[1]) : null;
+    if (time === null) continue;
+    const label = marker![2]?.trim();
+    if (label) chapters.push({ time, label });
+    else if (!segment) segment = { start: time };
+  }
+
+  chapters.sort((a, b) => a.time - b.time);
+  const normalised = [
+    ...(segment ? [formatSegment(segment)] : []),
+    ...chapters.map((c) => `${formatTimestamp(c.time)} ${c.label}`),
+  ].join(", ");
+
+  return {
+    ...(segment ? { segment } : {}),
+    ...(chapters.length ? { chapters } : {}),
+    ...(normalised ? { timestamps: normalised } : {}),
+  };
+}
+
+/**
+ * Whether enough of a segment was played. `playedSeconds` are whole seconds
+ * of the video the player reported; open-ended segments need `duration`.
+ */
+export function isSegmentWatched(
+  playedSeconds: Iterable<number>,
+  segment: VideoSegment,
+  duration?: number
+): boolean {
+  const end = segment.end ?? duration;
+  if (end === undefined || end <= segment.start) return false;
+  let played = 0;
+  for (const second of new Set(playedSeconds)) {
+    if (second >= segment.start && second < end) played++;
+  }
+  return played >= (end - segment.start) * SEGMENT_WATCHED_RATIO;
+}
+
+// Identifies a watched segment in StoredCourse.watchedSegments
+export function segmentKey(
+  resource: Pick<Resource, "url">,
+  segment: VideoSegment
+) {
+  return `${resource.url}#${formatSegment(segment)}`;
+}
+
+// Video segments in the lesson not yet in `watched` (keys from segmentKey)
+export function unwatchedSegments(
+  lesson: Pick<Lesson, "resources">,
+  watched: string[] = []
+): Resource[] {
+  return (lesson.resources || []).filter(
+    (r) =>
+      r.type === "video" &&
+      r.segment &&
+      !watched.includes(segmentKey(r, r.segment))
+  );
+}
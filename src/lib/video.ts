@@ -3,6 +3,10 @@
  * Handles YouTube URL validation, embeddability checks, and replacement logic
  */
 
+import { extractYouTubeId } from './youtube';
+
+export { extractYouTubeId };
+
 export interface VideoValidationResult {
   isValid: boolean;
   isEmbeddable: boolean;
@@ -12,37 +16,6 @@ export interface VideoValidationResult {
   verifiedSource?: boolean;
 }
 
-/**
- * Extract YouTube video ID from various URL formats
- */
-export function extractYouTubeId(url: string): string | null {
-  try {
-    const u = new URL(url);
-    const host = u.hostname.replace(/^www\./, '');
-
-    // youtube.com/watch?v=VIDEO_ID
-    if (host === 'youtube.com' && u.pathname === '/watch') {
-      return u.searchParams.get('v');
-    }
-
-    // youtube.com/embed/VIDEO_ID
-    if (host === 'youtube.com' && u.pathname.startsWith('/embed/')) {
-      const parts = u.pathname.split('/');
-      return parts[2] || null;
-    }
-
-    // youtu.be/VIDEO_ID
-    if (host === 'youtu.be') {
-      const parts = u.pathname.split('/');
-      return parts[1] || null;
-    }
-
-    return null;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Check if URL is an allowed YouTube format (not Shorts, Live, etc.)
  */
@@ -0,0 +1,128 @@
+import { extractYouTubeId, isYouTubeUrl, validateYouTubeUrl } from "./youtube";
+
+/**
+ * Per-video repair step shared by `/api/youtube-repair-batch` and the link
+ * sweeper (link-health.ts): validate with retries, embed when possible,
+ * otherwise fall back to an external link.
+ */
+
+export type RepairItem = { url: string; title?: string };
+
+export type RepairResult = {
+  originalUrl: string;
+  title?: string;
+  ok: boolean;
+  reason: string; // a YouTubeValidationReason, or invalid_url / playlist / validation_failed
+  embedUrl: string | null;
+  openUrl: string;
+  author?: string;
+  thumbnail?: string;
+  note?: string;
+};
+
+export function isPlaylistUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    return !!u.searchParams.get("list") || u.pathname.includes("/playlist");
+  } catch {
+    return false;
+  }
+}
+
+// Process items with concurrency limit
+export async function processBatch<T, R>(
+  items: T[],
+  processor: (item: T) => Promise<R>,
+  concurrency = 3
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += concurrency) {
+    const batch = items.slice(i, i + concurrency);
+    const batchResults = await Promise.all(batch.map(processor));
+    results.push(...batchResults);
+  }
+  return results;
+}
+
+// Retry wrapper for external API calls
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  delayMs = 1000
+): Promise<T | null> {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch {
+      if (attempt < maxRetries - 1) {
+        await new Promise((r) => setTimeout(r, delayMs * (attempt + 1)));
+      }
+    }
+  }
+  return null;
+}
+
+export async function repairYouTubeItem(
+  item: RepairItem,
+  retryDelayMs = 1000
+): Promise<RepairResult> {
+  const url = String(item?.url || "");
+  const title = item?.title || "";
+
+  if (!isYouTubeUrl(url) || isPlaylistUrl(url)) {
+    return {
+      originalUrl: url,
+      title,
+      ok: true,
+      reason: isPlaylistUrl(url) ? "playlist" : "invalid_url",
+      embedUrl: null,
+      openUrl: url,
+    };
+  }
+
+  // Validate with retry logic
+  const validated = await withRetry(
+    () => validateYouTubeUrl(url),
+    3,
+    retryDelayMs
+  );
+
+  if (!validated) {
+    const id = extractYouTubeId(url);
+    return {
+      originalUrl: url,
+      title,
+      ok: true,
+      reason: "validation_failed",
+      embedUrl: null,
+      openUrl: id ? `https://www.youtube.com/watch?v=${id}` : url,
+      note: "Could not validate video, external link provided",
+    };
+  }
+
+  if (validated.embeddable) {
+    return {
+      originalUrl: url,
+      title,
+      ok: true,
+      reason: "ok",
+      embedUrl: validated.embedUrl,
+      openUrl: validated.watchUrl || url,
+      author: validated.author,
+      thumbnail: validated.thumbnail,
+    };
+  }
+
+  // Not embeddable
+  return {
+    originalUrl: url,
+    title,
+    ok: true,
+    reason: validated.reason || "unembeddable",
+    embedUrl: null,
+    openUrl: validated.watchUrl || url,
+    author: validated.author,
+    thumbnail: validated.thumbnail,
+    note: "Video cannot be embedded, external link provided",
+  };
+}
@@ -7,6 +7,12 @@
  * 3. Video ranking and filtering for educational content
  */
 
+import type { EmbedFn } from "./rag";
+import {
+  assignVideosToLessons,
+  scoreVideoLessonPairs,
+  type MatchMethod,
+} from "./video-matching";
 import { validateYouTubeUrl, type YouTubeValidation } from "./youtube";
 
 export type YouTubeSearchResult = {
@@ -31,6 +37,11 @@ export type ValidatedVideo = {
   thumbnail?: string;
 };
 
+export type VideoMatch = ValidatedVideo & {
+  confidence: number; // 0-1, similarity of the lesson and the video
+  method: MatchMethod;
+};
+
 export type LessonWithQuery = {
   lessonId: string;
   lessonTitle: string;
@@ -226,12 +237,14 @@ function parseDuration(isoDuration?: string): number | null {
 }
 
 /**
- * Match PDF videos to course lessons using semantic similarity
+ * Match PDF videos to course lessons by semantic similarity
  *
  * Strategy:
- * 1. Extract keywords from lesson title + key points
- * 2. Compare with video title using simple keyword matching
- * 3. Return best match for each lesson (or null if no good match)
+ * 1. Validate the PDF videos, keeping the embeddable ones
+ * 2. Score every lesson/video pair: embedding cosine when `embed` is given,
+ *    TF-IDF cosine otherwise (see video-matching.ts)
+ * 3. Assign videos to lessons with the best total score (each video at most
+ *    once); weak pairs stay unmatched
  */
 export async function matchVideosToLessons(
   pdfVideos: Array<{
@@ -240,8 +253,9 @@ export async function matchVideosToLessons(
     watchUrl: string;
     embedUrl?: string;
   }>,
-  lessons: LessonWithQuery[]
-): Promise<Map<string, ValidatedVideo>> {
+  lessons: LessonWithQuery[],
+  opts: { embed?: EmbedFn } = {}
+): Promise<Map<string, VideoMatch>> {
   console.log(
     `🔍 Matching ${pdfVideos.length} PDF videos to ${lessons.length} lessons...`
   );
@@ -268,117 +282,47 @@ export async function matchVideosToLessons(
     }
   }
 
-  if (validatedVideos.length === 0) {
+  if (validatedVideos.length === 0 || lessons.length === 0) {
     console.log(`ℹ️ No valid videos to match`);
     return new Map();
   }
 
-  // Step 2: Calculate match scores for each lesson-video pair
-  const matches = new Map<string, ValidatedVideo>();
-  const usedVideoIds = new Set<string>();
-
-  for (const lesson of lessons) {
-    let bestScore = 0;
-    let bestVideo: ValidatedVideo | null = null;
+  // Step 2: Score every lesson-video pair
+  const similarity = await scoreVideoLessonPairs(
+    lessons.map((lesson) =>
+      [lesson.lessonTitle, ...lesson.keyPoints, lesson.videoSearchQuery]
+        .filter(Boolean)
+        .join(". ")
+    ),
+    validatedVideos.map((video) =>
+      [video.title, video.author].filter(Boolean).join(" - ")
+    ),
+    opts
+  );
 
-    const lessonKeywords = extractKeywords(
-      `${lesson.lessonTitle} ${lesson.keyPoints.join(" ")}`
+  // Step 3: Globally best assignment
+  const matches = new Map<string, VideoMatch>();
+  for (const { lesson, video, confidence } of assignVideosToLessons(
+    similarity
+  )) {
+    const { lessonId, lessonTitle } = lessons[lesson];
+    const match = validatedVideos[video];
+    matches.set(lessonId, {
+      ...match,
+      confidence,
+      method: similarity.method,
+    });
+    console.log(
+      `✅ Matched "${match.title}" to lesson "${lessonTitle}" (${similarity.method} confidence: ${confidence.toFixed(2)})`
     );
-
-    for (const video of validatedVideos) {
-      if (usedVideoIds.has(video.id)) continue; // Each video used once
-
-      const videoKeywords = extractKeywords(video.title);
-      const score = calculateMatchScore(lessonKeywords, videoKeywords);
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestVideo = video;
-      }
-    }
-
-    // Only match if score is above threshold (30% keyword overlap)
-    if (bestVideo && bestScore > 0.3) {
-      matches.set(lesson.lessonId, bestVideo);
-      usedVideoIds.add(bestVideo.id);
-      console.log(
-        `✅ Matched "${bestVideo.title}" to lesson "${lesson.lessonTitle}" (score: ${bestScore.toFixed(2)})`
-      );
-    } else {
-      console.log(`ℹ️ No good video match for lesson "${lesson.lessonTitle}"`);
-    }
   }
+  console.log(
+    `ℹ️ ${lessons.length - matches.size} lessons without a good video match`
+  );
 
   return matches;
 }
 
-/**
- * Extract meaningful keywords from text
- */
-function extractKeywords(text: string): Set<string> {
-  const stopWords = new Set([
-    "the",
-    "a",
-    "an",
-    "and",
-    "or",
-    "but",
-    "in",
-    "on",
-    "at",
-    "to",
-    "for",
-    "of",
-    "with",
-    "by",
-    "from",
-    "as",
-    "is",
-    "was",
-    "are",
-    "be",
-    "been",
-    "this",
-    "that",
-    "these",
-    "those",
-    "it",
-    "its",
-    "you",
-    "your",
-    "we",
-    "tutorial",
-    "guide",
-    "introduction",
-    "learn",
-    "learning",
-    "course",
-  ]);
-
-  const words = text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, " ")
-    .split(/\s+/)
-    .filter((word) => word.length > 2 && !stopWords.has(word));
-
-  return new Set(words);
-}
-
-/**
- * Calculate match score between two keyword sets (Jaccard similarity)
- */
-function calculateMatchScore(
-  keywords1: Set<string>,
-  keywords2: Set<string>
-): number {
-  const intersection = new Set([...keywords1].filter((x) => keywords2.has(x)));
-  const union = new Set([...keywords1, ...keywords2]);
-
-  if (union.size === 0) return 0;
-
-  return intersection.size / union.size;
-}
-
 /**
  * Validate and return the best video from search results
  */
@@ -6,8 +6,9 @@
 */
 
 const YT_OEMBED = "https://www.youtube.com/oembed";
-const YT_VIDEO_URL = (id: string) => `https://www.youtube.com/watch?v=${id}`;
-const YT_EMBED_URL = (id: string) => `https://www.youtube-nocookie.com/embed/${id}`;
+export const YT_VIDEO_URL = (id: string) => `https://www.youtube.com/watch?v=${id}`;
+export const YT_EMBED_URL = (id: string) => `https://www.youtube-nocookie.com/embed/${id}`;
+export const YT_THUMBNAIL_URL = (id: string) => `https://i.ytimg.com/vi/${id}/hqdefault.jpg`;
 
 export type YouTubeValidationReason =
   | "ok"
@@ -32,6 +33,16 @@ export type YouTubeValidation = {
   thumbnail?: string;
 };
 
+export function isYouTubeUrl(url: string): boolean {
+  try {
+    const u = new URL(url);
+    const h = u.hostname.replace(/^www\./, "").replace(/^m\./, "");
+    return h.endsWith("youtube.com") || h === "youtu.be";
+  } catch {
+    return false;
+  }
+}
+
 export function extractYouTubeId(rawUrl: string): string | null {
   if (!rawUrl || typeof rawUrl !== "string") return null;
   try {
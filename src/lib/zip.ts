@@ -0,0 +1,165 @@
+import { inflateRawSync } from "zlib";
+
+/**
+ * Minimal zip support for question bank packages (QTI content packages).
+ *
+ * Reads stored and deflated entries; writes stored (uncompressed) entries,
+ * which every zip reader accepts. No zip64, encryption or multi-disk archives.
+ * Uploads are untrusted, so reading is capped by ReadZipOptions: a small
+ * archive can still inflate to gigabytes (a "zip bomb").
+ */
+
+export type ZipEntry = { path: string; content: Buffer };
+
+export type ReadZipOptions = {
+  include?: (path: string) => boolean; // skipped entries are never inflated
+  maxEntryBytes?: number; // per inflated entry
+  maxTotalBytes?: number; // across all inflated entries
+};
+
+const DEFAULT_MAX_ENTRY_BYTES = 16 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 32 * 1024 * 1024;
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === LOCAL_HEADER;
+}
+
+export function readZip(
+  data: Buffer,
+  {
+    include = () => true,
+    maxEntryBytes = DEFAULT_MAX_ENTRY_BYTES,
+    maxTotalBytes = DEFAULT_MAX_TOTAL_BYTES,
+  }: ReadZipOptions = {}
+): ZipEntry[] {
+  // The end record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (
+    let i = data.length - 22;
+    i >= Math.max(0, data.length - 22 - 0xffff);
+    i--
+  ) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive (no central directory)");
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+  let total = 0;
+  for (let n = 0; n < count; n++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const path = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (path.endsWith("/") || !include(path)) continue;
+
+    // The recorded size can lie; inflation is capped below as well
+    const limit = Math.min(maxEntryBytes, maxTotalBytes - total);
+    if (size > limit) throw tooLarge(path);
+
+    const start =
+      localOffset +
+      30 +
+      data.readUInt16LE(localOffset + 26) +
+      data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(start, start + compressedSize);
+    let content: Buffer;
+    if (method === 0) {
+      content = Buffer.from(raw);
+    } else if (method === 8) {
+      try {
+        content = inflateRawSync(raw, { maxOutputLength: Math.max(1, limit) });
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw tooLarge(path);
+        }
+        throw e;
+      }
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} (${path})`);
+    }
+    if (content.length > limit) throw tooLarge(path);
+    total += content.length;
+    entries.push({ path, content });
+  }
+  return entries;
+}
+
+const tooLarge = (path: string) =>
+  new Error(`Zip archive is too large to read once extracted (${path})`);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function writeZip(
+  files: { path: string; content: string | Buffer }[]
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = Buffer.from(file.path, "utf8");
+    const content = Buffer.isBuffer(file.content)
+      ? file.content
+      : Buffer.from(file.content, "utf8");
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, content);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + content.length;
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIR, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, end]);
+}